@@ -0,0 +1,92 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { roleLabels } from "@shared/auth";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { LogIn, LogOut, UserCircle, Users } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { refreshAccount, useAuth } from "@/hooks/use-auth";
+import { apiRequest } from "@/lib/queryClient";
+import { SignInDialog } from "@/components/SignInDialog";
+import { UserManagementDialog } from "@/components/UserManagementDialog";
+
+// Header account button: sign in and out, see your role, and (for designers) manage users
+export function AccountMenu() {
+  const { toast } = useToast();
+  const { user, signedIn, setupRequired, serverAvailable } = useAuth();
+  const [signInOpen, setSignInOpen] = useState(false);
+  const [usersOpen, setUsersOpen] = useState(false);
+
+  const signOutMutation = useMutation({
+    mutationFn: async () => {
+      return await apiRequest("POST", "/api/auth/logout");
+    },
+    onSuccess: async () => {
+      await refreshAccount();
+      toast({ title: "Signed out" });
+    },
+  });
+
+  // Static hosting without the server: there is nothing to sign in to
+  if (!user && !serverAvailable) return null;
+
+  return (
+    <>
+      {user ? (
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button variant="outline" size="sm" data-testid="button-account">
+              <UserCircle className="h-4 w-4 mr-2" />
+              <span className="max-w-32 truncate">{user.displayName}</span>
+              <Badge variant="secondary" className="ml-2">{roleLabels[user.role]}</Badge>
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="end" className="w-56">
+            <DropdownMenuLabel className="font-normal">
+              <div className="text-sm">{user.displayName}</div>
+              <div className="text-xs text-muted-foreground">
+                {user.username} · {roleLabels[user.role]}
+              </div>
+              {!signedIn && serverAvailable && (
+                <div className="text-xs text-destructive">Session expired - sign in again to sync</div>
+              )}
+            </DropdownMenuLabel>
+            <DropdownMenuSeparator />
+            {!signedIn && serverAvailable && (
+              <DropdownMenuItem onClick={() => setSignInOpen(true)} data-testid="menu-sign-in-again">
+                <LogIn className="h-4 w-4 mr-2" />
+                Sign in again
+              </DropdownMenuItem>
+            )}
+            {user.role === "designer" && signedIn && (
+              <DropdownMenuItem onClick={() => setUsersOpen(true)} data-testid="menu-manage-users">
+                <Users className="h-4 w-4 mr-2" />
+                Manage users
+              </DropdownMenuItem>
+            )}
+            <DropdownMenuItem onClick={() => signOutMutation.mutate()} data-testid="menu-sign-out">
+              <LogOut className="h-4 w-4 mr-2" />
+              Sign out
+            </DropdownMenuItem>
+          </DropdownMenuContent>
+        </DropdownMenu>
+      ) : (
+        <Button variant="outline" size="sm" onClick={() => setSignInOpen(true)} data-testid="button-sign-in">
+          <LogIn className="h-4 w-4 mr-2" />
+          Sign in
+        </Button>
+      )}
+
+      <SignInDialog open={signInOpen} onOpenChange={setSignInOpen} setupRequired={setupRequired} />
+      {user && <UserManagementDialog open={usersOpen} onOpenChange={setUsersOpen} currentUserId={user.id} />}
+    </>
+  );
+}
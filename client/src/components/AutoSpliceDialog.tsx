@@ -0,0 +1,217 @@
+import { useMemo } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import type { Cable, Circuit, FiberStatus, Splitter } from "@shared/schema";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { AlertTriangle, CheckCircle2, XCircle } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { solveAutoSplice, type AutoSpliceSegment } from "@/lib/autoSplice";
+
+interface AutoSpliceDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  mode: "fiber" | "copper";
+  cable: Cable;
+  cableCircuits: Circuit[];
+  enclosureCables: Cable[];
+  enclosureCircuits: Circuit[];
+  projectCircuits: Circuit[];
+  splitters: Splitter[];
+}
+
+export function AutoSpliceDialog({
+  open,
+  onOpenChange,
+  mode,
+  cable,
+  cableCircuits,
+  enclosureCables,
+  enclosureCircuits,
+  projectCircuits,
+  splitters,
+}: AutoSpliceDialogProps) {
+  const { toast } = useToast();
+  const unit = mode === "fiber" ? "Fibers" : "Pairs";
+
+  const { data: fiberStatuses = [] } = useQuery<FiberStatus[]>({
+    queryKey: [`/api/${mode}/fiber-statuses`],
+  });
+
+  const plan = useMemo(() => {
+    if (!open) return null;
+    return solveAutoSplice(cable, cableCircuits, enclosureCables, enclosureCircuits, projectCircuits, splitters, fiberStatuses);
+  }, [open, cable, cableCircuits, enclosureCables, enclosureCircuits, projectCircuits, splitters, fiberStatuses]);
+
+  const cableName = (id: string | null) => enclosureCables.find(c => c.id === id)?.name ?? "another cable";
+
+  // Splitter outputs are shown as ports rather than feed fibers
+  const targetName = (segment: AutoSpliceSegment) => {
+    if (!segment.splitterId) return cableName(segment.feedCableId);
+    const splitter = splitters.find(s => s.id === segment.splitterId);
+    return splitter ? `${splitter.name} (${splitter.ratio} splitter)` : "splitter";
+  };
+  const targetRange = (segment: AutoSpliceSegment) => segment.splitterId
+    ? `ports ${segment.feedFiberStart}-${segment.feedFiberEnd}`
+    : `${unit.toLowerCase()} ${segment.feedFiberStart}-${segment.feedFiberEnd}`;
+
+  const applyMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `/api/${mode}/cables/${cable.id}/auto-splice`, {
+        assignments: plan?.assignments ?? [],
+      });
+      return await response.json() as { splicedCount: number };
+    },
+    onSuccess: async ({ splicedCount }) => {
+      await queryClient.refetchQueries({ queryKey: [`/api/${mode}/circuits/cable`, cable.id] });
+      await queryClient.refetchQueries({ queryKey: [`/api/${mode}/circuits`] });
+      onOpenChange(false);
+      toast({
+        title: "Auto-splice applied",
+        description: `${splicedCount} circuit(s) spliced on ${cable.name}`,
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Failed to apply auto-splice",
+        description: error?.message || "No circuits were changed",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl max-h-[85vh] overflow-y-auto" data-testid="dialog-auto-splice">
+        <DialogHeader>
+          <DialogTitle>Auto-splice {cable.name}</DialogTitle>
+          <DialogDescription>
+            Review the Feed assignments for every unspliced circuit before applying them
+          </DialogDescription>
+        </DialogHeader>
+
+        {plan && (
+          <div className="space-y-4">
+            <div className="flex flex-wrap gap-2 text-sm" data-testid="text-auto-splice-summary">
+              <Badge className="gap-1 bg-green-600 hover:bg-green-700">
+                <CheckCircle2 className="h-3 w-3" />
+                {plan.assignments.length} to splice
+              </Badge>
+              {plan.unmatched.length > 0 && (
+                <Badge variant="secondary" className="gap-1">
+                  <XCircle className="h-3 w-3" />
+                  {plan.unmatched.length} unmatched
+                </Badge>
+              )}
+              {plan.conflicts.length > 0 && (
+                <Badge variant="destructive" className="gap-1">
+                  <AlertTriangle className="h-3 w-3" />
+                  {plan.conflicts.length} conflict{plan.conflicts.length === 1 ? "" : "s"}
+                </Badge>
+              )}
+              {plan.alreadySpliced > 0 && (
+                <span className="text-muted-foreground">{plan.alreadySpliced} already spliced</span>
+              )}
+            </div>
+
+            {plan.assignments.length > 0 && (
+              <div className="rounded-md border">
+                <Table className="text-sm">
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead className="py-1 px-2">Circuit</TableHead>
+                      <TableHead className="py-1 px-2">{unit}</TableHead>
+                      <TableHead className="py-1 px-2">Feed Cable</TableHead>
+                      <TableHead className="py-1 px-2">Feed Circuit</TableHead>
+                      <TableHead className="py-1 px-2">Feed {unit}</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {plan.assignments.flatMap(({ circuit, segments }) =>
+                      segments.map((segment, index) => (
+                        <TableRow key={`${circuit.id}-${index}`} data-testid={`row-auto-splice-${circuit.id}-${index}`}>
+                          <TableCell className="font-mono py-1 px-2">
+                            {segment.circuitId}
+                            {segments.length > 1 && index === 0 && (
+                              <span className="ml-2 text-xs text-muted-foreground">split from {circuit.circuitId}</span>
+                            )}
+                          </TableCell>
+                          <TableCell className="font-mono py-1 px-2">{segment.fiberStart}-{segment.fiberEnd}</TableCell>
+                          <TableCell className="py-1 px-2">{targetName(segment)}</TableCell>
+                          <TableCell className="font-mono py-1 px-2">{segment.splitterId ? "-" : segment.feedCircuitId}</TableCell>
+                          <TableCell className="font-mono py-1 px-2">
+                            {segment.splitterId ? "P" : ""}{segment.feedFiberStart}-{segment.feedFiberEnd}
+                          </TableCell>
+                        </TableRow>
+                      ))
+                    )}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+
+            {plan.unmatched.length > 0 && (
+              <div className="space-y-1" data-testid="list-auto-splice-unmatched">
+                <div className="text-sm font-medium">Unmatched</div>
+                {plan.unmatched.map(({ circuit, ranges, reason }) => (
+                  <div key={circuit.id} className="text-sm text-muted-foreground">
+                    <span className="font-mono text-foreground">{circuit.circuitId}</span>
+                    {ranges.length > 0 && ` (missing ${ranges.map(r => r.start === r.end ? r.start : `${r.start}-${r.end}`).join(", ")})`}
+                    {" - "}{reason}
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {plan.conflicts.length > 0 && (
+              <div className="space-y-1" data-testid="list-auto-splice-conflicts">
+                <div className="text-sm font-medium text-destructive">Conflicts</div>
+                {plan.conflicts.map(({ circuit, segment, conflictingCircuitId, conflictingCableId }, index) => (
+                  <div key={`${circuit.id}-${index}`} className="text-sm text-muted-foreground">
+                    <span className="font-mono text-foreground">{segment.circuitId}</span>
+                    {` - ${targetName(segment)} ${targetRange(segment)} are already used by circuit "${conflictingCircuitId}" on ${cableName(conflictingCableId)}`}
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {plan.assignments.length === 0 && plan.unmatched.length === 0 && plan.conflicts.length === 0 && (
+              <div className="text-center py-6 text-sm text-muted-foreground">
+                Nothing to splice - every circuit on this cable is already spliced.
+              </div>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} data-testid="button-auto-splice-cancel">
+            Cancel
+          </Button>
+          <Button
+            onClick={() => applyMutation.mutate()}
+            disabled={!plan || plan.assignments.length === 0 || applyMutation.isPending}
+            data-testid="button-auto-splice-apply"
+          >
+            {applyMutation.isPending ? "Applying..." : `Apply ${plan?.assignments.length ?? 0} splice(s)`}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
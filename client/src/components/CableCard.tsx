@@ -1,4 +1,4 @@
-import { Cable } from "@shared/schema";
+import { Cable, describeCopperConstruction, getCopperSizeError } from "@shared/schema";
 import { Card, CardContent, CardHeader } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
@@ -15,6 +15,8 @@ interface CableCardProps {
 }
 
 export function CableCard({ cable, isSelected, onSelect, onEdit, onDelete, isValid, mode = "fiber" }: CableCardProps) {
+  // Older copper cables may not fit their binders; the form won't save them until they do
+  const copperSizeError = mode === "copper" ? getCopperSizeError(cable.fiberCount, cable.superUnitSize) : null;
   const bgColor = cable.type === "Feed" 
     ? "bg-green-50 dark:bg-green-950/30" 
     : "bg-blue-50 dark:bg-blue-950/30";
@@ -72,7 +74,24 @@ export function CableCard({ cable, isSelected, onSelect, onEdit, onDelete, isVal
                 {cable.fiberCount} {mode === "fiber" ? "fibers" : "pairs"}
               </span>
             </div>
+            {mode === "fiber" && cable.lengthMeters !== null && cable.lengthMeters !== undefined && (
+              <div>
+                <span className="text-muted-foreground">Length:</span>
+                <span className="ml-1 font-mono font-medium" data-testid={`text-cable-length-${cable.id}`}>
+                  {cable.lengthMeters} m
+                </span>
+              </div>
+            )}
           </div>
+          {mode === "copper" && (
+            <div className="text-xs" data-testid={`text-cable-construction-${cable.id}`}>
+              <span className="text-muted-foreground">Construction:</span>
+              <span className="ml-1 font-medium">{describeCopperConstruction(cable)}</span>
+              {copperSizeError && (
+                <p className="text-destructive" data-testid={`text-cable-size-error-${cable.id}`}>{copperSizeError}</p>
+              )}
+            </div>
+          )}
           <div>
             {isValid ? (
               <Badge className="gap-1 bg-green-600 hover:bg-green-700" data-testid={`badge-cable-pass-${cable.id}`}>
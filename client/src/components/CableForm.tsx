@@ -1,7 +1,17 @@
 import { useState } from "react";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
-import { insertCableSchema, type InsertCable, type Cable, cableTypes } from "@shared/schema";
+import {
+  builtInColorCodes,
+  cableTypes,
+  copperBinderSize,
+  copperSuperUnitSizes,
+  defaultColorCode,
+  insertCableSchema,
+  insertCopperCableSchema,
+  type Cable,
+  type InsertCable,
+} from "@shared/schema";
 import { Button } from "@/components/ui/button";
 import {
   Form,
@@ -14,6 +24,7 @@ import {
 } from "@/components/ui/form";
 import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
+import { Label } from "@/components/ui/label";
 import {
   Select,
   SelectContent,
@@ -24,6 +35,7 @@ import {
 import { Scan } from "lucide-react";
 import { OcrDialog } from "./OcrDialog";
 import { normalizeCircuitId } from "@/lib/circuitIdUtils";
+import { useColorCodes } from "@/hooks/use-color-codes";
 
 interface CableFormProps {
   cable?: Cable;
@@ -35,13 +47,22 @@ interface CableFormProps {
 
 export function CableForm({ cable, onSubmit, onCancel, isLoading, mode = "fiber" }: CableFormProps) {
   const [ocrDialogOpen, setOcrDialogOpen] = useState(false);
+  const customColorCodes = useColorCodes();
   
   const form = useForm<InsertCable>({
-    resolver: zodResolver(insertCableSchema),
+    resolver: zodResolver(mode === "copper" ? insertCopperCableSchema : insertCableSchema),
     defaultValues: cable ? {
       name: cable.name,
       fiberCount: cable.fiberCount,
       type: cable.type as "Feed" | "Distribution",
+      lengthMeters: cable.lengthMeters,
+      attenuation1310: cable.attenuation1310,
+      attenuation1550: cable.attenuation1550,
+      tubeCount: cable.tubeCount,
+      fibersPerTube: cable.fibersPerTube,
+      ribbonsPerTube: cable.ribbonsPerTube,
+      colorCode: cable.colorCode,
+      superUnitSize: cable.superUnitSize,
     } : {
       name: "",
       fiberCount: mode === "fiber" ? 24 : 50,
@@ -50,6 +71,20 @@ export function CableForm({ cable, onSubmit, onCancel, isLoading, mode = "fiber"
     },
   });
   
+  const looseTube = form.watch("fibersPerTube") != null;
+
+  // Switching to loose tube starts from 12-fiber tubes, enough of them for the whole cable
+  const setConstruction = (construction: string) => {
+    if (construction === "loose-tube") {
+      form.setValue("fibersPerTube", 12);
+      form.setValue("tubeCount", Math.ceil((form.getValues("fiberCount") || 12) / 12));
+    } else {
+      form.setValue("fibersPerTube", null);
+      form.setValue("tubeCount", null);
+      form.setValue("ribbonsPerTube", null);
+    }
+  };
+
   // Custom submit handler that normalizes circuit IDs
   const handleFormSubmit = (data: InsertCable) => {
     // Normalize circuit IDs if they exist
@@ -125,6 +160,180 @@ export function CableForm({ cable, onSubmit, onCancel, isLoading, mode = "fiber"
           )}
         />
 
+        {mode === "copper" && (
+          <FormField
+            control={form.control}
+            name="superUnitSize"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Construction</FormLabel>
+                <Select
+                  value={field.value ? String(field.value) : "binders"}
+                  onValueChange={(value) => field.onChange(value === "binders" ? null : parseInt(value))}
+                >
+                  <FormControl>
+                    <SelectTrigger data-testid="select-cable-superUnitSize">
+                      <SelectValue />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    <SelectItem value="binders">{copperBinderSize}-pair binders</SelectItem>
+                    {copperSuperUnitSizes.map(size => (
+                      <SelectItem key={size} value={String(size)}>{size}-pair super units</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <FormDescription>
+                  Cables over 600 pairs gather their binder groups into super units, each with its own binder tape
+                </FormDescription>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        )}
+
+        {mode === "fiber" && (
+          <div className="space-y-3">
+            <div className="space-y-2">
+              <Label>Construction</Label>
+              <Select value={looseTube ? "loose-tube" : "ribbon"} onValueChange={setConstruction}>
+                <SelectTrigger data-testid="select-cable-construction">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="ribbon">Ribbon (12 fibers per ribbon)</SelectItem>
+                  <SelectItem value="loose-tube">Loose tube</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            {looseTube && (
+              <div className="grid grid-cols-3 gap-3">
+                <FormField
+                  control={form.control}
+                  name="fibersPerTube"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Fibers per tube</FormLabel>
+                      <FormControl>
+                        <Input
+                          type="number"
+                          min={1}
+                          placeholder="e.g., 6, 12, 24"
+                          value={field.value ?? ""}
+                          onChange={(e) => {
+                            const fibersPerTube = parseInt(e.target.value) || 0;
+                            field.onChange(fibersPerTube);
+                            if (fibersPerTube > 0) form.setValue("tubeCount", Math.ceil(form.getValues("fiberCount") / fibersPerTube));
+                          }}
+                          data-testid="input-cable-fibersPerTube"
+                        />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="tubeCount"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Tubes</FormLabel>
+                      <FormControl>
+                        <Input
+                          type="number"
+                          min={1}
+                          value={field.value ?? ""}
+                          onChange={(e) => field.onChange(parseInt(e.target.value) || 0)}
+                          data-testid="input-cable-tubeCount"
+                        />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="ribbonsPerTube"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Ribbons per tube</FormLabel>
+                      <FormControl>
+                        <Input
+                          type="number"
+                          min={1}
+                          placeholder="Loose fibers"
+                          value={field.value ?? ""}
+                          onChange={(e) => field.onChange(e.target.value === "" ? null : parseInt(e.target.value) || 0)}
+                          data-testid="input-cable-ribbonsPerTube"
+                        />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+            )}
+            <FormField
+              control={form.control}
+              name="colorCode"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Color code</FormLabel>
+                  <Select value={field.value ?? defaultColorCode.id} onValueChange={field.onChange}>
+                    <FormControl>
+                      <SelectTrigger data-testid="select-cable-colorCode">
+                        <SelectValue />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      {[...builtInColorCodes, ...customColorCodes].map(code => (
+                        <SelectItem key={code.id} value={code.id}>{code.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormDescription>
+                    Colors of the fibers in each ribbon or tube, and of the tubes
+                  </FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+          </div>
+        )}
+
+        {mode === "fiber" && (
+          <div className="grid grid-cols-3 gap-3">
+            {([
+              { name: "lengthMeters", label: "Length (m)", placeholder: "e.g., 1200", step: "1" },
+              { name: "attenuation1310", label: "dB/km 1310", placeholder: "Default", step: "0.01" },
+              { name: "attenuation1550", label: "dB/km 1550", placeholder: "Default", step: "0.01" },
+            ] as const).map(({ name, label, placeholder, step }) => (
+              <FormField
+                key={name}
+                control={form.control}
+                name={name}
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>{label}</FormLabel>
+                    <FormControl>
+                      <Input
+                        type="number"
+                        min={0}
+                        step={step}
+                        placeholder={placeholder}
+                        value={field.value ?? ""}
+                        onChange={(e) => field.onChange(e.target.value === "" ? null : parseFloat(e.target.value))}
+                        data-testid={`input-cable-${name}`}
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            ))}
+          </div>
+        )}
+
         {!cable && (
           <FormField
             control={form.control}
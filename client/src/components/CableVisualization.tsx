@@ -1,85 +1,194 @@
-import { Cable, Splice, getRibbonNumber } from "@shared/schema";
+import { useEffect, useMemo, useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import {
+  describeCableConstruction,
+  fiberStatusValues,
+  getCableColorCode,
+  getFiberGroupSize,
+  type Cable,
+  type Circuit,
+  type FiberStatus,
+} from "@shared/schema";
 import { Card, CardContent, CardHeader } from "@/components/ui/card";
-import { FiberRibbon } from "./FiberRibbon";
 import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Progress } from "@/components/ui/progress";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { FiberRibbon } from "./FiberRibbon";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { useColorCodes } from "@/hooks/use-color-codes";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { fiberStatusColors, fiberStatusLabels, summarizeCableUtilization } from "@/lib/fiberStatus";
 
 interface CableVisualizationProps {
+  mode: "fiber" | "copper";
   cable: Cable;
-  splices: Splice[];
-  position: "left" | "middle" | "right";
+  circuits: Circuit[];
+  statuses: Map<string, FiberStatus>;
 }
 
-export function CableVisualization({ cable, splices, position }: CableVisualizationProps) {
-  const ribbonCount = Math.ceil(cable.fiberCount / cable.ribbonSize);
-  const ribbons = Array.from({ length: ribbonCount }, (_, i) => i + 1);
+// Select value for taking the status off the picked fibers
+const clearStatus = "clear";
 
-  const relatedSplices = splices.filter(
-    (s) => s.sourceCableId === cable.id || s.destinationCableId === cable.id
-  );
+// Every fiber of a cable by ribbon with its status, how much of the cable is used, and status editing
+export function CableVisualization({ mode, cable, circuits, statuses }: CableVisualizationProps) {
+  const { toast } = useToast();
+  const { canEditDesign } = useAuth();
+  const [selectedFibers, setSelectedFibers] = useState<number[]>([]);
+  const [lastClicked, setLastClicked] = useState<number | null>(null);
+  const [status, setStatus] = useState<string>("live");
+  const [note, setNote] = useState("");
 
-  const highlightedFibers = new Set<number>();
-  relatedSplices.forEach((splice) => {
-    if (splice.sourceCableId === cable.id) {
-      for (let i = splice.sourceStartFiber; i <= splice.sourceEndFiber; i++) {
-        highlightedFibers.add(i);
-      }
-    }
-    if (splice.destinationCableId === cable.id) {
-      for (let i = splice.destinationStartFiber; i <= splice.destinationEndFiber; i++) {
-        highlightedFibers.add(i);
-      }
-    }
+  const groupCount = Math.ceil(cable.fiberCount / getFiberGroupSize(cable));
+  const groups = Array.from({ length: groupCount }, (_, i) => i + 1);
+  const unit = mode === "fiber" ? "fibers" : "pairs";
+  const colorCodes = useColorCodes();
+  const colorCode = getCableColorCode(cable, colorCodes);
+
+  const utilization = useMemo(() => summarizeCableUtilization(cable, circuits, statuses), [cable, circuits, statuses]);
+  const assignedPercent = cable.fiberCount > 0 ? Math.round((utilization.assigned / cable.fiberCount) * 100) : 0;
+
+  // A different cable starts with nothing picked
+  useEffect(() => {
+    setSelectedFibers([]);
+    setLastClicked(null);
+  }, [cable.id]);
+
+  const statusMutation = useMutation({
+    mutationFn: async () => {
+      return await apiRequest("PUT", `/api/${mode}/fiber-statuses`, {
+        cableId: cable.id,
+        fibers: selectedFibers,
+        status: status === clearStatus ? null : status,
+        note: note.trim() || null,
+      });
+    },
+    onSuccess: async () => {
+      await queryClient.invalidateQueries({ queryKey: [`/api/${mode}/fiber-statuses`] });
+      setSelectedFibers([]);
+      setNote("");
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to set fiber status", description: error.message, variant: "destructive" });
+    },
   });
 
+  // Click picks or drops a fiber; shift-click picks every fiber from the last one clicked
+  const handleFiberClick = (fiber: number, shiftKey: boolean) => {
+    if (!canEditDesign) return;
+    if (shiftKey && lastClicked !== null) {
+      const [start, end] = lastClicked < fiber ? [lastClicked, fiber] : [fiber, lastClicked];
+      const range = Array.from({ length: end - start + 1 }, (_, i) => start + i);
+      setSelectedFibers(Array.from(new Set([...selectedFibers, ...range])).sort((a, b) => a - b));
+    } else {
+      setSelectedFibers(selectedFibers.includes(fiber)
+        ? selectedFibers.filter(f => f !== fiber)
+        : [...selectedFibers, fiber].sort((a, b) => a - b));
+    }
+    setLastClicked(fiber);
+  };
+
   return (
-    <Card className="min-w-[240px] max-w-[280px]" data-testid={`card-cable-viz-${cable.id}`}>
-      <CardHeader className="pb-3">
+    <Card data-testid={`card-cable-viz-${cable.id}`}>
+      <CardHeader className="pb-3 space-y-3">
         <div className="flex items-center justify-between gap-2">
           <h3 className="font-mono font-semibold text-sm truncate" data-testid={`text-viz-cable-name-${cable.id}`}>
             {cable.name}
           </h3>
-          <Badge variant="secondary" className="text-xs font-mono" data-testid={`badge-viz-cable-count-${cable.id}`}>
-            {cable.fiberCount}
-          </Badge>
+          <div className="flex items-center gap-2">
+            <Badge variant="outline" className="text-xs" data-testid={`badge-viz-cable-type-${cable.id}`}>
+              {cable.type}
+            </Badge>
+            {mode === "fiber" && (
+              <Badge variant="outline" className="text-xs" data-testid={`badge-viz-cable-construction-${cable.id}`}>
+                {describeCableConstruction(cable)}, {colorCode.name}
+              </Badge>
+            )}
+            <Badge variant="secondary" className="text-xs font-mono" data-testid={`badge-viz-cable-count-${cable.id}`}>
+              {cable.fiberCount}
+            </Badge>
+          </div>
+        </div>
+
+        <div className="space-y-1" data-testid={`text-viz-utilization-${cable.id}`}>
+          <div className="flex flex-wrap justify-between gap-2 text-sm">
+            <span>
+              {utilization.assigned} of {cable.fiberCount} {unit} in circuits ({assignedPercent}%), {utilization.spliced} spliced
+            </span>
+            <span className="text-muted-foreground">{utilization.available} available</span>
+          </div>
+          <Progress value={assignedPercent} className="h-2" />
         </div>
-        <div className="flex items-center gap-2">
-          <Badge variant="outline" className="text-xs" data-testid={`badge-viz-cable-type-${cable.id}`}>
-            {cable.type}
-          </Badge>
+
+        <div className="flex flex-wrap gap-3 text-xs">
+          {fiberStatusValues.map(value => (
+            <span key={value} className="inline-flex items-center gap-1" data-testid={`text-viz-status-count-${value}`}>
+              <span className={`inline-block h-2 w-3 rounded-sm ${fiberStatusColors[value]}`} />
+              {fiberStatusLabels[value]} {utilization.statusCounts[value]}
+            </span>
+          ))}
+          <span className="text-muted-foreground" data-testid="text-viz-status-count-unset">
+            No status {utilization.unset}
+          </span>
         </div>
       </CardHeader>
       <CardContent className="space-y-2">
-        {ribbons.map((ribbonNum) => (
+        {groups.map((groupNumber) => (
           <FiberRibbon
-            key={ribbonNum}
-            cableId={cable.id}
-            ribbonNumber={ribbonNum}
-            startFiber={1}
-            endFiber={cable.fiberCount}
-            ribbonSize={cable.ribbonSize}
-            highlightedFibers={Array.from(highlightedFibers)}
+            key={groupNumber}
+            cable={cable}
+            groupNumber={groupNumber}
+            colorCode={colorCode}
+            highlightedFibers={selectedFibers}
+            statuses={statuses}
+            onFiberClick={handleFiberClick}
           />
         ))}
-        
-        {relatedSplices.length > 0 && (
-          <div className="pt-2 space-y-1 border-t">
-            {relatedSplices.map((splice) => {
-              const isSource = splice.sourceCableId === cable.id;
-              const ponRange = splice.ponStart && splice.ponEnd
-                ? `pon,${splice.ponStart}-${splice.ponEnd}`
-                : null;
-              const fiberRange = isSource
-                ? `${splice.sourceStartFiber}-${splice.sourceEndFiber}`
-                : `${splice.destinationStartFiber}-${splice.destinationEndFiber}`;
 
-              return (
-                <div key={splice.id} className="text-[10px] font-mono text-muted-foreground">
-                  {ponRange && <div data-testid={`text-viz-pon-${splice.id}`}>{ponRange}</div>}
-                  <div data-testid={`text-viz-fiber-range-${splice.id}`}>{fiberRange}</div>
-                </div>
-              );
-            })}
-          </div>
+        {canEditDesign && (
+          selectedFibers.length > 0 ? (
+            <div className="flex flex-wrap items-center gap-2 pt-2 border-t" data-testid="toolbar-fiber-status">
+              <span className="text-sm">{selectedFibers.length} selected</span>
+              <Select value={status} onValueChange={setStatus}>
+                <SelectTrigger className="w-36" data-testid="select-fiber-status">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {fiberStatusValues.map(value => (
+                    <SelectItem key={value} value={value}>{fiberStatusLabels[value]}</SelectItem>
+                  ))}
+                  <SelectItem value={clearStatus}>Clear status</SelectItem>
+                </SelectContent>
+              </Select>
+              <Input
+                className="flex-1 min-w-32"
+                placeholder="Note (optional)"
+                maxLength={500}
+                value={note}
+                onChange={(e) => setNote(e.target.value)}
+                disabled={status === clearStatus}
+                data-testid="input-fiber-status-note"
+              />
+              <Button size="sm" onClick={() => statusMutation.mutate()} disabled={statusMutation.isPending} data-testid="button-apply-fiber-status">
+                Apply
+              </Button>
+              <Button size="sm" variant="ghost" onClick={() => setSelectedFibers([])} data-testid="button-clear-fiber-selection">
+                Cancel
+              </Button>
+            </div>
+          ) : (
+            <div className="pt-2 text-xs text-muted-foreground">
+              Click {unit} to set their status; shift-click picks a range
+            </div>
+          )
         )}
       </CardContent>
     </Card>
@@ -1,15 +1,35 @@
 import { useState, useMemo } from "react";
 import { useQuery, useMutation } from "@tanstack/react-query";
-import { Circuit, Cable, InsertCircuit } from "@shared/schema";
+import {
+  Circuit,
+  Cable,
+  Enclosure,
+  FiberMarking,
+  InsertCircuit,
+  SpliceMethod,
+  Splitter,
+  formatFiberGroup,
+  formatFiberMarking,
+  formatPairColors,
+  getCableColorCode,
+  getFiberGroupSize,
+  getFiberMarking,
+  getFiberPosition,
+  getPairColors,
+  getPairPosition,
+  getSplitterPortRange,
+  isLooseTube,
+} from "@shared/schema";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Badge } from "@/components/ui/badge";
 import { Checkbox } from "@/components/ui/checkbox";
-import { Plus, Trash2, CheckCircle2, XCircle, Edit2, Check, X, ChevronUp, ChevronDown, Scan } from "lucide-react";
+import { Plus, Trash2, CheckCircle2, XCircle, Edit2, Check, X, ChevronUp, ChevronDown, Scan, Route, Wand2 } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { queryClient, apiRequest } from "@/lib/queryClient";
+import { history } from "@/lib/history";
 import {
   Table,
   TableBody,
@@ -19,6 +39,11 @@ import {
   TableRow,
 } from "@/components/ui/table";
 import { OcrDialog } from "./OcrDialog";
+import { TraceDialog } from "./TraceDialog";
+import { AutoSpliceDialog } from "./AutoSpliceDialog";
+import { useAuth } from "@/hooks/use-auth";
+import { useColorCodes } from "@/hooks/use-color-codes";
+import { fiberStripeStyle } from "@/lib/fiberColors";
 import { normalizeCircuitId } from "@/lib/circuitIdUtils";
 
 interface CircuitManagementProps {
@@ -28,23 +53,41 @@ interface CircuitManagementProps {
 
 export function CircuitManagement({ cable, mode = "fiber" }: CircuitManagementProps) {
   const { toast } = useToast();
+  const { canEditDesign } = useAuth();
+  const colorCodes = useColorCodes();
+  const colorCode = getCableColorCode(cable, colorCodes);
   const [circuitId, setCircuitId] = useState("");
   const [editingCircuitId, setEditingCircuitId] = useState<string | null>(null);
   const [editingCircuitValue, setEditingCircuitValue] = useState("");
   const [ocrDialogOpen, setOcrDialogOpen] = useState(false);
+  const [traceCircuit, setTraceCircuit] = useState<Circuit | null>(null);
+  const [autoSpliceOpen, setAutoSpliceOpen] = useState(false);
 
   const { data: circuits = [], isLoading } = useQuery<Circuit[]>({
     queryKey: [`/api/${mode}/circuits/cable`, cable.id],
   });
 
-  const { data: allCables = [] } = useQuery<Cable[]>({
+  const { data: projectCables = [] } = useQuery<Cable[]>({
     queryKey: [`/api/${mode}/cables`],
   });
 
-  const { data: allCircuits = [] } = useQuery<Circuit[]>({
+  const { data: projectCircuits = [] } = useQuery<Circuit[]>({
     queryKey: [`/api/${mode}/circuits`],
   });
 
+  const { data: enclosures = [] } = useQuery<Enclosure[]>({
+    queryKey: [`/api/${mode}/enclosures`],
+  });
+
+  const { data: projectSplitters = [] } = useQuery<Splitter[]>({
+    queryKey: [`/api/${mode}/splitters`],
+  });
+
+  // Feed matching only considers cables and splitters in the same enclosure
+  const allCables = projectCables.filter(c => c.enclosureId === cable.enclosureId);
+  const splitters = projectSplitters.filter(s => s.enclosureId === cable.enclosureId);
+  const allCircuits = projectCircuits.filter(c => allCables.some(fc => fc.id === c.cableId));
+
   const createCircuitMutation = useMutation({
     mutationFn: async (data: InsertCircuit) => {
       return await apiRequest("POST", `/api/${mode}/circuits`, data);
@@ -88,14 +131,16 @@ export function CircuitManagement({ cable, mode = "fiber" }: CircuitManagementPr
   });
 
   const toggleSplicedMutation = useMutation({
-    mutationFn: async ({ circuitId, feedCableId, feedFiberStart, feedFiberEnd }: {
+    mutationFn: async ({ circuitId, feedCableId, splitterId, feedFiberStart, feedFiberEnd }: {
       circuitId: string;
       feedCableId?: string;
+      splitterId?: string;
       feedFiberStart?: number;
       feedFiberEnd?: number;
     }) => {
       return await apiRequest("PATCH", `/api/${mode}/circuits/${circuitId}/toggle-spliced`, {
         feedCableId,
+        splitterId,
         feedFiberStart,
         feedFiberEnd
       });
@@ -142,6 +187,19 @@ export function CircuitManagement({ cable, mode = "fiber" }: CircuitManagementPr
     },
   });
 
+  const spliceMethodMutation = useMutation({
+    mutationFn: async ({ id, spliceMethod }: { id: string; spliceMethod: SpliceMethod }) => {
+      return await apiRequest("PATCH", `/api/${mode}/circuits/${id}`, { spliceMethod });
+    },
+    onSuccess: async () => {
+      await queryClient.refetchQueries({ queryKey: [`/api/${mode}/circuits/cable`, cable.id] });
+      await queryClient.refetchQueries({ queryKey: [`/api/${mode}/circuits`] });
+    },
+    onError: (error: any) => {
+      toast({ title: "Failed to change splice method", description: error.message, variant: "destructive" });
+    },
+  });
+
   const moveCircuitMutation = useMutation({
     mutationFn: async ({ id, direction }: { id: string; direction: "up" | "down" }) => {
       return await apiRequest("PATCH", `/api/${mode}/circuits/${id}/move`, { direction });
@@ -184,6 +242,38 @@ export function CircuitManagement({ cable, mode = "fiber" }: CircuitManagementPr
 
       console.log(`[SPLICE] Checking circuit: ${circuit.circuitId}, distStart: ${distStart}, distEnd: ${distEnd}`);
 
+      // Circuits whose prefix and range fall on a splitter's output ports land on the splitter
+      const matchingSplitter = splitters.find(s => {
+        const { rangeStart, rangeEnd } = getSplitterPortRange(s);
+        return s.portPrefix === distributionPrefix && distStart >= rangeStart && distEnd <= rangeEnd;
+      });
+
+      if (matchingSplitter) {
+        const portStart = distStart - matchingSplitter.portStart + 1;
+        const portEnd = distEnd - matchingSplitter.portStart + 1;
+
+        const portInUse = allCircuits.find(c =>
+          c.id !== circuit.id && c.isSpliced === 1 && c.splitterId === matchingSplitter.id &&
+          portStart <= (c.feedFiberEnd ?? 0) && (c.feedFiberStart ?? 0) <= portEnd
+        );
+        if (portInUse) {
+          toast({
+            title: "Splitter ports already in use",
+            description: `${matchingSplitter.name} ports ${portStart}-${portEnd} are already used by circuit "${portInUse.circuitId}"`,
+            variant: "destructive",
+          });
+          return;
+        }
+
+        toggleSplicedMutation.mutate({
+          circuitId: circuit.id,
+          splitterId: matchingSplitter.id,
+          feedFiberStart: portStart,
+          feedFiberEnd: portEnd,
+        });
+        return;
+      }
+
       // Find ALL matching feed circuits that this distribution range overlaps with
       const matchingFeedCircuits = allCircuits.filter(c => {
         const feedCable = allCables.find(cable => cable.id === c.cableId);
@@ -261,7 +351,9 @@ export function CircuitManagement({ cable, mode = "fiber" }: CircuitManagementPr
           });
         }
 
-        // Update the original circuit to become the first split, then create additional splits
+        // Update the original circuit to become the first split, then create additional splits.
+        // All of the requests below are recorded as a single undo step.
+        await history.beginGroup(mode);
         try {
           // First split: update the existing circuit
           const firstSplit = splits[0];
@@ -374,6 +466,9 @@ export function CircuitManagement({ cable, mode = "fiber" }: CircuitManagementPr
             title: "Failed to split circuit",
             variant: "destructive",
           });
+        } finally {
+          await history.endGroup("Split and splice circuit", mode);
+          await queryClient.invalidateQueries({ queryKey: [`/api/${mode}/history`] });
         }
       } else {
         // Single feed cable - process normally
@@ -609,54 +704,85 @@ export function CircuitManagement({ cable, mode = "fiber" }: CircuitManagementPr
       }
       return pairColors[(num - 1) % 25];
     } else {
-      if (num < 1) {
-        console.error(`Invalid fiber/ribbon number: ${num}`);
-        return fiberColors[0]; // Default to blue
-      }
-      return fiberColors[(num - 1) % 12];
+      return getFiberColorStyle(getFiberMarkingForNumber(num));
     }
   };
 
-  const getRibbonAndStrandDisplay = (fiberStart: number, fiberEnd: number, ribbonSize: number) => {
+  // Fiber ribbons, tubes and strands follow the cable's color code
+  const getFiberMarkingForNumber = (num: number): FiberMarking => {
+    if (num < 1) {
+      console.error(`Invalid fiber/ribbon number: ${num}`);
+      return getFiberMarking(colorCode, 0);
+    }
+    return getFiberMarking(colorCode, num - 1);
+  };
+  const getFiberColorStyle = (marking: FiberMarking) => fiberColors.find(c => c.name === marking.color) ?? fiberColors[0];
+
+  // Ribbons (binders for copper) or buffer tubes of loose-tube cables, each with its strand range
+  const getRibbonAndStrandDisplay = (fiberStart: number, fiberEnd: number) => {
+    const ribbonSize = getFiberGroupSize(cable);
     const startRibbon = Math.ceil(fiberStart / ribbonSize);
     const endRibbon = Math.ceil(fiberEnd / ribbonSize);
 
     const startStrand = ((fiberStart - 1) % ribbonSize) + 1;
     const endStrand = ((fiberEnd - 1) % ribbonSize) + 1;
 
-    const containerLabel = mode === 'copper' ? 'B' : 'R'; // Binder vs Ribbon
-
-    const ColoredRibbon = ({ num }: { num: number }) => {
+    const ColoredRibbon = ({ num: groupNumber }: { num: number }) => {
+      // Fiber bundles are labelled and colored by their tube when the cable has tubes
+      const position = getFiberPosition(cable, (groupNumber - 1) * ribbonSize + 1);
+      const label = formatFiberGroup(position);
+      const num = position.tube ?? position.ribbon ?? groupNumber;
       const color = getColorForNumber(num);
 
-      // For copper mode, use striped gradient for binder labels with proper text contrast
+      // For copper mode, use striped gradient for binder labels with proper text contrast, after the
+      // super unit's own binder tape on cables that have them
       if (mode === 'copper') {
-        const copperColor = color as typeof pairColors[number];
-        const gradient = makeGradient(copperColor);
+        const pairPosition = getPairPosition(cable, (groupNumber - 1) * ribbonSize + 1);
+        const superUnit = pairPosition.superUnit;
         return (
-          <span
-            className="inline-block px-2 py-0.5 rounded border-2 border-black font-mono font-semibold text-xs"
-            style={gradient}
-          >
-            {containerLabel}{num}
+          <span className="inline-flex items-center gap-0.5">
+            {superUnit !== null && (
+              <span
+                className="inline-block px-2 py-0.5 rounded border-2 border-black font-mono font-semibold text-xs"
+                style={makeGradient(getColorForNumber(superUnit) as typeof pairColors[number])}
+                title={`Super unit ${superUnit} (${formatPairColors(getPairColors(superUnit - 1))})`}
+              >
+                U{superUnit}
+              </span>
+            )}
+            <span
+              className="inline-block px-2 py-0.5 rounded border-2 border-black font-mono font-semibold text-xs"
+              style={makeGradient(getColorForNumber(pairPosition.binder) as typeof pairColors[number])}
+              title={`Binder ${pairPosition.binder} (${formatPairColors(getPairColors(pairPosition.binder - 1))})`}
+            >
+              B{pairPosition.binder}
+            </span>
           </span>
         );
       }
 
       // Fiber mode styling
-      const needsInvertedStyle = (num - 1) % 12 === 5; // Index 5 = white for fiber
+      const marking = getFiberMarkingForNumber(num);
+      const needsInvertedStyle = marking.color === "white";
 
       if (needsInvertedStyle) {
         return (
-          <span className="inline-block px-2 py-0.5 rounded border-2 border-black bg-slate-300 text-white font-mono font-semibold text-xs">
-            {containerLabel}{num}
+          <span
+            className="inline-block px-2 py-0.5 rounded border-2 border-black bg-slate-300 text-white font-mono font-semibold text-xs"
+            title={formatFiberMarking(marking)}
+          >
+            {label}
           </span>
         );
       }
 
       return (
-        <span className={`inline-block px-2 py-0.5 rounded border-2 ${color.colorClass} font-mono font-semibold text-xs`} style={{ borderColor: 'currentColor' }}>
-          {containerLabel}{num}
+        <span
+          className={`inline-block px-2 py-0.5 rounded border-2 ${color.colorClass} font-mono font-semibold text-xs`}
+          style={{ borderColor: 'currentColor', borderStyle: marking.stripe ? 'dashed' : undefined }}
+          title={formatFiberMarking(marking)}
+        >
+          {label}
         </span>
       );
     };
@@ -677,10 +803,15 @@ export function CircuitManagement({ cable, mode = "fiber" }: CircuitManagementPr
           </span>
         );
       } else {
-        // Fiber mode - use original solid color with Tailwind classes
+        // Fiber mode - solid color with Tailwind classes, and tracer stripes past the end of the color code
         const fiberColor = color as { bg: string; text: string };
+        const marking = getFiberMarkingForNumber(num);
         return (
-          <span className={`inline-block px-2 py-0.5 rounded border border-black ${fiberColor.bg} ${fiberColor.text} font-mono font-semibold text-xs`}>
+          <span
+            className={`inline-block px-2 py-0.5 rounded border border-black ${fiberColor.bg} ${fiberColor.text} font-mono font-semibold text-xs`}
+            style={fiberStripeStyle(marking)}
+            title={formatFiberMarking(marking)}
+          >
             {num}
           </span>
         );
@@ -808,6 +939,18 @@ export function CircuitManagement({ cable, mode = "fiber" }: CircuitManagementPr
               Fail
             </Badge>
           )}
+          {cable.type === "Distribution" && circuits.length > 0 && (
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={() => setAutoSpliceOpen(true)}
+              disabled={!canEditDesign}
+              data-testid="button-auto-splice"
+            >
+              <Wand2 className="h-4 w-4 mr-1" />
+              Auto-splice cable
+            </Button>
+          )}
           <span className="text-sm text-muted-foreground" data-testid="text-cable-size">
             {mode === "fiber" ? "Total Fiber Count" : "Total Pair Count"}: {totalAssignedFibers}/{cable.fiberCount}
           </span>
@@ -827,6 +970,7 @@ export function CircuitManagement({ cable, mode = "fiber" }: CircuitManagementPr
               onKeyDown={(e) => e.key === "Enter" && handleAddCircuit()}
               placeholder="e.g., lg,33-36 or lg 33 36"
               className="text-sm"
+              disabled={!canEditDesign}
             />
           </div>
           <Button
@@ -834,6 +978,7 @@ export function CircuitManagement({ cable, mode = "fiber" }: CircuitManagementPr
             size="icon"
             onClick={() => setOcrDialogOpen(true)}
             title="Extract text from image (OCR)"
+            disabled={!canEditDesign}
             data-testid="button-open-ocr"
           >
             <Scan className="h-4 w-4" />
@@ -842,7 +987,7 @@ export function CircuitManagement({ cable, mode = "fiber" }: CircuitManagementPr
             size="icon"
             data-testid="button-add-circuit"
             onClick={handleAddCircuit}
-            disabled={createCircuitMutation.isPending}
+            disabled={createCircuitMutation.isPending || !canEditDesign}
           >
             <Plus className="h-4 w-4" />
           </Button>
@@ -857,30 +1002,45 @@ export function CircuitManagement({ cable, mode = "fiber" }: CircuitManagementPr
                     <TableHead className="w-[10%]">Splice</TableHead>
                   )}
                   <TableHead className={cable.type === "Distribution" ? "w-[30%]" : "w-[35%]"}>Circuit ID</TableHead>
-                  <TableHead>{mode === "fiber" ? "Ribbons/Strands" : "Binders/Pairs"}</TableHead>
+                  <TableHead>{mode === "copper" ? "Binders/Pairs" : isLooseTube(cable) ? "Tubes/Strands" : "Ribbons/Strands"}</TableHead>
                   <TableHead className="w-[12%]">{mode === "fiber" ? "Fiber Count" : "Pair Count"}</TableHead>
                   <TableHead className="w-[15%] text-right">Actions</TableHead>
                 </TableRow>
               </TableHeader>
               <TableBody>
                 {circuits.map((circuit, index) => {
-                  const ribbonDisplay = getRibbonAndStrandDisplay(
-                    circuit.fiberStart,
-                    circuit.fiberEnd,
-                    cable.ribbonSize
-                  );
+                  const ribbonDisplay = getRibbonAndStrandDisplay(circuit.fiberStart, circuit.fiberEnd);
                   const isEditing = editingCircuitId === circuit.id;
                   
                   return (
                     <TableRow key={circuit.id} data-testid={`row-circuit-${circuit.id}`}>
                       {cable.type === "Distribution" && (
                         <TableCell>
-                          <Checkbox
-                            checked={circuit.isSpliced === 1}
-                            onCheckedChange={(checked) => handleCheckboxChange(circuit, checked as boolean)}
-                            data-testid={`checkbox-spliced-${circuit.id}`}
-                            disabled={isEditing}
-                          />
+                          <div className="flex items-center gap-1">
+                            <Checkbox
+                              checked={circuit.isSpliced === 1}
+                              onCheckedChange={(checked) => handleCheckboxChange(circuit, checked as boolean)}
+                              data-testid={`checkbox-spliced-${circuit.id}`}
+                              disabled={isEditing || !canEditDesign}
+                            />
+                            {mode === "fiber" && circuit.isSpliced === 1 && (
+                              // Fusion unless set otherwise; mechanical splices lose more in the loss budget
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                className="h-6 px-1 text-xs text-muted-foreground"
+                                onClick={() => spliceMethodMutation.mutate({
+                                  id: circuit.id,
+                                  spliceMethod: circuit.spliceMethod === "mechanical" ? "fusion" : "mechanical",
+                                })}
+                                disabled={spliceMethodMutation.isPending || !canEditDesign}
+                                title="Splice method - click to switch"
+                                data-testid={`button-splice-method-${circuit.id}`}
+                              >
+                                {circuit.spliceMethod === "mechanical" ? "Mech" : "Fusion"}
+                              </Button>
+                            )}
+                          </div>
                         </TableCell>
                       )}
                       <TableCell className="font-mono text-sm" data-testid={`text-circuit-id-${circuit.id}`}>
@@ -930,10 +1090,22 @@ export function CircuitManagement({ cable, mode = "fiber" }: CircuitManagementPr
                             </>
                           ) : (
                             <>
+                              {mode === "fiber" && (
+                                <Button
+                                  size="icon"
+                                  variant="ghost"
+                                  onClick={() => setTraceCircuit(circuit)}
+                                  title="Trace fiber path"
+                                  data-testid={`button-trace-circuit-${circuit.id}`}
+                                >
+                                  <Route className="h-4 w-4" />
+                                </Button>
+                              )}
                               <Button
                                 size="icon"
                                 variant="ghost"
                                 onClick={() => handleStartEdit(circuit)}
+                                disabled={!canEditDesign}
                                 data-testid={`button-edit-circuit-${circuit.id}`}
                               >
                                 <Edit2 className="h-4 w-4" />
@@ -942,7 +1114,7 @@ export function CircuitManagement({ cable, mode = "fiber" }: CircuitManagementPr
                                 size="icon"
                                 variant="ghost"
                                 onClick={() => moveCircuitMutation.mutate({ id: circuit.id, direction: "up" })}
-                                disabled={index === 0 || moveCircuitMutation.isPending}
+                                disabled={index === 0 || moveCircuitMutation.isPending || !canEditDesign}
                                 data-testid={`button-move-up-${circuit.id}`}
                               >
                                 <ChevronUp className="h-4 w-4" />
@@ -951,7 +1123,7 @@ export function CircuitManagement({ cable, mode = "fiber" }: CircuitManagementPr
                                 size="icon"
                                 variant="ghost"
                                 onClick={() => moveCircuitMutation.mutate({ id: circuit.id, direction: "down" })}
-                                disabled={index === circuits.length - 1 || moveCircuitMutation.isPending}
+                                disabled={index === circuits.length - 1 || moveCircuitMutation.isPending || !canEditDesign}
                                 data-testid={`button-move-down-${circuit.id}`}
                               >
                                 <ChevronDown className="h-4 w-4" />
@@ -961,7 +1133,7 @@ export function CircuitManagement({ cable, mode = "fiber" }: CircuitManagementPr
                                 variant="ghost"
                                 data-testid={`button-delete-circuit-${circuit.id}`}
                                 onClick={() => deleteCircuitMutation.mutate(circuit.id)}
-                                disabled={deleteCircuitMutation.isPending}
+                                disabled={deleteCircuitMutation.isPending || !canEditDesign}
                               >
                                 <Trash2 className="h-4 w-4" />
                               </Button>
@@ -992,6 +1164,29 @@ export function CircuitManagement({ cable, mode = "fiber" }: CircuitManagementPr
           setCircuitId(prev => prev ? `${prev}\n${text}` : text);
         }}
       />
+
+      <AutoSpliceDialog
+        open={autoSpliceOpen}
+        onOpenChange={setAutoSpliceOpen}
+        mode={mode}
+        cable={cable}
+        cableCircuits={circuits}
+        enclosureCables={allCables}
+        enclosureCircuits={allCircuits}
+        projectCircuits={projectCircuits}
+        splitters={splitters}
+      />
+
+      <TraceDialog
+        open={traceCircuit !== null}
+        onOpenChange={(open) => !open && setTraceCircuit(null)}
+        cables={projectCables}
+        circuits={projectCircuits}
+        enclosures={enclosures}
+        splitters={projectSplitters}
+        initialCableId={cable.id}
+        initialFiber={traceCircuit?.fiberStart}
+      />
     </Card>
   );
 }
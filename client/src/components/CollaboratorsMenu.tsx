@@ -0,0 +1,61 @@
+import { getPeerColor, getPeerInitials, type CollabPeer } from "@shared/collab";
+import type { Cable } from "@shared/schema";
+import { Button } from "@/components/ui/button";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Users } from "lucide-react";
+import { PresenceAvatars } from "@/components/PresenceAvatars";
+import { useAuth } from "@/hooks/use-auth";
+
+interface CollaboratorsMenuProps {
+  peers: CollabPeer[];
+  cables: Cable[];
+}
+
+// Header list of who else has the project open and where
+export function CollaboratorsMenu({ peers, cables }: CollaboratorsMenuProps) {
+  const { user, signedIn } = useAuth();
+
+  const describeLocation = (peer: CollabPeer) => {
+    const cable = cables.find(c => c.id === peer.cableId);
+    if (cable) return `Viewing ${cable.name}`;
+    return peer.tab && peer.tab !== "input" ? "Splicing by ID" : "On the Home tab";
+  };
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button variant="outline" size="sm" data-testid="button-collaborators">
+          {peers.length > 0 ? (
+            <PresenceAvatars peers={peers} />
+          ) : (
+            <Users className="h-4 w-4" />
+          )}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-72 space-y-4">
+        <div className="space-y-2">
+          <div className="text-sm font-medium">
+            {peers.length > 0 ? `${peers.length} other${peers.length === 1 ? "" : "s"} in this project` : "Nobody else is in this project"}
+          </div>
+          {peers.map((peer) => (
+            <div key={peer.clientId} className="flex items-center gap-2 text-sm" data-testid={`collaborator-${peer.clientId}`}>
+              <span
+                className="inline-flex h-6 w-6 shrink-0 items-center justify-center rounded-full text-[10px] font-semibold text-white"
+                style={{ backgroundColor: getPeerColor(peer.clientId) }}
+              >
+                {getPeerInitials(peer.name)}
+              </span>
+              <div className="min-w-0">
+                <div className="truncate">{peer.name}</div>
+                <div className="text-xs text-muted-foreground truncate">{describeLocation(peer)}</div>
+              </div>
+            </div>
+          ))}
+        </div>
+        <div className="border-t pt-3 text-xs text-muted-foreground" data-testid="text-collab-identity">
+          {signedIn && user ? `Others see you as ${user.displayName}` : "Sign in to see and be seen by your team"}
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+}
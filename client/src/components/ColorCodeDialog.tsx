@@ -0,0 +1,244 @@
+import { useEffect, useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { nanoid } from "nanoid";
+import { z } from "zod";
+import {
+  builtInColorCodes,
+  colorCodeSchema,
+  fiberColors,
+  formatFiberMarking,
+  getFiberMarking,
+  parseColorCodes,
+  type ColorCode,
+  type FiberColor,
+  type Project,
+} from "@shared/schema";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Pencil, Plus, Trash2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { fiberStripeStyle } from "@/lib/fiberColors";
+
+interface ColorCodeDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  project: Project;
+}
+
+// Enough positions to show the first repeat of a 12-color code with its tracer stripes
+const previewLength = 24;
+
+function Swatch({ code, index, onClick }: { code: ColorCode; index: number; onClick?: () => void }) {
+  const marking = getFiberMarking(code, index);
+  return (
+    <span
+      className={`inline-flex h-5 w-5 items-center justify-center rounded-sm border border-black/40 text-[9px] font-mono ${onClick ? "cursor-pointer hover-elevate" : ""}`}
+      style={{ backgroundColor: `hsl(var(--fiber-${marking.color}))`, ...fiberStripeStyle(marking) }}
+      title={`${index + 1}: ${formatFiberMarking(marking)}`}
+      onClick={onClick}
+    />
+  );
+}
+
+// The project's own color-code sequences, next to the built-in standards cables can pick from
+export function ColorCodeDialog({ open, onOpenChange, project }: ColorCodeDialogProps) {
+  const { toast } = useToast();
+  const { canEditDesign } = useAuth();
+  const [codes, setCodes] = useState<ColorCode[]>([]);
+  const [editingId, setEditingId] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (open) {
+      setCodes(parseColorCodes(project.colorCodes));
+      setEditingId(null);
+    }
+  }, [open, project.colorCodes]);
+
+  const parsed = z.array(colorCodeSchema).safeParse(codes);
+  const editing = codes.find(c => c.id === editingId);
+  const updateEditing = (changes: Partial<ColorCode>) =>
+    setCodes(codes.map(c => (c.id === editingId ? { ...c, ...changes } : c)));
+
+  const addCode = () => {
+    const code: ColorCode = { id: nanoid(), name: `Custom ${codes.length + 1}`, colors: [...fiberColors], stripe: "black" };
+    setCodes([...codes, code]);
+    setEditingId(code.id);
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async (colorCodes: ColorCode[]) => {
+      return await apiRequest("PATCH", `/api/fiber/projects/${project.id}`, {
+        colorCodes: colorCodes.length > 0 ? JSON.stringify(colorCodes) : null,
+      });
+    },
+    onSuccess: async () => {
+      await queryClient.invalidateQueries({ queryKey: ["/api/fiber/projects"] });
+      await queryClient.invalidateQueries({ queryKey: ["/api/fiber/projects/active"] });
+      onOpenChange(false);
+      toast({ title: "Color codes saved" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to save color codes", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const renderCode = (code: ColorCode, custom: boolean) => (
+    <div
+      key={code.id}
+      className={`flex items-center gap-3 rounded-md border p-2 ${code.id === editingId ? "border-primary" : ""}`}
+      data-testid={`row-color-code-${code.id}`}
+    >
+      <div className="w-28 shrink-0 truncate text-sm font-medium">{code.name}</div>
+      <div className="flex flex-1 flex-wrap gap-0.5">
+        {Array.from({ length: previewLength }, (_, index) => <Swatch key={index} code={code} index={index} />)}
+      </div>
+      {custom && (
+        <div className="flex shrink-0 gap-1">
+          <Button
+            size="icon"
+            variant="ghost"
+            onClick={() => setEditingId(code.id)}
+            disabled={!canEditDesign}
+            data-testid={`button-edit-color-code-${code.id}`}
+          >
+            <Pencil className="h-4 w-4" />
+          </Button>
+          <Button
+            size="icon"
+            variant="ghost"
+            onClick={() => {
+              setCodes(codes.filter(c => c.id !== code.id));
+              if (editingId === code.id) setEditingId(null);
+            }}
+            disabled={!canEditDesign}
+            data-testid={`button-delete-color-code-${code.id}`}
+          >
+            <Trash2 className="h-4 w-4" />
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-2xl" data-testid="dialog-color-codes">
+        <DialogHeader>
+          <DialogTitle>Color Codes</DialogTitle>
+          <DialogDescription>
+            Each cable follows one color code for its fibers and tubes. Past the end of the sequence the colors
+            repeat with a tracer stripe, then a double stripe. Cables on a deleted code go back to TIA-598.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2">
+          {builtInColorCodes.map(code => renderCode(code, false))}
+          {codes.map(code => renderCode(code, true))}
+          <Button variant="outline" size="sm" onClick={addCode} disabled={!canEditDesign} data-testid="button-add-color-code">
+            <Plus className="h-4 w-4 mr-2" />
+            New color code
+          </Button>
+        </div>
+
+        {editing && (
+          <div className="space-y-3 rounded-md border p-3" data-testid="editor-color-code">
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-1">
+                <Label htmlFor="color-code-name" className="text-xs">Name</Label>
+                <Input
+                  id="color-code-name"
+                  value={editing.name}
+                  onChange={(e) => updateEditing({ name: e.target.value })}
+                  data-testid="input-color-code-name"
+                />
+              </div>
+              <div className="space-y-1">
+                <Label className="text-xs">Tracer stripe</Label>
+                <Select value={editing.stripe} onValueChange={(stripe) => updateEditing({ stripe: stripe as FiberColor })}>
+                  <SelectTrigger data-testid="select-color-code-stripe">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {fiberColors.map(color => (
+                      <SelectItem key={color} value={color}>{color}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <div className="space-y-1">
+              <Label className="text-xs">Sequence (click a color to take it out)</Label>
+              <div className="flex flex-wrap gap-1" data-testid="sequence-color-code">
+                {editing.colors.map((color, index) => (
+                  <Swatch
+                    key={color}
+                    code={editing}
+                    index={index}
+                    onClick={() => updateEditing({ colors: editing.colors.filter(c => c !== color) })}
+                  />
+                ))}
+              </div>
+            </div>
+            {editing.colors.length < fiberColors.length && (
+              <div className="space-y-1">
+                <Label className="text-xs">Add to the end</Label>
+                <div className="flex flex-wrap gap-1">
+                  {fiberColors.filter(color => !editing.colors.includes(color)).map(color => (
+                    <Button
+                      key={color}
+                      size="sm"
+                      variant="outline"
+                      className="h-7 gap-1 px-2 text-xs"
+                      onClick={() => updateEditing({ colors: [...editing.colors, color] })}
+                      data-testid={`button-add-color-${color}`}
+                    >
+                      <span className="h-3 w-3 rounded-sm border border-black/40" style={{ backgroundColor: `hsl(var(--fiber-${color}))` }} />
+                      {color}
+                    </Button>
+                  ))}
+                </div>
+              </div>
+            )}
+          </div>
+        )}
+
+        {!parsed.success && (
+          <div className="text-sm text-destructive" data-testid="text-color-codes-invalid">
+            {parsed.error.issues[0].message}
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} data-testid="button-color-codes-cancel">
+            Cancel
+          </Button>
+          <Button
+            onClick={() => parsed.success && saveMutation.mutate(parsed.data)}
+            disabled={!parsed.success || !canEditDesign || saveMutation.isPending}
+            data-testid="button-color-codes-save"
+          >
+            Save
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
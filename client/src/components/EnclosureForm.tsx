@@ -0,0 +1,152 @@
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { insertEnclosureSchema, type InsertEnclosure, type Enclosure, enclosureTypes } from "@shared/schema";
+import { Button } from "@/components/ui/button";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+
+interface EnclosureFormProps {
+  enclosure?: Enclosure;
+  onSubmit: (data: InsertEnclosure) => void;
+  onCancel: () => void;
+  isLoading?: boolean;
+}
+
+export function EnclosureForm({ enclosure, onSubmit, onCancel, isLoading }: EnclosureFormProps) {
+  const form = useForm<InsertEnclosure>({
+    resolver: zodResolver(insertEnclosureSchema),
+    defaultValues: enclosure ? {
+      name: enclosure.name,
+      type: enclosure.type as InsertEnclosure["type"],
+      trayCount: enclosure.trayCount,
+      locationNotes: enclosure.locationNotes ?? "",
+    } : {
+      name: "",
+      type: "Dome",
+      trayCount: 1,
+      locationNotes: "",
+    },
+  });
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
+        <FormField
+          control={form.control}
+          name="name"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Enclosure Name</FormLabel>
+              <FormControl>
+                <Input
+                  placeholder="e.g., SC-101, Main St Pedestal"
+                  {...field}
+                  data-testid="input-enclosure-name"
+                />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <div className="grid grid-cols-2 gap-4">
+          <FormField
+            control={form.control}
+            name="type"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Enclosure Type</FormLabel>
+                <Select onValueChange={field.onChange} defaultValue={field.value}>
+                  <FormControl>
+                    <SelectTrigger data-testid="select-enclosure-type">
+                      <SelectValue placeholder="Select enclosure type" />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    {enclosureTypes.map((type) => (
+                      <SelectItem key={type} value={type} data-testid={`option-enclosure-type-${type}`}>
+                        {type}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="trayCount"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Tray Count</FormLabel>
+                <FormControl>
+                  <Input
+                    type="number"
+                    min={1}
+                    {...field}
+                    onChange={(e) => field.onChange(parseInt(e.target.value) || 0)}
+                    data-testid="input-enclosure-tray-count"
+                  />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </div>
+
+        <FormField
+          control={form.control}
+          name="locationNotes"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Location Notes (Optional)</FormLabel>
+              <FormControl>
+                <Textarea
+                  placeholder="Address, pole number, vault, GPS..."
+                  value={field.value ?? ""}
+                  onChange={field.onChange}
+                  rows={3}
+                  className="text-sm resize-none"
+                  data-testid="textarea-enclosure-location"
+                />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <div className="flex gap-2 justify-end pt-4">
+          <Button
+            type="button"
+            variant="outline"
+            onClick={onCancel}
+            disabled={isLoading}
+            data-testid="button-cancel-enclosure"
+          >
+            Cancel
+          </Button>
+          <Button type="submit" disabled={isLoading} data-testid="button-save-enclosure">
+            {isLoading ? "Saving..." : enclosure ? "Update Enclosure" : "Create Enclosure"}
+          </Button>
+        </div>
+      </form>
+    </Form>
+  );
+}
@@ -0,0 +1,225 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import type { Enclosure, InsertEnclosure } from "@shared/schema";
+import { Button } from "@/components/ui/button";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Box, Edit2, Plus, Trash2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { EnclosureForm } from "./EnclosureForm";
+
+interface EnclosureSelectorProps {
+  mode: "fiber" | "copper";
+  enclosures: Enclosure[];
+  selectedEnclosureId: string | null;
+  onSelect: (enclosureId: string | null) => void;
+}
+
+export function EnclosureSelector({ mode, enclosures, selectedEnclosureId, onSelect }: EnclosureSelectorProps) {
+  const { toast } = useToast();
+  const { canEditDesign } = useAuth();
+  const [formOpen, setFormOpen] = useState(false);
+  const [editingEnclosure, setEditingEnclosure] = useState<Enclosure | null>(null);
+  const [deleteDialogOpen, setDeleteDialogOpen] = useState(false);
+
+  const enclosuresEndpoint = `/api/${mode}/enclosures`;
+  const selectedEnclosure = enclosures.find(e => e.id === selectedEnclosureId);
+
+  const refreshProject = async () => {
+    await queryClient.refetchQueries({ queryKey: [enclosuresEndpoint] });
+    await queryClient.refetchQueries({ queryKey: [`/api/${mode}/splitters`] });
+    await queryClient.refetchQueries({ queryKey: [`/api/${mode}/cables`] });
+    await queryClient.refetchQueries({ queryKey: [`/api/${mode}/circuits`] });
+  };
+
+  const createEnclosureMutation = useMutation({
+    mutationFn: async (data: InsertEnclosure) => {
+      const response = await apiRequest("POST", enclosuresEndpoint, data);
+      return await response.json() as Enclosure;
+    },
+    onSuccess: async (enclosure) => {
+      await queryClient.refetchQueries({ queryKey: [enclosuresEndpoint] });
+      onSelect(enclosure.id);
+      setFormOpen(false);
+      toast({ title: "Enclosure created successfully" });
+    },
+    onError: (error: any) => {
+      toast({ title: error?.message || "Failed to create enclosure", variant: "destructive" });
+    },
+  });
+
+  const updateEnclosureMutation = useMutation({
+    mutationFn: async ({ id, data }: { id: string; data: InsertEnclosure }) => {
+      return await apiRequest("PUT", `${enclosuresEndpoint}/${id}`, data);
+    },
+    onSuccess: async () => {
+      await queryClient.refetchQueries({ queryKey: [enclosuresEndpoint] });
+      setFormOpen(false);
+      setEditingEnclosure(null);
+      toast({ title: "Enclosure updated successfully" });
+    },
+    onError: (error: any) => {
+      toast({ title: error?.message || "Failed to update enclosure", variant: "destructive" });
+    },
+  });
+
+  const deleteEnclosureMutation = useMutation({
+    mutationFn: async (id: string) => {
+      return await apiRequest("DELETE", `${enclosuresEndpoint}/${id}`, undefined);
+    },
+    onSuccess: async () => {
+      await refreshProject();
+      onSelect(null);
+      setDeleteDialogOpen(false);
+      toast({ title: "Enclosure deleted successfully" });
+    },
+    onError: () => {
+      toast({ title: "Failed to delete enclosure", variant: "destructive" });
+    },
+  });
+
+  const handleSubmit = (data: InsertEnclosure) => {
+    if (editingEnclosure) {
+      updateEnclosureMutation.mutate({ id: editingEnclosure.id, data });
+    } else {
+      createEnclosureMutation.mutate(data);
+    }
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-2" data-testid="enclosure-selector">
+      <Box className="h-4 w-4 text-muted-foreground" />
+      <span className="text-sm text-muted-foreground">Enclosure:</span>
+      {enclosures.length === 0 ? (
+        <span className="text-sm text-muted-foreground" data-testid="text-no-enclosures">
+          None yet - one is created with the first cable
+        </span>
+      ) : (
+        <Select value={selectedEnclosureId ?? undefined} onValueChange={onSelect}>
+          <SelectTrigger className="w-56 h-8" data-testid="select-enclosure">
+            <SelectValue placeholder="Select enclosure" />
+          </SelectTrigger>
+          <SelectContent>
+            {enclosures.map((enclosure) => (
+              <SelectItem key={enclosure.id} value={enclosure.id} data-testid={`option-enclosure-${enclosure.id}`}>
+                {enclosure.name} ({enclosure.type})
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      )}
+      {selectedEnclosure && (
+        <>
+          <span className="text-xs text-muted-foreground" data-testid="text-enclosure-details">
+            {selectedEnclosure.trayCount} tray{selectedEnclosure.trayCount === 1 ? "" : "s"}
+            {selectedEnclosure.locationNotes ? ` · ${selectedEnclosure.locationNotes}` : ""}
+          </span>
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-7 w-7"
+            onClick={() => {
+              setEditingEnclosure(selectedEnclosure);
+              setFormOpen(true);
+            }}
+            disabled={!canEditDesign}
+            data-testid="button-edit-enclosure"
+          >
+            <Edit2 className="h-3.5 w-3.5" />
+          </Button>
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-7 w-7"
+            onClick={() => setDeleteDialogOpen(true)}
+            disabled={!canEditDesign}
+            data-testid="button-delete-enclosure"
+          >
+            <Trash2 className="h-3.5 w-3.5" />
+          </Button>
+        </>
+      )}
+      <Button
+        size="sm"
+        variant="outline"
+        className="border-dashed h-8"
+        onClick={() => {
+          setEditingEnclosure(null);
+          setFormOpen(true);
+        }}
+        disabled={!canEditDesign}
+        data-testid="button-add-enclosure"
+      >
+        <Plus className="h-4 w-4 mr-1" />
+        Add Enclosure
+      </Button>
+
+      <Dialog open={formOpen} onOpenChange={setFormOpen}>
+        <DialogContent data-testid="dialog-enclosure-form">
+          <DialogHeader>
+            <DialogTitle>{editingEnclosure ? "Edit Enclosure" : "Add New Enclosure"}</DialogTitle>
+            <DialogDescription>
+              Each enclosure holds its own cables, circuits and splice tables
+            </DialogDescription>
+          </DialogHeader>
+          <EnclosureForm
+            key={editingEnclosure?.id ?? "new"}
+            enclosure={editingEnclosure || undefined}
+            onSubmit={handleSubmit}
+            onCancel={() => {
+              setFormOpen(false);
+              setEditingEnclosure(null);
+            }}
+            isLoading={createEnclosureMutation.isPending || updateEnclosureMutation.isPending}
+          />
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={deleteDialogOpen} onOpenChange={setDeleteDialogOpen}>
+        <AlertDialogContent data-testid="dialog-delete-enclosure-confirm">
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete Enclosure</AlertDialogTitle>
+            <AlertDialogDescription>
+              This will permanently delete {selectedEnclosure?.name} and all of its cables and circuits.
+              This action cannot be undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel data-testid="button-delete-enclosure-cancel">Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => selectedEnclosure && deleteEnclosureMutation.mutate(selectedEnclosure.id)}
+              data-testid="button-delete-enclosure-confirm"
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              Delete Enclosure
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
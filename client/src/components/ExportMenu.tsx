@@ -0,0 +1,37 @@
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { FileSpreadsheet } from "lucide-react";
+import type { SpreadsheetFormat } from "@/lib/spreadsheetExport";
+
+interface ExportMenuProps {
+  onExport: (format: SpreadsheetFormat) => void;
+  testId: string;
+  csvLabel?: string;
+  xlsxLabel?: string;
+}
+
+export function ExportMenu({ onExport, testId, csvLabel = "CSV", xlsxLabel = "Excel (XLSX)" }: ExportMenuProps) {
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button size="sm" variant="outline" data-testid={testId}>
+          <FileSpreadsheet className="h-4 w-4 mr-1" />
+          Export
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        <DropdownMenuItem onClick={() => onExport("csv")} data-testid={`${testId}-csv`}>
+          {csvLabel}
+        </DropdownMenuItem>
+        <DropdownMenuItem onClick={() => onExport("xlsx")} data-testid={`${testId}-xlsx`}>
+          {xlsxLabel}
+        </DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
@@ -0,0 +1,79 @@
+import { useMemo } from "react";
+import { useMutation } from "@tanstack/react-query";
+import type { Cable, Circuit } from "@shared/schema";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Button } from "@/components/ui/button";
+import { AlertTriangle, Wrench } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { findFiberAssignmentIssues } from "@/lib/fiberAssignments";
+
+interface FiberAssignmentAlertProps {
+  mode: "fiber" | "copper";
+  cables: Cable[];
+  circuits: Circuit[];
+}
+
+// Issues listed before the rest are summarised as "and N more"
+const MAX_LISTED_ISSUES = 5;
+
+// Warns when circuits have gaps, overlaps or stale splice fibers and offers a one-click repair
+export function FiberAssignmentAlert({ mode, cables, circuits }: FiberAssignmentAlertProps) {
+  const { toast } = useToast();
+  const { canEditDesign } = useAuth();
+  const issues = useMemo(() => findFiberAssignmentIssues(cables, circuits), [cables, circuits]);
+  const repairableCableIds = useMemo(
+    () => Array.from(new Set(issues.filter(i => i.repairable).map(i => i.cableId))),
+    [issues]
+  );
+
+  const repairMutation = useMutation({
+    mutationFn: async () => {
+      return await apiRequest("POST", `/api/${mode}/cables/repair`, { cableIds: repairableCableIds });
+    },
+    onSuccess: async () => {
+      await queryClient.refetchQueries({ queryKey: [`/api/${mode}/circuits`] });
+      await queryClient.invalidateQueries({ queryKey: [`/api/${mode}/circuits/cable`] });
+      toast({ title: `Repaired ${repairableCableIds.length} cable(s)` });
+    },
+    onError: (error: any) => {
+      toast({ title: error?.message || "Failed to repair fiber assignments", variant: "destructive" });
+    },
+  });
+
+  if (issues.length === 0) return null;
+
+  const unit = mode === "fiber" ? "fiber" : "pair";
+
+  return (
+    <Alert variant="destructive" className="mb-4" data-testid="alert-fiber-assignments">
+      <AlertTriangle className="h-4 w-4" />
+      <AlertTitle>Inconsistent {unit} assignments</AlertTitle>
+      <AlertDescription>
+        <ul className="list-disc pl-5 space-y-0.5 text-sm">
+          {issues.slice(0, MAX_LISTED_ISSUES).map((issue, index) => (
+            <li key={index}>
+              <span className="font-medium">{issue.cableName}:</span> {issue.message}
+              {!issue.repairable && " (fix manually)"}
+            </li>
+          ))}
+          {issues.length > MAX_LISTED_ISSUES && <li>and {issues.length - MAX_LISTED_ISSUES} more</li>}
+        </ul>
+        {repairableCableIds.length > 0 && (
+          <Button
+            size="sm"
+            variant="outline"
+            className="mt-2"
+            onClick={() => repairMutation.mutate()}
+            disabled={repairMutation.isPending || !canEditDesign}
+            data-testid="button-repair-fiber-assignments"
+          >
+            <Wrench className="h-4 w-4 mr-1" />
+            {repairMutation.isPending ? "Repairing..." : `Repair ${repairableCableIds.length} cable(s)`}
+          </Button>
+        )}
+      </AlertDescription>
+    </Alert>
+  );
+}
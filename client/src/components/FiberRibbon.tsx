@@ -1,61 +1,87 @@
-import { getFiberColor, getFiberPositionInRibbon, type FiberColor } from "@shared/schema";
-import { getFiberColorClass } from "@/lib/fiberColors";
+import {
+  formatFiberGroup,
+  formatFiberMarking,
+  getFiberGroupMarking,
+  getFiberGroupSize,
+  getFiberPosition,
+  getStrandMarking,
+  type Cable,
+  type ColorCode,
+  type FiberStatus,
+  type FiberStatusValue,
+} from "@shared/schema";
+import { fiberStatusColors, fiberStatusLabels, getFiberStatus } from "@/lib/fiberStatus";
+import { fiberStripeStyle } from "@/lib/fiberColors";
 
 interface FiberRibbonProps {
-  cableId: string;
-  ribbonNumber: number;
-  startFiber: number;
-  endFiber: number;
-  ribbonSize: number;
-  onFiberClick?: (fiberNumber: number) => void;
+  cable: Cable;
+  groupNumber: number; // Ribbon, or tube for loose-tube cables, counted from 1 along the cable
+  colorCode: ColorCode; // The cable's color code
+  onFiberClick?: (fiberNumber: number, shiftKey: boolean) => void;
   highlightedFibers?: number[];
+  statuses?: Map<string, FiberStatus>; // Drawn as a bar under each fiber that has one
 }
 
+// One ribbon or buffer tube of a cable: the bundle's label in its color, then each fiber in its own
 export function FiberRibbon({
-  cableId,
-  ribbonNumber,
-  startFiber,
-  endFiber,
-  ribbonSize,
+  cable,
+  groupNumber,
+  colorCode,
   onFiberClick,
   highlightedFibers = [],
+  statuses,
 }: FiberRibbonProps) {
-  const ribbonStartFiber = (ribbonNumber - 1) * ribbonSize + 1;
-  const ribbonEndFiber = Math.min(ribbonNumber * ribbonSize, endFiber);
+  const cableId = cable.id;
+  const groupSize = getFiberGroupSize(cable);
+  const groupStartFiber = (groupNumber - 1) * groupSize + 1;
+  const groupEndFiber = Math.min(groupNumber * groupSize, cable.fiberCount);
+  const groupPosition = getFiberPosition(cable, groupStartFiber);
+  const groupMarking = getFiberGroupMarking(groupPosition, colorCode);
 
   const fibers = [];
-  for (let i = ribbonStartFiber; i <= ribbonEndFiber; i++) {
-    if (i >= startFiber && i <= endFiber) {
-      fibers.push(i);
-    }
+  for (let i = groupStartFiber; i <= groupEndFiber; i++) {
+    fibers.push(i);
   }
 
   return (
-    <div className="space-y-1" data-testid={`fiber-ribbon-${ribbonNumber}`}>
+    <div className="space-y-1" data-testid={`fiber-ribbon-${groupNumber}`}>
       <div className="flex items-center gap-2">
-        <span className="text-xs font-mono text-muted-foreground w-8">R{ribbonNumber}</span>
+        <span
+          className="text-xs font-mono font-semibold w-12 pl-1 border-l-4"
+          style={{ borderLeftColor: `hsl(var(--fiber-${groupMarking.color}))` }}
+          title={`${formatFiberGroup(groupPosition)} (${formatFiberMarking(groupMarking)})`}
+        >
+          {formatFiberGroup(groupPosition)}
+        </span>
         <div className="flex gap-0.5 flex-1">
           {fibers.map((fiberNumber) => {
-            const positionInRibbon = getFiberPositionInRibbon(fiberNumber, ribbonSize);
-            const color = getFiberColor(positionInRibbon);
-            const colorClass = getFiberColorClass(color);
+            const marking = getStrandMarking(getFiberPosition(cable, fiberNumber), colorCode);
             const isHighlighted = highlightedFibers.includes(fiberNumber);
+            const status = statuses && getFiberStatus(statuses, cableId, fiberNumber);
+            const statusValue = status?.status as FiberStatusValue | undefined;
 
             return (
               <div
                 key={fiberNumber}
-                className={`h-5 flex-1 border-l-4 flex items-center justify-center cursor-pointer transition-all hover-elevate ${
+                className={`relative h-5 flex-1 border-l-4 flex items-center justify-center cursor-pointer transition-all hover-elevate ${
                   isHighlighted ? "ring-2 ring-primary ring-offset-1" : ""
-                }`}
+                } ${statusValue === "damaged" ? "line-through decoration-red-600" : ""}`}
                 style={{
-                  borderLeftColor: `hsl(var(--fiber-${color}))`,
-                  backgroundColor: `hsl(var(--fiber-${color}) / 0.15)`,
+                  borderLeftColor: `hsl(var(--fiber-${marking.color}))`,
+                  backgroundColor: `hsl(var(--fiber-${marking.color}) / 0.15)`,
+                  ...fiberStripeStyle(marking),
                 }}
-                onClick={() => onFiberClick?.(fiberNumber)}
+                onClick={(e) => onFiberClick?.(fiberNumber, e.shiftKey)}
                 data-testid={`fiber-${cableId}-${fiberNumber}`}
-                title={`Fiber ${fiberNumber} (${color})`}
+                title={`Fiber ${fiberNumber} (${formatFiberGroup(groupPosition)} ${formatFiberMarking(marking)})${statusValue ? ` - ${fiberStatusLabels[statusValue]}` : ""}${status?.note ? `: ${status.note}` : ""}`}
               >
                 <span className="text-[10px] font-mono font-medium">{fiberNumber}</span>
+                {statusValue && (
+                  <span
+                    className={`absolute inset-x-0 bottom-0 h-1 ${fiberStatusColors[statusValue]}`}
+                    data-testid={`status-${cableId}-${fiberNumber}-${statusValue}`}
+                  />
+                )}
               </div>
             );
           })}
@@ -0,0 +1,285 @@
+import { useMemo, useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { type Cable, type InsertCable, cableTypes } from "@shared/schema";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import {
+  type ImportColumnMapping,
+  type ImportField,
+  type SpreadsheetData,
+  buildImportPlan,
+  guessColumnMapping,
+  readSpreadsheet,
+} from "@/lib/spreadsheetImport";
+
+interface ImportWizardDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  mode: "fiber" | "copper";
+  enclosureId: string | null;
+  existingCables: Cable[]; // Cables already in the target enclosure
+}
+
+type Step = "file" | "map" | "preview";
+
+// Select items can't have an empty value, so unmapped columns get their own sentinel
+const NOT_MAPPED = "none";
+
+export function ImportWizardDialog({ open, onOpenChange, mode, enclosureId, existingCables }: ImportWizardDialogProps) {
+  const { toast } = useToast();
+  const [step, setStep] = useState<Step>("file");
+  const [fileName, setFileName] = useState("");
+  const [data, setData] = useState<SpreadsheetData | null>(null);
+  const [mapping, setMapping] = useState<ImportColumnMapping | null>(null);
+  const [defaultType, setDefaultType] = useState<"Feed" | "Distribution">("Distribution");
+
+  const unit = mode === "fiber" ? "Fiber" : "Pair";
+  const fieldLabels: Record<ImportField, string> = {
+    cableName: "Cable Name",
+    fiberCount: `${unit} Count`,
+    type: "Cable Type",
+    circuitId: "Circuit ID",
+    prefix: "Circuit Prefix",
+    rangeStart: "Range Start",
+    rangeEnd: "Range End",
+  };
+
+  const plan = useMemo(() => {
+    if (!data || !mapping) return null;
+    return buildImportPlan(data, mapping, existingCables, defaultType);
+  }, [data, mapping, existingCables, defaultType]);
+
+  const reset = () => {
+    setStep("file");
+    setFileName("");
+    setData(null);
+    setMapping(null);
+  };
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    if (!nextOpen) reset();
+    onOpenChange(nextOpen);
+  };
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    try {
+      const spreadsheet = await readSpreadsheet(file);
+      if (spreadsheet.headers.length === 0 || spreadsheet.rows.length === 0) {
+        toast({ title: "The file has no data rows", variant: "destructive" });
+        return;
+      }
+      setFileName(file.name);
+      setData(spreadsheet);
+      setMapping(guessColumnMapping(spreadsheet.headers));
+      setStep("map");
+    } catch (error) {
+      console.error("Import read error:", error);
+      toast({ title: "Failed to read spreadsheet", description: error instanceof Error ? error.message : undefined, variant: "destructive" });
+    }
+  };
+
+  const importMutation = useMutation({
+    mutationFn: async (cables: InsertCable[]) => {
+      return await apiRequest("POST", `/api/${mode}/cables/import`, { cables });
+    },
+    onSuccess: async (_result, cables) => {
+      await queryClient.refetchQueries({ queryKey: [`/api/${mode}/enclosures`] });
+      await queryClient.refetchQueries({ queryKey: [`/api/${mode}/cables`] });
+      await queryClient.refetchQueries({ queryKey: [`/api/${mode}/circuits`] });
+      toast({
+        title: "Import complete",
+        description: `${cables.length} cable(s) and ${cables.reduce((sum, c) => sum + (c.circuitIds?.length ?? 0), 0)} circuit(s) created`,
+      });
+      handleOpenChange(false);
+    },
+    onError: (error: any) => {
+      toast({ title: error?.message || "Failed to import cables", variant: "destructive" });
+    },
+  });
+
+  const handleImport = () => {
+    if (!plan) return;
+    importMutation.mutate(plan.cables.map(cable => ({
+      name: cable.name,
+      type: cable.type,
+      fiberCount: cable.fiberCount,
+      circuitIds: cable.circuitIds,
+      enclosureId,
+    })));
+  };
+
+  const canPreview = mapping !== null && mapping.cableName !== null &&
+    (mapping.circuitId !== null || mapping.rangeStart !== null || mapping.fiberCount !== null);
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="max-w-3xl" data-testid="dialog-import-wizard">
+        <DialogHeader>
+          <DialogTitle>Import Cables from Spreadsheet</DialogTitle>
+          <DialogDescription>
+            {step === "file" && "Choose a CSV or XLSX design sheet with one row per circuit"}
+            {step === "map" && `Match the columns in ${fileName} to cable and circuit fields`}
+            {step === "preview" && "Review the cables that will be created in this enclosure"}
+          </DialogDescription>
+        </DialogHeader>
+
+        {step === "file" && (
+          <div className="space-y-2">
+            <Label htmlFor="import-file">Spreadsheet file</Label>
+            <Input
+              id="import-file"
+              type="file"
+              accept=".csv,.txt,.xlsx"
+              onChange={(e) => handleFile(e.target.files?.[0])}
+              data-testid="input-import-file"
+            />
+          </div>
+        )}
+
+        {step === "map" && data && mapping && (
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              {(Object.keys(fieldLabels) as ImportField[]).map((field) => (
+                <div key={field} className="space-y-1">
+                  <Label className="text-xs">{fieldLabels[field]}</Label>
+                  <Select
+                    value={mapping[field] === null ? NOT_MAPPED : String(mapping[field])}
+                    onValueChange={(value) => setMapping({ ...mapping, [field]: value === NOT_MAPPED ? null : parseInt(value, 10) })}
+                  >
+                    <SelectTrigger data-testid={`select-import-column-${field}`}>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={NOT_MAPPED}>Not mapped</SelectItem>
+                      {data.headers.map((header, index) => (
+                        <SelectItem key={index} value={String(index)}>
+                          {header || `Column ${index + 1}`}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              ))}
+              <div className="space-y-1">
+                <Label className="text-xs">Type when not in the sheet</Label>
+                <Select value={defaultType} onValueChange={(value) => setDefaultType(value as "Feed" | "Distribution")}>
+                  <SelectTrigger data-testid="select-import-default-type">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {cableTypes.map((type) => (
+                      <SelectItem key={type} value={type}>{type}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <p className="text-sm text-muted-foreground">
+              {data.rows.length} row(s) found. Map either a Circuit ID column ("pon,1-8" or "pon 1 8") or the prefix and range columns.
+            </p>
+          </div>
+        )}
+
+        {step === "preview" && plan && (
+          <div className="space-y-2">
+            <div className="flex items-center gap-2 text-sm" data-testid="text-import-summary">
+              <span>{plan.cables.length} cable(s)</span>
+              {plan.errorCount > 0 && <Badge variant="destructive">{plan.errorCount} error(s)</Badge>}
+              {plan.warningCount > 0 && <Badge variant="secondary">{plan.warningCount} warning(s)</Badge>}
+            </div>
+            <div className="rounded-md border max-h-[50vh] overflow-y-auto">
+              <Table className="text-sm">
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="py-1 px-2">Cable</TableHead>
+                    <TableHead className="py-1 px-2">Type</TableHead>
+                    <TableHead className="py-1 px-2 text-center">{unit}s</TableHead>
+                    <TableHead className="py-1 px-2 text-center">Circuits</TableHead>
+                    <TableHead className="py-1 px-2">Issues</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {plan.cables.map((cable, index) => (
+                    <TableRow key={cable.name} data-testid={`row-import-cable-${index}`}>
+                      <TableCell className="font-mono py-1 px-2">{cable.name}</TableCell>
+                      <TableCell className="py-1 px-2">{cable.type}</TableCell>
+                      <TableCell className="font-mono text-center py-1 px-2">{cable.assignedFibers}/{cable.fiberCount}</TableCell>
+                      <TableCell className="font-mono text-center py-1 px-2">{cable.circuitIds.length}</TableCell>
+                      <TableCell className="py-1 px-2">
+                        {cable.issues.length === 0 ? (
+                          <span className="text-green-600 dark:text-green-400">OK</span>
+                        ) : (
+                          <ul className="space-y-0.5">
+                            {cable.issues.map((issue, i) => (
+                              <li
+                                key={i}
+                                className={issue.severity === "error" ? "text-destructive" : "text-muted-foreground"}
+                              >
+                                {issue.message}
+                              </li>
+                            ))}
+                          </ul>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          </div>
+        )}
+
+        <DialogFooter>
+          {step === "map" && (
+            <>
+              <Button variant="outline" onClick={reset} data-testid="button-import-back">Back</Button>
+              <Button onClick={() => setStep("preview")} disabled={!canPreview} data-testid="button-import-preview">
+                Preview
+              </Button>
+            </>
+          )}
+          {step === "preview" && (
+            <>
+              <Button variant="outline" onClick={() => setStep("map")} data-testid="button-import-back">Back</Button>
+              <Button
+                onClick={handleImport}
+                disabled={!plan || plan.cables.length === 0 || plan.errorCount > 0 || importMutation.isPending}
+                data-testid="button-import-apply"
+              >
+                {importMutation.isPending ? "Importing..." : `Import ${plan?.cables.length ?? 0} cable(s)`}
+              </Button>
+            </>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,149 @@
+import { useEffect, useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import {
+  defaultLossSettings,
+  lossSettingsSchema,
+  parseLossSettings,
+  splitterRatios,
+  type LossSettings,
+  type Project,
+} from "@shared/schema";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+
+interface LossBudgetDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  project: Project;
+}
+
+type SettingKey = Exclude<keyof LossSettings, "splitterLosses">;
+
+const settingFields: { key: SettingKey; label: string; step: string }[] = [
+  { key: "budgetDb", label: "Loss budget (dB)", step: "0.5" },
+  { key: "connectorCount", label: "Connectors per path", step: "1" },
+  { key: "attenuation1310", label: "Cable loss at 1310 nm (dB/km)", step: "0.01" },
+  { key: "attenuation1550", label: "Cable loss at 1550 nm (dB/km)", step: "0.01" },
+  { key: "fusionSpliceLoss", label: "Fusion splice (dB)", step: "0.01" },
+  { key: "mechanicalSpliceLoss", label: "Mechanical splice (dB)", step: "0.01" },
+  { key: "connectorLoss", label: "Connector (dB)", step: "0.05" },
+];
+
+// Form values are kept as typed so a field can be cleared while editing
+function toFormValues(settings: LossSettings): Record<string, string> {
+  const values: Record<string, string> = {};
+  for (const { key } of settingFields) values[key] = String(settings[key]);
+  for (const ratio of splitterRatios) values[ratio] = String(settings.splitterLosses[ratio]);
+  return values;
+}
+
+// The project's loss assumptions: what circuits are checked against in the splice tables and traces
+export function LossBudgetDialog({ open, onOpenChange, project }: LossBudgetDialogProps) {
+  const { toast } = useToast();
+  const { canEditDesign } = useAuth();
+  const [values, setValues] = useState<Record<string, string>>({});
+
+  useEffect(() => {
+    if (open) setValues(toFormValues(parseLossSettings(project.lossSettings)));
+  }, [open, project.lossSettings]);
+
+  const parsed = lossSettingsSchema.safeParse({
+    ...Object.fromEntries(settingFields.map(({ key }) => [key, parseFloat(values[key])])),
+    splitterLosses: Object.fromEntries(splitterRatios.map(ratio => [ratio, parseFloat(values[ratio])])),
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: async (settings: LossSettings) => {
+      return await apiRequest("PATCH", `/api/fiber/projects/${project.id}`, { lossSettings: JSON.stringify(settings) });
+    },
+    onSuccess: async () => {
+      await queryClient.invalidateQueries({ queryKey: ["/api/fiber/projects"] });
+      await queryClient.invalidateQueries({ queryKey: ["/api/fiber/projects/active"] });
+      onOpenChange(false);
+      toast({ title: "Loss settings saved" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to save loss settings", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const renderField = (key: string, label: string, step: string) => (
+    <div key={key} className="space-y-1">
+      <Label htmlFor={`loss-${key}`} className="text-xs">{label}</Label>
+      <Input
+        id={`loss-${key}`}
+        type="number"
+        min={0}
+        step={step}
+        value={values[key] ?? ""}
+        onChange={(e) => setValues({ ...values, [key]: e.target.value })}
+        disabled={!canEditDesign}
+        data-testid={`input-loss-${key}`}
+      />
+    </div>
+  );
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg" data-testid="dialog-loss-budget">
+        <DialogHeader>
+          <DialogTitle>Loss Budget</DialogTitle>
+          <DialogDescription>
+            Circuits whose end-to-end loss at 1310 or 1550 nm is over the budget are flagged in the splice tables.
+            Cables without their own attenuation use the values here.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-2 gap-3">
+          {settingFields.map(({ key, label, step }) => renderField(key, label, step))}
+        </div>
+        <div className="space-y-2">
+          <div className="text-sm font-medium">Splitter insertion loss (dB)</div>
+          <div className="grid grid-cols-4 gap-3">
+            {splitterRatios.map(ratio => renderField(ratio, ratio, "0.1"))}
+          </div>
+        </div>
+        {!parsed.success && (
+          <div className="text-sm text-destructive" data-testid="text-loss-settings-invalid">
+            Every value must be a number of 0 or more, and the connector count a whole number.
+          </div>
+        )}
+
+        <DialogFooter className="sm:justify-between">
+          <Button
+            variant="ghost"
+            onClick={() => setValues(toFormValues(defaultLossSettings))}
+            disabled={!canEditDesign}
+            data-testid="button-loss-defaults"
+          >
+            Use defaults
+          </Button>
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={() => onOpenChange(false)} data-testid="button-loss-cancel">
+              Cancel
+            </Button>
+            <Button
+              onClick={() => parsed.success && saveMutation.mutate(parsed.data)}
+              disabled={!parsed.success || !canEditDesign || saveMutation.isPending}
+              data-testid="button-loss-save"
+            >
+              Save
+            </Button>
+          </div>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,23 @@
+import { AlertTriangle } from "lucide-react";
+import { formatLoss, type TraceLoss } from "@/lib/lossBudget";
+
+interface LossBudgetFlagProps {
+  loss: TraceLoss | null | undefined;
+  budgetDb: number;
+  testId: string;
+}
+
+// Warning icon next to a circuit whose worst fiber is over the project's loss budget
+export function LossBudgetFlag({ loss, budgetDb, testId }: LossBudgetFlagProps) {
+  if (!loss?.overBudget) return null;
+
+  return (
+    <span
+      className="inline-flex align-middle ml-1 text-destructive"
+      title={`Over the ${formatLoss(budgetDb)} loss budget: ${formatLoss(loss.loss1310)} at 1310 nm, ${formatLoss(loss.loss1550)} at 1550 nm`}
+      data-testid={`flag-loss-budget-${testId}`}
+    >
+      <AlertTriangle className="h-3.5 w-3.5" />
+    </span>
+  );
+}
@@ -0,0 +1,281 @@
+import { useEffect, useMemo, useRef, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { CartesianGrid, Line, LineChart, ReferenceLine, XAxis, YAxis } from "recharts";
+import { otdrEventSchema, otdrPointSchema, type Cable, type OtdrEventType, type OtdrTrace } from "@shared/schema";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from "@/components/ui/chart";
+import { Trash2, Upload } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { formatLoss } from "@/lib/lossBudget";
+import { parseSor } from "@/lib/sorParser";
+
+interface OtdrPanelProps {
+  cable: Cable;
+  fiber: number;
+}
+
+const eventTypeLabels: Record<OtdrEventType, string> = {
+  "non-reflective": "Splice",
+  reflective: "Reflective",
+  end: "Fiber end",
+};
+
+const chartConfig = {
+  level: { label: "Level (dB)", color: "hsl(var(--primary))" },
+} satisfies ChartConfig;
+
+// Stored events and points are JSON; a record that doesn't parse shows as an empty trace
+function readTraceData(trace: OtdrTrace | undefined) {
+  if (!trace) return { events: [], points: [] };
+  try {
+    return {
+      events: otdrEventSchema.array().parse(JSON.parse(trace.events)),
+      points: otdrPointSchema.array().parse(JSON.parse(trace.points)),
+    };
+  } catch {
+    return { events: [], points: [] };
+  }
+}
+
+// OTDR traces imported for one fiber: pick a trace to see its plot and key events
+export function OtdrPanel({ cable, fiber }: OtdrPanelProps) {
+  const { toast } = useToast();
+  const { canEditDesign } = useAuth();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [selectedId, setSelectedId] = useState<string>("");
+
+  const { data: allTraces = [] } = useQuery<OtdrTrace[]>({
+    queryKey: ["/api/fiber/otdr"],
+  });
+  const traces = useMemo(
+    () => allTraces
+      .filter(t => t.cableId === cable.id && t.fiber === fiber)
+      .sort((a, b) => b.importedAt.localeCompare(a.importedAt)),
+    [allTraces, cable.id, fiber]
+  );
+
+  // Show the newest trace whenever the fiber changes or the selected one goes away
+  useEffect(() => {
+    if (!traces.some(t => t.id === selectedId)) setSelectedId(traces[0]?.id ?? "");
+  }, [traces, selectedId]);
+
+  const selected = traces.find(t => t.id === selectedId);
+  const { events, points } = useMemo(() => readTraceData(selected), [selected]);
+  const chartData = useMemo(() => points.map(([distance, level]) => ({ distance, level })), [points]);
+  const fiberEnd = events.find(e => e.type === "end");
+  const eventLoss = events.reduce((sum, e) => sum + (e.type === "end" ? 0 : e.spliceLoss), 0);
+
+  const importMutation = useMutation({
+    mutationFn: async (files: File[]) => {
+      const imported: OtdrTrace[] = [];
+      for (const file of files) {
+        const parsed = parseSor(await file.arrayBuffer());
+        if (!parsed.success) throw new Error(`${file.name}: ${parsed.error}`);
+        const sor = parsed.trace;
+        const response = await apiRequest("POST", "/api/fiber/otdr", {
+          cableId: cable.id,
+          fiber,
+          fileName: file.name,
+          wavelength: sor.wavelength,
+          pulseWidth: sor.pulseWidth,
+          indexOfRefraction: sor.indexOfRefraction,
+          testedAt: sor.testedAt,
+          events: JSON.stringify(sor.events),
+          points: JSON.stringify(sor.points),
+        });
+        imported.push(await response.json());
+      }
+      return imported;
+    },
+    onSuccess: async (imported) => {
+      await queryClient.invalidateQueries({ queryKey: ["/api/fiber/otdr"] });
+      if (imported.length > 0) setSelectedId(imported[imported.length - 1].id);
+      toast({ title: `Imported ${imported.length} OTDR trace${imported.length === 1 ? "" : "s"}` });
+    },
+    onError: async (error: Error) => {
+      // Files before the bad one are kept
+      await queryClient.invalidateQueries({ queryKey: ["/api/fiber/otdr"] });
+      toast({ title: "Failed to import OTDR trace", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      return await apiRequest("DELETE", `/api/fiber/otdr/${id}`);
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ["/api/fiber/otdr"] }),
+    onError: (error: Error) => {
+      toast({ title: "Failed to delete OTDR trace", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const handleFiles = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files ?? []);
+    e.target.value = ""; // Picking the same file again still imports it
+    if (files.length > 0) importMutation.mutate(files);
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center gap-2">
+        {traces.length > 0 ? (
+          <Select value={selectedId} onValueChange={setSelectedId}>
+            <SelectTrigger className="flex-1" data-testid="select-otdr-trace">
+              <SelectValue placeholder="Select trace" />
+            </SelectTrigger>
+            <SelectContent>
+              {traces.map(trace => (
+                <SelectItem key={trace.id} value={trace.id} data-testid={`option-otdr-trace-${trace.id}`}>
+                  {trace.fileName}
+                  {trace.wavelength ? ` (${trace.wavelength} nm)` : ""}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        ) : (
+          <div className="flex-1 text-sm text-muted-foreground" data-testid="text-otdr-empty">
+            No OTDR traces for {cable.name} fiber {fiber} yet
+          </div>
+        )}
+        {selected && canEditDesign && (
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={() => deleteMutation.mutate(selected.id)}
+            disabled={deleteMutation.isPending}
+            title="Delete trace"
+            data-testid="button-otdr-delete"
+          >
+            <Trash2 className="h-4 w-4" />
+          </Button>
+        )}
+        {canEditDesign && (
+          <>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".sor"
+              multiple
+              className="hidden"
+              onChange={handleFiles}
+              data-testid="input-otdr-file"
+            />
+            <Button
+              variant="outline"
+              onClick={() => fileInputRef.current?.click()}
+              disabled={importMutation.isPending}
+              data-testid="button-otdr-import"
+            >
+              <Upload className="h-4 w-4 mr-2" />
+              Import .sor
+            </Button>
+          </>
+        )}
+      </div>
+
+      {selected && (
+        <>
+          <div className="flex flex-wrap items-center gap-2 text-sm" data-testid="text-otdr-summary">
+            {selected.wavelength && <Badge variant="secondary">{selected.wavelength} nm</Badge>}
+            {selected.pulseWidth !== null && <Badge variant="secondary">{selected.pulseWidth} ns pulse</Badge>}
+            {selected.indexOfRefraction !== null && <Badge variant="secondary">IOR {selected.indexOfRefraction.toFixed(4)}</Badge>}
+            <span>
+              {fiberEnd ? `Fiber end at ${(fiberEnd.distanceMeters / 1000).toFixed(3)} km, ` : "No fiber end found, "}
+              {formatLoss(eventLoss)} event loss
+            </span>
+            <span className="text-xs text-muted-foreground">
+              {selected.testedAt ? `Tested ${new Date(selected.testedAt).toLocaleString()}` : `Imported ${new Date(selected.importedAt).toLocaleString()}`}
+            </span>
+          </div>
+
+          {chartData.length > 0 && (
+            <ChartContainer config={chartConfig} className="aspect-auto h-56 w-full" data-testid="chart-otdr-trace">
+              <LineChart data={chartData} margin={{ top: 8, right: 8, bottom: 0, left: 0 }}>
+                <CartesianGrid vertical={false} />
+                <XAxis
+                  dataKey="distance"
+                  type="number"
+                  domain={["dataMin", "dataMax"]}
+                  tickFormatter={(meters: number) => `${(meters / 1000).toFixed(1)} km`}
+                />
+                <YAxis width={40} tickFormatter={(db: number) => db.toFixed(0)} />
+                <ChartTooltip
+                  content={
+                    <ChartTooltipContent
+                      labelFormatter={(_label, payload) => `${payload[0]?.payload.distance.toFixed(1)} m`}
+                    />
+                  }
+                />
+                {events.map(event => (
+                  <ReferenceLine
+                    key={event.number}
+                    x={event.distanceMeters}
+                    stroke={event.type === "end" ? "hsl(var(--destructive))" : "hsl(var(--muted-foreground))"}
+                    strokeDasharray="3 3"
+                    label={{ value: String(event.number), position: "top", fontSize: 10 }}
+                  />
+                ))}
+                <Line dataKey="level" stroke="var(--color-level)" dot={false} strokeWidth={1.5} isAnimationActive={false} />
+              </LineChart>
+            </ChartContainer>
+          )}
+
+          <div className="rounded-md border max-h-[30vh] overflow-y-auto">
+            <Table className="text-sm">
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="py-1 px-2">#</TableHead>
+                  <TableHead className="py-1 px-2">Event</TableHead>
+                  <TableHead className="py-1 px-2 text-right">Distance (m)</TableHead>
+                  <TableHead className="py-1 px-2 text-right">Loss (dB)</TableHead>
+                  <TableHead className="py-1 px-2 text-right">Reflectance (dB)</TableHead>
+                  <TableHead className="py-1 px-2 text-right">dB/km</TableHead>
+                  <TableHead className="py-1 px-2">Comment</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {events.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={7} className="text-center py-4 text-muted-foreground">
+                      The OTDR reported no key events
+                    </TableCell>
+                  </TableRow>
+                ) : events.map(event => (
+                  <TableRow key={event.number} data-testid={`row-otdr-event-${event.number}`}>
+                    <TableCell className="font-mono py-1 px-2">{event.number}</TableCell>
+                    <TableCell className="py-1 px-2">
+                      {event.type === "end" ? <Badge variant="destructive">{eventTypeLabels[event.type]}</Badge> : eventTypeLabels[event.type]}
+                    </TableCell>
+                    <TableCell className="font-mono text-right py-1 px-2">{event.distanceMeters.toFixed(1)}</TableCell>
+                    <TableCell className="font-mono text-right py-1 px-2">{event.spliceLoss.toFixed(3)}</TableCell>
+                    <TableCell className="font-mono text-right py-1 px-2">{event.reflectance?.toFixed(2) ?? "-"}</TableCell>
+                    <TableCell className="font-mono text-right py-1 px-2">{event.attenuation.toFixed(3)}</TableCell>
+                    <TableCell className="py-1 px-2 text-muted-foreground">{event.comment || "-"}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
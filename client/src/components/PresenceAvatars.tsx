@@ -0,0 +1,38 @@
+import { getPeerColor, getPeerInitials, type CollabPeer } from "@shared/collab";
+
+interface PresenceAvatarsProps {
+  peers: CollabPeer[];
+  max?: number; // Further peers are summarized as "+n"
+  label?: string; // Tooltip suffix, e.g. "has this cable open"
+  className?: string;
+}
+
+// Overlapping colored initials for the collaborators looking at something
+export function PresenceAvatars({ peers, max = 3, label, className = "" }: PresenceAvatarsProps) {
+  if (peers.length === 0) return null;
+  const shown = peers.slice(0, max);
+  const hidden = peers.length - shown.length;
+
+  return (
+    <span
+      className={`inline-flex -space-x-1.5 ${className}`}
+      title={peers.map(p => (label ? `${p.name} ${label}` : p.name)).join("\n")}
+      data-testid="presence-avatars"
+    >
+      {shown.map((peer) => (
+        <span
+          key={peer.clientId}
+          className="inline-flex h-5 w-5 items-center justify-center rounded-full text-[9px] font-semibold text-white ring-2 ring-background"
+          style={{ backgroundColor: getPeerColor(peer.clientId) }}
+        >
+          {getPeerInitials(peer.name)}
+        </span>
+      ))}
+      {hidden > 0 && (
+        <span className="inline-flex h-5 w-5 items-center justify-center rounded-full bg-muted text-[9px] font-semibold text-muted-foreground ring-2 ring-background">
+          +{hidden}
+        </span>
+      )}
+    </span>
+  );
+}
@@ -0,0 +1,46 @@
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { ScrollArea } from "@/components/ui/scroll-area";
+
+export interface ProjectFileErrors {
+  fileName: string;
+  errors: string[];
+}
+
+interface ProjectFileErrorsDialogProps {
+  report: ProjectFileErrors | null;
+  onClose: () => void;
+}
+
+// Lists every validation problem in a project file that couldn't be loaded
+export function ProjectFileErrorsDialog({ report, onClose }: ProjectFileErrorsDialogProps) {
+  return (
+    <AlertDialog open={report !== null} onOpenChange={(open) => !open && onClose()}>
+      <AlertDialogContent className="max-w-2xl" data-testid="dialog-project-file-errors">
+        <AlertDialogHeader>
+          <AlertDialogTitle>Can't load {report?.fileName}</AlertDialogTitle>
+          <AlertDialogDescription>
+            The project file has {report?.errors.length ?? 0} problem(s). Nothing was changed.
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+        <ScrollArea className="max-h-[50vh] rounded-md border">
+          <ul className="p-3 space-y-1 font-mono text-xs" data-testid="list-project-file-errors">
+            {report?.errors.map((error, index) => (
+              <li key={index} className="text-destructive">{error}</li>
+            ))}
+          </ul>
+        </ScrollArea>
+        <AlertDialogFooter>
+          <AlertDialogAction onClick={onClose} data-testid="button-project-file-errors-close">Close</AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+}
@@ -0,0 +1,272 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import type { Project } from "@shared/schema";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuSub,
+  DropdownMenuSubContent,
+  DropdownMenuSubTrigger,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Archive, ArchiveRestore, Check, ChevronDown, Copy, FolderOpen, Gauge, Palette, Pencil, Plus } from "lucide-react";
+import { LossBudgetDialog } from "@/components/LossBudgetDialog";
+import { ColorCodeDialog } from "@/components/ColorCodeDialog";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, invalidateModeQueries } from "@/lib/queryClient";
+
+interface ProjectSwitcherProps {
+  mode: "fiber" | "copper";
+  onSwitch: () => void; // Called after another project is opened, to clear selections
+}
+
+type DialogAction = "create" | "duplicate" | "edit";
+
+const dialogTitles: Record<DialogAction, string> = {
+  create: "New Project",
+  duplicate: "Duplicate Project",
+  edit: "Project Details",
+};
+
+export function ProjectSwitcher({ mode, onSwitch }: ProjectSwitcherProps) {
+  const { toast } = useToast();
+  const [dialogAction, setDialogAction] = useState<DialogAction | null>(null);
+  const [name, setName] = useState("");
+  const [jobNumber, setJobNumber] = useState("");
+  const [lossDialogOpen, setLossDialogOpen] = useState(false);
+  const [colorCodeDialogOpen, setColorCodeDialogOpen] = useState(false);
+
+  const { data: projects = [] } = useQuery<Project[]>({
+    queryKey: [`/api/${mode}/projects`],
+  });
+  const { data: activeProject } = useQuery<Project>({
+    queryKey: [`/api/${mode}/projects/active`],
+  });
+
+  const openProjects = projects.filter(p => p.archived === 0);
+  const archivedProjects = projects.filter(p => p.archived === 1);
+
+  // Every query reads from the active project's database, so refresh them all
+  const refreshProjects = async (switched: boolean) => {
+    await invalidateModeQueries(mode);
+    if (switched) onSwitch();
+  };
+
+  const switchMutation = useMutation({
+    mutationFn: async (project: Project) => {
+      if (project.archived === 1) {
+        await apiRequest("PATCH", `/api/${mode}/projects/${project.id}`, { archived: 0 });
+      }
+      return await apiRequest("POST", `/api/${mode}/projects/${project.id}/activate`);
+    },
+    onSuccess: async (_result, project) => {
+      await refreshProjects(true);
+      toast({ title: `Opened ${project.name}` });
+    },
+    onError: () => {
+      toast({ title: "Failed to open project", variant: "destructive" });
+    },
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: async ({ action, data }: { action: DialogAction; data: { name: string; jobNumber: string | null } }) => {
+      if (action === "create") return await apiRequest("POST", `/api/${mode}/projects`, data);
+      if (action === "duplicate") return await apiRequest("POST", `/api/${mode}/projects/${activeProject!.id}/duplicate`, data);
+      return await apiRequest("PATCH", `/api/${mode}/projects/${activeProject!.id}`, data);
+    },
+    onSuccess: async (_result, { action, data }) => {
+      await refreshProjects(action !== "edit");
+      setDialogAction(null);
+      toast({ title: action === "edit" ? "Project updated" : `Opened ${data.name}` });
+    },
+    onError: () => {
+      toast({ title: "Failed to save project", variant: "destructive" });
+    },
+  });
+
+  const archiveMutation = useMutation({
+    mutationFn: async (project: Project) => {
+      return await apiRequest("PATCH", `/api/${mode}/projects/${project.id}`, { archived: 1 });
+    },
+    onSuccess: async (_result, project) => {
+      await refreshProjects(true);
+      toast({ title: `Archived ${project.name}` });
+    },
+    onError: () => {
+      toast({ title: "Failed to archive project", variant: "destructive" });
+    },
+  });
+
+  const openDialog = (action: DialogAction) => {
+    setName(action === "create" ? "" : action === "duplicate" ? `Copy of ${activeProject?.name ?? ""}` : activeProject?.name ?? "");
+    setJobNumber(action === "create" ? "" : activeProject?.jobNumber ?? "");
+    setDialogAction(action);
+  };
+
+  const handleDialogSubmit = () => {
+    if (!dialogAction || !name.trim()) return;
+    saveMutation.mutate({ action: dialogAction, data: { name: name.trim(), jobNumber: jobNumber.trim() || null } });
+  };
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="outline" size="sm" className="max-w-[240px]" data-testid="button-project-switcher">
+            <FolderOpen className="h-4 w-4 mr-2 shrink-0" />
+            <span className="truncate">{activeProject?.name ?? "Project"}</span>
+            {activeProject?.jobNumber && (
+              <span className="ml-1 text-muted-foreground truncate">#{activeProject.jobNumber}</span>
+            )}
+            <ChevronDown className="h-4 w-4 ml-1 shrink-0" />
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end" className="w-72">
+          <DropdownMenuLabel>Projects</DropdownMenuLabel>
+          {openProjects.map((project) => (
+            <DropdownMenuItem
+              key={project.id}
+              onClick={() => project.id !== activeProject?.id && switchMutation.mutate(project)}
+              data-testid={`menu-project-${project.id}`}
+            >
+              <Check className={`h-4 w-4 mr-2 shrink-0 ${project.id === activeProject?.id ? "" : "invisible"}`} />
+              <div className="min-w-0">
+                <div className="truncate">
+                  {project.name}
+                  {project.jobNumber && <span className="ml-1 text-muted-foreground">#{project.jobNumber}</span>}
+                </div>
+                <div className="text-xs text-muted-foreground">
+                  Modified {new Date(project.modifiedAt).toLocaleString()}
+                </div>
+              </div>
+            </DropdownMenuItem>
+          ))}
+          <DropdownMenuSeparator />
+          <DropdownMenuItem onClick={() => openDialog("create")} data-testid="menu-project-new">
+            <Plus className="h-4 w-4 mr-2" />
+            New project...
+          </DropdownMenuItem>
+          <DropdownMenuItem onClick={() => openDialog("edit")} disabled={!activeProject} data-testid="menu-project-edit">
+            <Pencil className="h-4 w-4 mr-2" />
+            Edit details...
+          </DropdownMenuItem>
+          <DropdownMenuItem onClick={() => openDialog("duplicate")} disabled={!activeProject} data-testid="menu-project-duplicate">
+            <Copy className="h-4 w-4 mr-2" />
+            Duplicate...
+          </DropdownMenuItem>
+          {mode === "fiber" && (
+            <DropdownMenuItem onClick={() => setLossDialogOpen(true)} disabled={!activeProject} data-testid="menu-project-loss-budget">
+              <Gauge className="h-4 w-4 mr-2" />
+              Loss budget...
+            </DropdownMenuItem>
+          )}
+          {mode === "fiber" && (
+            <DropdownMenuItem onClick={() => setColorCodeDialogOpen(true)} disabled={!activeProject} data-testid="menu-project-color-codes">
+              <Palette className="h-4 w-4 mr-2" />
+              Color codes...
+            </DropdownMenuItem>
+          )}
+          <DropdownMenuItem
+            onClick={() => activeProject && archiveMutation.mutate(activeProject)}
+            disabled={!activeProject}
+            data-testid="menu-project-archive"
+          >
+            <Archive className="h-4 w-4 mr-2" />
+            Archive
+          </DropdownMenuItem>
+          {archivedProjects.length > 0 && (
+            <DropdownMenuSub>
+              <DropdownMenuSubTrigger data-testid="menu-project-archived">
+                <ArchiveRestore className="h-4 w-4 mr-2" />
+                Archived ({archivedProjects.length})
+              </DropdownMenuSubTrigger>
+              <DropdownMenuSubContent className="w-64">
+                {archivedProjects.map((project) => (
+                  <DropdownMenuItem
+                    key={project.id}
+                    onClick={() => switchMutation.mutate(project)}
+                    data-testid={`menu-project-restore-${project.id}`}
+                  >
+                    <span className="truncate">
+                      {project.name}
+                      {project.jobNumber && <span className="ml-1 text-muted-foreground">#{project.jobNumber}</span>}
+                    </span>
+                  </DropdownMenuItem>
+                ))}
+              </DropdownMenuSubContent>
+            </DropdownMenuSub>
+          )}
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <Dialog open={dialogAction !== null} onOpenChange={(open) => !open && setDialogAction(null)}>
+        <DialogContent data-testid="dialog-project">
+          <DialogHeader>
+            <DialogTitle>{dialogAction ? dialogTitles[dialogAction] : ""}</DialogTitle>
+            <DialogDescription>
+              {dialogAction === "duplicate"
+                ? `Copies the enclosures, cables and circuits of ${activeProject?.name ?? "this project"} into a new project`
+                : "Each project keeps its own enclosures, cables and circuits"}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="project-name">Name</Label>
+              <Input
+                id="project-name"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                onKeyDown={(e) => e.key === "Enter" && handleDialogSubmit()}
+                autoFocus
+                data-testid="input-project-name"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="project-job-number">Job number (optional)</Label>
+              <Input
+                id="project-job-number"
+                value={jobNumber}
+                onChange={(e) => setJobNumber(e.target.value)}
+                onKeyDown={(e) => e.key === "Enter" && handleDialogSubmit()}
+                data-testid="input-project-job-number"
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDialogAction(null)} data-testid="button-project-cancel">
+              Cancel
+            </Button>
+            <Button
+              onClick={handleDialogSubmit}
+              disabled={!name.trim() || saveMutation.isPending}
+              data-testid="button-project-confirm"
+            >
+              {dialogAction === "edit" ? "Save" : dialogAction === "duplicate" ? "Duplicate" : "Create"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {activeProject && (
+        <LossBudgetDialog open={lossDialogOpen} onOpenChange={setLossDialogOpen} project={activeProject} />
+      )}
+      {activeProject && (
+        <ColorCodeDialog open={colorCodeDialogOpen} onOpenChange={setColorCodeDialogOpen} project={activeProject} />
+      )}
+    </>
+  );
+}
@@ -0,0 +1,111 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { refreshAccount } from "@/hooks/use-auth";
+import { apiRequest } from "@/lib/queryClient";
+
+interface SignInDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  setupRequired: boolean; // Create the server's first account instead of signing in
+}
+
+export function SignInDialog({ open, onOpenChange, setupRequired }: SignInDialogProps) {
+  const { toast } = useToast();
+  const [username, setUsername] = useState("");
+  const [displayName, setDisplayName] = useState("");
+  const [password, setPassword] = useState("");
+
+  const signInMutation = useMutation({
+    mutationFn: async () => {
+      const response = setupRequired
+        ? await apiRequest("POST", "/api/auth/setup", { username, displayName, password })
+        : await apiRequest("POST", "/api/auth/login", { username, password });
+      return await response.json();
+    },
+    onSuccess: async (user) => {
+      await refreshAccount();
+      setPassword("");
+      onOpenChange(false);
+      toast({ title: `Signed in as ${user.displayName}` });
+    },
+    onError: (error: Error) => {
+      toast({ title: setupRequired ? "Failed to create account" : "Sign in failed", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const canSubmit = username.trim() && password && (!setupRequired || (displayName.trim() && password.length >= 8));
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-sm">
+        <DialogHeader>
+          <DialogTitle>{setupRequired ? "Create the first account" : "Sign in"}</DialogTitle>
+          <DialogDescription>
+            {setupRequired
+              ? "This server has no accounts yet. The first one is a designer and can add everyone else."
+              : "Sign in to sync and work on projects with your team."}
+          </DialogDescription>
+        </DialogHeader>
+        <form
+          className="space-y-4"
+          onSubmit={(e) => {
+            e.preventDefault();
+            if (canSubmit) signInMutation.mutate();
+          }}
+        >
+          <div className="space-y-2">
+            <Label htmlFor="sign-in-username">Username</Label>
+            <Input
+              id="sign-in-username"
+              autoComplete="username"
+              value={username}
+              onChange={(e) => setUsername(e.target.value)}
+              data-testid="input-sign-in-username"
+            />
+          </div>
+          {setupRequired && (
+            <div className="space-y-2">
+              <Label htmlFor="sign-in-display-name">Your name</Label>
+              <Input
+                id="sign-in-display-name"
+                maxLength={40}
+                value={displayName}
+                onChange={(e) => setDisplayName(e.target.value)}
+                data-testid="input-sign-in-display-name"
+              />
+            </div>
+          )}
+          <div className="space-y-2">
+            <Label htmlFor="sign-in-password">Password</Label>
+            <Input
+              id="sign-in-password"
+              type="password"
+              autoComplete={setupRequired ? "new-password" : "current-password"}
+              placeholder={setupRequired ? "At least 8 characters" : undefined}
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              data-testid="input-sign-in-password"
+            />
+          </div>
+          <DialogFooter>
+            <Button type="submit" disabled={!canSubmit || signInMutation.isPending} data-testid="button-sign-in-submit">
+              {setupRequired ? "Create account" : "Sign in"}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,35 @@
+import { Label } from "@/components/ui/label";
+import { Progress } from "@/components/ui/progress";
+import { Switch } from "@/components/ui/switch";
+import type { SpliceProgress } from "@/lib/spliceCompletion";
+
+interface SpliceProgressBarProps {
+  progress: SpliceProgress;
+  unit: "fibers" | "pairs";
+  remainingOnly: boolean;
+  onRemainingOnlyChange: (remainingOnly: boolean) => void;
+  testId: string;
+}
+
+// Field progress for a splice tab, with the switch that hides rows already signed off
+export function SpliceProgressBar({ progress, unit, remainingOnly, onRemainingOnlyChange, testId }: SpliceProgressBarProps) {
+  const percent = progress.total > 0 ? Math.round((progress.completed / progress.total) * 100) : 0;
+
+  return (
+    <div className="flex items-center gap-4 mb-4 max-w-2xl" data-testid={`progress-${testId}`}>
+      <Progress value={percent} className="h-2 flex-1" />
+      <span className="text-sm text-muted-foreground whitespace-nowrap" data-testid={`text-progress-${testId}`}>
+        {progress.completed} of {progress.total} {unit} signed off ({percent}%)
+      </span>
+      <div className="flex items-center gap-2">
+        <Switch
+          id={`remaining-only-${testId}`}
+          checked={remainingOnly}
+          onCheckedChange={onRemainingOnlyChange}
+          data-testid={`switch-remaining-only-${testId}`}
+        />
+        <Label htmlFor={`remaining-only-${testId}`} className="text-sm whitespace-nowrap">Remaining only</Label>
+      </div>
+    </div>
+  );
+}
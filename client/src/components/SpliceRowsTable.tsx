@@ -0,0 +1,126 @@
+import { useLayoutEffect, useMemo, useRef, useState, type ReactNode } from "react";
+import type { Cable, Circuit, Splitter } from "@shared/schema";
+import type { SpliceGrouping, SpliceRow } from "@shared/spliceRows";
+import { RefreshCw } from "lucide-react";
+import { Table, TableBody } from "@/components/ui/table";
+import { useSpliceRows } from "@/hooks/use-splice-rows";
+
+interface SpliceRowsTableProps {
+  circuits: Circuit[];
+  cables: Cable[];
+  splitters: Splitter[];
+  useGroupView: boolean;
+  grouping?: SpliceGrouping;
+  renderHeader: (spliceCount: number | null) => ReactNode; // The table's TableHeader; null until rows are first laid out
+  renderRow: (row: SpliceRow, rowBgColor: string) => ReactNode;
+  isRowHidden?: (row: SpliceRow) => boolean; // e.g. rows already signed off
+  testId: string;
+}
+
+// Smaller tables render every row, so the whole table can be searched and printed
+const virtualizeAbove = 200;
+// Rows drawn past each edge of the visible window, so fast scrolling doesn't show blank space
+const overscan = 15;
+// Until a row has been measured
+const estimatedRowHeight = 37;
+
+// A splice table drawing only the rows scrolled into view, under a header that stays put. Row
+// shading alternates by circuit, so it doesn't shift as rows scroll in and out
+export function SpliceRowsTable({
+  circuits,
+  cables,
+  splitters,
+  useGroupView,
+  grouping = "fiber",
+  renderHeader,
+  renderRow,
+  isRowHidden,
+  testId,
+}: SpliceRowsTableProps) {
+  const { rows, pending } = useSpliceRows(circuits, cables, splitters, useGroupView, grouping);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const bodyRef = useRef<HTMLTableSectionElement>(null);
+  const [firstVisible, setFirstVisible] = useState(0);
+  const [viewportHeight, setViewportHeight] = useState(800);
+  const [rowHeight, setRowHeight] = useState(estimatedRowHeight);
+
+  const circuitIndex = useMemo(() => new Map(circuits.map((circuit, index) => [circuit.id, index])), [circuits]);
+  const shownRows = useMemo(
+    () => rows && isRowHidden ? rows.filter(row => !isRowHidden(row)) : rows ?? [],
+    [rows, isRowHidden]
+  );
+  // Message rows (e.g. a missing feed cable) aren't splices
+  const spliceCount = useMemo(() => rows ? shownRows.filter(row => row.kind !== "message").length : null, [rows, shownRows]);
+
+  const virtual = shownRows.length > virtualizeAbove;
+  // Switching to a shorter view can leave the scroll position past the new last row
+  const first = Math.min(firstVisible, shownRows.length);
+  const start = virtual ? Math.max(0, first - overscan) : 0;
+  const end = virtual
+    ? Math.min(shownRows.length, first + Math.ceil(viewportHeight / rowHeight) + overscan)
+    : shownRows.length;
+  const paddingTop = start * rowHeight;
+  const paddingBottom = (shownRows.length - end) * rowHeight;
+
+  const handleScroll = () => {
+    const container = containerRef.current;
+    if (!container) return;
+    setFirstVisible(Math.floor(container.scrollTop / rowHeight));
+    setViewportHeight(container.clientHeight);
+  };
+
+  // Row height depends on the view and the badges in it, so it's measured from the rows drawn
+  useLayoutEffect(() => {
+    const body = bodyRef.current;
+    if (!virtual || !body || end <= start) return;
+    const measured = (body.offsetHeight - paddingTop - paddingBottom) / (end - start);
+    if (measured > 0 && Math.abs(measured - rowHeight) > 0.5) setRowHeight(measured);
+    if (containerRef.current) setViewportHeight(containerRef.current.clientHeight);
+  });
+
+  return (
+    <div className="relative inline-block max-w-full">
+      <div
+        ref={containerRef}
+        onScroll={virtual ? handleScroll : undefined}
+        className="rounded-md border overflow-auto max-h-[70vh] [&>div]:overflow-visible [&_thead]:sticky [&_thead]:top-0 [&_thead]:z-10 [&_thead]:bg-background"
+        data-testid={`table-splices-${testId}`}
+      >
+        <Table className="text-sm w-auto">
+          {renderHeader(spliceCount)}
+          <TableBody ref={bodyRef}>
+            {rows === null ? (
+              <tr>
+                <td colSpan={9} className="text-center py-6 text-muted-foreground" data-testid={`text-splices-loading-${testId}`}>
+                  Laying out splices...
+                </td>
+              </tr>
+            ) : (
+              <>
+                {paddingTop > 0 && <tr aria-hidden style={{ height: paddingTop }} />}
+                {shownRows.slice(start, end).map(row => {
+                  // Alternate background color based on circuit index
+                  const rowBgColor = (circuitIndex.get(row.circuit.id) ?? 0) % 2 === 0
+                    ? "bg-white dark:bg-background"
+                    : "bg-gray-200 dark:bg-muted/50";
+                  return renderRow(row, rowBgColor);
+                })}
+                {paddingBottom > 0 && <tr aria-hidden style={{ height: paddingBottom }} />}
+              </>
+            )}
+          </TableBody>
+        </Table>
+      </div>
+      {/* Rows shown are from before the latest change until the worker answers */}
+      {pending && rows && (
+        <div
+          className="absolute top-1 right-1 z-20 flex items-center gap-1 rounded bg-background/90 px-1.5 py-0.5 text-xs text-muted-foreground shadow-sm"
+          data-testid={`text-splices-updating-${testId}`}
+        >
+          <RefreshCw className="h-3 w-3 animate-spin" />
+          Updating...
+        </div>
+      )}
+    </div>
+  );
+}
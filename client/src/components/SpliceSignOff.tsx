@@ -0,0 +1,196 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import type { SpliceCompletion } from "@shared/schema";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { MessageSquare, MessageSquareText } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import {
+  findCompletion,
+  getTechnicianName,
+  setTechnicianName,
+  type SpliceTarget,
+} from "@/lib/spliceCompletion";
+
+interface SpliceSignOffProps {
+  mode: "fiber" | "copper";
+  targets: SpliceTarget[]; // Every fiber the splice row covers; a ribbon row is done once all are
+  completions: Map<string, SpliceCompletion>;
+  testId: string;
+}
+
+// Done checkbox for one splice table row, with who signed it off and a note in a popover
+export function SpliceSignOff({ mode, targets, completions, testId }: SpliceSignOffProps) {
+  const { toast } = useToast();
+  const { user, canMarkComplete } = useAuth();
+  const [open, setOpen] = useState(false);
+  const [note, setNote] = useState("");
+  const [name, setName] = useState("");
+
+  const signedOff = targets
+    .map(target => findCompletion(completions, target))
+    .filter((completion): completion is SpliceCompletion => completion !== undefined);
+  const done = targets.length > 0 && signedOff.length === targets.length;
+  const latest = signedOff.reduce<SpliceCompletion | null>(
+    (newest, completion) => (!newest || completion.completedAt > newest.completedAt ? completion : newest),
+    null,
+  );
+  // Signed-in users sign off as themselves; otherwise with the name typed in the popover
+  const technicianName = user?.displayName ?? name.trim();
+
+  const refreshCompletions = () => queryClient.invalidateQueries({ queryKey: [`/api/${mode}/completions`] });
+
+  const signOffMutation = useMutation({
+    mutationFn: async ({ completedBy, note }: { completedBy: string; note: string | null }) => {
+      const pending = targets.filter(target => !findCompletion(completions, target));
+      return await apiRequest("POST", `/api/${mode}/completions`, {
+        completions: pending.map(target => ({ ...target, completedBy, note })),
+      });
+    },
+    onSuccess: async (_result, { completedBy }) => {
+      if (!user) setTechnicianName(completedBy);
+      await refreshCompletions();
+      setOpen(false);
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to sign off splice", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const noteMutation = useMutation({
+    mutationFn: async () => {
+      return await apiRequest("PATCH", `/api/${mode}/completions`, { ids: signedOff.map(c => c.id), note });
+    },
+    onSuccess: async () => {
+      await refreshCompletions();
+      setOpen(false);
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to save note", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const clearMutation = useMutation({
+    mutationFn: async () => {
+      return await apiRequest("DELETE", `/api/${mode}/completions`, { ids: signedOff.map(c => c.id) });
+    },
+    onSuccess: refreshCompletions,
+    onError: (error: Error) => {
+      toast({ title: "Failed to clear sign-off", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    if (nextOpen) {
+      setNote(latest?.note ?? "");
+      setName(getTechnicianName());
+    }
+    setOpen(nextOpen);
+  };
+
+  const handleCheckedChange = () => {
+    if (done) {
+      clearMutation.mutate();
+    } else if (user || getTechnicianName()) {
+      signOffMutation.mutate({ completedBy: user?.displayName ?? getTechnicianName(), note: null });
+    } else {
+      // Nobody signed in and no name yet: ask for one first
+      handleOpenChange(true);
+    }
+  };
+
+  const isPending = signOffMutation.isPending || noteMutation.isPending || clearMutation.isPending;
+
+  if (targets.length === 0) return null;
+
+  return (
+    <div className="flex items-center justify-center gap-1">
+      <Checkbox
+        checked={done ? true : signedOff.length > 0 ? "indeterminate" : false}
+        onCheckedChange={handleCheckedChange}
+        disabled={!canMarkComplete || isPending}
+        title={latest ? `Signed off by ${latest.completedBy}` : "Mark spliced"}
+        data-testid={`checkbox-${testId}`}
+      />
+      {(signedOff.length > 0 || canMarkComplete) && (
+        <Popover open={open} onOpenChange={handleOpenChange}>
+          <PopoverTrigger asChild>
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-6 w-6"
+              title={latest?.note ?? "Sign-off details"}
+              data-testid={`button-${testId}-details`}
+            >
+              {latest?.note
+                ? <MessageSquareText className="h-3.5 w-3.5" />
+                : <MessageSquare className="h-3.5 w-3.5 text-muted-foreground" />}
+            </Button>
+          </PopoverTrigger>
+          <PopoverContent className="w-72 space-y-3" align="end">
+            {latest ? (
+              <div className="text-sm">
+                <div>
+                  Signed off by <span className="font-medium">{latest.completedBy}</span>
+                  {!done && ` (${signedOff.length} of ${targets.length})`}
+                </div>
+                <div className="text-xs text-muted-foreground">{new Date(latest.completedAt).toLocaleString()}</div>
+              </div>
+            ) : (
+              <div className="text-sm text-muted-foreground">Not signed off yet</div>
+            )}
+            {canMarkComplete && !done && !user && (
+              <div className="space-y-1">
+                <Label htmlFor={`${testId}-name`}>Your name</Label>
+                <Input
+                  id={`${testId}-name`}
+                  maxLength={40}
+                  value={name}
+                  onChange={(e) => setName(e.target.value)}
+                  data-testid={`input-${testId}-name`}
+                />
+              </div>
+            )}
+            <div className="space-y-1">
+              <Label htmlFor={`${testId}-note`}>Note</Label>
+              <Textarea
+                id={`${testId}-note`}
+                rows={3}
+                maxLength={500}
+                value={note}
+                onChange={(e) => setNote(e.target.value)}
+                disabled={!canMarkComplete}
+                data-testid={`input-${testId}-note`}
+              />
+            </div>
+            {canMarkComplete && (
+              <div className="flex justify-end gap-2">
+                {signedOff.length > 0 && (
+                  <Button size="sm" variant="outline" onClick={() => noteMutation.mutate()} disabled={isPending}>
+                    Save note
+                  </Button>
+                )}
+                {!done && (
+                  <Button
+                    size="sm"
+                    onClick={() => signOffMutation.mutate({ completedBy: technicianName, note })}
+                    disabled={!technicianName || isPending}
+                    data-testid={`button-${testId}-sign-off`}
+                  >
+                    Sign off
+                  </Button>
+                )}
+              </div>
+            )}
+          </PopoverContent>
+        </Popover>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,233 @@
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { insertSplitterSchema, type InsertSplitter, type Splitter, type Cable, splitterRatios } from "@shared/schema";
+import { Button } from "@/components/ui/button";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+
+interface SplitterFormProps {
+  splitter?: Splitter;
+  enclosureId: string | null;
+  feedCables: Cable[];
+  onSubmit: (data: InsertSplitter) => void;
+  onCancel: () => void;
+  isLoading?: boolean;
+}
+
+// Select items can't have an empty value, so "no input" gets its own sentinel
+const NO_INPUT = "none";
+
+export function SplitterForm({ splitter, enclosureId, feedCables, onSubmit, onCancel, isLoading }: SplitterFormProps) {
+  const form = useForm<InsertSplitter>({
+    resolver: zodResolver(insertSplitterSchema),
+    defaultValues: splitter ? {
+      enclosureId: splitter.enclosureId,
+      name: splitter.name,
+      ratio: splitter.ratio as InsertSplitter["ratio"],
+      location: splitter.location ?? "",
+      inputCableId: splitter.inputCableId,
+      inputFiber: splitter.inputFiber,
+      portPrefix: splitter.portPrefix,
+      portStart: splitter.portStart,
+    } : {
+      enclosureId,
+      name: "",
+      ratio: "1x8",
+      location: "",
+      inputCableId: null,
+      inputFiber: null,
+      portPrefix: "pon",
+      portStart: 1,
+    },
+  });
+
+  const inputCableId = form.watch("inputCableId");
+  const inputCable = feedCables.find(c => c.id === inputCableId);
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
+        <div className="grid grid-cols-2 gap-4">
+          <FormField
+            control={form.control}
+            name="name"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Splitter Name</FormLabel>
+                <FormControl>
+                  <Input placeholder="e.g., SPL-1" {...field} data-testid="input-splitter-name" />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="ratio"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Split Ratio</FormLabel>
+                <Select onValueChange={field.onChange} defaultValue={field.value}>
+                  <FormControl>
+                    <SelectTrigger data-testid="select-splitter-ratio">
+                      <SelectValue placeholder="Select ratio" />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    {splitterRatios.map((ratio) => (
+                      <SelectItem key={ratio} value={ratio} data-testid={`option-splitter-ratio-${ratio}`}>
+                        {ratio}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </div>
+
+        <FormField
+          control={form.control}
+          name="location"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Location (Optional)</FormLabel>
+              <FormControl>
+                <Input
+                  placeholder="e.g., Tray 2, slot 1"
+                  value={field.value ?? ""}
+                  onChange={field.onChange}
+                  data-testid="input-splitter-location"
+                />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <div className="grid grid-cols-2 gap-4">
+          <FormField
+            control={form.control}
+            name="inputCableId"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Input Feed Cable</FormLabel>
+                <Select
+                  onValueChange={(value) => field.onChange(value === NO_INPUT ? null : value)}
+                  defaultValue={field.value ?? NO_INPUT}
+                >
+                  <FormControl>
+                    <SelectTrigger data-testid="select-splitter-input-cable">
+                      <SelectValue placeholder="Select feed cable" />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    <SelectItem value={NO_INPUT}>Not connected</SelectItem>
+                    {feedCables.map((cable) => (
+                      <SelectItem key={cable.id} value={cable.id} data-testid={`option-splitter-input-${cable.id}`}>
+                        {cable.name} ({cable.fiberCount})
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="inputFiber"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Input Fiber</FormLabel>
+                <FormControl>
+                  <Input
+                    type="number"
+                    min={1}
+                    max={inputCable?.fiberCount}
+                    disabled={!inputCable}
+                    value={field.value ?? ""}
+                    onChange={(e) => field.onChange(e.target.value ? parseInt(e.target.value) : null)}
+                    data-testid="input-splitter-input-fiber"
+                  />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </div>
+
+        <div className="grid grid-cols-2 gap-4">
+          <FormField
+            control={form.control}
+            name="portPrefix"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Port Circuit Prefix</FormLabel>
+                <FormControl>
+                  <Input placeholder="pon" {...field} data-testid="input-splitter-port-prefix" />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="portStart"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Port 1 Circuit Number</FormLabel>
+                <FormControl>
+                  <Input
+                    type="number"
+                    min={1}
+                    {...field}
+                    onChange={(e) => field.onChange(parseInt(e.target.value) || 0)}
+                    data-testid="input-splitter-port-start"
+                  />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </div>
+        <p className="text-sm text-muted-foreground">
+          Distribution circuits with this prefix land on the matching output ports, e.g. "pon,1-8" on ports 1-8.
+        </p>
+
+        <div className="flex gap-2 justify-end pt-4">
+          <Button
+            type="button"
+            variant="outline"
+            onClick={onCancel}
+            disabled={isLoading}
+            data-testid="button-cancel-splitter"
+          >
+            Cancel
+          </Button>
+          <Button type="submit" disabled={isLoading} data-testid="button-save-splitter">
+            {isLoading ? "Saving..." : splitter ? "Update Splitter" : "Create Splitter"}
+          </Button>
+        </div>
+      </form>
+    </Form>
+  );
+}
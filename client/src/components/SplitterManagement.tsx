@@ -0,0 +1,227 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { type Cable, type Circuit, type InsertSplitter, type Splitter, getSplitterOutputCount, getSplitterPortRange } from "@shared/schema";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Edit2, Plus, Split, Trash2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { SplitterForm } from "./SplitterForm";
+
+interface SplitterManagementProps {
+  enclosureId: string | null;
+  splitters: Splitter[];
+  cables: Cable[];
+  circuits: Circuit[];
+}
+
+export function SplitterManagement({ enclosureId, splitters, cables, circuits }: SplitterManagementProps) {
+  const { toast } = useToast();
+  const { canEditDesign } = useAuth();
+  const [formOpen, setFormOpen] = useState(false);
+  const [editingSplitter, setEditingSplitter] = useState<Splitter | null>(null);
+
+  const splittersEndpoint = "/api/fiber/splitters";
+  const feedCables = cables.filter(c => c.type === "Feed");
+
+  const refreshSplitters = async () => {
+    await queryClient.refetchQueries({ queryKey: [splittersEndpoint] });
+    await queryClient.refetchQueries({ queryKey: ["/api/fiber/circuits"] });
+  };
+
+  const createSplitterMutation = useMutation({
+    mutationFn: async (data: InsertSplitter) => {
+      return await apiRequest("POST", splittersEndpoint, data);
+    },
+    onSuccess: async () => {
+      await refreshSplitters();
+      setFormOpen(false);
+      toast({ title: "Splitter created successfully" });
+    },
+    onError: (error: any) => {
+      toast({ title: error?.message || "Failed to create splitter", variant: "destructive" });
+    },
+  });
+
+  const updateSplitterMutation = useMutation({
+    mutationFn: async ({ id, data }: { id: string; data: InsertSplitter }) => {
+      return await apiRequest("PUT", `${splittersEndpoint}/${id}`, data);
+    },
+    onSuccess: async () => {
+      await refreshSplitters();
+      setFormOpen(false);
+      setEditingSplitter(null);
+      toast({ title: "Splitter updated successfully" });
+    },
+    onError: (error: any) => {
+      toast({ title: error?.message || "Failed to update splitter", variant: "destructive" });
+    },
+  });
+
+  const deleteSplitterMutation = useMutation({
+    mutationFn: async (id: string) => {
+      return await apiRequest("DELETE", `${splittersEndpoint}/${id}`, undefined);
+    },
+    onSuccess: async () => {
+      // Circuits on the splitter's outputs were unspliced as well
+      await refreshSplitters();
+      toast({ title: "Splitter deleted successfully" });
+    },
+    onError: () => {
+      toast({ title: "Failed to delete splitter", variant: "destructive" });
+    },
+  });
+
+  const handleSubmit = (data: InsertSplitter) => {
+    const splitterData = { ...data, inputFiber: data.inputCableId ? data.inputFiber : null };
+    if (editingSplitter) {
+      updateSplitterMutation.mutate({ id: editingSplitter.id, data: splitterData });
+    } else {
+      createSplitterMutation.mutate(splitterData);
+    }
+  };
+
+  return (
+    <Card data-testid="card-splitter-management">
+      <CardHeader className="flex flex-row items-center justify-between gap-2 space-y-0 pb-4">
+        <CardTitle className="text-lg flex items-center gap-2">
+          <Split className="h-4 w-4" />
+          Splitters
+        </CardTitle>
+        <Button
+          size="sm"
+          variant="outline"
+          className="border-dashed"
+          onClick={() => {
+            setEditingSplitter(null);
+            setFormOpen(true);
+          }}
+          disabled={!canEditDesign}
+          data-testid="button-add-splitter"
+        >
+          <Plus className="h-4 w-4 mr-1" />
+          Add Splitter
+        </Button>
+      </CardHeader>
+      <CardContent>
+        {splitters.length === 0 ? (
+          <div className="text-center py-6 text-sm text-muted-foreground">
+            No splitters in this enclosure.
+          </div>
+        ) : (
+          <div className="rounded-md border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Name</TableHead>
+                  <TableHead>Ratio</TableHead>
+                  <TableHead>Input</TableHead>
+                  <TableHead>Output Circuits</TableHead>
+                  <TableHead>Ports Used</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {splitters.map((splitter) => {
+                  const inputCable = cables.find(c => c.id === splitter.inputCableId);
+                  const { rangeStart, rangeEnd } = getSplitterPortRange(splitter);
+                  const portsUsed = circuits
+                    .filter(c => c.isSpliced === 1 && c.splitterId === splitter.id)
+                    .reduce((sum, c) => sum + ((c.feedFiberEnd ?? 0) - (c.feedFiberStart ?? 0) + 1), 0);
+
+                  return (
+                    <TableRow key={splitter.id} data-testid={`row-splitter-${splitter.id}`}>
+                      <TableCell className="text-sm">
+                        <div className="font-medium">{splitter.name}</div>
+                        {splitter.location && (
+                          <div className="text-xs text-muted-foreground">{splitter.location}</div>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        <Badge variant="secondary">{splitter.ratio}</Badge>
+                      </TableCell>
+                      <TableCell className="font-mono text-sm" data-testid={`text-splitter-input-${splitter.id}`}>
+                        {inputCable && splitter.inputFiber ? `${inputCable.name} F${splitter.inputFiber}` : "-"}
+                      </TableCell>
+                      <TableCell className="font-mono text-sm">
+                        {splitter.portPrefix},{rangeStart}-{rangeEnd}
+                      </TableCell>
+                      <TableCell className="text-sm" data-testid={`text-splitter-ports-used-${splitter.id}`}>
+                        {portsUsed}/{getSplitterOutputCount(splitter.ratio)}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        <div className="flex justify-end gap-1">
+                          <Button
+                            size="icon"
+                            variant="ghost"
+                            onClick={() => {
+                              setEditingSplitter(splitter);
+                              setFormOpen(true);
+                            }}
+                            disabled={!canEditDesign}
+                            data-testid={`button-edit-splitter-${splitter.id}`}
+                          >
+                            <Edit2 className="h-4 w-4" />
+                          </Button>
+                          <Button
+                            size="icon"
+                            variant="ghost"
+                            onClick={() => deleteSplitterMutation.mutate(splitter.id)}
+                            disabled={deleteSplitterMutation.isPending || !canEditDesign}
+                            data-testid={`button-delete-splitter-${splitter.id}`}
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </CardContent>
+
+      <Dialog open={formOpen} onOpenChange={setFormOpen}>
+        <DialogContent data-testid="dialog-splitter-form">
+          <DialogHeader>
+            <DialogTitle>{editingSplitter ? "Edit Splitter" : "Add New Splitter"}</DialogTitle>
+            <DialogDescription>
+              A feed fiber lands on the splitter input; distribution circuits land on its output ports
+            </DialogDescription>
+          </DialogHeader>
+          <SplitterForm
+            key={editingSplitter?.id ?? "new"}
+            splitter={editingSplitter || undefined}
+            enclosureId={enclosureId}
+            feedCables={feedCables}
+            onSubmit={handleSubmit}
+            onCancel={() => {
+              setFormOpen(false);
+              setEditingSplitter(null);
+            }}
+            isLoading={createSplitterMutation.isPending || updateSplitterMutation.isPending}
+          />
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
@@ -0,0 +1,216 @@
+import { useMutation, useQuery } from "@tanstack/react-query";
+import type { Cable, Splitter } from "@shared/schema";
+import type { SyncTable } from "@shared/sync";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, invalidateModeQueries } from "@/lib/queryClient";
+import type { SyncConflictDetails } from "@/lib/sync";
+
+interface SyncConflictsDialogProps {
+  mode: "fiber" | "copper";
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+type RecordData = Record<string, any> | null;
+
+const tableNames: Record<SyncTable, string> = {
+  enclosures: "Enclosure",
+  splitters: "Splitter",
+  cables: "Cable",
+  circuits: "Circuit",
+  spliceCompletions: "Sign-off",
+  otdrTraces: "OTDR trace",
+  fiberStatuses: "Fiber status",
+};
+
+// Fields that together describe a circuit's splice, shown as one line
+const spliceFields = ["isSpliced", "feedCableId", "feedFiberStart", "feedFiberEnd", "splitterId"];
+
+// OTDR trace data is too long to list; the file name and import time tell two traces apart
+const otdrDataFields = ["events", "points"];
+
+// fiberCount -> "fiber count"
+function fieldLabel(field: string): string {
+  return field.replace(/([A-Z])/g, " $1").toLowerCase();
+}
+
+export function SyncConflictsDialog({ mode, open, onOpenChange }: SyncConflictsDialogProps) {
+  const { toast } = useToast();
+  const unit = mode === "copper" ? "pairs" : "fibers";
+
+  const { data: conflicts = [] } = useQuery<SyncConflictDetails[]>({
+    queryKey: [`/api/${mode}/sync/conflicts`],
+    enabled: open,
+  });
+  const { data: cables = [] } = useQuery<Cable[]>({
+    queryKey: [`/api/${mode}/cables`],
+  });
+  const { data: splitters = [] } = useQuery<Splitter[]>({
+    queryKey: [`/api/${mode}/splitters`],
+  });
+
+  const cableNames = new Map(cables.map(c => [c.id, c.name]));
+  const splitterNames = new Map(splitters.map(s => [s.id, s.name]));
+
+  const resolveMutation = useMutation({
+    mutationFn: async (choices: { conflict: SyncConflictDetails; keep: "local" | "remote" }[]) => {
+      for (const { conflict, keep } of choices) {
+        await apiRequest("POST", `/api/${mode}/sync/resolve`, { table: conflict.table, key: conflict.key, keep });
+      }
+    },
+    onSuccess: async (_result, choices) => {
+      if (choices.length === conflicts.length) onOpenChange(false);
+      // Push the versions kept from this device straight away
+      await apiRequest("POST", `/api/${mode}/sync`);
+      // Taking the server's version can change any table
+      await invalidateModeQueries(mode);
+    },
+    onError: () => {
+      toast({ title: "Failed to resolve conflict", variant: "destructive" });
+    },
+  });
+
+  const describeSplice = (record: Record<string, any>) => {
+    if (record.isSpliced !== 1) return "Not spliced";
+    const range = `${record.feedFiberStart}-${record.feedFiberEnd}`;
+    if (record.splitterId) return `Spliced to ${splitterNames.get(record.splitterId) ?? "a splitter"} ports ${range}`;
+    return `Spliced to ${cableNames.get(record.feedCableId) ?? "a feed cable"} ${unit} ${range}`;
+  };
+
+  // The fields where the two versions differ, as readable lines
+  const describeDifferences = (table: SyncTable, record: RecordData, other: RecordData): string[] => {
+    if (!record) return ["Deleted"];
+    const lines: string[] = [];
+    const fields = Object.keys(record).filter(field =>
+      field !== "id" && (!other || JSON.stringify(record[field]) !== JSON.stringify(other[field]))
+    );
+
+    if (table === "circuits" && fields.some(field => spliceFields.includes(field))) {
+      lines.push(describeSplice(record));
+    }
+    for (const field of fields) {
+      if (table === "circuits" && spliceFields.includes(field)) continue;
+      if (table === "otdrTraces" && otdrDataFields.includes(field)) continue;
+      const value = record[field];
+      const shown = field.endsWith("Id") && typeof value === "string"
+        ? cableNames.get(value) ?? splitterNames.get(value) ?? value
+        : value ?? "none";
+      lines.push(`${fieldLabel(field)}: ${shown}`);
+    }
+    return lines.length > 0 ? lines : ["Same as the other version"];
+  };
+
+  const describeTitle = (conflict: SyncConflictDetails) => {
+    const record = conflict.local ?? conflict.remote;
+    if (conflict.table === "circuits") {
+      const cableName = cableNames.get(record?.cableId);
+      return `Circuit ${record?.circuitId ?? conflict.key}${cableName ? ` on ${cableName}` : ""}`;
+    }
+    if (conflict.table === "spliceCompletions") {
+      return `${cableNames.get(record?.cableId) ?? "Cable"} ${unit.slice(0, -1)} ${record?.fiber ?? conflict.key}`;
+    }
+    if (conflict.table === "fiberStatuses") {
+      return `Status of ${cableNames.get(record?.cableId) ?? "cable"} ${unit.slice(0, -1)} ${record?.fiber ?? conflict.key}`;
+    }
+    if (conflict.table === "otdrTraces") {
+      return `OTDR trace ${record?.fileName ?? conflict.key} on ${cableNames.get(record?.cableId) ?? "cable"} fiber ${record?.fiber}`;
+    }
+    return `${tableNames[conflict.table]} ${record?.name ?? conflict.key}`;
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl" data-testid="dialog-sync-conflicts">
+        <DialogHeader>
+          <DialogTitle>Sync Conflicts</DialogTitle>
+          <DialogDescription>
+            These records were changed on this device and on another one since the last sync. Pick the version to keep
+            for each; the other is discarded everywhere.
+          </DialogDescription>
+        </DialogHeader>
+
+        {conflicts.length === 0 ? (
+          <p className="text-sm text-muted-foreground py-6 text-center">No conflicts - everything is in sync.</p>
+        ) : (
+          <ScrollArea className="max-h-[60vh] pr-3">
+            <div className="space-y-3">
+              {conflicts.map((conflict) => (
+                <div
+                  key={`${conflict.table}:${conflict.key}`}
+                  className="rounded-md border p-3 space-y-3"
+                  data-testid={`sync-conflict-${conflict.key}`}
+                >
+                  <div className="flex items-center gap-2">
+                    <Badge variant="outline">{tableNames[conflict.table]}</Badge>
+                    <span className="font-medium">{describeTitle(conflict)}</span>
+                  </div>
+                  <div className="grid grid-cols-2 gap-3 text-sm">
+                    {([
+                      { keep: "local", heading: "This device", record: conflict.local, other: conflict.remote },
+                      { keep: "remote", heading: "Server (another device)", record: conflict.remote, other: conflict.local },
+                    ] as const).map(({ keep, heading, record, other }) => (
+                      <div key={keep} className="rounded-md bg-muted/50 p-2 flex flex-col gap-2">
+                        <div className="text-xs font-medium text-muted-foreground">{heading}</div>
+                        <ul className="space-y-0.5 flex-1">
+                          {describeDifferences(conflict.table, record, other).map((line, index) => (
+                            <li key={index}>{line}</li>
+                          ))}
+                        </ul>
+                        <Button
+                          size="sm"
+                          variant={keep === "local" ? "default" : "outline"}
+                          onClick={() => resolveMutation.mutate([{ conflict, keep }])}
+                          disabled={resolveMutation.isPending}
+                          data-testid={`button-keep-${keep}-${conflict.key}`}
+                        >
+                          {keep === "local" ? "Keep mine" : "Use server's"}
+                        </Button>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              ))}
+            </div>
+          </ScrollArea>
+        )}
+
+        <DialogFooter>
+          {conflicts.length > 1 && (
+            <>
+              <Button
+                variant="outline"
+                onClick={() => resolveMutation.mutate(conflicts.map(conflict => ({ conflict, keep: "remote" as const })))}
+                disabled={resolveMutation.isPending}
+                data-testid="button-keep-all-remote"
+              >
+                Use all server's
+              </Button>
+              <Button
+                variant="outline"
+                onClick={() => resolveMutation.mutate(conflicts.map(conflict => ({ conflict, keep: "local" as const })))}
+                disabled={resolveMutation.isPending}
+                data-testid="button-keep-all-local"
+              >
+                Keep all mine
+              </Button>
+            </>
+          )}
+          <Button onClick={() => onOpenChange(false)} data-testid="button-sync-conflicts-close">
+            Close
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
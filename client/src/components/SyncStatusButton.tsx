@@ -0,0 +1,141 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import type { Project } from "@shared/schema";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuSub,
+  DropdownMenuSubContent,
+  DropdownMenuSubTrigger,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { AlertTriangle, Cloud, CloudDownload, CloudOff, RefreshCw } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useSync } from "@/hooks/use-sync";
+import { useAuth } from "@/hooks/use-auth";
+import { apiRequest, invalidateModeQueries } from "@/lib/queryClient";
+import { SyncConflictsDialog } from "@/components/SyncConflictsDialog";
+
+interface SyncStatusButtonProps {
+  mode: "fiber" | "copper";
+  onSwitch: () => void; // Called after a server project is opened, to clear selections
+}
+
+// Header sync indicator; also owns the background sync for the page
+export function SyncStatusButton({ mode, onSwitch }: SyncStatusButtonProps) {
+  const { toast } = useToast();
+  const { syncNow, syncing, status } = useSync(mode);
+  const { signedIn, serverAvailable } = useAuth();
+  const [menuOpen, setMenuOpen] = useState(false);
+  const [conflictsOpen, setConflictsOpen] = useState(false);
+
+  const { data: projects = [] } = useQuery<Project[]>({
+    queryKey: [`/api/${mode}/projects`],
+  });
+  const { data: serverProjects = [] } = useQuery<Project[]>({
+    queryKey: [`/api/${mode}/sync/server-projects`],
+    enabled: menuOpen && status?.connection === "online",
+  });
+  const localIds = new Set(projects.map(p => p.id));
+  const remoteOnlyProjects = serverProjects.filter(p => !localIds.has(p.id));
+
+  const openMutation = useMutation({
+    mutationFn: async (project: Project) => {
+      return await apiRequest("POST", `/api/${mode}/sync/open-project`, project);
+    },
+    onSuccess: async (_result, project) => {
+      await invalidateModeQueries(mode);
+      onSwitch();
+      toast({ title: `Opened ${project.name} from the server` });
+    },
+    onError: () => {
+      toast({ title: "Failed to open project", variant: "destructive" });
+    },
+  });
+
+  const pending = status?.pendingChanges ?? 0;
+  const conflicts = status?.conflicts ?? 0;
+  // Background sync only runs with a server session, so without one say why instead of the last result
+  const unreachable = status?.connection === "offline" || status?.connection === "error" || (!signedIn && !serverAvailable);
+  const signedOut = status?.connection === "signed-out" || (!signedIn && serverAvailable);
+
+  let icon = <Cloud className="h-4 w-4 mr-2" />;
+  let label = "Synced";
+  if (syncing) {
+    icon = <RefreshCw className="h-4 w-4 mr-2 animate-spin" />;
+    label = "Syncing";
+  } else if (conflicts > 0) {
+    icon = <AlertTriangle className="h-4 w-4 mr-2 text-destructive" />;
+    label = `${conflicts} conflict${conflicts === 1 ? "" : "s"}`;
+  } else if (signedOut) {
+    icon = <CloudOff className="h-4 w-4 mr-2" />;
+    label = "Sign in to sync";
+  } else if (unreachable) {
+    icon = <CloudOff className="h-4 w-4 mr-2" />;
+    label = pending > 0 ? `Offline (${pending})` : "Offline";
+  } else if (pending > 0) {
+    label = `${pending} pending`;
+  }
+
+  return (
+    <>
+      <DropdownMenu open={menuOpen} onOpenChange={setMenuOpen}>
+        <DropdownMenuTrigger asChild>
+          <Button
+            variant="outline"
+            size="sm"
+            title={status?.error ?? undefined}
+            data-testid="button-sync-status"
+          >
+            {icon}
+            {label}
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end" className="w-64">
+          <DropdownMenuLabel className="font-normal text-xs text-muted-foreground">
+            {status?.lastSyncedAt ? `Last synced ${new Date(status.lastSyncedAt).toLocaleString()}` : "Not synced yet"}
+            {(unreachable || signedOut) && status?.error && <div className="text-destructive">{status.error}</div>}
+            {pending > 0 && <div>{pending} change(s) waiting to be sent</div>}
+          </DropdownMenuLabel>
+          <DropdownMenuSeparator />
+          <DropdownMenuItem onClick={syncNow} disabled={syncing} data-testid="menu-sync-now">
+            <RefreshCw className="h-4 w-4 mr-2" />
+            Sync now
+          </DropdownMenuItem>
+          <DropdownMenuItem onClick={() => setConflictsOpen(true)} disabled={conflicts === 0} data-testid="menu-sync-conflicts">
+            <AlertTriangle className="h-4 w-4 mr-2" />
+            Review conflicts{conflicts > 0 ? ` (${conflicts})` : ""}
+          </DropdownMenuItem>
+          {remoteOnlyProjects.length > 0 && (
+            <DropdownMenuSub>
+              <DropdownMenuSubTrigger data-testid="menu-sync-server-projects">
+                <CloudDownload className="h-4 w-4 mr-2" />
+                Open from server ({remoteOnlyProjects.length})
+              </DropdownMenuSubTrigger>
+              <DropdownMenuSubContent className="w-64">
+                {remoteOnlyProjects.map((project) => (
+                  <DropdownMenuItem
+                    key={project.id}
+                    onClick={() => openMutation.mutate(project)}
+                    data-testid={`menu-sync-open-${project.id}`}
+                  >
+                    <span className="truncate">
+                      {project.name}
+                      {project.jobNumber && <span className="ml-1 text-muted-foreground">#{project.jobNumber}</span>}
+                    </span>
+                  </DropdownMenuItem>
+                ))}
+              </DropdownMenuSubContent>
+            </DropdownMenuSub>
+          )}
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <SyncConflictsDialog mode={mode} open={conflictsOpen} onOpenChange={setConflictsOpen} />
+    </>
+  );
+}
@@ -0,0 +1,304 @@
+import { useEffect, useMemo, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { formatFiberMarking, parseColorCodes, parseLossSettings, type Cable, type Circuit, type Enclosure, type OtdrTrace, type Project, type Splitter } from "@shared/schema";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { traceFiber, type TraceHop, type TraceLink } from "@/lib/fiberTrace";
+import { calculateTraceLoss, formatLoss } from "@/lib/lossBudget";
+import { OtdrPanel } from "./OtdrPanel";
+
+interface TraceDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  cables: Cable[];
+  circuits: Circuit[];
+  enclosures: Enclosure[];
+  splitters?: Splitter[];
+  initialCableId?: string;
+  initialFiber?: number;
+}
+
+const linkLabels: Record<TraceLink, string> = {
+  origin: "Origin",
+  splice: "Splice",
+  "pass-through": "Pass-through",
+};
+
+export function TraceDialog({
+  open,
+  onOpenChange,
+  cables,
+  circuits,
+  enclosures,
+  splitters = [],
+  initialCableId,
+  initialFiber,
+}: TraceDialogProps) {
+  const [cableId, setCableId] = useState<string>("");
+  const [fiber, setFiber] = useState("1");
+
+  // Start from whatever row/circuit the dialog was opened from
+  useEffect(() => {
+    if (open) {
+      setCableId(initialCableId ?? cables[0]?.id ?? "");
+      setFiber(String(initialFiber ?? 1));
+    }
+  }, [open, initialCableId, initialFiber]);
+
+  const enclosureNames = useMemo(() => new Map(enclosures.map(e => [e.id, e.name])), [enclosures]);
+  const selectedCable = cables.find(c => c.id === cableId);
+  const fiberNumber = parseInt(fiber, 10);
+
+  const { data: activeProject } = useQuery<Project>({
+    queryKey: ["/api/fiber/projects/active"],
+  });
+  const colorCodes = useMemo(() => parseColorCodes(activeProject?.colorCodes), [activeProject?.colorCodes]);
+
+  const trace = useMemo(() => {
+    if (!selectedCable || isNaN(fiberNumber)) return null;
+    return traceFiber(selectedCable.id, fiberNumber, cables, circuits, enclosures, splitters, colorCodes);
+  }, [selectedCable, fiberNumber, cables, circuits, enclosures, splitters, colorCodes]);
+
+  const lossSettings = useMemo(() => parseLossSettings(activeProject?.lossSettings), [activeProject?.lossSettings]);
+  const loss = useMemo(() => trace ? calculateTraceLoss(trace, circuits, lossSettings) : null, [trace, circuits, lossSettings]);
+
+  const { data: otdrTraces = [] } = useQuery<OtdrTrace[]>({
+    queryKey: ["/api/fiber/otdr"],
+  });
+  const otdrCount = otdrTraces.filter(t => t.cableId === selectedCable?.id && t.fiber === fiberNumber).length;
+
+  const cableHopCount = trace ? trace.hops.filter(h => h.kind === "cable").length : 0;
+  const spliceCount = trace ? trace.hops.filter(h => h.link === "splice").length : 0;
+
+  const renderHopLoss = (index: number) => {
+    const hopLoss = loss?.hops[index];
+    return (
+      <TableCell className="font-mono text-right text-xs py-1 px-2 whitespace-nowrap" data-testid={`text-trace-hop-loss-${index}`}>
+        {hopLoss && (hopLoss.loss1310 > 0 || hopLoss.loss1550 > 0)
+          ? `${hopLoss.loss1310.toFixed(2)} / ${hopLoss.loss1550.toFixed(2)}`
+          : "-"}
+      </TableCell>
+    );
+  };
+
+  const renderHopLink = (hop: TraceHop, index: number) => (
+    <TableCell className="py-1 px-2 text-muted-foreground whitespace-nowrap">
+      {linkLabels[hop.link]}
+      {hop.ambiguous && (
+        <Badge
+          variant="outline"
+          className="ml-1 px-1 py-0 text-xs"
+          title="Several cables share this name, so the sheath may run on into a different one"
+          data-testid={`badge-trace-ambiguous-${index}`}
+        >
+          By name
+        </Badge>
+      )}
+    </TableCell>
+  );
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto" data-testid="dialog-trace">
+        <DialogHeader>
+          <DialogTitle>Fiber Details</DialogTitle>
+          <DialogDescription>
+            Follow a fiber through every splice from the feed to the last distribution cable, with the loss along the way,
+            and review the OTDR traces taken on it
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex gap-2 items-end">
+          <div className="flex-1">
+            <Label className="text-xs">Cable</Label>
+            <Select value={cableId} onValueChange={setCableId}>
+              <SelectTrigger data-testid="select-trace-cable">
+                <SelectValue placeholder="Select cable" />
+              </SelectTrigger>
+              <SelectContent>
+                {cables.map((cable) => (
+                  <SelectItem key={cable.id} value={cable.id} data-testid={`option-trace-cable-${cable.id}`}>
+                    {cable.enclosureId && enclosureNames.has(cable.enclosureId)
+                      ? `${enclosureNames.get(cable.enclosureId)} / `
+                      : ""}
+                    {cable.name} ({cable.type}, {cable.fiberCount}F)
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="w-28">
+            <Label htmlFor="trace-fiber" className="text-xs">Fiber</Label>
+            <Input
+              id="trace-fiber"
+              type="number"
+              min={1}
+              max={selectedCable?.fiberCount}
+              value={fiber}
+              onChange={(e) => setFiber(e.target.value)}
+              data-testid="input-trace-fiber"
+            />
+          </div>
+        </div>
+
+        <Tabs defaultValue="trace">
+          <TabsList>
+            <TabsTrigger value="trace" data-testid="tab-fiber-trace">Trace</TabsTrigger>
+            <TabsTrigger value="otdr" data-testid="tab-fiber-otdr">OTDR{otdrCount > 0 ? ` (${otdrCount})` : ""}</TabsTrigger>
+          </TabsList>
+          <TabsContent value="trace">
+            {!trace ? (
+              <div className="text-center py-8 text-sm text-muted-foreground" data-testid="text-trace-empty">
+                {selectedCable
+                  ? `Enter a fiber between 1 and ${selectedCable.fiberCount}`
+                  : "Select a cable to trace"}
+              </div>
+            ) : (
+              <div className="space-y-2">
+                <div className="flex items-center gap-2 text-sm text-muted-foreground" data-testid="text-trace-summary">
+                  <span>{cableHopCount} cable{cableHopCount === 1 ? "" : "s"}, {spliceCount} splice{spliceCount === 1 ? "" : "s"}</span>
+                  {trace.truncated && (
+                    <Badge variant="destructive" data-testid="badge-trace-truncated">Loop detected - trace stopped</Badge>
+                  )}
+                </div>
+                {loss && (
+                  <div className="flex flex-wrap items-center gap-2 text-sm" data-testid="text-trace-loss">
+                    <span>
+                      Loss {formatLoss(loss.loss1310)} at 1310 nm, {formatLoss(loss.loss1550)} at 1550 nm
+                      <span className="text-muted-foreground"> (incl. {formatLoss(loss.connectorLoss)} connectors, {(loss.lengthMeters / 1000).toFixed(2)} km)</span>
+                    </span>
+                    <Badge variant={loss.overBudget ? "destructive" : "secondary"} data-testid="badge-trace-budget">
+                      {loss.overBudget ? "Over" : "Within"} {formatLoss(lossSettings.budgetDb)} budget
+                    </Badge>
+                    {loss.missingLengths.length > 0 && (
+                      <span className="text-xs text-muted-foreground" data-testid="text-trace-missing-lengths">
+                        No length set for {loss.missingLengths.map(c => c.name).join(", ")}
+                      </span>
+                    )}
+                  </div>
+                )}
+                <div className="rounded-md border max-h-[50vh] overflow-y-auto">
+                  <Table className="text-sm">
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead className="py-1 px-2">#</TableHead>
+                        <TableHead className="py-1 px-2">Link</TableHead>
+                        <TableHead className="py-1 px-2">Enclosure</TableHead>
+                        <TableHead className="py-1 px-2">Cable</TableHead>
+                        <TableHead className="py-1 px-2 text-center">Fiber</TableHead>
+                        <TableHead className="py-1 px-2 text-center">Ribbon/Tube</TableHead>
+                        <TableHead className="py-1 px-2 text-center">Strand</TableHead>
+                        <TableHead className="py-1 px-2">Circuit</TableHead>
+                        <TableHead className="py-1 px-2 text-right whitespace-nowrap">Loss 1310 / 1550</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {trace.hops.map((hop, index) => hop.kind === "splitter" ? (
+                        <TableRow
+                          key={`splitter-${hop.splitter.id}-${hop.port ?? "in"}`}
+                          className={index === trace.startIndex ? "bg-primary/10" : undefined}
+                          data-testid={`row-trace-hop-${index}`}
+                        >
+                          <TableCell className="font-mono py-1 px-2">{index + 1}</TableCell>
+                          {renderHopLink(hop, index)}
+                          <TableCell className="py-1 px-2">{hop.enclosure?.name ?? "-"}</TableCell>
+                          <TableCell className="font-mono py-1 px-2 whitespace-nowrap">
+                            {hop.splitter.name}
+                            <span className="ml-1 text-xs text-muted-foreground">(Splitter {hop.splitter.ratio})</span>
+                          </TableCell>
+                          <TableCell colSpan={3} className="text-center py-1 px-2 text-muted-foreground" data-testid={`text-trace-splitter-port-${index}`}>
+                            {hop.port !== null ? `Output port P${hop.port}` : `Input - fans out to ${hop.outputCount} ports`}
+                          </TableCell>
+                          <TableCell className="font-mono py-1 px-2">
+                            {hop.port !== null ? `${hop.splitter.portPrefix},${hop.splitter.portStart + hop.port - 1}` : "-"}
+                          </TableCell>
+                          {renderHopLoss(index)}
+                        </TableRow>
+                      ) : (
+                        <TableRow
+                          key={`${hop.cable.id}-${hop.fiber}`}
+                          className={index === trace.startIndex ? "bg-primary/10" : undefined}
+                          data-testid={`row-trace-hop-${index}`}
+                        >
+                          <TableCell className="font-mono py-1 px-2">{index + 1}</TableCell>
+                          {renderHopLink(hop, index)}
+                          <TableCell className="py-1 px-2">{hop.enclosure?.name ?? "-"}</TableCell>
+                          <TableCell className="font-mono py-1 px-2 whitespace-nowrap">
+                            {hop.cable.name}-{hop.cable.fiberCount}
+                            <span className="ml-1 text-xs text-muted-foreground">({hop.cable.type})</span>
+                          </TableCell>
+                          <TableCell className="font-mono text-center py-1 px-2">{hop.fiber}</TableCell>
+                          <TableCell className="text-center py-1 px-2">
+                            <span
+                              className="inline-block px-1.5 py-0.5 rounded border-l-4 font-mono text-xs"
+                              style={{
+                                borderLeftColor: `hsl(var(--fiber-${hop.groupMarking.color}))`,
+                                backgroundColor: `hsl(var(--fiber-${hop.groupMarking.color}) / 0.15)`,
+                              }}
+                              title={formatFiberMarking(hop.groupMarking)}
+                            >
+                              {hop.group}
+                            </span>
+                          </TableCell>
+                          <TableCell className="text-center py-1 px-2">
+                            <span
+                              className="inline-block px-1.5 py-0.5 rounded border-l-4 font-mono text-xs"
+                              style={{
+                                borderLeftColor: `hsl(var(--fiber-${hop.strandMarking.color}))`,
+                                backgroundColor: `hsl(var(--fiber-${hop.strandMarking.color}) / 0.15)`,
+                              }}
+                              title={formatFiberMarking(hop.strandMarking)}
+                            >
+                              {hop.strand} {formatFiberMarking(hop.strandMarking)}
+                            </span>
+                          </TableCell>
+                          <TableCell className="font-mono py-1 px-2">{hop.circuitId ?? "-"}</TableCell>
+                          {renderHopLoss(index)}
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+              </div>
+            )}
+          </TabsContent>
+          <TabsContent value="otdr">
+            {selectedCable && trace ? (
+              <OtdrPanel cable={selectedCable} fiber={fiberNumber} />
+            ) : (
+              <div className="text-center py-8 text-sm text-muted-foreground" data-testid="text-otdr-no-fiber">
+                {selectedCable
+                  ? `Enter a fiber between 1 and ${selectedCable.fiberCount}`
+                  : "Select a cable"}
+              </div>
+            )}
+          </TabsContent>
+        </Tabs>
+      </DialogContent>
+    </Dialog>
+  );
+}
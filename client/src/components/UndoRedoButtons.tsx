@@ -0,0 +1,37 @@
+import { Button } from "@/components/ui/button";
+import { Redo2, Undo2 } from "lucide-react";
+import { useUndoRedo } from "@/hooks/use-undo-redo";
+
+interface UndoRedoButtonsProps {
+  mode: "fiber" | "copper";
+}
+
+// Header undo/redo buttons; also owns the Ctrl+Z / Ctrl+Shift+Z shortcuts for the page
+export function UndoRedoButtons({ mode }: UndoRedoButtonsProps) {
+  const { undo, redo, undoLabel, redoLabel, canUndo, canRedo } = useUndoRedo(mode);
+
+  return (
+    <>
+      <Button
+        variant="outline"
+        size="sm"
+        onClick={undo}
+        disabled={!canUndo}
+        title={undoLabel ? `Undo: ${undoLabel} (Ctrl+Z)` : "Nothing to undo"}
+        data-testid="button-undo"
+      >
+        <Undo2 className="h-4 w-4" />
+      </Button>
+      <Button
+        variant="outline"
+        size="sm"
+        onClick={redo}
+        disabled={!canRedo}
+        title={redoLabel ? `Redo: ${redoLabel} (Ctrl+Shift+Z)` : "Nothing to redo"}
+        data-testid="button-redo"
+      >
+        <Redo2 className="h-4 w-4" />
+      </Button>
+    </>
+  );
+}
@@ -0,0 +1,189 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { roleLabels, userRoles, type SessionUser, type UserRole } from "@shared/auth";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Trash2, UserPlus } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+
+interface UserManagementDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  currentUserId: string;
+}
+
+const roleDescriptions: Record<UserRole, string> = {
+  designer: "Edits cables, circuits and splice assignments",
+  technician: "Marks splices complete",
+  viewer: "Read only",
+};
+
+// Designers add accounts and set everyone's role
+export function UserManagementDialog({ open, onOpenChange, currentUserId }: UserManagementDialogProps) {
+  const { toast } = useToast();
+  const [username, setUsername] = useState("");
+  const [displayName, setDisplayName] = useState("");
+  const [password, setPassword] = useState("");
+  const [role, setRole] = useState<UserRole>("technician");
+
+  const { data: users = [] } = useQuery<SessionUser[]>({
+    queryKey: ["/api/users"],
+    enabled: open,
+  });
+
+  const refreshUsers = () => queryClient.invalidateQueries({ queryKey: ["/api/users"] });
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      return await apiRequest("POST", "/api/users", { username, displayName, password, role });
+    },
+    onSuccess: async () => {
+      await refreshUsers();
+      toast({ title: `Added ${displayName}` });
+      setUsername("");
+      setDisplayName("");
+      setPassword("");
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to add user", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const roleMutation = useMutation({
+    mutationFn: async ({ id, role }: { id: string; role: UserRole }) => {
+      return await apiRequest("PATCH", `/api/users/${id}`, { role });
+    },
+    onSuccess: refreshUsers,
+    onError: (error: Error) => {
+      toast({ title: "Failed to change role", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      return await apiRequest("DELETE", `/api/users/${id}`);
+    },
+    onSuccess: refreshUsers,
+    onError: (error: Error) => {
+      toast({ title: "Failed to delete user", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const canCreate = username.trim() && displayName.trim() && password.length >= 8;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Users</DialogTitle>
+          <DialogDescription>
+            Designers edit the design, technicians sign off splices in the field and viewers can only look.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2 max-h-64 overflow-y-auto">
+          {users.map((user) => (
+            <div key={user.id} className="flex items-center gap-2" data-testid={`user-row-${user.id}`}>
+              <div className="min-w-0 flex-1">
+                <div className="text-sm truncate">{user.displayName}</div>
+                <div className="text-xs text-muted-foreground truncate">{user.username}</div>
+              </div>
+              <Select
+                value={user.role}
+                onValueChange={(value) => roleMutation.mutate({ id: user.id, role: value as UserRole })}
+                disabled={user.id === currentUserId}
+              >
+                <SelectTrigger className="w-36" data-testid={`select-user-role-${user.id}`}>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {userRoles.map((r) => (
+                    <SelectItem key={r} value={r}>{roleLabels[r]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={() => deleteMutation.mutate(user.id)}
+                disabled={user.id === currentUserId}
+                title="Delete user"
+                data-testid={`button-delete-user-${user.id}`}
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+        </div>
+
+        <form
+          className="space-y-3 border-t pt-4"
+          onSubmit={(e) => {
+            e.preventDefault();
+            if (canCreate) createMutation.mutate();
+          }}
+        >
+          <div className="text-sm font-medium">Add a user</div>
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-1">
+              <Label htmlFor="new-user-username">Username</Label>
+              <Input id="new-user-username" value={username} onChange={(e) => setUsername(e.target.value)} data-testid="input-new-user-username" />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="new-user-display-name">Name</Label>
+              <Input id="new-user-display-name" maxLength={40} value={displayName} onChange={(e) => setDisplayName(e.target.value)} data-testid="input-new-user-display-name" />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="new-user-password">Password</Label>
+              <Input
+                id="new-user-password"
+                type="password"
+                autoComplete="new-password"
+                placeholder="At least 8 characters"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                data-testid="input-new-user-password"
+              />
+            </div>
+            <div className="space-y-1">
+              <Label>Role</Label>
+              <Select value={role} onValueChange={(value) => setRole(value as UserRole)}>
+                <SelectTrigger data-testid="select-new-user-role">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {userRoles.map((r) => (
+                    <SelectItem key={r} value={r}>{roleLabels[r]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <div className="flex items-center justify-between gap-2">
+            <span className="text-xs text-muted-foreground">{roleDescriptions[role]}</span>
+            <Button type="submit" size="sm" disabled={!canCreate || createMutation.isPending} data-testid="button-add-user">
+              <UserPlus className="h-4 w-4 mr-2" />
+              Add
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
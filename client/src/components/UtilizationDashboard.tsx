@@ -0,0 +1,232 @@
+import { useCallback, useMemo, useState } from "react";
+import { Bar, BarChart, CartesianGrid, XAxis, YAxis } from "recharts";
+import type { Cable, Circuit, Enclosure, FiberStatus, Splitter } from "@shared/schema";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig,
+} from "@/components/ui/chart";
+import { summarizeProjectUtilization } from "@/lib/utilization";
+
+interface UtilizationDashboardProps {
+  mode: "fiber" | "copper";
+  enclosures: Enclosure[];
+  cables: Cable[];
+  circuits: Circuit[];
+  splitters: Splitter[];
+  statuses: Map<string, FiberStatus>;
+  activeEnclosureId: string | null;
+}
+
+// Select value for looking at every enclosure at once
+const wholeProject = "project";
+
+const usageConfig = {
+  assigned: { label: "Assigned", color: "hsl(var(--chart-1))" },
+  spliced: { label: "Spliced", color: "hsl(var(--chart-2))" },
+  spare: { label: "Spare", color: "hsl(var(--chart-5))" },
+  damaged: { label: "Damaged", color: "hsl(var(--destructive))" },
+} satisfies ChartConfig;
+
+// Grouped bars get cramped below this much room per category, so wide charts scroll instead
+const categoryWidth = 96;
+
+function UsageChart({ data, testId }: { data: Array<{ name: string } & Record<keyof typeof usageConfig, number>>; testId: string }) {
+  return (
+    <div className="overflow-x-auto">
+      <ChartContainer
+        config={usageConfig}
+        className="aspect-auto h-64"
+        style={{ minWidth: Math.max(320, data.length * categoryWidth) }}
+        data-testid={testId}
+      >
+        <BarChart data={data} margin={{ top: 8, right: 8, bottom: 0, left: 0 }}>
+          <CartesianGrid vertical={false} />
+          <XAxis dataKey="name" tickLine={false} interval={0} />
+          <YAxis width={40} allowDecimals={false} />
+          <ChartTooltip content={<ChartTooltipContent />} />
+          <ChartLegend content={<ChartLegendContent />} />
+          {(Object.keys(usageConfig) as Array<keyof typeof usageConfig>).map(key => (
+            <Bar key={key} dataKey={key} fill={`var(--color-${key})`} radius={2} isAnimationActive={false} />
+          ))}
+        </BarChart>
+      </ChartContainer>
+    </div>
+  );
+}
+
+// Fiber use across the enclosure or whole project: per cable, per circuit ID prefix, and feed fibers
+// used up by each distribution cable
+export function UtilizationDashboard({ mode, enclosures, cables, circuits, splitters, statuses, activeEnclosureId }: UtilizationDashboardProps) {
+  const [scope, setScope] = useState<string>(activeEnclosureId ?? wholeProject);
+  const unit = mode === "fiber" ? "fibers" : "pairs";
+  const enclosureNames = useMemo(() => new Map(enclosures.map(e => [e.id, e.name])), [enclosures]);
+
+  const scopedCables = useMemo(
+    () => scope === wholeProject ? cables : cables.filter(c => c.enclosureId === scope),
+    [cables, scope]
+  );
+  const summary = useMemo(
+    () => summarizeProjectUtilization(scopedCables, circuits, splitters, statuses),
+    [scopedCables, circuits, splitters, statuses]
+  );
+
+  // Cable names only need to be unique per enclosure, so the whole-project view says which is which
+  const cableLabel = useCallback((cable: Cable) => scope === wholeProject && enclosures.length > 1
+    ? `${enclosureNames.get(cable.enclosureId ?? "") ?? "?"} / ${cable.name}`
+    : cable.name, [scope, enclosures.length, enclosureNames]);
+
+  const totals = summary.cables.reduce(
+    (sum, { utilization }) => ({
+      fibers: sum.fibers + utilization.fiberCount,
+      assigned: sum.assigned + utilization.assigned,
+      spliced: sum.spliced + utilization.spliced,
+      spare: sum.spare + utilization.statusCounts.spare,
+      damaged: sum.damaged + utilization.statusCounts.damaged,
+      available: sum.available + utilization.available,
+    }),
+    { fibers: 0, assigned: 0, spliced: 0, spare: 0, damaged: 0, available: 0 }
+  );
+  const percent = (count: number) => totals.fibers > 0 ? Math.round((count / totals.fibers) * 100) : 0;
+
+  const cableData = summary.cables.map(({ cable, utilization }) => ({
+    name: cableLabel(cable),
+    assigned: utilization.assigned,
+    spliced: utilization.spliced,
+    spare: utilization.statusCounts.spare,
+    damaged: utilization.statusCounts.damaged,
+  }));
+  const prefixData = summary.prefixes.map(({ prefix, ...counts }) => ({ name: prefix, ...counts }));
+
+  // One stacked series per distribution cable drawing on any feed, then splitter inputs and what's left
+  const { feedData, feedConfig } = useMemo(() => {
+    const distributionIds = Array.from(new Set(summary.feeds.flatMap(f => Array.from(f.byCable.keys()))));
+    const cablesById = new Map(cables.map(c => [c.id, c]));
+    const config: ChartConfig = {};
+    distributionIds.forEach((id, i) => {
+      const cable = cablesById.get(id);
+      config[`cable${i}`] = { label: cable?.name ?? "Deleted cable", color: `hsl(var(--chart-${(i % 5) + 1}))` };
+    });
+    config.splitters = { label: "Splitter inputs", color: "hsl(var(--muted-foreground))" };
+    config.free = { label: "Free", color: "hsl(var(--muted))" };
+
+    const data = summary.feeds.map(feed => {
+      const row: Record<string, string | number> = { name: cableLabel(feed.feedCable), splitters: feed.splitterInputs, free: feed.free };
+      distributionIds.forEach((id, i) => {
+        row[`cable${i}`] = feed.byCable.get(id) ?? 0;
+      });
+      return row;
+    });
+    return { feedData: data, feedConfig: config };
+  }, [summary.feeds, cables, cableLabel]);
+
+  const stats = [
+    { key: "total", label: `Total ${unit}`, value: totals.fibers, detail: `${summary.cables.length} cables` },
+    { key: "assigned", label: "Assigned", value: totals.assigned, detail: `${percent(totals.assigned)}%` },
+    { key: "spliced", label: "Spliced", value: totals.spliced, detail: `${percent(totals.spliced)}%` },
+    { key: "spare", label: "Spare", value: totals.spare, detail: `${percent(totals.spare)}%` },
+    { key: "damaged", label: "Damaged", value: totals.damaged, detail: `${percent(totals.damaged)}%` },
+    { key: "available", label: "Available", value: totals.available, detail: `${percent(totals.available)}%` },
+  ];
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between gap-2">
+        <h2 className="text-lg font-semibold">Utilization</h2>
+        <Select value={scope} onValueChange={setScope}>
+          <SelectTrigger className="w-56" data-testid="select-dashboard-scope">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={wholeProject}>Whole project</SelectItem>
+            {enclosures.map(enclosure => (
+              <SelectItem key={enclosure.id} value={enclosure.id}>{enclosure.name}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-6 gap-3">
+        {stats.map(stat => (
+          <Card key={stat.key} data-testid={`card-dashboard-${stat.key}`}>
+            <CardContent className="p-4">
+              <div className="text-xs text-muted-foreground">{stat.label}</div>
+              <div className="text-2xl font-semibold font-mono">{stat.value}</div>
+              <div className="text-xs text-muted-foreground">{stat.detail}</div>
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+
+      {summary.cables.length === 0 ? (
+        <div className="text-muted-foreground" data-testid="text-dashboard-empty">
+          No cables here yet.
+        </div>
+      ) : (
+        <>
+          <Card>
+            <CardHeader className="pb-2">
+              <CardTitle className="text-base">By cable</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <UsageChart data={cableData} testId="chart-dashboard-cables" />
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader className="pb-2">
+              <CardTitle className="text-base">By circuit ID prefix</CardTitle>
+            </CardHeader>
+            <CardContent>
+              {prefixData.length === 0 ? (
+                <div className="text-sm text-muted-foreground">No circuits yet.</div>
+              ) : (
+                <UsageChart data={prefixData} testId="chart-dashboard-prefixes" />
+              )}
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader className="pb-2">
+              <CardTitle className="text-base">Feed {unit} used by distribution cables</CardTitle>
+            </CardHeader>
+            <CardContent>
+              {feedData.length === 0 ? (
+                <div className="text-sm text-muted-foreground">No feed cables here.</div>
+              ) : (
+                <ChartContainer
+                  config={feedConfig}
+                  className="aspect-auto w-full"
+                  style={{ height: Math.max(160, feedData.length * 48 + 64) }}
+                  data-testid="chart-dashboard-feeds"
+                >
+                  <BarChart data={feedData} layout="vertical" margin={{ top: 8, right: 8, bottom: 0, left: 0 }}>
+                    <CartesianGrid horizontal={false} />
+                    <XAxis type="number" allowDecimals={false} />
+                    <YAxis type="category" dataKey="name" width={120} tickLine={false} />
+                    <ChartTooltip content={<ChartTooltipContent />} />
+                    <ChartLegend content={<ChartLegendContent />} />
+                    {Object.keys(feedConfig).map(key => (
+                      <Bar key={key} dataKey={key} stackId="feed" fill={`var(--color-${key})`} isAnimationActive={false} />
+                    ))}
+                  </BarChart>
+                </ChartContainer>
+              )}
+            </CardContent>
+          </Card>
+        </>
+      )}
+    </div>
+  );
+}
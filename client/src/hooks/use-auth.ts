@@ -0,0 +1,29 @@
+import { useQuery } from "@tanstack/react-query";
+import { canEditDesign, canMarkComplete } from "@shared/auth";
+import { auth, type AuthState } from "@/lib/auth";
+import { queryClient } from "@/lib/queryClient";
+
+// The signed-in account and what its role may change. Without an account everything is allowed;
+// the server still checks every change that gets synced.
+export function useAuth() {
+  const { data } = useQuery<AuthState>({
+    queryKey: ["/api/auth/status"],
+    placeholderData: () => auth.getLocalState(),
+  });
+  const state = data ?? auth.getLocalState();
+  const role = state.user?.role ?? null;
+
+  return {
+    ...state,
+    role,
+    canEditDesign: role === null || canEditDesign(role),
+    canMarkComplete: role === null || canMarkComplete(role),
+  };
+}
+
+// Refresh everything that depends on who is signed in
+export async function refreshAccount() {
+  await queryClient.invalidateQueries({ queryKey: ["/api/auth/status"] });
+  await queryClient.invalidateQueries({ queryKey: ["/api/fiber/sync"] });
+  await queryClient.invalidateQueries({ queryKey: ["/api/copper/sync"] });
+}
@@ -0,0 +1,11 @@
+import { useMemo } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { parseColorCodes, type ColorCode, type Project } from "@shared/schema";
+
+// The open fiber project's custom color codes, for looking up the code each cable follows
+export function useColorCodes(): ColorCode[] {
+  const { data: activeProject } = useQuery<Project>({
+    queryKey: ["/api/fiber/projects/active"],
+  });
+  return useMemo(() => parseColorCodes(activeProject?.colorCodes), [activeProject?.colorCodes]);
+}
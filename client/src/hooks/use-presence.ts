@@ -0,0 +1,18 @@
+import { useEffect, useState } from "react";
+import type { CollabPeer, CollabPresence } from "@shared/collab";
+import { collab } from "@/lib/collab";
+
+// Shares what this page has open with collaborators and returns who else is in the project
+export function usePresence(mode: "fiber" | "copper", { enclosureId, cableId, tab }: CollabPresence): CollabPeer[] {
+  const [peers, setPeers] = useState<CollabPeer[]>(() => collab.getPeers(mode));
+
+  useEffect(() => collab.subscribe((event) => {
+    if (event.type === "peers") setPeers(event.peers);
+  }, mode), [mode]);
+
+  useEffect(() => {
+    collab.setPresence({ enclosureId, cableId, tab }, mode);
+  }, [mode, enclosureId, cableId, tab]);
+
+  return peers;
+}
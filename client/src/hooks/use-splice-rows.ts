@@ -0,0 +1,83 @@
+import { useEffect, useMemo, useRef, useState } from "react";
+import { buildSpliceRows, type SpliceGrouping, type SpliceRow } from "@shared/spliceRows";
+import type { Cable, Circuit, Splitter } from "@shared/schema";
+import type { SpliceRowsMessage, SpliceRowsRequest, SpliceRowsResult } from "@/lib/spliceRows.worker";
+
+// Tables expected to have more rows than this are laid out in a worker so the tab stays responsive meanwhile
+const workerRowThreshold = 1000;
+
+// Rows a table will have: one per fiber in strand view, about one per circuit and ribbon in group view
+function estimateRowCount(circuits: Circuit[], useGroupView: boolean): number {
+  return circuits.reduce((sum, c) => {
+    const fibers = Math.max(1, c.fiberEnd - c.fiberStart + 1);
+    return sum + (useGroupView ? 1 + Math.floor(fibers / 12) : fibers);
+  }, 0);
+}
+
+// Splice rows for a table, rebuilt only when its circuits, cables or view change. While a worker is
+// laying out a big table the last rows stay up and pending is set; rows are null only before the first layout
+export function useSpliceRows(
+  circuits: Circuit[],
+  cables: Cable[],
+  splitters: Splitter[],
+  useGroupView: boolean,
+  grouping: SpliceGrouping = "fiber"
+): { rows: SpliceRow[] | null; pending: boolean } {
+  const request = useMemo<SpliceRowsRequest>(
+    () => ({ circuits, cables, splitters, useGroupView, grouping }),
+    [circuits, cables, splitters, useGroupView, grouping]
+  );
+  const rowCount = useMemo(() => estimateRowCount(circuits, useGroupView), [circuits, useGroupView]);
+  const [workerFailed, setWorkerFailed] = useState(false);
+  const offload = rowCount > workerRowThreshold && typeof Worker !== "undefined" && !workerFailed;
+
+  const syncRows = useMemo(
+    () => offload ? null : buildSpliceRows(request.circuits, request.cables, request.splitters, request.useGroupView, request.grouping),
+    [offload, request]
+  );
+  const [workerResult, setWorkerResult] = useState<{ request: SpliceRowsRequest; rows: SpliceRow[] } | null>(null);
+
+  // One worker for the table's lifetime, started on its first big layout
+  const workerRef = useRef<Worker | null>(null);
+  const requestsRef = useRef(new Map<number, SpliceRowsRequest>());
+  const nextIdRef = useRef(0);
+  const lastRowsRef = useRef<SpliceRow[] | null>(null);
+
+  useEffect(() => () => {
+    workerRef.current?.terminate();
+    workerRef.current = null;
+  }, []);
+
+  useEffect(() => {
+    if (!offload) return;
+    let worker = workerRef.current;
+    if (!worker) {
+      worker = new Worker(new URL("../lib/spliceRows.worker.ts", import.meta.url), { type: "module" });
+      worker.onmessage = (event: MessageEvent<SpliceRowsResult>) => {
+        const answered = requestsRef.current.get(event.data.id);
+        requestsRef.current.delete(event.data.id);
+        if (answered) setWorkerResult({ request: answered, rows: event.data.rows });
+      };
+      // No worker after all (e.g. blocked by the browser), so lay rows out here from now on
+      worker.onerror = () => {
+        worker?.terminate();
+        workerRef.current = null;
+        requestsRef.current.clear();
+        setWorkerFailed(true);
+      };
+      workerRef.current = worker;
+    }
+
+    const message: SpliceRowsMessage = { id: nextIdRef.current++, request };
+    requestsRef.current.set(message.id, request);
+    worker.postMessage(message);
+    // The worker can't be interrupted; an answer for inputs that already changed is just dropped
+    return () => {
+      requestsRef.current.delete(message.id);
+    };
+  }, [offload, request]);
+
+  const rows = syncRows ?? (workerResult?.request === request ? workerResult.rows : null);
+  if (rows) lastRowsRef.current = rows;
+  return { rows: rows ?? lastRowsRef.current, pending: rows === null };
+}
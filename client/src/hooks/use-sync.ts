@@ -0,0 +1,128 @@
+import { useCallback, useEffect, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import type { Project } from "@shared/schema";
+import { apiRequest, invalidateModeQueries, queryClient } from "@/lib/queryClient";
+import type { SyncResult, SyncStatus } from "@/lib/sync";
+import { collab } from "@/lib/collab";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+
+// Background sync cadence; local edits are pushed sooner, after PUSH_DELAY_MS of quiet
+// (or almost at once while collaborators are connected live)
+const SYNC_INTERVAL_MS = 30_000;
+const PUSH_DELAY_MS = 3_000;
+const LIVE_PUSH_DELAY_MS = 300;
+
+export function useSync(mode: "fiber" | "copper") {
+  const { toast } = useToast();
+  const { signedIn } = useAuth();
+  const [syncing, setSyncing] = useState(false);
+  const [live, setLive] = useState(() => collab.isConnected(mode));
+  const { data: status } = useQuery<SyncStatus>({
+    queryKey: [`/api/${mode}/sync`],
+  });
+  const { data: activeProject } = useQuery<Project>({
+    queryKey: [`/api/${mode}/projects/active`],
+  });
+
+  const syncNow = useCallback(async (manual = false) => {
+    setSyncing(true);
+    try {
+      const response = await apiRequest("POST", `/api/${mode}/sync`);
+      const result: SyncResult | null = await response.json();
+
+      if (result && (result.pulled > 0 || result.rejected > 0)) {
+        // Changes from other devices (or undone ones of ours) can touch any table
+        await invalidateModeQueries(mode);
+      } else {
+        await queryClient.invalidateQueries({ queryKey: [`/api/${mode}/sync`] });
+        await queryClient.invalidateQueries({ queryKey: [`/api/${mode}/sync/conflicts`] });
+      }
+
+      if (result && result.rejected > 0) {
+        toast({
+          title: `${result.rejected} change${result.rejected === 1 ? "" : "s"} undone`,
+          description: "Your role doesn't allow them, so the server's copy was restored",
+          variant: "destructive",
+        });
+      }
+      if (result && result.newConflicts > 0) {
+        toast({
+          title: `${result.newConflicts} sync conflict${result.newConflicts === 1 ? "" : "s"} to review`,
+          description: "The same records were changed on another device",
+          variant: "destructive",
+        });
+      } else if (manual) {
+        toast(result
+          ? { title: "Synced", description: `Sent ${result.pushed}, received ${result.pulled} change(s)` }
+          : { title: "Sync failed", description: "Changes stay on this device until the server is reachable", variant: "destructive" });
+      }
+    } catch (error) {
+      if (manual) toast({ title: "Sync failed", variant: "destructive" });
+    } finally {
+      setSyncing(false);
+    }
+  }, [mode, toast]);
+
+  // Sync on opening a project, periodically, and as soon as the network comes back. Only a server
+  // session can sync, so nothing runs without one and signing out stops it
+  useEffect(() => {
+    if (!signedIn) return;
+    syncNow();
+    const timer = setInterval(() => syncNow(), SYNC_INTERVAL_MS);
+    const onOnline = () => syncNow();
+    window.addEventListener("online", onOnline);
+    return () => {
+      clearInterval(timer);
+      window.removeEventListener("online", onOnline);
+    };
+  }, [syncNow, activeProject?.id, signedIn]);
+
+  // Without a session (or a server when the app started), check again once the network is back
+  useEffect(() => {
+    if (signedIn) return;
+    const onOnline = () => queryClient.invalidateQueries({ queryKey: ["/api/auth/status"] });
+    window.addEventListener("online", onOnline);
+    return () => window.removeEventListener("online", onOnline);
+  }, [signedIn]);
+
+  // The server turned a sync away because the session expired; re-checking it stops the timer
+  const connection = status?.connection;
+  useEffect(() => {
+    if (connection === "signed-out") queryClient.invalidateQueries({ queryKey: ["/api/auth/status"] });
+  }, [connection]);
+
+  // Join the project's collaboration room; when someone else pushes, pull right away
+  useEffect(() => {
+    if (!activeProject || !signedIn) {
+      // The socket only accepts signed-in users
+      collab.disconnect(mode);
+      return;
+    }
+    collab.connect(activeProject.id, mode);
+    const unsubscribe = collab.subscribe((event) => {
+      if (event.type === "changed") syncNow();
+      if (event.type === "connection") setLive(event.connected);
+    }, mode);
+    return () => {
+      unsubscribe();
+    };
+  }, [activeProject, signedIn, mode, syncNow]);
+
+  useEffect(() => () => collab.disconnect(mode), [mode]);
+
+  // Push local edits shortly after they're made
+  const pendingChanges = status?.pendingChanges ?? 0;
+  useEffect(() => {
+    if (pendingChanges === 0 || !signedIn) return;
+    const timer = setTimeout(() => syncNow(), live ? LIVE_PUSH_DELAY_MS : PUSH_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [pendingChanges, live, signedIn, syncNow]);
+
+  return {
+    syncNow: () => syncNow(true),
+    syncing,
+    status,
+    live,
+  };
+}
@@ -0,0 +1,66 @@
+import { useCallback, useEffect } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { apiRequest, invalidateModeQueries } from "@/lib/queryClient";
+import type { HistoryStatus } from "@/lib/history";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+
+// Shortcuts typed into a text field belong to the field's own undo
+function isEditingText(target: EventTarget | null) {
+  if (!(target instanceof HTMLElement)) return false;
+  return target.isContentEditable || ["INPUT", "TEXTAREA", "SELECT"].includes(target.tagName);
+}
+
+export function useUndoRedo(mode: "fiber" | "copper") {
+  const { toast } = useToast();
+  const { canEditDesign, canMarkComplete } = useAuth();
+  const { data: status } = useQuery<HistoryStatus>({
+    queryKey: [`/api/${mode}/history`],
+  });
+
+  const step = useCallback(async (direction: "undo" | "redo") => {
+    try {
+      const response = await apiRequest("POST", `/api/${mode}/history/${direction}`);
+      const { label } = await response.json();
+      if (!label) return;
+
+      // Any table may have changed, so refresh everything for this mode
+      await invalidateModeQueries(mode);
+      toast({ title: `${direction === "undo" ? "Undid" : "Redid"}: ${label}` });
+    } catch (error) {
+      toast({ title: `Failed to ${direction}`, variant: "destructive" });
+    }
+  }, [mode, toast]);
+
+  const undo = useCallback(() => step("undo"), [step]);
+  const redo = useCallback(() => step("redo"), [step]);
+
+  // Undoing is a design change too, except for steps that only sign splices off
+  const canUndo = !!status?.undoLabel && (canEditDesign || (canMarkComplete && status.undoSignOffOnly));
+  const canRedo = !!status?.redoLabel && (canEditDesign || (canMarkComplete && status.redoSignOffOnly));
+
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.altKey || isEditingText(e.target)) return;
+      const key = e.key.toLowerCase();
+      if (key === "z" && !e.shiftKey) {
+        e.preventDefault();
+        if (canUndo) undo();
+      } else if ((key === "z" && e.shiftKey) || key === "y") {
+        e.preventDefault();
+        if (canRedo) redo();
+      }
+    };
+    window.addEventListener("keydown", onKeyDown);
+    return () => window.removeEventListener("keydown", onKeyDown);
+  }, [undo, redo, canUndo, canRedo]);
+
+  return {
+    undo,
+    redo,
+    undoLabel: status?.undoLabel ?? null,
+    redoLabel: status?.redoLabel ?? null,
+    canUndo,
+    canRedo,
+  };
+}
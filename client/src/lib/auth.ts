@@ -0,0 +1,118 @@
+import {
+  canEditDesign,
+  canMarkComplete,
+  type AuthStatus,
+  type CreateUserRequest,
+  type LoginRequest,
+  type SessionUser,
+  type UpdateUserRequest,
+} from '@shared/auth';
+import { requestServer, ServerAuthError } from './server';
+
+// The account this device is used with. It outlives the server session (and works offline), so a
+// technician's device stays a technician's device until they sign out.
+export interface AuthState {
+  user: SessionUser | null; // null: nobody has signed in here, the app works as a plain local tool
+  signedIn: boolean; // The server session is valid, so sync and collaboration work
+  setupRequired: boolean;
+  serverAvailable: boolean;
+}
+
+const accountKey = 'fibersplice.account';
+
+function loadAccount(): SessionUser | null {
+  try {
+    const stored = localStorage.getItem(accountKey);
+    return stored ? JSON.parse(stored) : null;
+  } catch {
+    return null;
+  }
+}
+
+function saveAccount(user: SessionUser | null) {
+  if (user) {
+    localStorage.setItem(accountKey, JSON.stringify(user));
+  } else {
+    localStorage.removeItem(accountKey);
+  }
+}
+
+// Accounts and roles: signs in to the server and tells the UI what the current role may change
+export const auth = {
+  // What is known without asking the server
+  getLocalState(): AuthState {
+    return { user: loadAccount(), signedIn: false, setupRequired: false, serverAvailable: false };
+  },
+
+  async getStatus(): Promise<AuthState> {
+    try {
+      const status = await requestServer<AuthStatus>('GET', '/api/auth/status');
+      if (status.user) saveAccount(status.user);
+      return {
+        user: status.user ?? loadAccount(),
+        signedIn: status.user !== null,
+        setupRequired: status.setupRequired,
+        serverAvailable: true,
+      };
+    } catch {
+      return this.getLocalState();
+    }
+  },
+
+  async login(credentials: LoginRequest): Promise<SessionUser> {
+    try {
+      const user = await requestServer<SessionUser>('POST', '/api/auth/login', credentials);
+      saveAccount(user);
+      return user;
+    } catch (error) {
+      // The server answers a bad password with 401 too
+      if (error instanceof ServerAuthError) throw new Error(error.message);
+      throw error;
+    }
+  },
+
+  // Creates the first account on a new server and signs in with it
+  async setup(details: Omit<CreateUserRequest, 'role'>): Promise<SessionUser> {
+    const user = await requestServer<SessionUser>('POST', '/api/auth/setup', details);
+    saveAccount(user);
+    return user;
+  },
+
+  async logout(): Promise<void> {
+    saveAccount(null);
+    try {
+      await requestServer('POST', '/api/auth/logout');
+    } catch {
+      // Signed out on this device either way; the server session just expires
+    }
+  },
+
+  // Whether the account on this device may edit the design (anyone, when nobody has signed in)
+  canEditDesign(): boolean {
+    const user = loadAccount();
+    return !user || canEditDesign(user.role);
+  },
+
+  canMarkComplete(): boolean {
+    const user = loadAccount();
+    return !user || canMarkComplete(user.role);
+  },
+
+  async getUsers(): Promise<SessionUser[]> {
+    return await requestServer<SessionUser[]>('GET', '/api/users');
+  },
+
+  async createUser(details: CreateUserRequest): Promise<SessionUser> {
+    return await requestServer<SessionUser>('POST', '/api/users', details);
+  },
+
+  async updateUser(id: string, updates: UpdateUserRequest): Promise<SessionUser> {
+    const user = await requestServer<SessionUser>('PATCH', `/api/users/${encodeURIComponent(id)}`, updates);
+    if (user.id === loadAccount()?.id) saveAccount(user);
+    return user;
+  },
+
+  async deleteUser(id: string): Promise<void> {
+    await requestServer('DELETE', `/api/users/${encodeURIComponent(id)}`);
+  },
+};
@@ -0,0 +1,162 @@
+import { describe, expect, it } from "vitest";
+import type { Cable, Circuit, FiberStatus, Splitter } from "@shared/schema";
+import { solveAutoSplice } from "./autoSplice";
+
+function makeCable(id: string, type: "Feed" | "Distribution"): Cable {
+  return {
+    id,
+    name: id.toUpperCase(),
+    fiberCount: 24,
+    ribbonSize: 12,
+    tubeCount: null,
+    fibersPerTube: null,
+    ribbonsPerTube: null,
+    colorCode: null,
+    superUnitSize: null,
+    type,
+    enclosureId: null,
+    lengthMeters: null,
+    attenuation1310: null,
+    attenuation1550: null,
+  };
+}
+
+function makeCircuit(cableId: string, circuitId: string, position: number, fiberStart: number, fiberEnd: number): Circuit {
+  return {
+    id: `${cableId}:${circuitId}`,
+    cableId,
+    enclosureId: null,
+    circuitId,
+    position,
+    fiberStart,
+    fiberEnd,
+    isSpliced: 0,
+    feedCableId: null,
+    feedFiberStart: null,
+    feedFiberEnd: null,
+    splitterId: null,
+    spliceMethod: null,
+  };
+}
+
+const feed = makeCable("f1", "Feed");
+const dist = makeCable("d1", "Distribution");
+const feedCircuits = [makeCircuit("f1", "pon,1-8", 0, 1, 8), makeCircuit("f1", "pon,9-16", 1, 9, 16)];
+
+const splitter: Splitter = {
+  id: "s1",
+  enclosureId: null,
+  name: "SP1",
+  ratio: "1x8",
+  location: null,
+  inputCableId: "f1",
+  inputFiber: 17,
+  portPrefix: "pon",
+  portStart: 17,
+};
+
+function solve(circuits: Circuit[], options: { splitters?: Splitter[]; statuses?: FiberStatus[]; others?: Circuit[] } = {}) {
+  const all = [...feedCircuits, ...circuits, ...(options.others ?? [])];
+  return solveAutoSplice(dist, circuits, [feed, dist], feedCircuits, all, options.splitters, options.statuses);
+}
+
+describe("solveAutoSplice", () => {
+  it("maps each circuit onto the feed fibers of its range, splitting it across feed circuits", () => {
+    const plan = solve([makeCircuit("d1", "pon,13-16", 1, 9, 12), makeCircuit("d1", "pon,5-12", 0, 1, 8)]);
+
+    expect(plan.unmatched).toEqual([]);
+    expect(plan.conflicts).toEqual([]);
+    expect(plan.assignments.map(a => a.segments)).toEqual([
+      [
+        { circuitId: "pon,5-8", fiberStart: 1, fiberEnd: 4, feedCableId: "f1", splitterId: null, feedCircuitId: "pon,1-8", feedFiberStart: 5, feedFiberEnd: 8 },
+        { circuitId: "pon,9-12", fiberStart: 5, fiberEnd: 8, feedCableId: "f1", splitterId: null, feedCircuitId: "pon,9-16", feedFiberStart: 9, feedFiberEnd: 12 },
+      ],
+      // A circuit that fits inside one feed circuit keeps its own ID
+      [
+        { circuitId: "pon,13-16", fiberStart: 9, fiberEnd: 12, feedCableId: "f1", splitterId: null, feedCircuitId: "pon,9-16", feedFiberStart: 13, feedFiberEnd: 16 },
+      ],
+    ]);
+  });
+
+  it("lands circuits past the feed circuits on splitter output ports", () => {
+    const plan = solve([makeCircuit("d1", "pon,15-20", 0, 1, 6)], { splitters: [splitter] });
+
+    expect(plan.assignments[0].segments).toEqual([
+      { circuitId: "pon,15-16", fiberStart: 1, fiberEnd: 2, feedCableId: "f1", splitterId: null, feedCircuitId: "pon,9-16", feedFiberStart: 15, feedFiberEnd: 16 },
+      { circuitId: "pon,17-20", fiberStart: 3, fiberEnd: 6, feedCableId: null, splitterId: "s1", feedCircuitId: "SP1", feedFiberStart: 1, feedFiberEnd: 4 },
+    ]);
+  });
+
+  it("counts spliced circuits and keeps their feed fibers and ports taken", () => {
+    const spliced = {
+      ...makeCircuit("d1", "pon,1-4", 0, 1, 4),
+      isSpliced: 1,
+      feedCableId: "f1",
+      feedFiberStart: 1,
+      feedFiberEnd: 4,
+    };
+    // Spliced on another cable of the project
+    const elsewhere = {
+      ...makeCircuit("d2", "pon,17-18", 0, 1, 2),
+      isSpliced: 1,
+      splitterId: "s1",
+      feedFiberStart: 1,
+      feedFiberEnd: 2,
+    };
+    const plan = solve(
+      [spliced, makeCircuit("d1", "pon,3-6", 1, 5, 8), makeCircuit("d1", "pon,7-8", 2, 9, 10), makeCircuit("d1", "pon,18-19", 3, 11, 12)],
+      { splitters: [splitter], others: [elsewhere] }
+    );
+
+    expect(plan.alreadySpliced).toBe(1);
+    expect(plan.assignments.map(a => a.circuit.circuitId)).toEqual(["pon,7-8"]);
+    expect(plan.conflicts.map(c => [c.circuit.circuitId, c.conflictingCircuitId, c.conflictingCableId])).toEqual([
+      ["pon,3-6", "pon,1-4", "d1"],
+      ["pon,18-19", "pon,17-18", "d2"],
+    ]);
+  });
+
+  it("does not let two circuits in the same plan share feed fibers", () => {
+    const plan = solve([makeCircuit("d1", "pon,1-4", 0, 1, 4), makeCircuit("d1", "pon,3-6", 1, 5, 8)]);
+
+    expect(plan.assignments.map(a => a.circuit.circuitId)).toEqual(["pon,1-4"]);
+    expect(plan.conflicts).toHaveLength(1);
+    expect(plan.conflicts[0]).toMatchObject({ conflictingCircuitId: "pon,1-4", conflictingCableId: "d1" });
+  });
+
+  it("leaves circuits unmatched when there are not enough feed fibers for their range", () => {
+    const plan = solve(
+      [
+        makeCircuit("d1", "pon,13-20", 0, 1, 8),
+        makeCircuit("d1", "xgs,1-4", 1, 9, 12),
+        makeCircuit("d1", "pon 1", 2, 13, 13),
+      ],
+      { splitters: [{ ...splitter, portStart: 19 }] }
+    );
+
+    expect(plan.assignments).toEqual([]);
+    expect(plan.unmatched.map(({ circuit, ranges, reason }) => [circuit.circuitId, ranges, reason])).toEqual([
+      ["pon,13-20", [{ start: 17, end: 18 }], "Only part of this range is covered by Feed circuits or splitters"],
+      ["xgs,1-4", [{ start: 1, end: 4 }], 'No Feed circuit or splitter with prefix "xgs" covers this range'],
+      ["pon 1", [], "Invalid circuit ID format"],
+    ]);
+  });
+
+  it("holds back circuits whose fibers have a status other than dark", () => {
+    const status = (cableId: string, fiber: number, value: string): FiberStatus => ({
+      id: `${cableId}:${fiber}`,
+      enclosureId: null,
+      cableId,
+      fiber,
+      status: value,
+      note: null,
+      updatedAt: "2026-10-19T12:00:00.000Z",
+    });
+    const plan = solve([makeCircuit("d1", "pon,1-4", 0, 1, 4), makeCircuit("d1", "pon,9-12", 1, 5, 8)], {
+      statuses: [status("d1", 2, "dark"), status("f1", 3, "reserved"), status("d1", 7, "damaged")],
+    });
+
+    expect(plan.assignments).toEqual([]);
+    expect(plan.unmatched.map(u => u.reason)).toEqual(["F1 fiber 3 is marked reserved", "D1 fiber 7 is marked damaged"]);
+  });
+});
@@ -0,0 +1,234 @@
+import { type Cable, type Circuit, type FiberStatus, type FiberStatusValue, type Splitter, parseCircuitIdParts, getSplitterPortRange } from "@shared/schema";
+import { buildFiberStatusLookup, fiberStatusLabels, getFiberStatus, isAssignable } from "./fiberStatus";
+
+// One piece of a distribution circuit mapped onto a single feed circuit
+export interface AutoSpliceSegment {
+  circuitId: string; // e.g. "pon,1-4" (the original ID when the circuit is not split)
+  fiberStart: number; // Distribution fibers
+  fiberEnd: number;
+  feedCableId: string | null;
+  splitterId: string | null; // Set instead of feedCableId when landing on splitter outputs
+  feedCircuitId: string; // Feed circuit ID, or the splitter name for splitter ports
+  feedFiberStart: number; // Feed fibers, or splitter output ports
+  feedFiberEnd: number;
+}
+
+export interface AutoSpliceAssignment {
+  circuit: Circuit;
+  segments: AutoSpliceSegment[]; // More than one means the circuit is split across feed circuits
+}
+
+export interface AutoSpliceUnmatched {
+  circuit: Circuit;
+  ranges: { start: number; end: number }[]; // Circuit numbers with no feed circuit to land on
+  reason: string;
+}
+
+export interface AutoSpliceConflict {
+  circuit: Circuit;
+  segment: AutoSpliceSegment;
+  conflictingCircuitId: string;
+  conflictingCableId: string;
+}
+
+export interface AutoSplicePlan {
+  assignments: AutoSpliceAssignment[];
+  unmatched: AutoSpliceUnmatched[];
+  conflicts: AutoSpliceConflict[];
+  alreadySpliced: number;
+}
+
+interface UsedRange {
+  target: string;
+  feedFiberStart: number;
+  feedFiberEnd: number;
+  circuitId: string;
+  cableId: string;
+}
+
+// Feed fibers and splitter ports are separate numbering spaces
+function getTargetKey(feedCableId: string | null, splitterId: string | null): string {
+  return splitterId ? `splitter:${splitterId}` : `cable:${feedCableId}`;
+}
+
+// First fiber of a segment, on either side of the splice, whose status keeps it out of auto-splice
+function findHeldFiber(
+  cableId: string,
+  segment: AutoSpliceSegment,
+  statusLookup: Map<string, FiberStatus>
+): FiberStatus | null {
+  for (let offset = 0; offset <= segment.fiberEnd - segment.fiberStart; offset++) {
+    const sides = [getFiberStatus(statusLookup, cableId, segment.fiberStart + offset)];
+    if (segment.feedCableId) sides.push(getFiberStatus(statusLookup, segment.feedCableId, segment.feedFiberStart + offset));
+    const held = sides.find(status => !isAssignable(status));
+    if (held) return held;
+  }
+  return null;
+}
+
+/**
+ * Computes feed fiber assignments for every unspliced circuit on a distribution cable.
+ * Uses the same prefix/range matching as splicing a single circuit by hand (splitter output
+ * ports count as a feed range with the splitter's port prefix); a circuit is
+ * only assigned when its whole range is covered, none of its feed fibers are in use, and no fiber on
+ * either side has a status that holds it back.
+ */
+export function solveAutoSplice(
+  cable: Cable,
+  cableCircuits: Circuit[],
+  feedCables: Cable[],
+  candidateCircuits: Circuit[],
+  allCircuits: Circuit[],
+  splitters: Splitter[] = [],
+  fiberStatuses: FiberStatus[] = []
+): AutoSplicePlan {
+  const statusLookup = buildFiberStatusLookup(fiberStatuses);
+  const feedCableIds = new Set(feedCables.filter(c => c.type === "Feed").map(c => c.id));
+  const plan: AutoSplicePlan = { assignments: [], unmatched: [], conflicts: [], alreadySpliced: 0 };
+
+  // Feed fibers already taken by spliced circuits anywhere in the project
+  const used: UsedRange[] = allCircuits
+    .filter(c => c.isSpliced === 1 && (c.feedCableId || c.splitterId) && c.feedFiberStart !== null && c.feedFiberEnd !== null)
+    .map(c => ({
+      target: getTargetKey(c.feedCableId, c.splitterId),
+      feedFiberStart: c.feedFiberStart!,
+      feedFiberEnd: c.feedFiberEnd!,
+      circuitId: c.circuitId,
+      cableId: c.cableId,
+    }));
+
+  // Everything a distribution range can land on: feed circuits and splitter output ports.
+  // Sorted by range start like the manual splice flow, splitters first when both start together
+  const targets = [
+    ...splitters.map(splitter => ({
+      prefix: splitter.portPrefix,
+      ...getSplitterPortRange(splitter),
+      feedCableId: null,
+      splitterId: splitter.id,
+      label: splitter.name,
+      firstFiber: 1,
+    })),
+    ...candidateCircuits
+      .filter(c => feedCableIds.has(c.cableId))
+      .flatMap(c => {
+        try {
+          return [{
+            ...parseCircuitIdParts(c.circuitId),
+            feedCableId: c.cableId as string | null,
+            splitterId: null,
+            label: c.circuitId,
+            firstFiber: c.fiberStart,
+          }];
+        } catch {
+          return [];
+        }
+      }),
+  ].sort((a, b) => a.rangeStart - b.rangeStart);
+
+  const sortedCircuits = [...cableCircuits].sort((a, b) => a.position - b.position);
+
+  for (const circuit of sortedCircuits) {
+    if (circuit.isSpliced === 1) {
+      plan.alreadySpliced++;
+      continue;
+    }
+
+    let parts: { prefix: string; rangeStart: number; rangeEnd: number };
+    try {
+      parts = parseCircuitIdParts(circuit.circuitId);
+    } catch {
+      plan.unmatched.push({ circuit, ranges: [], reason: "Invalid circuit ID format" });
+      continue;
+    }
+
+    const { prefix, rangeStart, rangeEnd } = parts;
+    const segments: AutoSpliceSegment[] = [];
+    const gaps: { start: number; end: number }[] = [];
+    let next = rangeStart;
+
+    for (const feed of targets) {
+      if (feed.prefix !== prefix || feed.rangeEnd < next || feed.rangeStart > rangeEnd) continue;
+
+      if (feed.rangeStart > next) {
+        gaps.push({ start: next, end: feed.rangeStart - 1 });
+      }
+
+      const start = Math.max(next, feed.rangeStart);
+      const end = Math.min(rangeEnd, feed.rangeEnd);
+      segments.push({
+        circuitId: `${prefix},${start}-${end}`,
+        fiberStart: circuit.fiberStart + (start - rangeStart),
+        fiberEnd: circuit.fiberStart + (end - rangeStart),
+        feedCableId: feed.feedCableId,
+        splitterId: feed.splitterId,
+        feedCircuitId: feed.label,
+        feedFiberStart: feed.firstFiber + (start - feed.rangeStart),
+        feedFiberEnd: feed.firstFiber + (end - feed.rangeStart),
+      });
+      next = end + 1;
+      if (next > rangeEnd) break;
+    }
+
+    if (next <= rangeEnd) {
+      gaps.push({ start: next, end: rangeEnd });
+    }
+
+    if (gaps.length > 0) {
+      plan.unmatched.push({
+        circuit,
+        ranges: gaps,
+        reason: segments.length === 0
+          ? `No Feed circuit or splitter with prefix "${prefix}" covers this range`
+          : "Only part of this range is covered by Feed circuits or splitters",
+      });
+      continue;
+    }
+
+    // Unsplit circuits keep their original ID
+    if (segments.length === 1) {
+      segments[0].circuitId = circuit.circuitId;
+    }
+
+    const held = segments.map(segment => findHeldFiber(cable.id, segment, statusLookup)).find(status => status !== null);
+    if (held) {
+      const heldCable = held.cableId === cable.id ? cable : feedCables.find(c => c.id === held.cableId);
+      plan.unmatched.push({
+        circuit,
+        ranges: [],
+        reason: `${heldCable?.name ?? "Feed cable"} fiber ${held.fiber} is marked ${fiberStatusLabels[held.status as FiberStatusValue].toLowerCase()}`,
+      });
+      continue;
+    }
+
+    const conflicts = segments.flatMap(segment => {
+      const target = getTargetKey(segment.feedCableId, segment.splitterId);
+      const clash = used.find(u =>
+        u.target === target &&
+        segment.feedFiberStart <= u.feedFiberEnd &&
+        u.feedFiberStart <= segment.feedFiberEnd
+      );
+      return clash
+        ? [{ circuit, segment, conflictingCircuitId: clash.circuitId, conflictingCableId: clash.cableId }]
+        : [];
+    });
+
+    if (conflicts.length > 0) {
+      plan.conflicts.push(...conflicts);
+      continue;
+    }
+
+    // Later circuits in this plan must not reuse these feed fibers either
+    for (const segment of segments) {
+      used.push({
+        target: getTargetKey(segment.feedCableId, segment.splitterId),
+        feedFiberStart: segment.feedFiberStart,
+        feedFiberEnd: segment.feedFiberEnd,
+        circuitId: segment.circuitId,
+        cableId: cable.id,
+      });
+    }
+    plan.assignments.push({ circuit, segments });
+  }
+
+  return plan;
+}
@@ -0,0 +1,165 @@
+import {
+  COLLAB_PATH,
+  type CollabClientMessage,
+  type CollabPeer,
+  type CollabPresence,
+  type CollabServerMessage,
+} from '@shared/collab';
+import { getClientId } from './sync';
+
+type Mode = 'fiber' | 'copper';
+
+export type CollabEvent =
+  | { type: 'peers'; peers: CollabPeer[] } // Other people in the project
+  | { type: 'changed'; revision: number }
+  | { type: 'connection'; connected: boolean };
+
+type Listener = (event: CollabEvent) => void;
+
+interface ModeConnection {
+  socket: WebSocket | null;
+  projectId: string | null;
+  presence: CollabPresence;
+  peers: CollabPeer[];
+  listeners: Set<Listener>;
+  retryDelay: number;
+  retryTimer: ReturnType<typeof setTimeout> | null;
+}
+
+// Reconnects back off from 1 s up to this
+const MAX_RETRY_DELAY_MS = 30_000;
+
+const connections: Record<Mode, ModeConnection> = {
+  fiber: createConnection(),
+  copper: createConnection(),
+};
+
+function createConnection(): ModeConnection {
+  return {
+    socket: null,
+    projectId: null,
+    presence: { enclosureId: null, cableId: null, tab: null },
+    peers: [],
+    listeners: new Set(),
+    retryDelay: 1000,
+    retryTimer: null,
+  };
+}
+
+function emit(mode: Mode, event: CollabEvent) {
+  connections[mode].listeners.forEach(listener => listener(event));
+}
+
+function sendMessage(mode: Mode, message: CollabClientMessage) {
+  const socket = connections[mode].socket;
+  if (socket?.readyState === WebSocket.OPEN) {
+    socket.send(JSON.stringify(message));
+  }
+}
+
+function sendJoin(mode: Mode) {
+  const connection = connections[mode];
+  if (!connection.projectId) return;
+  sendMessage(mode, { type: 'join', projectId: connection.projectId, clientId: getClientId() });
+  sendMessage(mode, { type: 'presence', presence: connection.presence });
+}
+
+function openSocket(mode: Mode) {
+  const connection = connections[mode];
+  if (connection.socket || !connection.projectId || typeof WebSocket === 'undefined') return;
+
+  const protocol = location.protocol === 'https:' ? 'wss:' : 'ws:';
+  const socket = new WebSocket(`${protocol}//${location.host}${COLLAB_PATH}`);
+  connection.socket = socket;
+
+  socket.onopen = () => {
+    connection.retryDelay = 1000;
+    sendJoin(mode);
+    emit(mode, { type: 'connection', connected: true });
+  };
+
+  socket.onmessage = (event) => {
+    let message: CollabServerMessage;
+    try {
+      message = JSON.parse(event.data);
+    } catch {
+      return;
+    }
+    if (message.type === 'peers') {
+      // Other tabs of this browser share our client ID, and our data
+      connection.peers = message.peers.filter(peer => peer.clientId !== getClientId());
+      emit(mode, { type: 'peers', peers: connection.peers });
+    } else if (message.type === 'changed') {
+      emit(mode, { type: 'changed', revision: message.revision });
+    }
+  };
+
+  socket.onclose = () => {
+    if (connection.socket !== socket) return;
+    connection.socket = null;
+    connection.peers = [];
+    emit(mode, { type: 'peers', peers: [] });
+    emit(mode, { type: 'connection', connected: false });
+
+    // Servers without the collaboration socket (or no network) - keep trying, less and less often
+    if (connection.projectId) {
+      connection.retryTimer = setTimeout(() => {
+        connection.retryTimer = null;
+        openSocket(mode);
+      }, connection.retryDelay);
+      connection.retryDelay = Math.min(connection.retryDelay * 2, MAX_RETRY_DELAY_MS);
+    }
+  };
+}
+
+// Live collaboration: who else has the project open, and a nudge when they push changes
+export const collab = {
+  // Join the project's room, reconnecting as needed until disconnect() is called
+  connect(projectId: string, mode: Mode = 'fiber') {
+    const connection = connections[mode];
+    if (connection.projectId === projectId && connection.socket) return;
+    if (connection.projectId !== null && connection.projectId !== projectId) {
+      // Nothing of the old project is open in the new one
+      connection.presence = { enclosureId: null, cableId: null, tab: null };
+    }
+    connection.projectId = projectId;
+    if (connection.socket) {
+      sendJoin(mode);
+    } else {
+      openSocket(mode);
+    }
+  },
+
+  disconnect(mode: Mode = 'fiber') {
+    const connection = connections[mode];
+    connection.projectId = null;
+    if (connection.retryTimer) clearTimeout(connection.retryTimer);
+    connection.retryTimer = null;
+    const socket = connection.socket;
+    connection.socket = null;
+    connection.peers = [];
+    socket?.close();
+    emit(mode, { type: 'peers', peers: [] });
+    emit(mode, { type: 'connection', connected: false });
+  },
+
+  isConnected(mode: Mode = 'fiber'): boolean {
+    return connections[mode].socket?.readyState === WebSocket.OPEN;
+  },
+
+  setPresence(presence: CollabPresence, mode: Mode = 'fiber') {
+    connections[mode].presence = presence;
+    sendMessage(mode, { type: 'presence', presence });
+  },
+
+  getPeers(mode: Mode = 'fiber'): CollabPeer[] {
+    return connections[mode].peers;
+  },
+
+  subscribe(listener: Listener, mode: Mode = 'fiber'): () => void {
+    connections[mode].listeners.add(listener);
+    return () => {
+      connections[mode].listeners.delete(listener);
+    };
+  },
+};
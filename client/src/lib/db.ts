@@ -1,11 +1,64 @@
-import Dexie, { type Table } from 'dexie';
-import type { Cable, Circuit, Save } from '@/../../shared/schema';
+import Dexie, { type Table, type Transaction } from 'dexie';
+import type { Cable, Circuit, Enclosure, FiberStatus, Log, OtdrTrace, Project, Save, SpliceCompletion, Splitter } from '@/../../shared/schema';
+import { nanoid } from 'nanoid';
+import type { HistoryEntry } from './history';
+import type { SyncBaseRecord, SyncConflict, SyncState } from './sync';
+
+// Tables holding the project's design and field records; history and sync follow their writes
+export const recordTables = ['enclosures', 'splitters', 'cables', 'circuits', 'spliceCompletions', 'otdrTraces', 'fiberStatuses'] as const;
+export type RecordTable = typeof recordTables[number];
+
+// One record written: before is null for creates, after is null for deletes
+export interface RecordWrite {
+  table: RecordTable;
+  key: string;
+  before: any | null;
+  after: any | null;
+  transaction: Transaction;
+}
+
+// Transactions writing changes that no request on this device made - synced records and undo/redo -
+// which undo recordings leave out
+const externalTransactions = new WeakSet<Transaction>();
+
+export function markExternalWrites(transaction: Transaction) {
+  externalTransactions.add(transaction);
+}
+
+export function isExternalWrite(write: RecordWrite): boolean {
+  return externalTransactions.has(write.transaction);
+}
+
+// The record an update leaves behind; an undefined value removes the field
+function applyModifications(record: any, modifications: Record<string, any>): any {
+  const updated = structuredClone(record);
+  for (const [keyPath, value] of Object.entries(modifications)) {
+    if (value === undefined) {
+      Dexie.delByKeyPath(updated, keyPath);
+    } else {
+      Dexie.setByKeyPath(updated, keyPath, value);
+    }
+  }
+  return updated;
+}
 
 // IndexedDB Database
 class SpliceDB extends Dexie {
+  enclosures!: Table<Enclosure>;
+  splitters!: Table<Splitter>;
   cables!: Table<Cable>;
   circuits!: Table<Circuit>;
+  spliceCompletions!: Table<SpliceCompletion>;
+  otdrTraces!: Table<OtdrTrace>;
+  fiberStatuses!: Table<FiberStatus>;
   saves!: Table<Save>;
+  logs!: Table<Log>;
+  history!: Table<HistoryEntry, number>;
+  syncBase!: Table<SyncBaseRecord, [string, string]>;
+  syncConflicts!: Table<SyncConflict, [string, string]>;
+  syncState!: Table<SyncState, string>;
+  // Told about every write to the record tables, inside the writing transaction
+  readonly writeListeners = new Set<(write: RecordWrite) => void>();
 
   constructor(dbName: string) {
     super(dbName);
@@ -14,16 +67,204 @@ class SpliceDB extends Dexie {
       circuits: 'id, cableId, position, isSpliced',
       saves: 'id, createdAt'
     });
+    this.version(3).stores({
+      enclosures: 'id, name',
+      cables: 'id, name, type, enclosureId',
+      circuits: 'id, cableId, enclosureId, position, isSpliced',
+      saves: 'id, createdAt'
+    }).upgrade(async (tx) => {
+      // Existing projects were a single implicit splice point - move them into a default enclosure
+      const cableCount = await tx.table('cables').count();
+      if (cableCount === 0) return;
+
+      const enclosureId = nanoid();
+      await tx.table('enclosures').add({
+        id: enclosureId,
+        name: 'Enclosure 1',
+        type: 'Dome',
+        trayCount: 1,
+        locationNotes: null,
+      });
+      await tx.table('cables').toCollection().modify({ enclosureId });
+      await tx.table('circuits').toCollection().modify({ enclosureId });
+    });
+    this.version(4).stores({
+      enclosures: 'id, name',
+      splitters: 'id, enclosureId, name',
+      cables: 'id, name, type, enclosureId',
+      circuits: 'id, cableId, enclosureId, splitterId, position, isSpliced',
+      saves: 'id, createdAt'
+    });
+    this.version(5).stores({
+      history: '++id, undone'
+    });
+    this.version(6).stores({
+      syncBase: '[table+key]',
+      syncConflicts: '[table+key]',
+      syncState: 'id'
+    });
+    this.version(7).stores({
+      spliceCompletions: 'id, cableId, enclosureId'
+    });
+    this.version(8).stores({}).upgrade(async (tx) => {
+      // Loss budget fields start out unset so saved records match the full schema
+      await tx.table('cables').toCollection().modify(cable => {
+        cable.lengthMeters ??= null;
+        cable.attenuation1310 ??= null;
+        cable.attenuation1550 ??= null;
+      });
+      await tx.table('circuits').toCollection().modify(circuit => {
+        circuit.spliceMethod ??= null;
+      });
+    });
+    this.version(9).stores({
+      otdrTraces: 'id, [cableId+fiber], cableId, enclosureId'
+    });
+    this.version(10).stores({
+      fiberStatuses: 'id, cableId, enclosureId'
+    });
+    this.version(11).stores({}).upgrade(async (tx) => {
+      // Existing cables are ribbon cables
+      await tx.table('cables').toCollection().modify(cable => {
+        cable.tubeCount ??= null;
+        cable.fibersPerTube ??= null;
+        cable.ribbonsPerTube ??= null;
+      });
+    });
+    this.version(12).stores({}).upgrade(async (tx) => {
+      // Existing cables follow TIA-598
+      await tx.table('cables').toCollection().modify(cable => {
+        cable.colorCode ??= null;
+      });
+    });
+    this.version(13).stores({}).upgrade(async (tx) => {
+      // Existing copper cables are plain 25-pair binder cables
+      await tx.table('cables').toCollection().modify(cable => {
+        cable.superUnitSize ??= null;
+      });
+    });
+    this.version(14).stores({
+      // Debug logs stay on the device; the server has no logs table
+      logs: 'id, timestamp, level, category'
+    });
+    this.version(15).stores({}).upgrade(async (tx) => {
+      // The original project synced under an ID every device shared; its records go up again to
+      // a server project of its own under the device's new ID
+      if (dbName !== defaultDbNames.fiber && dbName !== defaultDbNames.copper) return;
+      await tx.table('syncBase').clear();
+      await tx.table('syncConflicts').clear();
+      await tx.table('syncState').clear();
+    });
+
+    for (const table of recordTables) {
+      const notify = (key: string, before: any | null, after: any | null, transaction: Transaction) => {
+        this.writeListeners.forEach(listener => listener({ table, key, before, after, transaction }));
+      };
+      this.table(table).hook('creating', (key, record, transaction) => {
+        notify(String(key), null, structuredClone(record), transaction);
+      });
+      this.table(table).hook('updating', (modifications, key, record, transaction) => {
+        notify(String(key), record, applyModifications(record, modifications), transaction);
+      });
+      this.table(table).hook('deleting', (key, record, transaction) => {
+        notify(String(key), record, null, transaction);
+      });
+    }
+  }
+}
+
+// Catalog of projects for both modes, kept apart from the project data itself
+class ProjectCatalogDB extends Dexie {
+  projects!: Table<Project>;
+
+  constructor() {
+    super('FiberSpliceProjects');
+    this.version(1).stores({
+      projects: 'id, mode, archived'
+    });
+    this.version(2).stores({}).upgrade(async (tx) => {
+      // The original projects move from the shared IDs to this device's own
+      for (const mode of ['fiber', 'copper'] as const) {
+        const project = await tx.table('projects').get(legacyDefaultProjectIds[mode]);
+        if (!project) continue;
+        await tx.table('projects').delete(legacyDefaultProjectIds[mode]);
+        await tx.table('projects').put({ ...project, id: defaultProjectIds[mode] });
+      }
+    });
+  }
+}
+
+export const catalogDb = new ProjectCatalogDB();
+
+// The first project in each mode keeps the original database, so existing data becomes that project
+const defaultDbNames = { fiber: 'FiberSpliceDB', copper: 'CopperSpliceDB' } as const;
+// Every device used to give its original project these IDs, so syncing merged unrelated jobs on the server
+const legacyDefaultProjectIds = { fiber: 'fiber-default', copper: 'copper-default' } as const;
+
+const activeProjectKey = (mode: 'fiber' | 'copper') => `fibersplice.${mode}.activeProject`;
+const defaultProjectKey = (mode: 'fiber' | 'copper') => `fibersplice.${mode}.defaultProject`;
+
+// The original project's ID, made up on each device the first time it's needed so no two devices share it
+function readDefaultProjectId(mode: 'fiber' | 'copper'): string {
+  if (typeof localStorage === 'undefined') return nanoid();
+  const stored = localStorage.getItem(defaultProjectKey(mode));
+  if (stored) return stored;
+
+  const id = nanoid();
+  localStorage.setItem(defaultProjectKey(mode), id);
+  // Devices from before remember the shared ID as the open project
+  if (localStorage.getItem(activeProjectKey(mode)) === legacyDefaultProjectIds[mode]) {
+    localStorage.setItem(activeProjectKey(mode), id);
+  }
+  return id;
+}
+
+export const defaultProjectIds: Record<'fiber' | 'copper', string> = {
+  fiber: readDefaultProjectId('fiber'),
+  copper: readDefaultProjectId('copper'),
+};
+
+function readActiveProjectId(mode: 'fiber' | 'copper'): string {
+  const stored = typeof localStorage !== 'undefined' ? localStorage.getItem(activeProjectKey(mode)) : null;
+  return stored ?? defaultProjectIds[mode];
+}
+
+const activeProjectIds: Record<'fiber' | 'copper', string> = {
+  fiber: readActiveProjectId('fiber'),
+  copper: readActiveProjectId('copper'),
+};
+
+const openDatabases = new Map<string, SpliceDB>();
+
+// Each project has its own database, opened on first use
+export function getProjectDb(mode: 'fiber' | 'copper', projectId: string): SpliceDB {
+  const name = projectId === defaultProjectIds[mode] ? defaultDbNames[mode] : `${defaultDbNames[mode]}-${projectId}`;
+  let database = openDatabases.get(name);
+  if (!database) {
+    database = new SpliceDB(name);
+    openDatabases.set(name, database);
+  }
+  return database;
+}
+
+export function getActiveProjectId(mode: 'fiber' | 'copper'): string {
+  return activeProjectIds[mode];
+}
+
+export function setActiveProjectId(mode: 'fiber' | 'copper', projectId: string) {
+  activeProjectIds[mode] = projectId;
+  if (typeof localStorage !== 'undefined') {
+    localStorage.setItem(activeProjectKey(mode), projectId);
   }
 }
 
-// Separate databases for fiber and copper modes
-export const fiberDb = new SpliceDB('FiberSpliceDB');
-export const copperDb = new SpliceDB('CopperSpliceDB');
+// Databases of the original project in each mode
+export const fiberDb = getProjectDb('fiber', defaultProjectIds.fiber);
+export const copperDb = getProjectDb('copper', defaultProjectIds.copper);
 
-// Get database instance based on mode
+// Get the active project's database for a mode
 export function getDb(mode: 'fiber' | 'copper') {
-  return mode === 'fiber' ? fiberDb : copperDb;
+  return getProjectDb(mode, activeProjectIds[mode]);
 }
 
 // Legacy export for backward compatibility (defaults to fiber)
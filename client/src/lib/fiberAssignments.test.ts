@@ -0,0 +1,137 @@
+import { describe, expect, it } from "vitest";
+import type { Cable, Circuit } from "@shared/schema";
+import { findFiberAssignmentIssues, planFeedSpliceRemap, planSequentialLayout } from "./fiberAssignments";
+
+function makeCable(id: string, fiberCount: number, construction: Partial<Cable> = {}): Cable {
+  return {
+    id,
+    name: id.toUpperCase(),
+    fiberCount,
+    ribbonSize: 12,
+    tubeCount: null,
+    fibersPerTube: null,
+    ribbonsPerTube: null,
+    colorCode: null,
+    superUnitSize: null,
+    type: "Distribution",
+    enclosureId: null,
+    lengthMeters: null,
+    attenuation1310: null,
+    attenuation1550: null,
+    ...construction,
+  };
+}
+
+function makeCircuit(cableId: string, circuitId: string, position: number, fiberStart: number, fiberEnd: number, splice: Partial<Circuit> = {}): Circuit {
+  return {
+    id: `${cableId}:${circuitId}`,
+    cableId,
+    enclosureId: null,
+    circuitId,
+    position,
+    fiberStart,
+    fiberEnd,
+    isSpliced: 0,
+    feedCableId: null,
+    feedFiberStart: null,
+    feedFiberEnd: null,
+    splitterId: null,
+    spliceMethod: null,
+    ...splice,
+  };
+}
+
+// Applies a plan the way bulkUpdateCircuits would
+function applyUpdates(circuits: Circuit[], updates: ReturnType<typeof planSequentialLayout>): Circuit[] {
+  return circuits.map(c => ({ ...c, ...updates.find(u => u.id === c.id)?.changes }));
+}
+
+describe("planSequentialLayout", () => {
+  it("returns nothing for a cable that is already back to back", () => {
+    expect(planSequentialLayout([makeCircuit("d1", "pon,1-4", 0, 1, 4), makeCircuit("d1", "pon,5-12", 1, 5, 12)])).toEqual([]);
+  });
+
+  it("closes gaps, separates overlaps and resizes ranges in the given order", () => {
+    const circuits = [
+      makeCircuit("d1", "pon,1-4", 0, 3, 6), // Gap before it
+      makeCircuit("d1", "pon,5-8", 1, 5, 8), // Overlaps the first
+      makeCircuit("d1", "pon,9-10", 3, 9, 12), // Two fibers too many, position skipped
+    ];
+
+    expect(planSequentialLayout(circuits)).toEqual([
+      { id: "d1:pon,1-4", changes: { fiberStart: 1, fiberEnd: 4 } },
+      { id: "d1:pon,9-10", changes: { position: 2, fiberEnd: 10 } },
+    ]);
+  });
+
+  it("leaves circuits with an invalid ID where they are, taking up no fibers", () => {
+    const circuits = [makeCircuit("d1", "spare", 0, 1, 2), makeCircuit("d1", "pon,1-4", 1, 3, 6)];
+    expect(planSequentialLayout(circuits)).toEqual([{ id: "d1:pon,1-4", changes: { fiberStart: 1, fiberEnd: 4 } }]);
+  });
+});
+
+describe("findFiberAssignmentIssues", () => {
+  it("reports nothing for a consistent cable", () => {
+    const cable = makeCable("d1", 12);
+    expect(findFiberAssignmentIssues([cable], [makeCircuit("d1", "pon,1-4", 0, 1, 4), makeCircuit("d1", "pon,5-8", 1, 5, 8)])).toEqual([]);
+  });
+
+  it("reports overlapping and wrongly sized ranges that a relayout repairs", () => {
+    const cable = makeCable("d1", 24);
+    const circuits = [
+      makeCircuit("d1", "pon,1-8", 0, 1, 8),
+      makeCircuit("d1", "pon,9-12", 1, 5, 8),
+      makeCircuit("d1", "pon,13-14", 2, 9, 12),
+    ];
+
+    expect(findFiberAssignmentIssues([cable], circuits)).toEqual([
+      { cableId: "d1", cableName: "D1", message: "pon,9-12 overlaps fibers 5-8", repairable: true },
+      { cableId: "d1", cableName: "D1", message: "pon,13-14 is assigned 4 fibers but needs 2", repairable: true },
+    ]);
+    expect(findFiberAssignmentIssues([cable], applyUpdates(circuits, planSequentialLayout(circuits)))).toEqual([]);
+  });
+
+  it("reports ranges past the fiber count, and circuits that can't fit at all as not repairable", () => {
+    const cable = makeCable("d1", 12);
+    // Fits once laid out again
+    const shifted = [makeCircuit("d1", "pon,1-4", 0, 5, 8), makeCircuit("d1", "pon,5-8", 1, 11, 14)];
+    expect(findFiberAssignmentIssues([cable], shifted).map(i => [i.message, i.repairable])).toEqual([
+      ["Fibers 1-4 are unassigned before pon,1-4", true],
+      ["Fibers 9-10 are unassigned before pon,5-8", true],
+    ]);
+    expect(findFiberAssignmentIssues([cable], applyUpdates(shifted, planSequentialLayout(shifted)))).toEqual([]);
+
+    const overfilled = [makeCircuit("d1", "pon,1-8", 0, 1, 8), makeCircuit("d1", "pon,9-16", 1, 9, 16), makeCircuit("d1", "bad", 2, 17, 17)];
+    expect(findFiberAssignmentIssues([cable], overfilled).map(i => [i.message, i.repairable])).toEqual([
+      ['Circuit "bad" has an invalid circuit ID', false],
+      ["Circuits need 16 fibers but the cable has 12", false],
+    ]);
+  });
+
+  it("lays circuits across loose-tube boundaries and fills the last tube", () => {
+    // Two tubes of six fibers
+    const cable = makeCable("d1", 12, { tubeCount: 2, fibersPerTube: 6 });
+    const circuits = [makeCircuit("d1", "pon,1-4", 0, 1, 4), makeCircuit("d1", "pon,5-12", 1, 7, 14)];
+
+    const updates = planSequentialLayout(circuits);
+    expect(updates).toEqual([{ id: "d1:pon,5-12", changes: { fiberStart: 5, fiberEnd: 12 } }]);
+    expect(findFiberAssignmentIssues([cable], applyUpdates(circuits, updates))).toEqual([]);
+
+    // One fiber past the last tube
+    const tooMany = [...applyUpdates(circuits, updates), makeCircuit("d1", "pon,13-13", 2, 13, 13)];
+    expect(findFiberAssignmentIssues([cable], tooMany)).toEqual([
+      { cableId: "d1", cableName: "D1", message: "Circuits need 13 fibers but the cable has 12", repairable: false },
+    ]);
+  });
+
+  it("reports feed splices pointing at fibers the feed circuits no longer carry", () => {
+    const feed = makeCable("f1", 24, { type: "Feed" });
+    const feedCircuits = [makeCircuit("f1", "pon,1-8", 0, 1, 8), makeCircuit("f1", "pon,9-16", 1, 9, 16)];
+    const spliced = makeCircuit("d1", "pon,9-12", 0, 1, 4, { isSpliced: 1, feedCableId: "f1", feedFiberStart: 1, feedFiberEnd: 4 });
+
+    expect(planFeedSpliceRemap("f1", feedCircuits, [spliced])).toEqual([{ id: spliced.id, changes: { feedFiberStart: 9, feedFiberEnd: 12 } }]);
+    expect(findFiberAssignmentIssues([feed], [...feedCircuits, spliced])).toEqual([
+      { cableId: "f1", cableName: "F1", message: "1 spliced circuit(s) point at the wrong feed fibers", repairable: true },
+    ]);
+  });
+});
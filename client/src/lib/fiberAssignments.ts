@@ -0,0 +1,142 @@
+import { type Cable, type Circuit, parseCircuitIdParts } from '@shared/schema';
+
+export interface CircuitUpdate {
+  id: string;
+  changes: Partial<Circuit>;
+}
+
+export interface FiberAssignmentIssue {
+  cableId: string;
+  cableName: string;
+  message: string;
+  repairable: boolean; // False when re-laying the cable out can't fix it (bad circuit ID, too many fibers)
+}
+
+// Number of fibers a circuit ID covers, or null if it can't be parsed
+export function getCircuitFiberCount(circuitId: string): number | null {
+  try {
+    const { rangeStart, rangeEnd } = parseCircuitIdParts(circuitId);
+    return rangeEnd >= rangeStart ? rangeEnd - rangeStart + 1 : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Lays a cable's circuits out back to back in the given order: positions 0..n-1 and fibers from 1.
+ * Circuits with an unparseable ID keep their fibers and take up no space. Only changed circuits are returned.
+ */
+export function planSequentialLayout(circuits: Circuit[]): CircuitUpdate[] {
+  const updates: CircuitUpdate[] = [];
+  let fiberStart = 1;
+
+  circuits.forEach((circuit, position) => {
+    const changes: Partial<Circuit> = {};
+    if (circuit.position !== position) changes.position = position;
+
+    const fiberCount = getCircuitFiberCount(circuit.circuitId);
+    if (fiberCount !== null) {
+      const fiberEnd = fiberStart + fiberCount - 1;
+      if (circuit.fiberStart !== fiberStart) changes.fiberStart = fiberStart;
+      if (circuit.fiberEnd !== fiberEnd) changes.fiberEnd = fiberEnd;
+      fiberStart = fiberEnd + 1;
+    }
+
+    if (Object.keys(changes).length > 0) updates.push({ id: circuit.id, changes });
+  });
+
+  return updates;
+}
+
+/**
+ * Recomputes the feed fiber numbers of distribution circuits spliced to a feed cable, from the
+ * feed circuit (same prefix, containing the distribution range) that now carries them.
+ */
+export function planFeedSpliceRemap(feedCableId: string, feedCircuits: Circuit[], circuits: Circuit[]): CircuitUpdate[] {
+  const updates: CircuitUpdate[] = [];
+
+  for (const distCircuit of circuits) {
+    if (distCircuit.isSpliced !== 1 || distCircuit.feedCableId !== feedCableId || distCircuit.splitterId) continue;
+
+    let dist;
+    try {
+      dist = parseCircuitIdParts(distCircuit.circuitId);
+    } catch {
+      continue;
+    }
+
+    for (const feedCircuit of feedCircuits) {
+      let feed;
+      try {
+        feed = parseCircuitIdParts(feedCircuit.circuitId);
+      } catch {
+        continue;
+      }
+      if (feed.prefix !== dist.prefix || dist.rangeStart < feed.rangeStart || dist.rangeEnd > feed.rangeEnd) continue;
+
+      const feedFiberStart = feedCircuit.fiberStart + (dist.rangeStart - feed.rangeStart);
+      const feedFiberEnd = feedCircuit.fiberStart + (dist.rangeEnd - feed.rangeStart);
+      if (distCircuit.feedFiberStart !== feedFiberStart || distCircuit.feedFiberEnd !== feedFiberEnd) {
+        updates.push({ id: distCircuit.id, changes: { feedFiberStart, feedFiberEnd } });
+      }
+      break;
+    }
+  }
+
+  return updates;
+}
+
+/**
+ * Checks every cable for circuits whose positions or fiber ranges have drifted from a back-to-back
+ * layout (gaps, overlaps, wrong sizes) and for splices pointing at stale feed fibers.
+ */
+export function findFiberAssignmentIssues(cables: Cable[], circuits: Circuit[]): FiberAssignmentIssue[] {
+  const issues: FiberAssignmentIssue[] = [];
+
+  for (const cable of cables) {
+    const issue = (message: string, repairable = true) =>
+      issues.push({ cableId: cable.id, cableName: cable.name, message, repairable });
+
+    const cableCircuits = circuits
+      .filter(c => c.cableId === cable.id)
+      .sort((a, b) => a.position - b.position || a.fiberStart - b.fiberStart);
+
+    if (cableCircuits.some((c, index) => c.position !== index)) {
+      issue('Circuit positions are out of sequence');
+    }
+
+    let previousEnd = 0;
+    let fibersNeeded = 0;
+    for (const circuit of cableCircuits) {
+      const fiberCount = getCircuitFiberCount(circuit.circuitId);
+      if (fiberCount === null) {
+        issue(`Circuit "${circuit.circuitId}" has an invalid circuit ID`, false);
+        continue;
+      }
+      fibersNeeded += fiberCount;
+
+      if (circuit.fiberStart > previousEnd + 1) {
+        issue(`Fibers ${previousEnd + 1}-${circuit.fiberStart - 1} are unassigned before ${circuit.circuitId}`);
+      } else if (circuit.fiberStart <= previousEnd) {
+        issue(`${circuit.circuitId} overlaps fibers ${circuit.fiberStart}-${Math.min(previousEnd, circuit.fiberEnd)}`);
+      }
+      if (circuit.fiberEnd - circuit.fiberStart + 1 !== fiberCount) {
+        issue(`${circuit.circuitId} is assigned ${circuit.fiberEnd - circuit.fiberStart + 1} fibers but needs ${fiberCount}`);
+      }
+      previousEnd = Math.max(previousEnd, circuit.fiberEnd);
+    }
+
+    if (fibersNeeded > cable.fiberCount) {
+      issue(`Circuits need ${fibersNeeded} fibers but the cable has ${cable.fiberCount}`, false);
+    }
+
+    if (cable.type === 'Feed') {
+      const stale = planFeedSpliceRemap(cable.id, cableCircuits, circuits).length;
+      if (stale > 0) {
+        issue(`${stale} spliced circuit(s) point at the wrong feed fibers`);
+      }
+    }
+  }
+
+  return issues;
+}
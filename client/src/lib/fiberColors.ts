@@ -1,4 +1,5 @@
-import { type FiberColor } from "@shared/schema";
+import type { CSSProperties } from "react";
+import { type FiberColor, type FiberMarking } from "@shared/schema";
 
 export const fiberColorMap: Record<FiberColor, string> = {
   blue: "fiber-blue",
@@ -18,3 +19,25 @@ export const fiberColorMap: Record<FiberColor, string> = {
 export function getFiberColorClass(color: FiberColor): string {
   return fiberColorMap[color];
 }
+
+// Tracer stripes as upright bands spread across a swatch, laid over its own background color
+export function fiberStripeStyle(marking: FiberMarking): CSSProperties {
+  if (!marking.stripe) return {};
+  const stripe = `hsl(var(--fiber-${marking.stripe}))`;
+  const bands = Array.from({ length: marking.stripeCount }, (_, i) => {
+    const center = ((i + 1) / (marking.stripeCount + 1)) * 100;
+    return `transparent ${center - 6}%, ${stripe} ${center - 6}% ${center + 6}%, transparent ${center + 6}%`;
+  });
+  return { backgroundImage: `linear-gradient(90deg, ${bands.join(", ")})` };
+}
+
+// Colored text can't show stripes, so a tracer is drawn as an underline (doubled for double stripes)
+export function fiberTracerUnderline(marking: FiberMarking): CSSProperties {
+  if (!marking.stripe) return {};
+  return {
+    textDecorationLine: "underline",
+    textDecorationColor: `hsl(var(--fiber-${marking.stripe}))`,
+    textDecorationStyle: marking.stripeCount > 1 ? "double" : "solid",
+    textDecorationThickness: "2px",
+  };
+}
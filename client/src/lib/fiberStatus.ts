@@ -0,0 +1,81 @@
+import { fiberStatusValues, type Cable, type Circuit, type FiberStatus, type FiberStatusValue } from '@shared/schema';
+
+export interface CableUtilization {
+  fiberCount: number;
+  assigned: number; // Fibers inside a circuit's range
+  spliced: number; // Fibers of spliced circuits
+  statusCounts: Record<FiberStatusValue, number>;
+  unset: number; // Fibers without a status
+  available: number; // Neither in a circuit nor held back by their status
+}
+
+export const fiberStatusLabels: Record<FiberStatusValue, string> = {
+  live: 'Live',
+  reserved: 'Reserved',
+  dark: 'Dark',
+  spare: 'Spare',
+  damaged: 'Damaged',
+};
+
+// Bar drawn along the bottom of a fiber in the ribbon view, and the matching legend swatch
+export const fiberStatusColors: Record<FiberStatusValue, string> = {
+  live: 'bg-green-600',
+  reserved: 'bg-amber-500',
+  dark: 'bg-slate-500',
+  spare: 'bg-blue-500',
+  damaged: 'bg-red-600',
+};
+
+export function fiberStatusId(cableId: string, fiber: number): string {
+  return `${cableId}:${fiber}`;
+}
+
+export function buildFiberStatusLookup(statuses: FiberStatus[]): Map<string, FiberStatus> {
+  return new Map(statuses.map(s => [s.id, s]));
+}
+
+export function getFiberStatus(lookup: Map<string, FiberStatus>, cableId: string, fiber: number): FiberStatus | undefined {
+  return lookup.get(fiberStatusId(cableId, fiber));
+}
+
+// Every status except dark keeps a fiber out of auto-splice; dark fibers are unused and free to assign
+export function isAssignable(status: FiberStatus | undefined): boolean {
+  return !status || status.status === 'dark';
+}
+
+/**
+ * Fiber counts for one cable: how many sit in circuits or are spliced, and how many have each status.
+ */
+export function summarizeCableUtilization(cable: Cable, circuits: Circuit[], lookup: Map<string, FiberStatus>): CableUtilization {
+  const assignedFibers = new Set<number>();
+  const splicedFibers = new Set<number>();
+  for (const circuit of circuits) {
+    if (circuit.cableId !== cable.id) continue;
+    for (let fiber = Math.max(1, circuit.fiberStart); fiber <= Math.min(circuit.fiberEnd, cable.fiberCount); fiber++) {
+      assignedFibers.add(fiber);
+      if (circuit.isSpliced === 1) splicedFibers.add(fiber);
+    }
+  }
+
+  const statusCounts = Object.fromEntries(fiberStatusValues.map(s => [s, 0])) as Record<FiberStatusValue, number>;
+  let unset = 0;
+  let available = 0;
+  for (let fiber = 1; fiber <= cable.fiberCount; fiber++) {
+    const status = getFiberStatus(lookup, cable.id, fiber);
+    if (status) {
+      statusCounts[status.status as FiberStatusValue]++;
+    } else {
+      unset++;
+    }
+    if (!assignedFibers.has(fiber) && isAssignable(status)) available++;
+  }
+
+  return {
+    fiberCount: cable.fiberCount,
+    assigned: assignedFibers.size,
+    spliced: splicedFibers.size,
+    statusCounts,
+    unset,
+    available,
+  };
+}
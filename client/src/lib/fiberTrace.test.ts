@@ -0,0 +1,153 @@
+import { describe, expect, it } from "vitest";
+import type { Cable, Circuit, Enclosure, Splitter } from "@shared/schema";
+import { traceFiber, type FiberTrace } from "./fiberTrace";
+
+function makeCable(id: string, name: string, type: string, enclosureId: string): Cable {
+  return {
+    id,
+    name,
+    fiberCount: 24,
+    ribbonSize: 12,
+    tubeCount: null,
+    fibersPerTube: null,
+    ribbonsPerTube: null,
+    colorCode: null,
+    superUnitSize: null,
+    type,
+    enclosureId,
+    lengthMeters: null,
+    attenuation1310: null,
+    attenuation1550: null,
+  };
+}
+
+function makeCircuit(cableId: string, circuitId: string, fiberStart: number, fiberEnd: number, splice: Partial<Circuit> = {}): Circuit {
+  return {
+    id: `${cableId}:${circuitId}`,
+    cableId,
+    enclosureId: null,
+    circuitId,
+    position: 0,
+    fiberStart,
+    fiberEnd,
+    isSpliced: splice.feedCableId || splice.splitterId ? 1 : 0,
+    feedCableId: null,
+    feedFiberStart: null,
+    feedFiberEnd: null,
+    splitterId: null,
+    spliceMethod: null,
+    ...splice,
+  };
+}
+
+const enclosures: Enclosure[] = ["e1", "e2", "e3"].map(id => ({ id, name: id.toUpperCase(), type: "Dome", trayCount: 1, locationNotes: null }));
+
+const f1 = makeCable("f1", "F1", "Feed", "e1");
+const d1 = makeCable("d1", "D1", "Distribution", "e1");
+const d1e2 = makeCable("d1-e2", "D1", "Distribution", "e2");
+const d2 = makeCable("d2", "D2", "Distribution", "e2");
+
+const splitter: Splitter = {
+  id: "s1",
+  enclosureId: "e1",
+  name: "SP1",
+  ratio: "1x8",
+  location: null,
+  inputCableId: "f1",
+  inputFiber: 20,
+  portPrefix: "pon",
+  portStart: 9,
+};
+
+// F1 -> D1 in E1, D1 runs on to E2 where D2 is spliced onto it
+const circuits = [
+  makeCircuit("d1", "pon,1-8", 1, 8, { feedCableId: "f1", feedFiberStart: 1, feedFiberEnd: 8 }),
+  makeCircuit("d2", "pon,1-4", 1, 4, { feedCableId: "d1-e2", feedFiberStart: 1, feedFiberEnd: 4 }),
+];
+
+function summarize(trace: FiberTrace | null) {
+  return trace?.hops.map(hop => [
+    hop.kind === "cable" ? `${hop.cable.id}/${hop.fiber}` : `${hop.splitter.id}/${hop.port ?? "in"}`,
+    hop.link,
+    hop.ambiguous,
+  ]);
+}
+
+describe("traceFiber", () => {
+  it("follows splices and pass-throughs from the feed to the last distribution cable", () => {
+    const trace = traceFiber("d2", 2, [f1, d1, d1e2, d2], circuits, enclosures);
+
+    expect(summarize(trace)).toEqual([
+      ["f1/2", "origin", false],
+      ["d1/2", "splice", false],
+      ["d1-e2/2", "pass-through", false],
+      ["d2/2", "splice", false],
+    ]);
+    expect(trace?.startIndex).toBe(3);
+    expect(trace?.truncated).toBe(false);
+    expect(trace?.hops.map(h => h.enclosure?.id)).toEqual(["e1", "e1", "e2", "e2"]);
+    expect(trace?.hops.map(h => h.kind === "cable" && h.circuitId)).toEqual([null, "pon,2", null, "pon,2"]);
+  });
+
+  it("marks a pass-through as ambiguous when several cables share the sheath name", () => {
+    const d1e3 = makeCable("d1-e3", " d1 ", "Distribution", "e3");
+    const trace = traceFiber("f1", 2, [f1, d1, d1e2, d1e3, d2], circuits, enclosures);
+
+    expect(summarize(trace)).toEqual([
+      ["f1/2", "origin", false],
+      ["d1/2", "splice", false],
+      ["d1-e2/2", "pass-through", true],
+      ["d2/2", "splice", false],
+    ]);
+  });
+
+  it("goes up through a splitter output to its feed fiber and stops at a splitter input", () => {
+    const d3 = makeCable("d3", "D3", "Distribution", "e1");
+    const withSplitter = [...circuits, makeCircuit("d3", "pon,9-12", 1, 4, { splitterId: "s1", feedFiberStart: 1, feedFiberEnd: 4 })];
+
+    const up = traceFiber("d3", 2, [f1, d1, d3], withSplitter, enclosures, [splitter]);
+    expect(summarize(up)).toEqual([
+      ["f1/20", "origin", false],
+      ["s1/2", "splice", false],
+      ["d3/2", "splice", false],
+    ]);
+    expect(up?.hops[1]).toMatchObject({ kind: "splitter", outputCount: 8, enclosure: enclosures[0] });
+
+    const down = traceFiber("f1", 20, [f1, d1, d3], withSplitter, enclosures, [splitter]);
+    expect(summarize(down)).toEqual([
+      ["f1/20", "origin", false],
+      ["s1/in", "splice", false],
+    ]);
+  });
+
+  it("ends at fibers that are not spliced or are spliced to a cable that no longer exists", () => {
+    expect(summarize(traceFiber("d1", 12, [f1, d1], circuits))).toEqual([["d1/12", "origin", false]]);
+
+    const orphaned = [makeCircuit("d1", "pon,1-8", 1, 8, { feedCableId: "gone", feedFiberStart: 1, feedFiberEnd: 8 })];
+    const trace = traceFiber("d1", 3, [d1], orphaned);
+    expect(summarize(trace)).toEqual([["d1/3", "origin", false]]);
+    expect(trace?.truncated).toBe(false);
+  });
+
+  it("returns null for an unknown cable or a fiber outside the cable", () => {
+    expect(traceFiber("missing", 1, [f1], [])).toBeNull();
+    expect(traceFiber("f1", 0, [f1], [])).toBeNull();
+    expect(traceFiber("f1", 25, [f1], [])).toBeNull();
+  });
+
+  it("stops and flags a splice loop", () => {
+    const a = makeCable("a", "A", "Distribution", "e1");
+    const b = makeCable("b", "B", "Distribution", "e1");
+    const loop = [
+      makeCircuit("a", "pon,1-2", 1, 2, { feedCableId: "b", feedFiberStart: 1, feedFiberEnd: 2 }),
+      makeCircuit("b", "pon,1-2", 1, 2, { feedCableId: "a", feedFiberStart: 1, feedFiberEnd: 2 }),
+    ];
+
+    const trace = traceFiber("a", 1, [a, b], loop);
+    expect(summarize(trace)).toEqual([
+      ["b/1", "origin", false],
+      ["a/1", "splice", false],
+    ]);
+    expect(trace?.truncated).toBe(true);
+  });
+});
@@ -0,0 +1,255 @@
+import {
+  type Cable,
+  type Circuit,
+  type ColorCode,
+  type Enclosure,
+  type FiberMarking,
+  type Splitter,
+  formatFiberGroup,
+  getCableColorCode,
+  getFiberGroupMarking,
+  getFiberPosition,
+  getStrandMarking,
+  getSplitterOutputCount,
+  parseCircuitIdParts,
+} from "@shared/schema";
+
+// How a hop is reached from the hop before it in the trace
+export type TraceLink = "origin" | "splice" | "pass-through";
+
+interface TraceHopBase {
+  enclosure?: Enclosure;
+  link: TraceLink;
+  ambiguous: boolean; // Pass-through picked by sheath name from several cables it could continue into
+}
+
+export interface CableTraceHop extends TraceHopBase {
+  kind: "cable";
+  cable: Cable;
+  fiber: number;
+  group: string; // Ribbon or tube the fiber is in, e.g. "R2", "T3" or "T3R1"
+  strand: number; // Position within the ribbon, or the tube for loose fibers
+  groupMarking: FiberMarking; // Under the cable's color code
+  strandMarking: FiberMarking;
+  circuitId: string | null; // Single circuit number carried on this fiber, e.g. "pon,5"
+}
+
+export interface SplitterTraceHop extends TraceHopBase {
+  kind: "splitter";
+  splitter: Splitter;
+  port: number | null; // Null when reached from the input side - the signal fans out to every port
+  outputCount: number;
+}
+
+export type TraceHop = CableTraceHop | SplitterTraceHop;
+
+export interface FiberTrace {
+  hops: TraceHop[];
+  startIndex: number; // Index of the hop the trace was started from
+  truncated: boolean; // True when a splice led back into the trace or the hop limit was reached
+}
+
+type TraceNode =
+  | { kind: "cable"; cableId: string; fiber: number }
+  | { kind: "splitter"; splitterId: string; port: number | null };
+
+// Guard against badly-formed data that splices a fiber back onto itself
+const MAX_HOPS = 64;
+
+// Cables with the same name in different enclosures are the same sheath passing through.
+// There is no explicit link between them, so a name shared by several cables is only a guess
+function sheathKey(cable: Cable): string {
+  return cable.name.trim().toLowerCase();
+}
+
+function nodeKey(node: TraceNode): string {
+  return node.kind === "cable"
+    ? `cable:${node.cableId}:${node.fiber}`
+    : `splitter:${node.splitterId}:${node.port ?? "in"}`;
+}
+
+// Circuit ID for a single fiber, e.g. fiber 3 of "pon,1-8" starting at fiber 10 => "pon,3"
+function getCircuitLabel(circuit: Circuit, fiber: number): string {
+  try {
+    const { prefix, rangeStart } = parseCircuitIdParts(circuit.circuitId);
+    return `${prefix},${rangeStart + (fiber - circuit.fiberStart)}`;
+  } catch {
+    return circuit.circuitId;
+  }
+}
+
+/**
+ * Walks every splice a fiber passes through, upstream towards the feed and downstream
+ * through each distribution cable, and returns the ordered path from origin to end.
+ * Splitters appear as their own hop; tracing down into a splitter input stops there
+ * since the signal fans out to every output port.
+ */
+export function traceFiber(
+  startCableId: string,
+  startFiber: number,
+  cables: Cable[],
+  circuits: Circuit[],
+  enclosures: Enclosure[] = [],
+  splitters: Splitter[] = [],
+  colorCodes: ColorCode[] = []
+): FiberTrace | null {
+  const cableById = new Map(cables.map(c => [c.id, c]));
+  const splitterById = new Map(splitters.map(s => [s.id, s]));
+  const enclosureById = new Map(enclosures.map(e => [e.id, e]));
+
+  const startCable = cableById.get(startCableId);
+  if (!startCable || startFiber < 1 || startFiber > startCable.fiberCount) {
+    return null;
+  }
+
+  const findCircuit = (cableId: string, fiber: number) =>
+    circuits.find(c => c.cableId === cableId && c.fiberStart <= fiber && fiber <= c.fiberEnd);
+
+  const exists = (node: TraceNode) =>
+    node.kind === "cable" ? cableById.has(node.cableId) : splitterById.has(node.splitterId);
+
+  // Distribution fiber -> the feed fiber or splitter port it is spliced to,
+  // splitter output -> the feed fiber on its input
+  const getUpstreamSplice = (node: TraceNode): TraceNode | null => {
+    if (node.kind === "splitter") {
+      const splitter = splitterById.get(node.splitterId);
+      if (!splitter?.inputCableId || !splitter.inputFiber) return null;
+      return { kind: "cable", cableId: splitter.inputCableId, fiber: splitter.inputFiber };
+    }
+
+    const circuit = findCircuit(node.cableId, node.fiber);
+    if (!circuit || circuit.isSpliced !== 1) return null;
+    const feedFiberStart = circuit.feedFiberStart || circuit.fiberStart;
+    const feedFiber = feedFiberStart + (node.fiber - circuit.fiberStart);
+    if (circuit.splitterId) {
+      return { kind: "splitter", splitterId: circuit.splitterId, port: feedFiber };
+    }
+    if (!circuit.feedCableId) return null;
+    return { kind: "cable", cableId: circuit.feedCableId, fiber: feedFiber };
+  };
+
+  // Feed fiber -> the distribution fiber or splitter input spliced onto it,
+  // splitter output port -> the distribution fiber landed on that port
+  const getDownstreamSplice = (node: TraceNode): TraceNode | null => {
+    if (node.kind === "splitter" && node.port === null) return null;
+
+    const circuit = circuits.find(c => {
+      if (c.isSpliced !== 1) return false;
+      if (node.kind === "cable" ? c.feedCableId !== node.cableId || c.splitterId : c.splitterId !== node.splitterId) {
+        return false;
+      }
+      const position = node.kind === "cable" ? node.fiber : node.port!;
+      const feedFiberStart = c.feedFiberStart || c.fiberStart;
+      const feedFiberEnd = c.feedFiberEnd || c.fiberEnd;
+      return feedFiberStart <= position && position <= feedFiberEnd;
+    });
+    if (circuit) {
+      const position = node.kind === "cable" ? node.fiber : node.port!;
+      const feedFiberStart = circuit.feedFiberStart || circuit.fiberStart;
+      return { kind: "cable", cableId: circuit.cableId, fiber: circuit.fiberStart + (position - feedFiberStart) };
+    }
+
+    if (node.kind === "cable") {
+      const splitter = splitters.find(s => s.inputCableId === node.cableId && s.inputFiber === node.fiber);
+      if (splitter) return { kind: "splitter", splitterId: splitter.id, port: null };
+    }
+    return null;
+  };
+
+  // Same fiber in the same sheath, as seen in the other enclosures it runs through
+  const getPassThroughs = (node: TraceNode): TraceNode[] => {
+    if (node.kind !== "cable") return [];
+    const cable = cableById.get(node.cableId);
+    if (!cable) return [];
+    return cables
+      .filter(c => c.id !== cable.id && c.enclosureId !== cable.enclosureId && sheathKey(c) === sheathKey(cable) && node.fiber <= c.fiberCount)
+      .map(c => ({ kind: "cable", cableId: c.id, fiber: node.fiber }));
+  };
+
+  const start: TraceNode = { kind: "cable", cableId: startCableId, fiber: startFiber };
+  const visited = new Set<string>([nodeKey(start)]);
+  let truncated = false;
+
+  // Follow one direction, preferring a real splice and falling back to a pass-through
+  const walk = (from: TraceNode, getSplice: (node: TraceNode) => TraceNode | null) => {
+    const steps: { node: TraceNode; link: TraceLink; ambiguous: boolean }[] = [];
+    let current = from;
+
+    while (true) {
+      if (visited.size >= MAX_HOPS) {
+        truncated = true;
+        break;
+      }
+
+      const spliced = getSplice(current);
+      if (spliced && exists(spliced) && visited.has(nodeKey(spliced))) {
+        // Spliced back onto a fiber already in the trace
+        truncated = true;
+        break;
+      }
+
+      let next: { node: TraceNode; link: TraceLink; ambiguous: boolean } | null = null;
+      if (spliced && exists(spliced)) {
+        next = { node: spliced, link: "splice", ambiguous: false };
+      } else {
+        const passThroughs = getPassThroughs(current).filter(n => !visited.has(nodeKey(n)));
+        if (passThroughs.length > 0) {
+          next = { node: passThroughs[0], link: "pass-through", ambiguous: passThroughs.length > 1 };
+        }
+      }
+
+      if (!next) break;
+      visited.add(nodeKey(next.node));
+      steps.push(next);
+      current = next.node;
+    }
+
+    return steps;
+  };
+
+  const upstream = walk(start, getUpstreamSplice);
+  const downstream = walk(start, getDownstreamSplice);
+
+  // Each upstream step's link describes its connection to the hop nearer the start,
+  // so after reversing the links shift down by one position
+  const orderedNodes = [...upstream.map(s => s.node).reverse(), start, ...downstream.map(s => s.node)];
+  const orderedLinks: { link: TraceLink; ambiguous: boolean }[] = [
+    { link: "origin", ambiguous: false },
+    ...upstream.map(({ link, ambiguous }) => ({ link, ambiguous })).reverse(),
+    ...downstream.map(({ link, ambiguous }) => ({ link, ambiguous })),
+  ];
+
+  const hops = orderedNodes.map((node, index): TraceHop => {
+    if (node.kind === "splitter") {
+      const splitter = splitterById.get(node.splitterId)!;
+      return {
+        kind: "splitter",
+        splitter,
+        port: node.port,
+        outputCount: getSplitterOutputCount(splitter.ratio),
+        enclosure: splitter.enclosureId ? enclosureById.get(splitter.enclosureId) : undefined,
+        ...orderedLinks[index],
+      };
+    }
+
+    const cable = cableById.get(node.cableId)!;
+    const position = getFiberPosition(cable, node.fiber);
+    const colorCode = getCableColorCode(cable, colorCodes);
+    const circuit = findCircuit(node.cableId, node.fiber);
+
+    return {
+      kind: "cable",
+      cable,
+      enclosure: cable.enclosureId ? enclosureById.get(cable.enclosureId) : undefined,
+      fiber: node.fiber,
+      group: formatFiberGroup(position),
+      strand: position.strand,
+      groupMarking: getFiberGroupMarking(position, colorCode),
+      strandMarking: getStrandMarking(position, colorCode),
+      circuitId: circuit ? getCircuitLabel(circuit, node.fiber) : null,
+      ...orderedLinks[index],
+    };
+  });
+
+  return { hops, startIndex: upstream.length, truncated };
+}
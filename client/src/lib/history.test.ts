@@ -0,0 +1,153 @@
+import "fake-indexeddb/auto";
+import { beforeEach, describe, expect, it } from "vitest";
+import type { Cable, SpliceCompletion } from "@shared/schema";
+import { getDb, markExternalWrites } from "./db";
+import { history } from "./history";
+
+function makeCable(id: string, name: string): Cable {
+  return {
+    id,
+    name,
+    fiberCount: 24,
+    ribbonSize: 12,
+    tubeCount: null,
+    fibersPerTube: null,
+    ribbonsPerTube: null,
+    colorCode: null,
+    superUnitSize: null,
+    type: "Feed",
+    enclosureId: null,
+    lengthMeters: null,
+    attenuation1310: null,
+    attenuation1550: null,
+  };
+}
+
+const db = getDb("fiber");
+
+// Written the way sync writes records it pulled
+async function writeSynced(cable: Cable) {
+  await db.transaction("rw", db.cables, async (tx) => {
+    markExternalWrites(tx);
+    await db.cables.put(cable);
+  });
+}
+
+beforeEach(async () => {
+  await Promise.all([db.cables.clear(), db.spliceCompletions.clear(), db.history.clear()]);
+});
+
+describe("history recordings", () => {
+  it("record a request's own writes, merged per record", async () => {
+    await db.cables.put(makeCable("f1", "F1"));
+
+    const recording = history.startRecording("fiber");
+    await db.cables.update("f1", { name: "F1a" });
+    await db.cables.update("f1", { name: "F1b" });
+    await db.cables.put(makeCable("f2", "F2"));
+
+    expect(recording.stop()).toEqual([
+      { table: "cables", key: "f1", before: makeCable("f1", "F1"), after: makeCable("f1", "F1b") },
+      { table: "cables", key: "f2", before: null, after: makeCable("f2", "F2") },
+    ]);
+  });
+
+  it("leave out synced records written while the request runs", async () => {
+    await db.cables.bulkPut([makeCable("f1", "F1"), makeCable("f2", "F2")]);
+
+    const recording = history.startRecording("fiber");
+    await Promise.all([db.cables.update("f1", { name: "F1a" }), writeSynced(makeCable("f2", "F2 remote"))]);
+
+    expect(recording.stop()).toEqual([
+      { table: "cables", key: "f1", before: makeCable("f1", "F1"), after: makeCable("f1", "F1a") },
+    ]);
+  });
+
+  it("leave out undo and redo of an earlier step", async () => {
+    await db.cables.put(makeCable("f1", "F1"));
+    const first = history.startRecording("fiber");
+    await db.cables.update("f1", { name: "F1a" });
+    await history.record("Rename F1", first, "fiber");
+
+    const recording = history.startRecording("fiber");
+    await history.undo("fiber");
+    expect(recording.stop()).toEqual([]);
+  });
+});
+
+describe("history undo and redo", () => {
+  it("restore every record of the step", async () => {
+    await db.cables.put(makeCable("f1", "F1"));
+    const recording = history.startRecording("fiber");
+    await db.cables.update("f1", { name: "F1a" });
+    await db.cables.put(makeCable("f2", "F2"));
+    await history.record("Edit cables", recording, "fiber");
+
+    expect((await history.undo("fiber"))?.label).toBe("Edit cables");
+    expect(await db.cables.toArray()).toEqual([makeCable("f1", "F1")]);
+    expect(await history.getStatus("fiber")).toEqual({
+      undoLabel: null,
+      redoLabel: "Edit cables",
+      undoSignOffOnly: false,
+      redoSignOffOnly: false,
+    });
+
+    await history.redo("fiber");
+    expect(await db.cables.toArray()).toEqual([makeCable("f1", "F1a"), makeCable("f2", "F2")]);
+  });
+
+  it("undo keeps records that changed again since the step", async () => {
+    await db.cables.bulkPut([makeCable("f1", "F1"), makeCable("f2", "F2")]);
+    const recording = history.startRecording("fiber");
+    await db.cables.update("f1", { name: "F1a" });
+    await db.cables.update("f2", { name: "F2a" });
+    await history.record("Rename cables", recording, "fiber");
+
+    await writeSynced(makeCable("f2", "F2 remote"));
+    await history.undo("fiber");
+
+    expect(await db.cables.toArray()).toEqual([makeCable("f1", "F1"), makeCable("f2", "F2 remote")]);
+  });
+
+  it("redo leaves a record that was created elsewhere in the meantime", async () => {
+    const recording = history.startRecording("fiber");
+    await db.cables.put(makeCable("f1", "F1"));
+    await history.record("Add F1", recording, "fiber");
+
+    await history.undo("fiber");
+    await writeSynced(makeCable("f1", "F1 remote"));
+    await history.redo("fiber");
+
+    expect(await db.cables.toArray()).toEqual([makeCable("f1", "F1 remote")]);
+  });
+
+  it("can be limited to steps that only sign splices off", async () => {
+    const completion: SpliceCompletion = {
+      id: "d1:1",
+      enclosureId: null,
+      cableId: "d1",
+      fiber: 1,
+      feedKey: "cable:f1:1",
+      completedBy: "Sam",
+      completedAt: "2026-10-19T12:00:00.000Z",
+      note: null,
+    };
+    const design = history.startRecording("fiber");
+    await db.cables.put(makeCable("f1", "F1"));
+    await history.record("Add cable", design, "fiber");
+    const signOff = history.startRecording("fiber");
+    await db.spliceCompletions.put(completion);
+    await history.record("Sign off splice", signOff, "fiber");
+
+    expect(await history.getStatus("fiber")).toMatchObject({ undoLabel: "Sign off splice", undoSignOffOnly: true });
+    expect((await history.undo("fiber", true))?.label).toBe("Sign off splice");
+    expect(await db.spliceCompletions.count()).toBe(0);
+
+    expect(await history.getStatus("fiber")).toMatchObject({ undoLabel: "Add cable", undoSignOffOnly: false });
+    expect(await history.undo("fiber", true)).toBeNull();
+    expect(await db.cables.count()).toBe(1);
+
+    expect((await history.redo("fiber", true))?.label).toBe("Sign off splice");
+    expect(await db.spliceCompletions.toArray()).toEqual([completion]);
+  });
+});
@@ -0,0 +1,167 @@
+import { sameRecord } from '@shared/sync';
+import { getDb, isExternalWrite, markExternalWrites, type RecordWrite } from './db';
+
+// Tables whose changes can be undone; saves and logs are not part of the design history
+const trackedTables = ['enclosures', 'splitters', 'cables', 'circuits', 'spliceCompletions', 'otdrTraces', 'fiberStatuses'] as const;
+type TrackedTable = typeof trackedTables[number];
+
+// One record that changed: before is null for creates, after is null for deletes
+export interface HistoryChange {
+  table: TrackedTable;
+  key: string;
+  before: any | null;
+  after: any | null;
+}
+
+export interface HistoryEntry {
+  id?: number;
+  label: string;
+  createdAt: string;
+  undone: number; // 0 = on the undo stack, 1 = on the redo stack (numeric so Dexie can index it)
+  changes: HistoryChange[];
+}
+
+export interface HistoryStatus {
+  undoLabel: string | null;
+  redoLabel: string | null;
+  undoSignOffOnly: boolean;
+  redoSignOffOnly: boolean;
+}
+
+// The records written since it started, each with its state before the first write and after the last
+export interface HistoryRecording {
+  stop(): HistoryChange[];
+}
+
+// Oldest entries are dropped past this many undo steps
+const MAX_HISTORY_ENTRIES = 100;
+
+// Open groups per mode; while a group is open single requests don't record their own entries
+const openGroups: Record<'fiber' | 'copper', { depth: number; recording: HistoryRecording | null }> = {
+  fiber: { depth: 0, recording: null },
+  copper: { depth: 0, recording: null },
+};
+
+// Steps made only of splice sign-offs, which technicians may undo and redo as well
+function isSignOffStep(entry: HistoryEntry): boolean {
+  return entry.changes.every(change => change.table === 'spliceCompletions');
+}
+
+// Write one side of an entry back to the database in a single transaction. Records changed again
+// since (by a later sync, say) are left as they are rather than overwritten
+async function applyEntry(entry: HistoryEntry, side: 'before' | 'after', mode: 'fiber' | 'copper'): Promise<void> {
+  const db = getDb(mode);
+  await db.transaction('rw', [db.enclosures, db.splitters, db.cables, db.circuits, db.spliceCompletions, db.otdrTraces, db.fiberStatuses, db.history], async (tx) => {
+    markExternalWrites(tx);
+    for (const change of entry.changes) {
+      const current = (await db.table(change.table).get(change.key)) ?? null;
+      if (!sameRecord(current, side === 'before' ? change.after : change.before)) continue;
+
+      const record = change[side];
+      if (record) {
+        await db.table(change.table).put(record);
+      } else {
+        await db.table(change.table).delete(change.key);
+      }
+    }
+    await db.history.update(entry.id!, { undone: side === 'before' ? 1 : 0 });
+  });
+}
+
+// Undo/redo history stored alongside the project in IndexedDB, so it survives reloads
+export const history = {
+  // Follow writes to the active project's records until the recording is stopped, leaving out
+  // synced records and undo/redo that land in the meantime
+  startRecording(mode: 'fiber' | 'copper' = 'fiber'): HistoryRecording {
+    const db = getDb(mode);
+    const changes = new Map<string, HistoryChange>();
+    const listener = (write: RecordWrite) => {
+      if (isExternalWrite(write)) return;
+      const { table, key, before, after } = write;
+      const earlier = changes.get(`${table}:${key}`);
+      changes.set(`${table}:${key}`, { table, key, before: earlier ? earlier.before : before, after });
+    };
+    db.writeListeners.add(listener);
+    return {
+      stop: () => {
+        db.writeListeners.delete(listener);
+        return Array.from(changes.values()).filter(change => !sameRecord(change.before, change.after));
+      },
+    };
+  },
+
+  // Store everything written during the recording as one undo step and clear the redo stack
+  async record(label: string, recording: HistoryRecording, mode: 'fiber' | 'copper' = 'fiber'): Promise<void> {
+    const changes = recording.stop();
+    if (changes.length === 0) return;
+
+    const db = getDb(mode);
+    await db.transaction('rw', db.history, async () => {
+      await db.history.where('undone').equals(1).delete();
+      await db.history.add({ label, createdAt: new Date().toISOString(), undone: 0, changes });
+
+      const excess = (await db.history.count()) - MAX_HISTORY_ENTRIES;
+      if (excess > 0) {
+        const oldest = await db.history.orderBy('id').limit(excess).primaryKeys();
+        await db.history.bulkDelete(oldest);
+      }
+    });
+  },
+
+  isGrouping(mode: 'fiber' | 'copper' = 'fiber'): boolean {
+    return openGroups[mode].depth > 0;
+  },
+
+  // Multi-request operations (like splitting a circuit while splicing) undo as one step
+  async beginGroup(mode: 'fiber' | 'copper' = 'fiber'): Promise<void> {
+    const group = openGroups[mode];
+    if (group.depth === 0) {
+      group.recording = this.startRecording(mode);
+    }
+    group.depth++;
+  },
+
+  async endGroup(label: string, mode: 'fiber' | 'copper' = 'fiber'): Promise<void> {
+    const group = openGroups[mode];
+    if (group.depth === 0) return;
+    group.depth--;
+    if (group.depth > 0 || !group.recording) return;
+
+    const recording = group.recording;
+    group.recording = null;
+    await this.record(label, recording, mode);
+  },
+
+  // signOffsOnly leaves steps that change the design alone (returning null), for roles that can't edit it
+  async undo(mode: 'fiber' | 'copper' = 'fiber', signOffsOnly = false): Promise<HistoryEntry | null> {
+    const entry = await getDb(mode).history.where('undone').equals(0).last();
+    if (!entry || (signOffsOnly && !isSignOffStep(entry))) return null;
+    await applyEntry(entry, 'before', mode);
+    return entry;
+  },
+
+  async redo(mode: 'fiber' | 'copper' = 'fiber', signOffsOnly = false): Promise<HistoryEntry | null> {
+    const entry = await getDb(mode).history.where('undone').equals(1).first();
+    if (!entry || (signOffsOnly && !isSignOffStep(entry))) return null;
+    await applyEntry(entry, 'after', mode);
+    return entry;
+  },
+
+  async getStatus(mode: 'fiber' | 'copper' = 'fiber'): Promise<HistoryStatus> {
+    const db = getDb(mode);
+    const [undoEntry, redoEntry] = await Promise.all([
+      db.history.where('undone').equals(0).last(),
+      db.history.where('undone').equals(1).first(),
+    ]);
+    return {
+      undoLabel: undoEntry?.label ?? null,
+      redoLabel: redoEntry?.label ?? null,
+      undoSignOffOnly: undoEntry ? isSignOffStep(undoEntry) : false,
+      redoSignOffOnly: redoEntry ? isSignOffStep(redoEntry) : false,
+    };
+  },
+
+  async clear(mode: 'fiber' | 'copper' = 'fiber'): Promise<void> {
+    await getDb(mode).history.clear();
+  },
+};
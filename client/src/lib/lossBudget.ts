@@ -0,0 +1,116 @@
+import type { Cable, Circuit, Enclosure, LossSettings, Splitter, SplitterRatio } from "@shared/schema";
+import { traceFiber, type FiberTrace, type TraceHop } from "./fiberTrace";
+
+export interface HopLoss {
+  loss1310: number;
+  loss1550: number;
+}
+
+export interface TraceLoss {
+  hops: HopLoss[]; // Loss each trace hop adds: its cable span, or the splice or splitter reaching it
+  connectorLoss: number;
+  loss1310: number; // End-to-end, connectors included
+  loss1550: number;
+  lengthMeters: number;
+  missingLengths: Cable[]; // Cables on the path without a length, counted as 0 m
+  overBudget: boolean;
+}
+
+// Distribution circuit that defines the splice between two neighbouring hops (either may be the distribution side)
+function findSpliceCircuit(a: TraceHop, b: TraceHop, circuits: Circuit[]): Circuit | undefined {
+  const definedBy = (dist: TraceHop, other: TraceHop) => {
+    if (dist.kind !== "cable") return undefined;
+    return circuits.find(c =>
+      c.cableId === dist.cable.id && c.isSpliced === 1 && c.fiberStart <= dist.fiber && dist.fiber <= c.fiberEnd &&
+      (other.kind === "cable" ? c.feedCableId === other.cable.id : c.splitterId === other.splitter.id)
+    );
+  };
+  return definedBy(a, b) ?? definedBy(b, a);
+}
+
+/**
+ * Optical loss along a traced path at 1310 and 1550 nm: attenuation over every cable span, a
+ * fusion or mechanical loss per splice, the splitter's insertion loss, and the connectors at the
+ * ends. A sheath passing through several enclosures is one span, so its length counts once.
+ */
+export function calculateTraceLoss(trace: FiberTrace, circuits: Circuit[], settings: LossSettings): TraceLoss {
+  const hops: HopLoss[] = trace.hops.map(() => ({ loss1310: 0, loss1550: 0 }));
+  const missingLengths: Cable[] = [];
+  let lengthMeters = 0;
+
+  trace.hops.forEach((hop, index) => {
+    if (hop.link === "splice") {
+      // Splitter inputs have no circuit of their own and are fusion spliced
+      const circuit = findSpliceCircuit(trace.hops[index - 1], hop, circuits);
+      const spliceLoss = circuit?.spliceMethod === "mechanical" ? settings.mechanicalSpliceLoss : settings.fusionSpliceLoss;
+      hops[index].loss1310 += spliceLoss;
+      hops[index].loss1550 += spliceLoss;
+    }
+
+    if (hop.kind === "splitter") {
+      const splitterLoss = settings.splitterLosses[hop.splitter.ratio as SplitterRatio] ?? 0;
+      hops[index].loss1310 += splitterLoss;
+      hops[index].loss1550 += splitterLoss;
+      return;
+    }
+    if (hop.link === "pass-through") return; // Same span as the hop before it
+
+    // The span's length is whichever copy of the sheath has one
+    const span = [hop.cable];
+    for (let next = index + 1; next < trace.hops.length && trace.hops[next].link === "pass-through"; next++) {
+      const nextHop = trace.hops[next];
+      if (nextHop.kind === "cable") span.push(nextHop.cable);
+    }
+    const measured = span.find(c => c.lengthMeters !== null && c.lengthMeters !== undefined);
+    if (!measured) {
+      missingLengths.push(hop.cable);
+      return;
+    }
+
+    const km = measured.lengthMeters! / 1000;
+    lengthMeters += measured.lengthMeters!;
+    hops[index].loss1310 += km * (measured.attenuation1310 ?? settings.attenuation1310);
+    hops[index].loss1550 += km * (measured.attenuation1550 ?? settings.attenuation1550);
+  });
+
+  const connectorLoss = settings.connectorCount * settings.connectorLoss;
+  const loss1310 = hops.reduce((sum, hop) => sum + hop.loss1310, connectorLoss);
+  const loss1550 = hops.reduce((sum, hop) => sum + hop.loss1550, connectorLoss);
+
+  return {
+    hops,
+    connectorLoss,
+    loss1310,
+    loss1550,
+    lengthMeters,
+    missingLengths,
+    overBudget: Math.max(loss1310, loss1550) > settings.budgetDb,
+  };
+}
+
+/**
+ * Worst end-to-end loss over every fiber of a circuit, or null for a circuit that can't be traced.
+ */
+export function calculateCircuitLoss(
+  circuit: Circuit,
+  cables: Cable[],
+  circuits: Circuit[],
+  enclosures: Enclosure[],
+  splitters: Splitter[],
+  settings: LossSettings
+): TraceLoss | null {
+  let worst: TraceLoss | null = null;
+  for (let fiber = circuit.fiberStart; fiber <= circuit.fiberEnd; fiber++) {
+    const trace = traceFiber(circuit.cableId, fiber, cables, circuits, enclosures, splitters);
+    if (!trace) continue;
+    const loss = calculateTraceLoss(trace, circuits, settings);
+    if (!worst || Math.max(loss.loss1310, loss.loss1550) > Math.max(worst.loss1310, worst.loss1550)) {
+      worst = loss;
+    }
+  }
+  return worst;
+}
+
+export function formatLoss(db: number): string {
+  return `${db.toFixed(2)} dB`;
+}
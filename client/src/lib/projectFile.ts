@@ -0,0 +1,57 @@
+import { version as appVersion } from "@/../../package.json";
+import {
+  PROJECT_FILE_FORMAT,
+  PROJECT_FILE_VERSION,
+  type ProjectFile,
+  type ProjectFileResult,
+  parseProjectFile,
+} from "@shared/projectFile";
+import { parseColorCodes, parseLossSettings, type Project } from "@shared/schema";
+import type { ProjectData } from "./storage";
+
+export function createProjectFile(project: Project, data: Required<ProjectData>): ProjectFile {
+  return {
+    format: PROJECT_FILE_FORMAT,
+    formatVersion: PROJECT_FILE_VERSION,
+    appVersion,
+    projectName: project.name,
+    jobNumber: project.jobNumber,
+    lossSettings: project.lossSettings ? parseLossSettings(project.lossSettings) : null,
+    colorCodes: parseColorCodes(project.colorCodes),
+    mode: project.mode === "copper" ? "copper" : "fiber",
+    createdAt: project.createdAt,
+    modifiedAt: project.modifiedAt,
+    enclosures: data.enclosures,
+    splitters: data.splitters,
+    cables: data.cables,
+    circuits: data.circuits,
+    spliceCompletions: data.spliceCompletions,
+    otdrTraces: data.otdrTraces,
+    fiberStatuses: data.fiberStatuses,
+  };
+}
+
+export function downloadProjectFile(project: ProjectFile, fileName: string) {
+  const blob = new Blob([JSON.stringify(project, null, 2)], { type: "application/json" });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+}
+
+/**
+ * Reads, migrates and validates a project file picked by the user.
+ */
+export async function readProjectFile(file: File): Promise<ProjectFileResult> {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(await file.text());
+  } catch (error) {
+    return { success: false, errors: [`Not a valid JSON file: ${error instanceof Error ? error.message : String(error)}`] };
+  }
+  return parseProjectFile(raw);
+}
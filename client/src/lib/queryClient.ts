@@ -1,6 +1,8 @@
 import { QueryClient, QueryFunction } from "@tanstack/react-query";
 import { storage } from "./storage";
-import type { Circuit } from "@shared/schema";
+import { history, type HistoryRecording } from "./history";
+import { sync } from "./sync";
+import { auth } from "./auth";
 
 // Extract mode from endpoint (e.g., /api/fiber/cables -> 'fiber', /api/copper/cables -> 'copper')
 export function getModeFromEndpoint(endpoint: string): 'fiber' | 'copper' {
@@ -21,8 +23,22 @@ export const getQueryFn: <T>() => QueryFunction<T> =
     const [endpoint, ...params] = queryKey as [string, ...any[]];
     const mode = getModeFromEndpoint(endpoint);
 
+    // Accounts live on the server rather than in IndexedDB
+    if (endpoint === '/api/auth/status') {
+      return await auth.getStatus() as any;
+    }
+    if (endpoint === '/api/users') {
+      return await auth.getUsers() as any;
+    }
+
     // Map API endpoints to storage methods
     // Handle both legacy (/api/cables) and mode-specific (/api/fiber/cables, /api/copper/cables) endpoints
+    if (endpoint === '/api/enclosures' || endpoint.match(/\/api\/(fiber|copper)\/enclosures$/)) {
+      return await storage.getAllEnclosures(mode) as any;
+    }
+    if (endpoint === '/api/splitters' || endpoint.match(/\/api\/(fiber|copper)\/splitters$/)) {
+      return await storage.getAllSplitters(mode) as any;
+    }
     if (endpoint === '/api/cables' || endpoint.match(/\/api\/(fiber|copper)\/cables$/)) {
       return await storage.getAllCables(mode) as any;
     }
@@ -36,11 +52,46 @@ export const getQueryFn: <T>() => QueryFunction<T> =
       }
       throw new Error('Cable ID required for circuits/cable endpoint');
     }
+    if (endpoint.match(/\/api\/(fiber|copper)\/completions$/)) {
+      return await storage.getAllSpliceCompletions(mode) as any;
+    }
+    if (endpoint.match(/\/api\/(fiber|copper)\/fiber-statuses$/)) {
+      return await storage.getAllFiberStatuses(mode) as any;
+    }
+    if (endpoint.match(/\/api\/(fiber|copper)\/otdr$/)) {
+      return await storage.getAllOtdrTraces(mode) as any;
+    }
     if (endpoint === '/api/saves' || endpoint.match(/\/api\/(fiber|copper)\/saves$/)) {
       return await storage.getAllSaves(mode) as any;
     }
+    if (endpoint.match(/\/api\/(fiber|copper)\/projects$/)) {
+      return await storage.getAllProjects(mode) as any;
+    }
+    if (endpoint.match(/\/api\/(fiber|copper)\/projects\/active$/)) {
+      return await storage.getActiveProject(mode) as any;
+    }
+    if (endpoint.match(/\/api\/(fiber|copper)\/history$/)) {
+      return await history.getStatus(mode) as any;
+    }
+    if (endpoint.match(/\/api\/(fiber|copper)\/sync$/)) {
+      return await sync.getStatus(mode) as any;
+    }
+    if (endpoint.match(/\/api\/(fiber|copper)\/sync\/conflicts$/)) {
+      return await sync.getConflicts(mode) as any;
+    }
+    if (endpoint.match(/\/api\/(fiber|copper)\/sync\/server-projects$/)) {
+      return await sync.getServerProjects(mode) as any;
+    }
 
     // For specific resource queries like /api/cables/:id or /api/fiber/cables/:id
+    if (endpoint.match(/\/api\/(fiber\/|copper\/)?enclosures\/[^/]+$/) && params.length === 0) {
+      const id = endpoint.split('/').pop();
+      return await storage.getEnclosure(id!, mode) as any;
+    }
+    if (endpoint.match(/\/api\/(fiber\/|copper\/)?splitters\/[^/]+$/) && params.length === 0) {
+      const id = endpoint.split('/').pop();
+      return await storage.getSplitter(id!, mode) as any;
+    }
     if (endpoint.match(/\/api\/(fiber\/|copper\/)?cables\/[^/]+$/) && params.length === 0) {
       const id = endpoint.split('/').pop();
       return await storage.getCable(id!, mode) as any;
@@ -57,6 +108,49 @@ export const getQueryFn: <T>() => QueryFunction<T> =
     throw new Error(`Unknown query endpoint: ${endpoint}`);
   };
 
+// Undo history label for a mutation, or null when it isn't an undoable design change
+function describeMutation(method: string, resource: string, id: string | undefined, rest: string[]): string | null {
+  const names: Record<string, string> = {
+    enclosures: 'enclosure',
+    splitters: 'splitter',
+    cables: 'cable',
+    circuits: 'circuit',
+  };
+  // Field sign-offs undo like design changes, so a mis-tap can be taken back
+  if (resource === 'completions') {
+    if (method === 'POST') return 'Sign off splice';
+    if (method === 'PATCH') return 'Edit splice note';
+    if (method === 'DELETE') return 'Clear splice sign-off';
+    return null;
+  }
+  if (resource === 'fiber-statuses') {
+    return method === 'PUT' ? 'Set fiber status' : null;
+  }
+  if (resource === 'otdr') {
+    if (method === 'POST') return 'Import OTDR trace';
+    if (method === 'DELETE') return 'Delete OTDR trace';
+    return null;
+  }
+
+  const name = names[resource];
+  if (!name) return null; // saves, reset and history itself are not undoable
+
+  if (method === 'POST') {
+    if (resource === 'cables' && rest.includes('auto-splice')) return 'Auto-splice cable';
+    if (resource === 'cables' && id === 'import') return 'Import cables';
+    if (resource === 'cables' && id === 'repair') return 'Repair fiber assignments';
+    return `Add ${name}`;
+  }
+  if (method === 'PATCH' || method === 'PUT') {
+    if (rest.includes('toggle-spliced')) return 'Toggle splice';
+    if (rest.includes('update-circuit-id')) return 'Edit circuit ID';
+    if (rest.includes('move')) return 'Move circuit';
+    return `Edit ${name}`;
+  }
+  if (method === 'DELETE') return `Delete ${name}`;
+  return null;
+}
+
 // Storage-based API request (replaces fetch for mutations)
 export async function apiRequest(
   method: string,
@@ -70,52 +164,139 @@ export async function apiRequest(
   // Remove /api/ and optional mode prefix (fiber/ or copper/)
   const path = url.replace(/^\/api\//, '').replace(/^(fiber|copper)\//, '');
   const [resource, id, ...rest] = path.split('/');
+  let recording: HistoryRecording | null = null;
 
   try {
     let result: any;
+
+    // Record the writes of undoable changes so the whole request becomes one undo step
+    const historyLabel = describeMutation(method, resource, id, rest);
+
+    // Controls are disabled for roles that can't edit the design; this catches anything that slips through
+    const loadsSave = resource === 'saves' && (rest.includes('load') || id === 'load');
+    if (resource === 'completions') {
+      if (!auth.canMarkComplete()) throw new Error("Your role can't sign off splices");
+    } else if (resource === 'history') {
+      // Without design rights only sign-off steps are undone (see below)
+      if (!auth.canMarkComplete()) throw new Error("Your role can't change the design");
+    } else if (resource === 'otdr') {
+      if (!auth.canEditDesign()) throw new Error("Your role can't import OTDR traces");
+    } else if (resource === 'fiber-statuses') {
+      if (!auth.canEditDesign()) throw new Error("Your role can't change fiber statuses");
+    } else if ((historyLabel || resource === 'reset' || loadsSave) && !auth.canEditDesign()) {
+      throw new Error("Your role can't change the design");
+    }
+
+    recording = historyLabel && !history.isGrouping(mode) ? history.startRecording(mode) : null;
     
     if (method === 'POST') {
-      if (resource === 'cables') {
+      if (resource === 'auth') {
+        if (id === 'logout') {
+          await auth.logout();
+          result = { success: true };
+        } else if (id === 'setup') {
+          result = await auth.setup(data as any);
+        } else {
+          result = await auth.login(data as any);
+        }
+      } else if (resource === 'users') {
+        result = await auth.createUser(data as any);
+      } else if (resource === 'history') {
+        const signOffsOnly = !auth.canEditDesign();
+        const entry = id === 'redo' ? await history.redo(mode, signOffsOnly) : await history.undo(mode, signOffsOnly);
+        result = { success: entry !== null, label: entry?.label ?? null };
+      } else if (resource === 'sync') {
+        if (id === 'resolve') {
+          // Settle one conflict: keep this device's record or take the server's
+          const { table, key, keep } = data as any;
+          await sync.resolveConflict(table, key, keep, mode);
+          result = { success: true };
+        } else if (id === 'open-project') {
+          result = await sync.openServerProject(data as any, mode);
+        } else {
+          // null when the server couldn't be reached; the sync status says why
+          result = await sync.syncNow(mode);
+        }
+      } else if (resource === 'projects') {
+        if (rest.includes('duplicate')) {
+          result = await storage.duplicateProject(id, data as any, mode);
+        } else if (rest.includes('activate')) {
+          await storage.switchProject(id, mode);
+          result = { success: true };
+        } else {
+          // New projects open straight away
+          result = await storage.createProject(data as any, mode);
+        }
+      } else if (resource === 'completions') {
+        // Sign off every fiber of a splice row at once
+        const { completions } = data as any;
+        result = await storage.completeSplices(completions, mode);
+      } else if (resource === 'otdr') {
+        result = await storage.importOtdrTrace(data as any, mode);
+      } else if (resource === 'enclosures') {
+        result = await storage.createEnclosure(data as any, mode);
+      } else if (resource === 'splitters') {
+        result = await storage.createSplitter(data as any, mode);
+      } else if (resource === 'cables' && rest.includes('auto-splice')) {
+        // Apply a previewed auto-splice plan to every circuit on the cable at once
+        const { assignments } = data as any;
+        const splicedCount = await storage.applyAutoSplice(id, assignments, mode);
+        result = { success: true, splicedCount };
+      } else if (resource === 'cables' && id === 'repair') {
+        // Re-lay out cables flagged by the fiber assignment consistency check
+        const { cableIds } = data as any;
+        await storage.repairFiberAssignments(cableIds, mode);
+        result = { success: true };
+      } else if (resource === 'cables' && id === 'import') {
+        // Spreadsheet import: every cable and circuit is created in one transaction
+        const { cables } = data as any;
+        result = await storage.importCables(cables, mode);
+      } else if (resource === 'cables') {
         const cableData = data as any;
-        result = await storage.createCable(cableData, mode);
-
-        // If circuitIds are provided, create the circuits
-        if (cableData.circuitIds && Array.isArray(cableData.circuitIds) && cableData.circuitIds.length > 0) {
-          let currentFiberStart = 1;
-
-          for (const circuitId of cableData.circuitIds) {
-            // Skip empty lines
-            const trimmedCircuitId = circuitId.trim();
-            if (!trimmedCircuitId) continue;
-
-            // Parse circuit ID to get fiber count (format: "prefix,start-end")
-            const parts = trimmedCircuitId.split(',');
-            if (parts.length !== 2) continue; // Skip invalid format
-            const rangeParts = parts[1].split('-');
-            if (rangeParts.length !== 2) continue; // Skip invalid format
-            const rangeStart = parseInt(rangeParts[0]);
-            const rangeEnd = parseInt(rangeParts[1]);
-            if (isNaN(rangeStart) || isNaN(rangeEnd)) continue; // Skip invalid numbers
-            const fiberCount = rangeEnd - rangeStart + 1;
-
-            const fiberEnd = currentFiberStart + fiberCount - 1;
-
-            // Get current circuit count for position
-            const existingCircuits = await storage.getCircuitsByCableId(result.id, mode);
-            const position = existingCircuits.length;
-
-            // Create the circuit
-            await storage.createCircuit({
-              cableId: result.id,
-              circuitId: trimmedCircuitId,
-              position,
-              fiberStart: currentFiberStart,
-              fiberEnd
-            }, mode);
-
-            currentFiberStart = fiberEnd + 1;
+        // The cable and its circuits are created together or not at all
+        result = await storage.transaction(async () => {
+          const cable = await storage.createCable(cableData, mode);
+
+          // If circuitIds are provided, create the circuits
+          if (cableData.circuitIds && Array.isArray(cableData.circuitIds) && cableData.circuitIds.length > 0) {
+            let currentFiberStart = 1;
+
+            for (const circuitId of cableData.circuitIds) {
+              // Skip empty lines
+              const trimmedCircuitId = circuitId.trim();
+              if (!trimmedCircuitId) continue;
+
+              // Parse circuit ID to get fiber count (format: "prefix,start-end")
+              const parts = trimmedCircuitId.split(',');
+              if (parts.length !== 2) continue; // Skip invalid format
+              const rangeParts = parts[1].split('-');
+              if (rangeParts.length !== 2) continue; // Skip invalid format
+              const rangeStart = parseInt(rangeParts[0]);
+              const rangeEnd = parseInt(rangeParts[1]);
+              if (isNaN(rangeStart) || isNaN(rangeEnd)) continue; // Skip invalid numbers
+              const fiberCount = rangeEnd - rangeStart + 1;
+
+              const fiberEnd = currentFiberStart + fiberCount - 1;
+
+              // Get current circuit count for position
+              const existingCircuits = await storage.getCircuitsByCableId(cable.id, mode);
+              const position = existingCircuits.length;
+
+              // Create the circuit
+              await storage.createCircuit({
+                cableId: cable.id,
+                circuitId: trimmedCircuitId,
+                position,
+                fiberStart: currentFiberStart,
+                fiberEnd
+              }, mode);
+
+              currentFiberStart = fiberEnd + 1;
+            }
           }
-        }
+
+          return cable;
+        }, mode);
       } else if (resource === 'circuits') {
         // Calculate circuit fiber positions before creating
         const circuitData = data as any;
@@ -167,7 +348,26 @@ export async function apiRequest(
         }
       }
     } else if (method === 'PATCH' || method === 'PUT') {
-      if (resource === 'cables') {
+      if (resource === 'users') {
+        result = await auth.updateUser(id, data as any);
+      } else if (resource === 'projects') {
+        await storage.updateProject(id, data as any, mode);
+        result = { success: true };
+      } else if (resource === 'completions') {
+        const { ids, note } = data as any;
+        await storage.updateSpliceCompletionNotes(ids, note, mode);
+        result = { success: true };
+      } else if (resource === 'fiber-statuses') {
+        // One status (or none) for every fiber picked in the ribbon view
+        await storage.setFiberStatuses(data as any, mode);
+        result = { success: true };
+      } else if (resource === 'enclosures') {
+        await storage.updateEnclosure(id, data as any, mode);
+        result = { success: true };
+      } else if (resource === 'splitters') {
+        await storage.updateSplitter(id, data as any, mode);
+        result = { success: true };
+      } else if (resource === 'cables') {
         // Update cable
         await storage.updateCable(id, data as any, mode);
         result = { success: true };
@@ -180,265 +380,58 @@ export async function apiRequest(
         const updateData: any = { isSpliced: newSplicedStatus };
 
         if (newSplicedStatus === 1) {
-          // Setting to spliced - include feed cable info
-          const { feedCableId, feedFiberStart, feedFiberEnd } = data as any;
+          // Setting to spliced - include feed cable (or splitter output port) info
+          const { feedCableId, splitterId, feedFiberStart, feedFiberEnd } = data as any;
           updateData.feedCableId = feedCableId || null;
+          updateData.splitterId = splitterId || null;
           updateData.feedFiberStart = feedFiberStart !== undefined ? feedFiberStart : null;
           updateData.feedFiberEnd = feedFiberEnd !== undefined ? feedFiberEnd : null;
         } else {
           // Setting to unspliced - clear feed cable info
           updateData.feedCableId = null;
+          updateData.splitterId = null;
           updateData.feedFiberStart = null;
           updateData.feedFiberEnd = null;
+          updateData.spliceMethod = null;
         }
 
         await storage.updateCircuit(id, updateData, mode);
         result = { success: true };
       } else if (resource === 'circuits' && rest.includes('update-circuit-id')) {
-        // Update circuit ID and recalculate all fiber positions
-        const circuit = await storage.getCircuit(id, mode);
-        if (!circuit) throw new Error('Circuit not found');
-        
+        // Update circuit ID and recalculate all fiber positions (and feed splice mappings) in one transaction
         const { circuitId: newCircuitId } = data as any;
-
-        // Parse new circuit ID to get fiber count
-        const parts = newCircuitId.split(',');
-        if (parts.length !== 2) throw new Error('Invalid circuit ID format');
-        const rangeParts = parts[1].split('-');
-        if (rangeParts.length !== 2) throw new Error('Invalid range format');
-        const rangeStart = parseInt(rangeParts[0]);
-        const rangeEnd = parseInt(rangeParts[1]);
-        if (isNaN(rangeStart) || isNaN(rangeEnd)) throw new Error('Invalid range values');
-        const newFiberCount = rangeEnd - rangeStart + 1;
-
-        // Update the circuit ID
-        await storage.updateCircuit(id, { circuitId: newCircuitId }, mode);
-
-        // Recalculate fiber positions for all circuits in this cable using batch update
-        const allCircuits = await storage.getCircuitsByCableId(circuit.cableId, mode);
-        let currentFiberStart = 1;
-
-        const bulkUpdates: Array<{ id: string; changes: Partial<Circuit> }> = [];
-
-        for (const c of allCircuits) {
-          const updatedCircuit = c.id === id ? { ...c, circuitId: newCircuitId } : c;
-
-          // Skip circuits with empty or invalid circuit IDs
-          if (!updatedCircuit.circuitId || !updatedCircuit.circuitId.includes(',')) {
-            continue;
-          }
-
-          // Calculate fiber count from circuit ID
-          const cParts = updatedCircuit.circuitId.split(',');
-          if (!cParts[1]) continue;
-
-          const cRangeParts = cParts[1].split('-');
-          if (cRangeParts.length !== 2) continue;
-
-          const cStart = parseInt(cRangeParts[0]);
-          const cEnd = parseInt(cRangeParts[1]);
-          if (isNaN(cStart) || isNaN(cEnd)) continue;
-
-          const cFiberCount = cEnd - cStart + 1;
-
-          const fiberStart = currentFiberStart;
-          const fiberEnd = fiberStart + cFiberCount - 1;
-
-          bulkUpdates.push({ id: c.id, changes: { fiberStart, fiberEnd } });
-          currentFiberStart = fiberEnd + 1;
-        }
-
-        await storage.bulkUpdateCircuits(bulkUpdates, mode);
-
-        // Update splice mappings in Distribution circuits that reference this Feed cable
-        const cable = await storage.getCable(circuit.cableId, mode);
-        if (cable?.type === 'Feed') {
-          const allDistCircuits = await storage.getAllCircuits(mode);
-          const updatedFeedCircuits = await storage.getCircuitsByCableId(circuit.cableId, mode);
-          const distBulkUpdates: Array<{ id: string; changes: Partial<Circuit> }> = [];
-          
-          for (const distCircuit of allDistCircuits) {
-            if (distCircuit.isSpliced === 1 && distCircuit.feedCableId === circuit.cableId) {
-              // Parse Distribution circuit ID to get the range
-              const distParts = distCircuit.circuitId.split(',');
-              if (distParts.length === 2) {
-                const distPrefix = distParts[0].trim();
-                const distRangeParts = distParts[1].trim().split('-');
-                if (distRangeParts.length === 2) {
-                  const distStart = parseInt(distRangeParts[0]);
-                  const distEnd = parseInt(distRangeParts[1]);
-
-                  // Find matching Feed circuit
-                  for (const feedCircuit of updatedFeedCircuits) {
-                    const feedParts = feedCircuit.circuitId.split(',');
-                    if (feedParts.length === 2) {
-                      const feedPrefix = feedParts[0].trim();
-                      if (feedPrefix === distPrefix) {
-                        const feedRangeParts = feedParts[1].trim().split('-');
-                        if (feedRangeParts.length === 2) {
-                          const feedStart = parseInt(feedRangeParts[0]);
-                          const feedEnd = parseInt(feedRangeParts[1]);
-
-                          // Check if Distribution range is within Feed range
-                          if (distStart >= feedStart && distEnd <= feedEnd) {
-                            // Recalculate the Feed fiber positions for this Distribution circuit
-                            const offsetFromFeedStart = distStart - feedStart;
-                            const offsetFromFeedEnd = distEnd - feedStart;
-                            const newFeedFiberStart = feedCircuit.fiberStart + offsetFromFeedStart;
-                            const newFeedFiberEnd = feedCircuit.fiberStart + offsetFromFeedEnd;
-
-                            distBulkUpdates.push({
-                              id: distCircuit.id,
-                              changes: { feedFiberStart: newFeedFiberStart, feedFiberEnd: newFeedFiberEnd }
-                            });
-                            break;
-                          }
-                        }
-                      }
-                    }
-                  }
-                }
-              }
-            }
-          }
-
-          if (distBulkUpdates.length > 0) {
-            await storage.bulkUpdateCircuits(distBulkUpdates, mode);
-          }
-        }
-
+        await storage.updateCircuitId(id, newCircuitId, mode);
         result = { success: true };
       } else if (resource === 'circuits' && rest.includes('move')) {
-        // Move circuit up or down and recalculate positions
+        // Move circuit up or down and recalculate positions in one transaction
         const { direction } = data as any;
-        const circuit = await storage.getCircuit(id, mode);
-        if (!circuit) throw new Error('Circuit not found');
-
-        const allCircuits = await storage.getCircuitsByCableId(circuit.cableId, mode);
-        const currentIndex = allCircuits.findIndex(c => c.id === id);
-
-        if (currentIndex === -1) throw new Error('Circuit not found in cable');
-
-        // Determine new index
-        let newIndex = currentIndex;
-        if (direction === 'up' && currentIndex > 0) {
-          newIndex = currentIndex - 1;
-        } else if (direction === 'down' && currentIndex < allCircuits.length - 1) {
-          newIndex = currentIndex + 1;
-        } else {
-          throw new Error('Cannot move circuit in that direction');
-        }
-
-        // Swap positions
-        const temp = allCircuits[currentIndex];
-        allCircuits[currentIndex] = allCircuits[newIndex];
-        allCircuits[newIndex] = temp;
-
-        // Update position values and recalculate fiber positions using batch update
-        let currentFiberStart = 1;
-        const moveBulkUpdates: Array<{ id: string; changes: Partial<Circuit> }> = [];
-
-        for (let i = 0; i < allCircuits.length; i++) {
-          const c = allCircuits[i];
-
-          // Skip circuits with empty or invalid circuit IDs
-          if (!c.circuitId || !c.circuitId.includes(',')) {
-            continue;
-          }
-
-          // Calculate fiber count from circuit ID
-          const parts = c.circuitId.split(',');
-          if (!parts[1]) continue;
-
-          const rangeParts = parts[1].split('-');
-          if (rangeParts.length !== 2) continue;
-
-          const rangeStart = parseInt(rangeParts[0]);
-          const rangeEnd = parseInt(rangeParts[1]);
-          if (isNaN(rangeStart) || isNaN(rangeEnd)) continue;
-
-          const fiberCount = rangeEnd - rangeStart + 1;
-
-          const fiberStart = currentFiberStart;
-          const fiberEnd = fiberStart + fiberCount - 1;
-
-          moveBulkUpdates.push({
-            id: c.id,
-            changes: { position: i, fiberStart, fiberEnd }
-          });
-
-          currentFiberStart = fiberEnd + 1;
-        }
-
-        await storage.bulkUpdateCircuits(moveBulkUpdates, mode);
-
-        // Update splice mappings in Distribution circuits that reference this Feed cable
-        const cable = await storage.getCable(circuit.cableId, mode);
-        if (cable?.type === 'Feed') {
-          const allDistCircuits = await storage.getAllCircuits(mode);
-          const updatedFeedCircuits = await storage.getCircuitsByCableId(circuit.cableId, mode);
-          const moveDistBulkUpdates: Array<{ id: string; changes: Partial<Circuit> }> = [];
-          
-          for (const distCircuit of allDistCircuits) {
-            if (distCircuit.isSpliced === 1 && distCircuit.feedCableId === circuit.cableId) {
-              // Parse Distribution circuit ID to get the range
-              const distParts = distCircuit.circuitId.split(',');
-              if (distParts.length === 2) {
-                const distPrefix = distParts[0].trim();
-                const distRangeParts = distParts[1].trim().split('-');
-                if (distRangeParts.length === 2) {
-                  const distStart = parseInt(distRangeParts[0]);
-                  const distEnd = parseInt(distRangeParts[1]);
-
-                  // Find matching Feed circuit
-                  for (const feedCircuit of updatedFeedCircuits) {
-                    const feedParts = feedCircuit.circuitId.split(',');
-                    if (feedParts.length === 2) {
-                      const feedPrefix = feedParts[0].trim();
-                      if (feedPrefix === distPrefix) {
-                        const feedRangeParts = feedParts[1].trim().split('-');
-                        if (feedRangeParts.length === 2) {
-                          const feedStart = parseInt(feedRangeParts[0]);
-                          const feedEnd = parseInt(feedRangeParts[1]);
-
-                          // Check if Distribution range is within Feed range
-                          if (distStart >= feedStart && distEnd <= feedEnd) {
-                            // Recalculate the Feed fiber positions for this Distribution circuit
-                            const offsetFromFeedStart = distStart - feedStart;
-                            const offsetFromFeedEnd = distEnd - feedStart;
-                            const newFeedFiberStart = feedCircuit.fiberStart + offsetFromFeedStart;
-                            const newFeedFiberEnd = feedCircuit.fiberStart + offsetFromFeedEnd;
-
-                            moveDistBulkUpdates.push({
-                              id: distCircuit.id,
-                              changes: { feedFiberStart: newFeedFiberStart, feedFiberEnd: newFeedFiberEnd }
-                            });
-                            break;
-                          }
-                        }
-                      }
-                    }
-                  }
-                }
-              }
-            }
-          }
-
-          if (moveDistBulkUpdates.length > 0) {
-            await storage.bulkUpdateCircuits(moveDistBulkUpdates, mode);
-          }
-        }
-
+        await storage.moveCircuit(id, direction, mode);
         result = { success: true };
       } else if (resource === 'circuits') {
         await storage.updateCircuit(id, data as any, mode);
         result = { success: true };
       }
     } else if (method === 'DELETE') {
-      if (resource === 'reset') {
+      if (resource === 'users') {
+        await auth.deleteUser(id);
+        result = { success: true };
+      } else if (resource === 'reset') {
         // Reset all data in IndexedDB
         await storage.resetAllData(mode);
         result = { success: true };
+      } else if (resource === 'completions') {
+        const { ids } = data as any;
+        await storage.deleteSpliceCompletions(ids, mode);
+        result = { success: true };
+      } else if (resource === 'otdr') {
+        await storage.deleteOtdrTrace(id, mode);
+        result = { success: true };
+      } else if (resource === 'enclosures') {
+        await storage.deleteEnclosure(id, mode);
+        result = { success: true };
+      } else if (resource === 'splitters') {
+        await storage.deleteSplitter(id, mode);
+        result = { success: true };
       } else if (resource === 'cables') {
         await storage.deleteCable(id, mode);
         result = { success: true };
@@ -456,15 +449,42 @@ export async function apiRequest(
         }
       }
     }
+
+    if (historyLabel && recording) {
+      await history.record(historyLabel, recording, mode);
+      recording = null;
+    }
+    if (historyLabel || resource === 'history') {
+      await storage.touchProject(mode);
+      await queryClient.invalidateQueries({ queryKey: [`/api/${mode}/projects`] });
+    }
+    if (historyLabel || resource === 'reset' || resource === 'saves') {
+      // Reset and loading a save clear the history along with the data
+      await queryClient.invalidateQueries({ queryKey: [`/api/${mode}/history`] });
+    }
+    if (historyLabel || resource === 'history' || resource === 'reset' || resource === 'saves') {
+      // Data changed, so the count of changes waiting to sync did too
+      await queryClient.invalidateQueries({ queryKey: [`/api/${mode}/sync`] });
+    }
     
     return {
       json: async () => result
     };
   } catch (error) {
     throw new Error(error instanceof Error ? error.message : 'Storage operation failed');
+  } finally {
+    // A failed request leaves nothing to undo
+    recording?.stop();
   }
 }
 
+// Refresh every query for a mode, after changes that can touch any table (undo, switching projects)
+export async function invalidateModeQueries(mode: 'fiber' | 'copper') {
+  await queryClient.invalidateQueries({
+    predicate: (query) => String(query.queryKey[0]).startsWith(`/api/${mode}/`),
+  });
+}
+
 export const queryClient = new QueryClient({
   defaultOptions: {
     queries: {
@@ -0,0 +1,34 @@
+// Thrown when the server can't be reached at all, as opposed to answering with an error
+export class ServerOfflineError extends Error {}
+
+// Thrown when the server wants a signed-in user (401)
+export class ServerAuthError extends Error {}
+
+// JSON request to the fibersplice server; the app's own data lives in IndexedDB, not here
+export async function requestServer<T>(method: string, url: string, body?: unknown): Promise<T> {
+  let response: Response;
+  try {
+    response = await fetch(url, {
+      method,
+      headers: body ? { 'Content-Type': 'application/json' } : undefined,
+      body: body ? JSON.stringify(body) : undefined,
+    });
+  } catch {
+    throw new ServerOfflineError('Server unreachable');
+  }
+  const text = await response.text();
+  let payload: any;
+  try {
+    payload = text ? JSON.parse(text) : null;
+  } catch {
+    // Static hosting answers unknown URLs with the app's HTML
+    throw new Error('No fibersplice server at this address');
+  }
+  if (response.status === 401) {
+    throw new ServerAuthError(payload?.error ?? 'Sign in to continue');
+  }
+  if (!response.ok) {
+    throw new Error(payload?.error ?? `Server error (${response.status})`);
+  }
+  return payload as T;
+}
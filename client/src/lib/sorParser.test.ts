@@ -0,0 +1,159 @@
+import { describe, expect, it } from "vitest";
+import { parseSor, type SorParseResult } from "./sorParser";
+
+// Little-endian byte writer for building .sor fixtures
+function createWriter() {
+  const bytes: number[] = [];
+  const writer = {
+    bytes,
+    uint16: (value: number) => void bytes.push(value & 0xff, (value >> 8) & 0xff),
+    uint32: (value: number) => void bytes.push(value & 0xff, (value >>> 8) & 0xff, (value >>> 16) & 0xff, (value >>> 24) & 0xff),
+    int16: (value: number) => writer.uint16(value & 0xffff),
+    int32: (value: number) => writer.uint32(value >>> 0),
+    chars: (text: string) => void bytes.push(...Array.from(text, c => c.charCodeAt(0))),
+    string: (text: string) => writer.chars(`${text}\0`),
+  };
+  return writer;
+}
+
+type Writer = ReturnType<typeof createWriter>;
+
+const events = [
+  { number: 1, time: 100000, attenuation: 350, spliceLoss: 50, reflectance: 0, code: "0F9999", comment: " splice " },
+  { number: 2, time: 250000, attenuation: 340, spliceLoss: 0, reflectance: -45000, code: "1E9999", comment: "" },
+];
+
+const blockWriters: Record<string, (w: Writer, version: 1 | 2) => void> = {
+  FxdParams: (w, version) => {
+    w.uint32(1760000000); // Timestamp
+    w.chars("mt");
+    w.uint16(15500); // Wavelength in 0.1 nm
+    w.int32(0);
+    if (version === 2) w.int32(0);
+    w.uint16(1); // One pulse width
+    w.uint16(30);
+    w.uint32(100000); // Sample spacing
+    w.uint32(5);
+    w.uint32(146800); // Group index 1.468
+  },
+  KeyEvents: (w, version) => {
+    w.uint16(events.length);
+    for (const event of events) {
+      w.uint16(event.number);
+      w.uint32(event.time);
+      w.int16(event.attenuation);
+      w.int16(event.spliceLoss);
+      w.int32(event.reflectance);
+      w.chars(event.code);
+      w.chars("2P");
+      if (version === 2) [1, 2, 3, 4, 5].forEach(w.uint32);
+      w.string(event.comment);
+    }
+  },
+  DataPts: (w) => {
+    const samples = [0, 1000, 2000, 3000, 20000];
+    w.uint32(samples.length);
+    w.uint16(1);
+    w.uint32(samples.length);
+    w.uint16(1000); // Scale factor 1
+    samples.forEach(w.uint16);
+  },
+};
+
+// A .sor file in the layout of the given issue, with the map and then each block in turn
+function buildSor({ version = 2, revision = version * 100, blocks = ["FxdParams", "KeyEvents", "DataPts"] } = {}): ArrayBuffer {
+  const bodies = blocks.map(name => {
+    const w = createWriter();
+    if (version === 2) w.string(name);
+    blockWriters[name](w, version as 1 | 2);
+    return { name, bytes: w.bytes };
+  });
+
+  const entries = createWriter();
+  for (const { name, bytes } of bodies) {
+    entries.string(name);
+    entries.uint16(revision);
+    entries.uint32(bytes.length);
+  }
+
+  const file = createWriter();
+  if (version === 2) file.string("Map");
+  const mapSize = file.bytes.length + 8 + entries.bytes.length;
+  file.uint16(revision);
+  file.uint32(mapSize);
+  file.uint16(blocks.length + 1);
+  file.bytes.push(...entries.bytes);
+  for (const { bytes } of bodies) file.bytes.push(...bytes);
+  return new Uint8Array(file.bytes).buffer;
+}
+
+function metersAt(time: number) {
+  return time * 1e-4 * 0.299792458 / 1.468 * 1000;
+}
+
+function expectTrace(result: SorParseResult) {
+  if (!result.success) throw new Error(`Expected the file to parse: ${result.error}`);
+  return result.trace;
+}
+
+describe("parseSor", () => {
+  it.each([1, 2])("reads the settings, key events and trace of an issue %i file", (version) => {
+    const trace = expectTrace(parseSor(buildSor({ version })));
+
+    expect(trace).toMatchObject({
+      version,
+      wavelength: 1550,
+      pulseWidth: 30,
+      indexOfRefraction: 1.468,
+      testedAt: new Date(1760000000 * 1000).toISOString(),
+    });
+    expect(trace.events).toEqual([
+      {
+        number: 1,
+        type: "non-reflective",
+        distanceMeters: expect.closeTo(metersAt(100000), 2),
+        spliceLoss: 0.05,
+        reflectance: null,
+        attenuation: 0.35,
+        comment: "splice",
+      },
+      {
+        number: 2,
+        type: "end",
+        distanceMeters: expect.closeTo(metersAt(250000), 2),
+        spliceLoss: 0,
+        reflectance: -45,
+        attenuation: 0.34,
+        comment: "",
+      },
+    ]);
+    // Levels above the lowest sample, in dB
+    expect(trace.points.map(([, level]) => level)).toEqual([20, 19, 18, 17, 0]);
+  });
+
+  it("reads a file without data points", () => {
+    expect(expectTrace(parseSor(buildSor({ blocks: ["FxdParams", "KeyEvents"] }))).points).toEqual([]);
+  });
+
+  it("reports a file that ends in the middle of a block", () => {
+    const file = buildSor();
+    expect(parseSor(file.slice(0, file.byteLength - 3))).toEqual({ success: false, error: "The file ends in the middle of a block" });
+  });
+
+  it("reports issues other than 1 and 2", () => {
+    expect(parseSor(buildSor({ revision: 300 }))).toEqual({
+      success: false,
+      error: "SR-4731 issue 3.00 files can't be read, only issues 1 and 2",
+    });
+  });
+
+  it("reports a missing KeyEvents block", () => {
+    expect(parseSor(buildSor({ blocks: ["FxdParams", "DataPts"] }))).toEqual({ success: false, error: "The file has no KeyEvents block" });
+  });
+
+  it("reports files that are not .sor files at all", () => {
+    const notSor = { success: false, error: "Not an OTDR .sor file" };
+    expect(parseSor(new ArrayBuffer(0))).toEqual(notSor);
+    expect(parseSor(new TextEncoder().encode("Cable,Fiber\nF1,1\n").buffer)).toEqual(notSor);
+  });
+});
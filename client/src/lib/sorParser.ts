@@ -0,0 +1,221 @@
+import type { OtdrEvent, OtdrEventType, OtdrPoint } from '@shared/schema';
+
+// Speed of light in km per microsecond; OTDR times become distances through the fiber's group index
+const speedOfLight = 0.299792458;
+
+// Traces are thinned to about this many min/max pairs, enough to plot without keeping every sample
+const plotBuckets = 1000;
+
+export interface SorTrace {
+  version: 1 | 2; // Bellcore SR-4731 issue the file follows
+  wavelength: number | null; // nm
+  pulseWidth: number | null; // ns
+  indexOfRefraction: number;
+  testedAt: string | null;
+  events: OtdrEvent[];
+  points: OtdrPoint[];
+}
+
+export type SorParseResult =
+  | { success: true; trace: SorTrace }
+  | { success: false; error: string };
+
+interface BlockInfo {
+  name: string;
+  offset: number;
+  size: number;
+}
+
+// Little-endian reads from a .sor file, with a readable error instead of a RangeError past the end
+function createReader(buffer: ArrayBuffer) {
+  const view = new DataView(buffer);
+  let offset = 0;
+
+  const take = (bytes: number) => {
+    if (offset + bytes > view.byteLength) throw new Error('The file ends in the middle of a block');
+    const at = offset;
+    offset += bytes;
+    return at;
+  };
+
+  return {
+    seek(to: number) {
+      if (to > view.byteLength) throw new Error('A block starts past the end of the file');
+      offset = to;
+    },
+    uint16: () => view.getUint16(take(2), true),
+    int16: () => view.getInt16(take(2), true),
+    uint32: () => view.getUint32(take(4), true),
+    int32: () => view.getInt32(take(4), true),
+    // Fixed-width text such as event codes and distance units
+    chars(length: number) {
+      const at = take(length);
+      return String.fromCharCode.apply(null, Array.from(new Uint8Array(buffer, at, length)));
+    },
+    // Null-terminated text, the way block names and free-form fields are stored
+    string() {
+      let text = '';
+      for (let byte = view.getUint8(take(1)); byte !== 0; byte = view.getUint8(take(1))) {
+        text += String.fromCharCode(byte);
+      }
+      return text;
+    },
+  };
+}
+
+type SorReader = ReturnType<typeof createReader>;
+
+// The map at the start of the file lists every block with its size; blocks follow it in that order
+function readBlockMap(reader: SorReader): { version: 1 | 2; revision: number; blocks: BlockInfo[] } {
+  // Issue 2 files name the map block like every other block; issue 1 files go straight to its fields
+  const version = reader.chars(4) === 'Map\0' ? 2 : 1;
+  if (version === 1) reader.seek(0);
+
+  const revision = reader.uint16(); // 100 for issue 1.00, 200 for issue 2.00
+  if (version === 1 && Math.floor(revision / 100) !== 1) throw new Error('Not an OTDR .sor file');
+  const mapSize = reader.uint32();
+  const blockCount = reader.uint16();
+  if (blockCount < 2 || mapSize <= 8) throw new Error('Not an OTDR .sor file');
+
+  const blocks: BlockInfo[] = [];
+  let offset = mapSize;
+  for (let i = 1; i < blockCount; i++) {
+    const name = reader.string();
+    reader.uint16(); // Block revision
+    const size = reader.uint32();
+    blocks.push({ name, offset, size });
+    offset += size;
+  }
+  return { version, revision, blocks };
+}
+
+function openBlock(reader: SorReader, blocks: BlockInfo[], name: string, version: 1 | 2) {
+  const block = blocks.find(b => b.name === name);
+  if (!block) throw new Error(`The file has no ${name} block`);
+  reader.seek(block.offset);
+  if (version === 2 && reader.string() !== name) throw new Error(`The ${name} block is not where the file's map says`);
+}
+
+// Event codes: first character 0 = non-reflective, 1 or 2 = reflective; second character E = end of fiber
+function getEventType(code: string): OtdrEventType {
+  if (code[1] === 'E') return 'end';
+  return code[0] === '0' ? 'non-reflective' : 'reflective';
+}
+
+// Keep the lowest and highest sample of each bucket, so splices and reflections survive the thinning
+function thinTrace(levels: number[], metersPerPoint: number): OtdrPoint[] {
+  const bucketSize = Math.max(1, Math.ceil(levels.length / plotBuckets));
+  const point = (i: number): OtdrPoint => [Math.round(i * metersPerPoint * 10) / 10, Math.round(levels[i] * 1000) / 1000];
+  const points: OtdrPoint[] = [];
+
+  for (let start = 0; start < levels.length; start += bucketSize) {
+    const end = Math.min(start + bucketSize, levels.length);
+    let low = start;
+    let high = start;
+    for (let i = start + 1; i < end; i++) {
+      if (levels[i] < levels[low]) low = i;
+      if (levels[i] > levels[high]) high = i;
+    }
+    points.push(point(Math.min(low, high)));
+    if (low !== high) points.push(point(Math.max(low, high)));
+  }
+  return points;
+}
+
+function readSor(buffer: ArrayBuffer): SorTrace {
+  const reader = createReader(buffer);
+  let map: ReturnType<typeof readBlockMap>;
+  try {
+    map = readBlockMap(reader);
+  } catch {
+    throw new Error('Not an OTDR .sor file');
+  }
+  const { version, revision, blocks } = map;
+  if (Math.floor(revision / 100) !== version) {
+    throw new Error(`SR-4731 issue ${(revision / 100).toFixed(2)} files can't be read, only issues 1 and 2`);
+  }
+
+  openBlock(reader, blocks, 'FxdParams', version);
+  const timestamp = reader.uint32();
+  reader.chars(2); // Distance units; distances are worked out from times instead
+  const wavelength = reader.uint16() / 10;
+  reader.int32(); // Acquisition offset
+  if (version === 2) reader.int32(); // Acquisition offset distance
+  const pulseCount = reader.uint16();
+  const pulseWidths = Array.from({ length: pulseCount }, () => reader.uint16());
+  const sampleSpacings = Array.from({ length: pulseCount }, () => reader.uint32());
+  Array.from({ length: pulseCount }, () => reader.uint32()); // Data points per pulse width
+  const indexOfRefraction = reader.uint32() / 100000;
+  if (indexOfRefraction <= 0) throw new Error("The file has no group index, so distances can't be worked out");
+
+  // Event times are in 100 ps steps; sample spacing is the time for 10,000 samples, in the same steps
+  const kmPerTimeUnit = 1e-4 * speedOfLight / indexOfRefraction;
+  const metersPerPoint = (sampleSpacings[0] ?? 0) * 1e-8 * speedOfLight / indexOfRefraction * 1000;
+
+  openBlock(reader, blocks, 'KeyEvents', version);
+  const eventCount = reader.uint16();
+  const events: OtdrEvent[] = [];
+  for (let i = 0; i < eventCount; i++) {
+    const number = reader.uint16();
+    const time = reader.uint32();
+    const attenuation = reader.int16() / 1000;
+    const spliceLoss = reader.int16() / 1000;
+    const reflectance = reader.int32() / 1000;
+    const code = reader.chars(6);
+    reader.chars(2); // Loss measurement technique
+    if (version === 2) {
+      for (let marker = 0; marker < 5; marker++) reader.uint32();
+    }
+    const comment = reader.string().trim();
+    const type = getEventType(code);
+
+    events.push({
+      number,
+      type,
+      distanceMeters: Math.round(time * kmPerTimeUnit * 1000 * 100) / 100,
+      spliceLoss,
+      reflectance: type === 'non-reflective' || reflectance === 0 ? null : reflectance,
+      attenuation,
+      comment,
+    });
+  }
+
+  // Samples are loss below the launch level in thousandths of a dB (times the scale factor); plot them
+  // as the level above the lowest one so the trace slopes down towards zero
+  let points: OtdrPoint[] = [];
+  if (blocks.some(b => b.name === 'DataPts') && metersPerPoint > 0) {
+    openBlock(reader, blocks, 'DataPts', version);
+    reader.uint32(); // Total data points
+    const traceCount = reader.uint16();
+    if (traceCount > 0) {
+      const pointCount = reader.uint32();
+      const scale = reader.uint16() / 1000 || 1;
+      const raw = Array.from({ length: pointCount }, () => reader.uint16());
+      const floor = raw.reduce((max, value) => Math.max(max, value), 0);
+      points = thinTrace(raw.map(value => (floor - value) * scale / 1000), metersPerPoint);
+    }
+  }
+
+  return {
+    version,
+    wavelength: wavelength || null,
+    pulseWidth: pulseWidths[0] ?? null,
+    indexOfRefraction,
+    testedAt: timestamp ? new Date(timestamp * 1000).toISOString() : null,
+    events,
+    points,
+  };
+}
+
+/**
+ * Parses a Bellcore/Telcordia SR-4731 (.sor) OTDR file, issue 1 or 2: the test settings, the key
+ * events with their distance, loss and reflectance, and the trace thinned out for plotting.
+ * Files it can't read come back with an error describing what is wrong with them.
+ */
+export function parseSor(buffer: ArrayBuffer): SorParseResult {
+  try {
+    return { success: true, trace: readSor(buffer) };
+  } catch (error) {
+    return { success: false, error: error instanceof Error ? error.message : String(error) };
+  }
+}
@@ -0,0 +1,80 @@
+import type { Circuit, SpliceCompletion } from '@shared/schema';
+
+// One distribution fiber (or copper pair) of a spliced circuit, with what it is spliced to
+export interface SpliceTarget {
+  cableId: string;
+  fiber: number;
+  feedKey: string;
+}
+
+export interface SpliceProgress {
+  completed: number;
+  total: number;
+}
+
+const technicianNameKey = 'fibersplice.technicianName';
+
+export function spliceCompletionId(cableId: string, fiber: number): string {
+  return `${cableId}:${fiber}`;
+}
+
+/**
+ * The fibers of a spliced circuit from `offset` (0 = its first fiber) on, `count` of them or all the
+ * rest. Circuits without a feed cable or splitter have nothing to sign off.
+ */
+export function getSpliceTargets(circuit: Circuit, offset = 0, count?: number): SpliceTarget[] {
+  if (circuit.isSpliced !== 1 || (!circuit.feedCableId && !circuit.splitterId)) return [];
+
+  const fiberCount = circuit.fiberEnd - circuit.fiberStart + 1;
+  const end = count === undefined ? fiberCount : Math.min(offset + count, fiberCount);
+  // Strand rows fall back to the distribution fiber when the feed range is missing; do the same
+  const feedStart = circuit.feedFiberStart || circuit.fiberStart;
+
+  const targets: SpliceTarget[] = [];
+  for (let i = offset; i < end; i++) {
+    targets.push({
+      cableId: circuit.cableId,
+      fiber: circuit.fiberStart + i,
+      feedKey: circuit.splitterId
+        ? `splitter:${circuit.splitterId}:${feedStart + i}`
+        : `cable:${circuit.feedCableId}:${feedStart + i}`,
+    });
+  }
+  return targets;
+}
+
+export function buildCompletionLookup(completions: SpliceCompletion[]): Map<string, SpliceCompletion> {
+  return new Map(completions.map(c => [c.id, c]));
+}
+
+// The sign-off for a fiber, if it was signed off while spliced the way it is now
+export function findCompletion(lookup: Map<string, SpliceCompletion>, target: SpliceTarget): SpliceCompletion | undefined {
+  const completion = lookup.get(spliceCompletionId(target.cableId, target.fiber));
+  return completion?.feedKey === target.feedKey ? completion : undefined;
+}
+
+export function isSpliceComplete(lookup: Map<string, SpliceCompletion>, targets: SpliceTarget[]): boolean {
+  return targets.length > 0 && targets.every(target => findCompletion(lookup, target));
+}
+
+// Signed-off fibers out of every fiber spliced by the given circuits
+export function getSpliceProgress(circuits: Circuit[], lookup: Map<string, SpliceCompletion>): SpliceProgress {
+  let completed = 0;
+  let total = 0;
+  for (const circuit of circuits) {
+    for (const target of getSpliceTargets(circuit)) {
+      total++;
+      if (findCompletion(lookup, target)) completed++;
+    }
+  }
+  return { completed, total };
+}
+
+// Name to sign off with when nobody has signed in on this device
+export function getTechnicianName(): string {
+  return localStorage.getItem(technicianNameKey) ?? '';
+}
+
+export function setTechnicianName(name: string) {
+  localStorage.setItem(technicianNameKey, name.trim());
+}
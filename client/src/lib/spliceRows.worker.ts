@@ -0,0 +1,28 @@
+import { buildSpliceRows, type SpliceGrouping, type SpliceRow } from "@shared/spliceRows";
+import type { Cable, Circuit, Splitter } from "@shared/schema";
+
+export interface SpliceRowsRequest {
+  circuits: Circuit[];
+  cables: Cable[];
+  splitters: Splitter[];
+  useGroupView: boolean;
+  grouping: SpliceGrouping;
+}
+
+// Requests are numbered so the tab can drop answers to ones it has moved past
+export interface SpliceRowsMessage {
+  id: number;
+  request: SpliceRowsRequest;
+}
+
+export interface SpliceRowsResult {
+  id: number;
+  rows: SpliceRow[];
+}
+
+// Lays out splice rows off the main thread for tables too big to build while rendering
+self.onmessage = (event: MessageEvent<SpliceRowsMessage>) => {
+  const { id, request: { circuits, cables, splitters, useGroupView, grouping } } = event.data;
+  const result: SpliceRowsResult = { id, rows: buildSpliceRows(circuits, cables, splitters, useGroupView, grouping) };
+  self.postMessage(result);
+};
@@ -0,0 +1,136 @@
+import { describe, expect, it } from "vitest";
+import type { Cable, Circuit, Splitter } from "@shared/schema";
+import { buildSpliceRows } from "@shared/spliceRows";
+import { buildSpliceSheetRows, copperSheetLayout, fiberSheetLayout, generateSpliceSheetPdf, type SpliceSheetLayout } from "./spliceSheet";
+import { buildSpliceTable } from "./spreadsheetExport";
+
+function makeCable(id: string, type: "Feed" | "Distribution", fiberCount: number, construction: Partial<Cable> = {}): Cable {
+  return {
+    id,
+    name: id,
+    fiberCount,
+    ribbonSize: 12,
+    tubeCount: null,
+    fibersPerTube: null,
+    ribbonsPerTube: null,
+    colorCode: null,
+    superUnitSize: null,
+    type,
+    enclosureId: null,
+    lengthMeters: null,
+    attenuation1310: null,
+    attenuation1550: null,
+    ...construction,
+  };
+}
+
+function makeCircuit(id: string, circuitId: string, fiberStart: number, fiberEnd: number, feed: Partial<Circuit> = {}): Circuit {
+  return {
+    id,
+    cableId: "dist",
+    enclosureId: null,
+    circuitId,
+    position: 0,
+    fiberStart,
+    fiberEnd,
+    isSpliced: 1,
+    feedCableId: "feed",
+    feedFiberStart: null,
+    feedFiberEnd: null,
+    splitterId: null,
+    spliceMethod: null,
+    ...feed,
+  };
+}
+
+const splitter: Splitter = {
+  id: "splitter",
+  enclosureId: null,
+  name: "S1",
+  ratio: "1x8",
+  location: null,
+  inputCableId: "feed",
+  inputFiber: 1,
+  portPrefix: "pon",
+  portStart: 1,
+};
+
+// Every kind of row: a circuit split across ribbons and tubes, one on a splitter, and two that can't be laid out
+const fiberCables = [
+  makeCable("feed", "Feed", 48),
+  makeCable("dist", "Distribution", 48, { tubeCount: 8, fibersPerTube: 6 }),
+];
+const fiberCircuits = [
+  makeCircuit("c1", "pon,1-16", 5, 20, { feedFiberStart: 9, feedFiberEnd: 24 }),
+  makeCircuit("c2", "pon,17-20", 21, 24, { feedCableId: null, splitterId: "splitter", feedFiberStart: 1, feedFiberEnd: 4 }),
+  makeCircuit("c3", "pon,21-24", 25, 28, { feedCableId: null, isSpliced: 0 }),
+  makeCircuit("c4", "pon,25-28", 0, 0),
+];
+
+const copperCables = [
+  makeCable("feed", "Feed", 1200, { ribbonSize: 25, superUnitSize: 100 }),
+  makeCable("dist", "Distribution", 100, { ribbonSize: 25 }),
+];
+const copperCircuits = [
+  makeCircuit("c1", "cp,1-30", 21, 50, { feedFiberStart: 91, feedFiberEnd: 120 }),
+];
+
+// The text the PDF's splice table shows for each body row, past the # column and before the sign-off columns
+function pdfRows(circuits: Circuit[], cables: Cable[], splitters: Splitter[], useRibbonView: boolean, layout: SpliceSheetLayout): string[][] {
+  const rows = buildSpliceSheetRows(circuits, cables, splitters, useRibbonView, layout);
+  const doc = generateSpliceSheetPdf({ title: "Test" }, rows, useRibbonView, layout);
+  const table = (doc as any).lastAutoTable;
+  return table.body.map((row: any) => {
+    const cells = Object.keys(row.cells).map(Number).sort((a, b) => a - b).map(index => row.cells[index].text.join(" "));
+    return cells.slice(0, cells.length - 3);
+  });
+}
+
+describe("splice sheets", () => {
+  const cases = [
+    { name: "fiber group view", circuits: fiberCircuits, cables: fiberCables, splitters: [splitter], useRibbonView: true, layout: fiberSheetLayout },
+    { name: "fiber strand view", circuits: fiberCircuits, cables: fiberCables, splitters: [splitter], useRibbonView: false, layout: fiberSheetLayout },
+    { name: "copper binder view", circuits: copperCircuits, cables: copperCables, splitters: [], useRibbonView: true, layout: copperSheetLayout },
+    { name: "copper pair view", circuits: copperCircuits, cables: copperCables, splitters: [], useRibbonView: false, layout: copperSheetLayout },
+  ];
+
+  describe.each(cases)("$name", ({ circuits, cables, splitters, useRibbonView, layout }) => {
+    const tabRows = buildSpliceRows(circuits, cables, splitters, useRibbonView, layout === copperSheetLayout ? "copper" : "fiber");
+    const sheetRows = buildSpliceSheetRows(circuits, cables, splitters, useRibbonView, layout);
+    const sheetTexts = sheetRows.map(row => [String(row.number), ...(row.message ? [row.message] : row.cells.map(cell => cell.text))]);
+
+    it("has the splice tab's rows", () => {
+      expect(sheetRows.map(row => [row.number, row.circuit.id])).toEqual(tabRows.map(row => [row.number, row.circuit.id]));
+      sheetRows.forEach((row, i) => {
+        const tabRow = tabRows[i];
+        if (tabRow.kind === "message") {
+          expect(row.message).toContain(tabRow.message);
+        } else {
+          expect(row.cells.map(cell => cell.text)).toContain(tabRow.circuitLabel);
+        }
+      });
+    });
+
+    it("exports the same rows to spreadsheets", () => {
+      const table = buildSpliceTable("Splices", circuits, cables, splitters, useRibbonView, layout);
+      // Strand cells also name their color in spreadsheets
+      const texts = table.rows.slice(1).map((row, i) => row.map((cell, index) =>
+        sheetRows[i].cells[index - 1]?.swatch ? String(cell).replace(/ \(.+\)$/, "") : String(cell)
+      ));
+      expect(texts).toEqual(sheetTexts);
+    });
+
+    it("prints the same rows on the PDF", () => {
+      expect(pdfRows(circuits, cables, splitters, useRibbonView, layout)).toEqual(sheetTexts);
+    });
+  });
+
+  it("labels copper binders with their super units", () => {
+    const rows = buildSpliceSheetRows(copperCircuits, copperCables, [], true, copperSheetLayout);
+    expect(rows.map(row => row.cells.map(cell => cell.text))).toEqual([
+      ["feed-1200", "U1B4:16-20", "cp,1-5", "B1:21-25", "dist-100"],
+      ["feed-1200", "U1B4:21-25", "cp,6-10", "B2:1-5", "dist-100"],
+      ["feed-1200", "U2B1:1-20", "cp,11-30", "B2:6-25", "dist-100"],
+    ]);
+  });
+});
@@ -0,0 +1,303 @@
+import { jsPDF } from "jspdf";
+import { autoTable, type CellDef, type RowInput } from "jspdf-autotable";
+import {
+  type Cable,
+  type Circuit,
+  type ColorCode,
+  type Enclosure,
+  type FiberColor,
+  type FiberMarking,
+  type Splitter,
+  formatFiberGroup,
+  formatPairGroup,
+  getCableColorCode,
+  getFiberGroupMarking,
+  getFiberPosition,
+  getPairPosition,
+  getStrandMarking,
+} from "@shared/schema";
+import { buildSpliceRows } from "@shared/spliceRows";
+
+// How the splice tabs group units: fiber segments on each cable's ribbons or tubes, copper on 25-pair binders
+// (labelled with their super unit on cables that have them)
+export interface SpliceSheetLayout {
+  groupSize: number; // Copper binder size; fiber cables are split by their own construction
+  groupName: string;
+  unitName: string;
+  countName: string; // What a cable's size counts, e.g. "fibers"
+  colored: boolean; // Only fiber colors are drawn; copper pairs are two-color and shown as numbers
+}
+
+export const fiberSheetLayout: SpliceSheetLayout = { groupSize: 12, groupName: "Ribbon/Tube", unitName: "Strand", countName: "fibers", colored: true };
+export const copperSheetLayout: SpliceSheetLayout = { groupSize: 25, groupName: "Binder", unitName: "Pair", countName: "pairs", colored: false };
+
+export interface SpliceSheetCell {
+  text: string;
+  marking?: FiberMarking; // Color (and tracer stripes) under the cable's color code
+  swatch?: boolean; // Filled with the color (strand cells) instead of colored text (ribbon cells)
+}
+
+export interface SpliceSheetRow {
+  number: number;
+  circuit: Circuit;
+  cells: SpliceSheetCell[]; // One per column in getSpliceSheetColumns, empty when message is set
+  message?: string; // Circuits that can't be laid out, e.g. a missing feed cable
+}
+
+export interface SpliceSheetInfo {
+  title: string; // e.g. "Splice Mapping - D1" or "pon Splice"
+  enclosure?: Enclosure;
+  cable?: Cable;
+}
+
+// RGB equivalents of the fiber colors used on screen (jsPDF can't read the CSS variables)
+const fiberColorRgb: Record<FiberColor, [number, number, number]> = {
+  blue: [59, 130, 246],
+  orange: [249, 115, 22],
+  green: [22, 163, 74],
+  brown: [180, 83, 9],
+  slate: [100, 116, 139],
+  white: [255, 255, 255],
+  red: [220, 38, 38],
+  black: [0, 0, 0],
+  yellow: [250, 204, 21],
+  violet: [147, 51, 234],
+  pink: [236, 72, 153],
+  aqua: [34, 211, 238],
+};
+
+// Light fibers need dark text on a swatch, and a darker shade when used as the text color itself
+const lightColors: FiberColor[] = ["white", "yellow", "aqua"];
+const textColorOverrides: Partial<Record<FiberColor, [number, number, number]>> = {
+  white: [51, 65, 85],
+  yellow: [202, 138, 4],
+  aqua: [8, 145, 178],
+};
+
+const cableLabel = (cable?: Cable) => (cable ? `${cable.name}-${cable.fiberCount}` : "");
+
+export function getSpliceSheetColumns(useRibbonView: boolean, layout: SpliceSheetLayout = fiberSheetLayout): string[] {
+  const { groupName, unitName } = layout;
+  return useRibbonView
+    ? ["Feed Cable", groupName, "Circuit", groupName, "Dist. Cable"]
+    : ["Feed Cable", groupName, unitName, "Circuit", unitName, groupName, "Dist. Cable"];
+}
+
+/**
+ * Splice sheet cells for the rows buildSpliceRows lays out, so sheets and spreadsheets match the
+ * splice tabs row for row. Fiber colors follow each cable's color code, looked up among the
+ * project's custom codes too.
+ */
+export function buildSpliceSheetRows(
+  circuits: Circuit[],
+  cables: Cable[],
+  splitters: Splitter[],
+  useRibbonView: boolean,
+  layout: SpliceSheetLayout = fiberSheetLayout,
+  colorCodes: ColorCode[] = []
+): SpliceSheetRow[] {
+  const { groupSize, colored } = layout;
+  // Fiber cables are labelled by their own ribbons or tubes ("R2", "T3" or "T3R1"), copper binders "B7" or "U2B3"
+  const strandOf = (cable: Cable | undefined, fiber: number) =>
+    colored ? getFiberPosition(cable, fiber).strand : ((fiber - 1) % groupSize) + 1;
+  const groupOf = (cable: Cable | undefined, fiber: number) =>
+    colored ? formatFiberGroup(getFiberPosition(cable, fiber)) : formatPairGroup(getPairPosition(cable, fiber));
+  const ribbonCell = (text: string, cable: Cable | undefined, fiber: number): SpliceSheetCell =>
+    colored ? { text, marking: getFiberGroupMarking(getFiberPosition(cable, fiber), getCableColorCode(cable, colorCodes)) } : { text };
+  const strandCell = (cable: Cable | undefined, fiber: number): SpliceSheetCell => {
+    const strand = strandOf(cable, fiber);
+    return colored
+      ? { text: String(strand), marking: getStrandMarking(getFiberPosition(cable, fiber), getCableColorCode(cable, colorCodes)), swatch: true }
+      : { text: String(strand) };
+  };
+  const formatRibbonRange = (cable: Cable | undefined, fiberStart: number, fiberEnd: number) => {
+    const strandStart = strandOf(cable, fiberStart);
+    const strandEnd = strandOf(cable, fiberEnd);
+    const startGroup = groupOf(cable, fiberStart);
+    const endGroup = groupOf(cable, fiberEnd);
+    if (startGroup !== endGroup) return `${startGroup}:${strandStart}-${endGroup}:${strandEnd}`;
+    return `${startGroup}:${strandStart}${strandStart !== strandEnd ? `-${strandEnd}` : ""}`;
+  };
+
+  const spliceRows = buildSpliceRows(circuits, cables, splitters, useRibbonView, colored ? "fiber" : "copper");
+  return spliceRows.map((row): SpliceSheetRow => {
+    const { number, circuit } = row;
+    if (row.kind === "message") {
+      return { number, circuit, cells: [], message: `Circuit ${circuit.circuitId} - ${row.message}.` };
+    }
+
+    const { distributionCable, distStart, count } = row;
+    const distEnd = distStart + count - 1;
+    if (row.kind === "splitter") {
+      const splitterLabel = `${row.splitter.name} (${row.splitter.ratio})`;
+      const cells: SpliceSheetCell[] = useRibbonView
+        ? [
+            { text: splitterLabel },
+            { text: `P${row.portStart}${row.portStart !== row.portEnd ? `-${row.portEnd}` : ""}` },
+            { text: row.circuitLabel },
+            ribbonCell(formatRibbonRange(distributionCable, distStart, distEnd), distributionCable, distStart),
+            { text: cableLabel(distributionCable) },
+          ]
+        : [
+            { text: splitterLabel },
+            { text: "Port" },
+            { text: String(row.portStart) },
+            { text: row.circuitLabel },
+            strandCell(distributionCable, distStart),
+            ribbonCell(groupOf(distributionCable, distStart), distributionCable, distStart),
+            { text: cableLabel(distributionCable) },
+          ];
+      return { number, circuit, cells };
+    }
+
+    const { feedCable, feedStart } = row;
+    const cells: SpliceSheetCell[] = useRibbonView
+      ? [
+          { text: cableLabel(feedCable) },
+          ribbonCell(formatRibbonRange(feedCable, feedStart, feedStart + count - 1), feedCable, feedStart),
+          { text: row.circuitLabel },
+          ribbonCell(formatRibbonRange(distributionCable, distStart, distEnd), distributionCable, distStart),
+          { text: cableLabel(distributionCable) },
+        ]
+      : [
+          { text: cableLabel(feedCable) },
+          ribbonCell(groupOf(feedCable, feedStart), feedCable, feedStart),
+          strandCell(feedCable, feedStart),
+          { text: row.circuitLabel },
+          strandCell(distributionCable, distStart),
+          ribbonCell(groupOf(distributionCable, distStart), distributionCable, distStart),
+          { text: cableLabel(distributionCable) },
+        ];
+    return { number, circuit, cells };
+  });
+}
+
+function toCellDef(cell: SpliceSheetCell): CellDef {
+  if (!cell.marking) return { content: cell.text };
+  const { color } = cell.marking;
+  if (cell.swatch) {
+    return {
+      content: cell.text,
+      styles: {
+        fillColor: fiberColorRgb[color],
+        textColor: lightColors.includes(color) ? [0, 0, 0] : [255, 255, 255],
+        fontStyle: "bold",
+      },
+    };
+  }
+  return {
+    content: cell.text,
+    styles: { textColor: textColorOverrides[color] ?? fiberColorRgb[color], fontStyle: "bold" },
+  };
+}
+
+/**
+ * Builds a printable splice sheet: a header with the enclosure and cable, the splice rows with
+ * fiber color swatches, and blank sign-off columns for the crew. Runs entirely client-side.
+ */
+export function generateSpliceSheetPdf(
+  info: SpliceSheetInfo,
+  rows: SpliceSheetRow[],
+  useRibbonView: boolean,
+  layout: SpliceSheetLayout = fiberSheetLayout
+): jsPDF {
+  const doc = new jsPDF({ orientation: "landscape", unit: "pt", format: "letter" });
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const pageHeight = doc.internal.pageSize.getHeight();
+  const margin = 36;
+
+  doc.setFont("helvetica", "bold");
+  doc.setFontSize(16);
+  doc.text(info.title, margin, margin + 8);
+
+  doc.setFont("helvetica", "normal");
+  doc.setFontSize(10);
+  const headerLines = [
+    info.enclosure
+      ? `Enclosure: ${info.enclosure.name}${info.enclosure.locationNotes ? ` - ${info.enclosure.locationNotes}` : ""}`
+      : null,
+    info.cable ? `Cable: ${info.cable.name} (${info.cable.type}, ${info.cable.fiberCount} ${layout.countName})` : null,
+    `Splices: ${rows.length} (${(useRibbonView ? layout.groupName : layout.unitName).toLowerCase()} view)`,
+    `Generated: ${new Date().toLocaleString()}`,
+  ].filter((line): line is string => line !== null);
+  headerLines.forEach((line, index) => doc.text(line, margin, margin + 26 + index * 13));
+
+  const columns = getSpliceSheetColumns(useRibbonView, layout);
+  const sideColumnCount = useRibbonView ? 2 : 3;
+  const signOffColumns = ["Done", "Tech", "Date"];
+
+  const head: RowInput[] = [
+    [
+      { content: "#", rowSpan: 2 },
+      { content: "Feed", colSpan: sideColumnCount },
+      { content: "Circuit", rowSpan: 2 },
+      { content: "Distribution", colSpan: sideColumnCount },
+      { content: "Sign-off", colSpan: signOffColumns.length },
+    ],
+    [...columns.filter((_, index) => index !== sideColumnCount), ...signOffColumns],
+  ];
+
+  const body: RowInput[] = rows.map(row => [
+    String(row.number),
+    ...(row.message
+      ? [{ content: row.message, colSpan: columns.length, styles: { textColor: [100, 100, 100], fontStyle: "italic" } } as CellDef]
+      : row.cells.map(toCellDef)),
+    "",
+    "",
+    "",
+  ]);
+
+  autoTable(doc, {
+    head,
+    body,
+    startY: margin + 26 + headerLines.length * 13,
+    margin: { left: margin, right: margin, bottom: margin + 12 },
+    theme: "grid",
+    styles: { font: "helvetica", fontSize: 8, halign: "center", cellPadding: 3, lineColor: [160, 160, 160] },
+    headStyles: { fillColor: [229, 231, 235], textColor: [0, 0, 0], fontStyle: "bold" },
+    columnStyles: {
+      [columns.length + 1]: { cellWidth: 36 },
+      [columns.length + 2]: { cellWidth: 80 },
+      [columns.length + 3]: { cellWidth: 64 },
+    },
+    // Tracer stripes as upright bars at the left of the cell, one per stripe
+    didDrawCell: (data) => {
+      if (data.section !== "body") return;
+      const row = rows[data.row.index];
+      const marking = row && !row.message ? row.cells[data.column.index - 1]?.marking : undefined;
+      if (!marking?.stripe) return;
+      doc.setFillColor(...fiberColorRgb[marking.stripe]);
+      for (let i = 0; i < marking.stripeCount; i++) {
+        doc.rect(data.cell.x + 3 + i * 4, data.cell.y + 2, 2, data.cell.height - 4, "F");
+      }
+    },
+  });
+
+  // Page numbers once the total is known
+  const pageCount = doc.getNumberOfPages();
+  for (let page = 1; page <= pageCount; page++) {
+    doc.setPage(page);
+    doc.setFontSize(8);
+    doc.setTextColor(100);
+    doc.text(`${info.title} - Page ${page} of ${pageCount}`, pageWidth - margin, pageHeight - margin / 2, { align: "right" });
+  }
+
+  return doc;
+}
+
+/**
+ * Generates the splice sheet and downloads it, e.g. "pon-splice-sheet.pdf".
+ */
+export function downloadSpliceSheet(
+  info: SpliceSheetInfo,
+  circuits: Circuit[],
+  cables: Cable[],
+  splitters: Splitter[],
+  useRibbonView: boolean,
+  fileName: string,
+  layout: SpliceSheetLayout,
+  colorCodes: ColorCode[] = []
+) {
+  const rows = buildSpliceSheetRows(circuits, cables, splitters, useRibbonView, layout, colorCodes);
+  generateSpliceSheetPdf(info, rows, useRibbonView, layout).save(`${fileName.replace(/[^\w.-]+/g, "_")}-splice-sheet.pdf`);
+}
@@ -0,0 +1,126 @@
+// Only writes workbooks; files users pick are never parsed with it (see spreadsheetImport.ts)
+import * as XLSX from "xlsx";
+import { formatFiberMarking, type Cable, type Circuit, type ColorCode, type Splitter } from "@shared/schema";
+import {
+  type SpliceSheetLayout,
+  buildSpliceSheetRows,
+  fiberSheetLayout,
+  getSpliceSheetColumns,
+} from "@/lib/spliceSheet";
+
+export type SpreadsheetFormat = "csv" | "xlsx";
+
+export interface SpreadsheetTable {
+  name: string; // Worksheet name in XLSX exports
+  rows: (string | number)[][]; // First row is the header
+}
+
+// Excel limits sheet names to 31 characters and forbids a handful of symbols
+function toSheetName(name: string, taken: Set<string>): string {
+  const base = name.replace(/[\\/?*[\]:]/g, "-").slice(0, 31) || "Sheet";
+  let sheetName = base;
+  for (let i = 2; taken.has(sheetName.toLowerCase()); i++) {
+    const suffix = ` (${i})`;
+    sheetName = base.slice(0, 31 - suffix.length) + suffix;
+  }
+  taken.add(sheetName.toLowerCase());
+  return sheetName;
+}
+
+/**
+ * Every circuit on the given cables in cable order, one row per circuit with its splice target.
+ */
+export function buildCircuitListTable(
+  cables: Cable[],
+  circuits: Circuit[],
+  splitters: Splitter[],
+  mode: "fiber" | "copper"
+): SpreadsheetTable {
+  const unit = mode === "copper" ? "Pair" : "Fiber";
+  const rows: (string | number)[][] = [[
+    "Cable", "Type", "Position", "Circuit ID", `${unit} Start`, `${unit} End`,
+    "Spliced", "Feed Cable", `Feed ${unit} Start`, `Feed ${unit} End`,
+  ]];
+
+  for (const cable of cables) {
+    const cableCircuits = circuits.filter(c => c.cableId === cable.id).sort((a, b) => a.position - b.position);
+    for (const circuit of cableCircuits) {
+      const feedCable = circuit.feedCableId ? cables.find(c => c.id === circuit.feedCableId) : undefined;
+      const splitter = circuit.splitterId ? splitters.find(s => s.id === circuit.splitterId) : undefined;
+      const spliced = circuit.isSpliced === 1;
+      rows.push([
+        cable.name,
+        cable.type,
+        circuit.position + 1,
+        circuit.circuitId,
+        circuit.fiberStart,
+        circuit.fiberEnd,
+        spliced ? "Yes" : "No",
+        spliced ? (splitter ? `${splitter.name} (${splitter.ratio})` : feedCable?.name ?? "") : "",
+        spliced ? circuit.feedFiberStart ?? "" : "",
+        spliced ? circuit.feedFiberEnd ?? "" : "",
+      ]);
+    }
+  }
+
+  return { name: "Circuits", rows };
+}
+
+/**
+ * A splice tab as a table, laid out exactly like the PDF splice sheet for the same view.
+ */
+export function buildSpliceTable(
+  name: string,
+  circuits: Circuit[],
+  cables: Cable[],
+  splitters: Splitter[],
+  useRibbonView: boolean,
+  layout: SpliceSheetLayout = fiberSheetLayout,
+  colorCodes: ColorCode[] = []
+): SpreadsheetTable {
+  const columns = getSpliceSheetColumns(useRibbonView, layout);
+  const circuitColumn = columns.indexOf("Circuit");
+  // Both sides share column names, so qualify them for spreadsheet headers
+  const header = columns.map((column, index) => {
+    if (index === circuitColumn || column.endsWith("Cable")) return column;
+    return `${index < circuitColumn ? "Feed" : "Dist."} ${column}`;
+  });
+
+  const rows: (string | number)[][] = [["#", ...header]];
+  for (const row of buildSpliceSheetRows(circuits, cables, splitters, useRibbonView, layout, colorCodes)) {
+    rows.push(row.message
+      ? [row.number, row.message]
+      : [row.number, ...row.cells.map(cell => (cell.swatch && cell.marking ? `${cell.text} (${formatFiberMarking(cell.marking)})` : cell.text))]);
+  }
+
+  return { name, rows };
+}
+
+/**
+ * Downloads the tables as one XLSX workbook (a sheet per table) or as CSV. CSV holds a single
+ * table, so only the first one is written.
+ */
+export function downloadSpreadsheet(tables: SpreadsheetTable[], format: SpreadsheetFormat, fileName: string) {
+  const safeName = fileName.replace(/[^\w.-]+/g, "_");
+
+  if (format === "csv") {
+    const csv = XLSX.utils.sheet_to_csv(XLSX.utils.aoa_to_sheet(tables[0]?.rows ?? []));
+    const blob = new Blob([csv], { type: "text/csv;charset=utf-8" });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = `${safeName}.csv`;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+    return;
+  }
+
+  const workbook = XLSX.utils.book_new();
+  const taken = new Set<string>();
+  for (const table of tables) {
+    XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet(table.rows), toSheetName(table.name, taken));
+  }
+  XLSX.writeFile(workbook, `${safeName}.xlsx`);
+}
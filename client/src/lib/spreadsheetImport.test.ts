@@ -0,0 +1,191 @@
+import { describe, expect, it } from "vitest";
+import * as XLSX from "xlsx";
+import type { Cable } from "@shared/schema";
+import { buildImportPlan, guessColumnMapping, parseCsv, readSpreadsheet, type SpreadsheetData } from "./spreadsheetImport";
+
+function makeCable(name: string): Cable {
+  return {
+    id: name,
+    name,
+    fiberCount: 24,
+    ribbonSize: 12,
+    tubeCount: null,
+    fibersPerTube: null,
+    ribbonsPerTube: null,
+    colorCode: null,
+    superUnitSize: null,
+    type: "Distribution",
+    enclosureId: null,
+    lengthMeters: null,
+    attenuation1310: null,
+    attenuation1550: null,
+  };
+}
+
+describe("parseCsv", () => {
+  it("splits rows and fields", () => {
+    expect(parseCsv("Cable,Fibers\nD1,24\nD2,48")).toEqual([
+      ["Cable", "Fibers"],
+      ["D1", "24"],
+      ["D2", "48"],
+    ]);
+  });
+
+  it("keeps delimiters, newlines and doubled quotes inside quoted fields", () => {
+    expect(parseCsv('Cable,Notes\nD1,"pon,1-8"\nD2,"two\nlines"\nD3,"say ""hi"""')).toEqual([
+      ["Cable", "Notes"],
+      ["D1", "pon,1-8"],
+      ["D2", "two\nlines"],
+      ["D3", 'say "hi"'],
+    ]);
+  });
+
+  it("picks the delimiter from the header row", () => {
+    expect(parseCsv("Cable;Circuit ID\nD1;pon,1-8")).toEqual([["Cable", "Circuit ID"], ["D1", "pon,1-8"]]);
+    expect(parseCsv("Cable\tFibers\nD1\t24")).toEqual([["Cable", "Fibers"], ["D1", "24"]]);
+  });
+
+  it("handles CRLF line endings, a trailing newline and empty fields", () => {
+    expect(parseCsv("Cable,Fibers,Type\r\nD1,,Feed\r\n")).toEqual([
+      ["Cable", "Fibers", "Type"],
+      ["D1", "", "Feed"],
+    ]);
+  });
+});
+
+describe("readSpreadsheet", () => {
+  it("reads a CSV file, dropping the BOM, padding and blank rows", async () => {
+    const file = new File(["\uFEFFCable , Fibers\nD1, 24 \n,\nD2,48\n"], "design.csv", { type: "text/csv" });
+    expect(await readSpreadsheet(file)).toEqual({
+      headers: ["Cable", "Fibers"],
+      rows: [["D1", "24"], ["D2", "48"]],
+    });
+  });
+
+  it("reads the first sheet of an XLSX workbook as text", async () => {
+    const workbook = XLSX.utils.book_new();
+    XLSX.utils.book_append_sheet(
+      workbook,
+      XLSX.utils.aoa_to_sheet([
+        ["Cable", "Fibers", "Circuit ID"],
+        ["D1", 24, "pon,1-8"],
+        ["D1", 24, "pon,9-16"],
+      ]),
+      "Design"
+    );
+    XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet([["Ignored"]]), "Notes");
+    const bytes: ArrayBuffer = XLSX.write(workbook, { bookType: "xlsx", type: "array" });
+
+    expect(await readSpreadsheet(new File([bytes], "design.xlsx"))).toEqual({
+      headers: ["Cable", "Fibers", "Circuit ID"],
+      rows: [["D1", "24", "pon,1-8"], ["D1", "24", "pon,9-16"]],
+    });
+  });
+
+  it("rejects legacy .xls workbooks", async () => {
+    await expect(readSpreadsheet(new File(["x"], "design.xls"))).rejects.toThrow(/\.xlsx or CSV/);
+  });
+});
+
+describe("guessColumnMapping", () => {
+  it("matches header aliases regardless of case, spaces and underscores", () => {
+    expect(guessColumnMapping(["Cable Name", "FIBER_COUNT", "Type", "Circuit ID", "Notes"])).toEqual({
+      cableName: 0,
+      fiberCount: 1,
+      type: 2,
+      circuitId: 3,
+      prefix: null,
+      rangeStart: null,
+      rangeEnd: null,
+    });
+  });
+
+  it("finds split prefix and range columns", () => {
+    expect(guessColumnMapping(["Cable", "Pairs", "Prefix", "From", "To"])).toMatchObject({
+      cableName: 0,
+      fiberCount: 1,
+      circuitId: null,
+      prefix: 2,
+      rangeStart: 3,
+      rangeEnd: 4,
+    });
+  });
+});
+
+describe("buildImportPlan", () => {
+  const data: SpreadsheetData = {
+    headers: ["Cable", "Fibers", "Type", "Circuit ID"],
+    rows: [
+      ["D1", "24", "dist", "pon,1-8"],
+      ["D1", "24", "", "pon 9 16"],
+      ["F1", "", "Feed", "pon,1-16"],
+    ],
+  };
+
+  it("groups rows into cables with normalized circuit IDs", () => {
+    const plan = buildImportPlan(data, guessColumnMapping(data.headers), [], "Distribution");
+
+    const summary = plan.cables.map(({ name, type, fiberCount, circuitIds, assignedFibers }) => ({
+      name,
+      type,
+      fiberCount,
+      circuitIds,
+      assignedFibers,
+    }));
+    expect(summary).toEqual([
+      { name: "D1", type: "Distribution", fiberCount: 24, circuitIds: ["pon,1-8", "pon,9-16"], assignedFibers: 16 },
+      // No fiber count column value: sized to fit its circuits
+      { name: "F1", type: "Feed", fiberCount: 16, circuitIds: ["pon,1-16"], assignedFibers: 16 },
+    ]);
+    expect(plan.errorCount).toBe(0);
+    expect(plan.warningCount).toBe(1);
+    expect(plan.cables[0].issues).toEqual([{ severity: "warning", message: "Circuits use 16 of 24 fibers" }]);
+  });
+
+  it("builds circuit IDs from prefix and range columns", () => {
+    const split: SpreadsheetData = {
+      headers: ["Cable", "Prefix", "Start", "End"],
+      rows: [["D1", "pon", "1", "8"], ["D1", "pon", "9", ""]],
+    };
+    const plan = buildImportPlan(split, guessColumnMapping(split.headers), [], "Distribution");
+    expect(plan.cables[0].circuitIds).toEqual(["pon,1-8", "pon,9-9"]);
+    expect(plan.cables[0].fiberCount).toBe(9);
+  });
+
+  it("ignores columns that are unmapped", () => {
+    const mapping = { ...guessColumnMapping(data.headers), fiberCount: null, type: null };
+    const plan = buildImportPlan(data, mapping, [], "Feed");
+    expect(plan.cables.map(c => [c.type, c.fiberCount])).toEqual([["Feed", 16], ["Feed", 16]]);
+  });
+
+  it("reports invalid cells, overlaps, conflicts, overfilled cables and existing names by sheet row", () => {
+    const bad: SpreadsheetData = {
+      headers: ["Cable", "Fibers", "Type", "Circuit ID"],
+      rows: [
+        ["D1", "12", "Distribution", "pon,1-8"],
+        ["D1", "24", "Splice", "pon,5-10"],
+        ["D1", "x", "", "not a circuit"],
+        ["D2", "8", "Feed", "pon,1-12"],
+        ["D3", "", "Distribution", ""],
+      ],
+    };
+    const plan = buildImportPlan(bad, guessColumnMapping(bad.headers), [makeCable("d2")], "Distribution");
+    const messages = Object.fromEntries(plan.cables.map(c => [c.name, c.issues.map(i => i.message)]));
+
+    expect(messages.D1).toEqual([
+      'Row 3: unknown cable type "Splice"',
+      "Row 3: pon,5-10 overlaps pon,1-8",
+      'Row 4: invalid fiber count "x"',
+      'Row 4: invalid circuit ID "not a circuit"',
+      "Conflicting fiber counts: 12, 24",
+      "Circuits use 8 of 12 fibers",
+    ]);
+    expect(messages.D2).toEqual([
+      "Circuits use 12 fibers but the cable has 8",
+      'A cable named "D2" already exists in this enclosure',
+    ]);
+    expect(messages.D3).toEqual(["No fiber count and no circuits"]);
+    expect(plan.errorCount).toBe(8);
+    expect(plan.warningCount).toBe(1);
+  });
+});
@@ -0,0 +1,258 @@
+import { readSheet } from "read-excel-file/universal";
+import { type Cable, cableTypes, circuitIdsOverlap, parseCircuitIdParts } from "@shared/schema";
+import { normalizeCircuitId } from "@/lib/circuitIdUtils";
+
+export interface SpreadsheetData {
+  headers: string[];
+  rows: string[][];
+}
+
+// Column index for each importable field, null when the sheet doesn't have it
+export interface ImportColumnMapping {
+  cableName: number | null;
+  fiberCount: number | null;
+  type: number | null;
+  circuitId: number | null;
+  prefix: number | null; // prefix/start/end are used when there is no single circuit ID column
+  rangeStart: number | null;
+  rangeEnd: number | null;
+}
+
+export type ImportField = keyof ImportColumnMapping;
+
+export interface ImportIssue {
+  severity: "error" | "warning";
+  message: string;
+}
+
+export interface ImportCable {
+  name: string;
+  type: "Feed" | "Distribution";
+  fiberCount: number;
+  circuitIds: string[];
+  assignedFibers: number;
+  issues: ImportIssue[];
+}
+
+export interface ImportPlan {
+  cables: ImportCable[];
+  errorCount: number;
+  warningCount: number;
+}
+
+// Header names we recognise for each field, compared lowercased with spaces/underscores removed
+const headerAliases: Record<ImportField, string[]> = {
+  cableName: ["cable", "cablename", "name", "cableid"],
+  fiberCount: ["fibercount", "fibers", "count", "paircount", "pairs", "size"],
+  type: ["type", "cabletype"],
+  circuitId: ["circuitid", "circuit", "circuits"],
+  prefix: ["prefix", "circuitprefix"],
+  rangeStart: ["start", "rangestart", "from", "circuitstart"],
+  rangeEnd: ["end", "rangeend", "to", "circuitend"],
+};
+
+// Delimiters a design sheet saved as CSV may use; Excel picks ";" in locales with decimal commas
+const csvDelimiters = [",", ";", "\t"];
+
+// RFC 4180 fields: quoted fields may hold delimiters, newlines and doubled quotes
+export function parseCsv(text: string): string[][] {
+  const firstLine = text.slice(0, text.search(/\r?\n|$/));
+  const delimiter = csvDelimiters.reduce((best, d) => firstLine.split(d).length > firstLine.split(best).length ? d : best);
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === "") {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+  if (field !== "" || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows;
+}
+
+// XLSX cells come back typed; the wizard works on text like it gets from CSV
+function toCellText(value: unknown): string {
+  if (value === null || value === undefined) return "";
+  if (value instanceof Date) return value.toISOString().slice(0, 10);
+  return String(value);
+}
+
+/**
+ * Reads the first sheet of an XLSX workbook or a CSV design sheet as text cells, first row as
+ * headers. Legacy .xls workbooks have to be saved as .xlsx or CSV first.
+ */
+export async function readSpreadsheet(file: File): Promise<SpreadsheetData> {
+  let cells: string[][];
+  if (/\.xlsx$/i.test(file.name)) {
+    const sheet = await readSheet(await file.arrayBuffer());
+    cells = sheet.map(row => row.map(toCellText));
+  } else if (/\.xls$/i.test(file.name)) {
+    throw new Error("Save the workbook as .xlsx or CSV and import that file");
+  } else {
+    cells = parseCsv((await file.text()).replace(/^\uFEFF/, ""));
+  }
+
+  const [headerRow = [], ...rows] = cells;
+  return {
+    headers: headerRow.map(cell => cell.trim()),
+    rows: rows
+      .map(row => row.map(cell => cell.trim()))
+      .filter(row => row.some(cell => cell !== "")),
+  };
+}
+
+export function guessColumnMapping(headers: string[]): ImportColumnMapping {
+  const normalized = headers.map(h => h.toLowerCase().replace(/[\s_-]+/g, ""));
+  const find = (field: ImportField) => {
+    const index = normalized.findIndex(h => headerAliases[field].includes(h));
+    return index === -1 ? null : index;
+  };
+
+  return {
+    cableName: find("cableName"),
+    fiberCount: find("fiberCount"),
+    type: find("type"),
+    circuitId: find("circuitId"),
+    prefix: find("prefix"),
+    rangeStart: find("rangeStart"),
+    rangeEnd: find("rangeEnd"),
+  };
+}
+
+function parseCableType(value: string): "Feed" | "Distribution" | null {
+  const lower = value.trim().toLowerCase();
+  if (!lower) return null;
+  return cableTypes.find(t => t.toLowerCase().startsWith(lower) || lower.startsWith(t.toLowerCase())) ?? null;
+}
+
+/**
+ * Groups rows into cables (in sheet order) and validates them the same way cable creation does:
+ * circuit IDs are normalized and parsed, circuits may not overlap within a cable, and the fibers
+ * they use are compared against the cable's fiber count.
+ */
+export function buildImportPlan(
+  data: SpreadsheetData,
+  mapping: ImportColumnMapping,
+  existingCables: Cable[],
+  defaultType: "Feed" | "Distribution"
+): ImportPlan {
+  const byName = new Map<string, { cable: ImportCable; fiberCounts: Set<number>; types: Set<string> }>();
+  const cell = (row: string[], index: number | null) => (index === null ? "" : row[index] ?? "");
+
+  data.rows.forEach((row, rowIndex) => {
+    const name = cell(row, mapping.cableName);
+    if (!name) return;
+
+    let entry = byName.get(name.toLowerCase());
+    if (!entry) {
+      entry = {
+        cable: { name, type: defaultType, fiberCount: 0, circuitIds: [], assignedFibers: 0, issues: [] },
+        fiberCounts: new Set(),
+        types: new Set(),
+      };
+      byName.set(name.toLowerCase(), entry);
+    }
+    const { cable } = entry;
+    const sheetRow = rowIndex + 2; // 1-based, after the header row
+
+    const fiberCount = cell(row, mapping.fiberCount);
+    if (fiberCount) {
+      const parsed = parseInt(fiberCount, 10);
+      if (isNaN(parsed) || parsed < 1) {
+        cable.issues.push({ severity: "error", message: `Row ${sheetRow}: invalid fiber count "${fiberCount}"` });
+      } else {
+        entry.fiberCounts.add(parsed);
+      }
+    }
+
+    const type = cell(row, mapping.type);
+    if (type) {
+      const parsed = parseCableType(type);
+      if (parsed) {
+        entry.types.add(parsed);
+      } else {
+        cable.issues.push({ severity: "error", message: `Row ${sheetRow}: unknown cable type "${type}"` });
+      }
+    }
+
+    let rawCircuitId = cell(row, mapping.circuitId);
+    if (!rawCircuitId && (cell(row, mapping.rangeStart) || cell(row, mapping.rangeEnd))) {
+      const start = cell(row, mapping.rangeStart);
+      rawCircuitId = `${cell(row, mapping.prefix)},${start}-${cell(row, mapping.rangeEnd) || start}`;
+    }
+    if (!rawCircuitId) return;
+
+    const circuitId = normalizeCircuitId(rawCircuitId.trim());
+    try {
+      const { rangeStart, rangeEnd } = parseCircuitIdParts(circuitId);
+      if (rangeEnd < rangeStart) throw new Error("Range end is before range start");
+      const clash = cable.circuitIds.find(existing => circuitIdsOverlap(existing, circuitId));
+      if (clash) {
+        cable.issues.push({ severity: "error", message: `Row ${sheetRow}: ${circuitId} overlaps ${clash}` });
+        return;
+      }
+      cable.circuitIds.push(circuitId);
+      cable.assignedFibers += rangeEnd - rangeStart + 1;
+    } catch {
+      cable.issues.push({ severity: "error", message: `Row ${sheetRow}: invalid circuit ID "${rawCircuitId}"` });
+    }
+  });
+
+  const existingNames = new Set(existingCables.map(c => c.name.trim().toLowerCase()));
+  const cables = Array.from(byName.values()).map(({ cable, fiberCounts, types }) => {
+    if (types.size > 1) {
+      cable.issues.push({ severity: "error", message: `Conflicting cable types: ${Array.from(types).join(", ")}` });
+    }
+    cable.type = (types.values().next().value as ImportCable["type"] | undefined) ?? cable.type;
+
+    if (fiberCounts.size > 1) {
+      cable.issues.push({ severity: "error", message: `Conflicting fiber counts: ${Array.from(fiberCounts).join(", ")}` });
+    }
+    // Without a fiber count column the cable is sized to fit its circuits
+    cable.fiberCount = fiberCounts.values().next().value ?? cable.assignedFibers;
+
+    if (cable.fiberCount < 1) {
+      cable.issues.push({ severity: "error", message: "No fiber count and no circuits" });
+    } else if (cable.assignedFibers > cable.fiberCount) {
+      cable.issues.push({ severity: "error", message: `Circuits use ${cable.assignedFibers} fibers but the cable has ${cable.fiberCount}` });
+    } else if (cable.assignedFibers < cable.fiberCount) {
+      cable.issues.push({ severity: "warning", message: `Circuits use ${cable.assignedFibers} of ${cable.fiberCount} fibers` });
+    }
+
+    if (existingNames.has(cable.name.trim().toLowerCase())) {
+      cable.issues.push({ severity: "error", message: `A cable named "${cable.name}" already exists in this enclosure` });
+    }
+    return cable;
+  });
+
+  const count = (severity: ImportIssue["severity"]) =>
+    cables.reduce((sum, c) => sum + c.issues.filter(i => i.severity === severity).length, 0);
+
+  return { cables, errorCount: count("error"), warningCount: count("warning") };
+}
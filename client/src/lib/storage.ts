@@ -1,9 +1,218 @@
-import { getDb } from './db';
-import type { Cable, Circuit, Save, InsertCable, InsertCircuit } from '@/../../shared/schema';
+import { catalogDb, defaultProjectIds, getActiveProjectId, getDb, getProjectDb, setActiveProjectId } from './db';
+import { parseCircuitIdParts, type Cable, type Circuit, type Enclosure, type FiberStatus, type InsertOtdrTrace, type InsertProject, type OtdrTrace, type Project, type Save, type SetFiberStatus, type SpliceCompletion, type Splitter, type InsertCable, type InsertCircuit, type InsertEnclosure, type InsertSpliceCompletion, type InsertSplitter } from '@/../../shared/schema';
 import { nanoid } from 'nanoid';
+import type { AutoSpliceAssignment } from './autoSplice';
+import { planFeedSpliceRemap, planSequentialLayout } from './fiberAssignments';
+import { fiberStatusId } from './fiberStatus';
+import { spliceCompletionId } from './spliceCompletion';
+
+// Shape of a full project snapshot (used by saves and project files)
+export interface ProjectData {
+  enclosures?: Enclosure[];
+  splitters?: Splitter[];
+  cables: Cable[];
+  circuits: Circuit[];
+  spliceCompletions?: SpliceCompletion[];
+  otdrTraces?: OtdrTrace[];
+  fiberStatuses?: FiberStatus[];
+}
 
 // Storage service using IndexedDB (Dexie)
 export const storage = {
+  // Run several storage operations as one Dexie transaction - if any of them throws, none are kept
+  async transaction<T>(fn: () => Promise<T>, mode: 'fiber' | 'copper' = 'fiber'): Promise<T> {
+    const db = getDb(mode);
+    return await db.transaction('rw', [db.enclosures, db.splitters, db.cables, db.circuits, db.spliceCompletions, db.otdrTraces, db.fiberStatuses, db.saves, db.history], fn);
+  },
+
+  // Project operations
+  // Lists the mode's projects, registering the original database as the first project on first use
+  async getAllProjects(mode: 'fiber' | 'copper' = 'fiber'): Promise<Project[]> {
+    const projects = await catalogDb.projects.where('mode').equals(mode).toArray();
+    if (!projects.some(p => p.id === defaultProjectIds[mode])) {
+      const now = new Date().toISOString();
+      const defaultProject: Project = {
+        id: defaultProjectIds[mode],
+        name: mode === 'fiber' ? 'Fiber Project' : 'Copper Project',
+        jobNumber: null,
+        mode,
+        createdAt: now,
+        modifiedAt: now,
+        archived: 0,
+        lossSettings: null,
+        colorCodes: null,
+      };
+      await catalogDb.projects.put(defaultProject);
+      projects.push(defaultProject);
+    }
+    return projects.sort((a, b) => b.modifiedAt.localeCompare(a.modifiedAt));
+  },
+
+  async getActiveProject(mode: 'fiber' | 'copper' = 'fiber'): Promise<Project> {
+    const projects = await this.getAllProjects(mode);
+    const active = projects.find(p => p.id === getActiveProjectId(mode));
+    if (active) return active;
+
+    // The remembered project is gone - fall back to the original one
+    setActiveProjectId(mode, defaultProjectIds[mode]);
+    return projects.find(p => p.id === defaultProjectIds[mode])!;
+  },
+
+  // Create an empty project and make it the active one
+  async createProject(project: InsertProject & { createdAt?: string; lossSettings?: string | null; colorCodes?: string | null }, mode: 'fiber' | 'copper' = 'fiber'): Promise<Project> {
+    const now = new Date().toISOString();
+    const newProject: Project = {
+      id: nanoid(),
+      name: project.name.trim(),
+      jobNumber: project.jobNumber?.trim() || null,
+      mode,
+      createdAt: project.createdAt ?? now,
+      modifiedAt: now,
+      archived: 0,
+      lossSettings: project.lossSettings ?? null,
+      colorCodes: project.colorCodes ?? null,
+    };
+    await catalogDb.projects.add(newProject);
+    setActiveProjectId(mode, newProject.id);
+    return newProject;
+  },
+
+  // Copy a project's enclosures, splitters, cables, circuits, sign-offs, OTDR traces, fiber statuses, loss settings and color codes into a new project and open it
+  async duplicateProject(id: string, project: InsertProject, mode: 'fiber' | 'copper' = 'fiber'): Promise<Project> {
+    const source = getProjectDb(mode, id);
+    const sourceProject = await catalogDb.projects.get(id);
+    const [enclosures, splitters, cables, circuits, spliceCompletions, otdrTraces, fiberStatuses] = await Promise.all([
+      source.enclosures.toArray(),
+      source.splitters.toArray(),
+      source.cables.toArray(),
+      source.circuits.toArray(),
+      source.spliceCompletions.toArray(),
+      source.otdrTraces.toArray(),
+      source.fiberStatuses.toArray(),
+    ]);
+
+    const newProject = await this.createProject({ ...project, lossSettings: sourceProject?.lossSettings, colorCodes: sourceProject?.colorCodes }, mode);
+    await this.restoreProject({ enclosures, splitters, cables, circuits, spliceCompletions, otdrTraces, fiberStatuses }, mode);
+    return newProject;
+  },
+
+  async switchProject(id: string, mode: 'fiber' | 'copper' = 'fiber'): Promise<void> {
+    const project = await catalogDb.projects.get(id);
+    if (!project || project.mode !== mode) throw new Error('Project not found');
+    setActiveProjectId(mode, id);
+  },
+
+  // Add a project that was created on another device (from the sync server) and open it
+  async openProject(project: Project, mode: 'fiber' | 'copper' = 'fiber'): Promise<void> {
+    await catalogDb.projects.put({ ...project, mode, archived: 0 });
+    setActiveProjectId(mode, project.id);
+  },
+
+  // Rename, renumber, archive or change the loss settings or color codes of a project; archiving the
+  // open project switches to the most recent other one
+  async updateProject(id: string, updates: Partial<Pick<Project, 'name' | 'jobNumber' | 'archived' | 'lossSettings' | 'colorCodes'>>, mode: 'fiber' | 'copper' = 'fiber'): Promise<void> {
+    await catalogDb.projects.update(id, updates);
+    if (updates.archived !== 1 || id !== getActiveProjectId(mode)) return;
+
+    const next = (await this.getAllProjects(mode)).find(p => p.archived === 0 && p.id !== id);
+    if (next) {
+      setActiveProjectId(mode, next.id);
+    } else {
+      await this.createProject({ name: 'Untitled Project' }, mode);
+    }
+  },
+
+  // Record that the active project's data changed
+  async touchProject(mode: 'fiber' | 'copper' = 'fiber'): Promise<void> {
+    await catalogDb.projects.update(getActiveProjectId(mode), { modifiedAt: new Date().toISOString() });
+  },
+
+  // Enclosure operations
+  async getAllEnclosures(mode: 'fiber' | 'copper' = 'fiber'): Promise<Enclosure[]> {
+    return await getDb(mode).enclosures.toArray();
+  },
+
+  async getEnclosure(id: string, mode: 'fiber' | 'copper' = 'fiber'): Promise<Enclosure | undefined> {
+    return await getDb(mode).enclosures.get(id);
+  },
+
+  async createEnclosure(enclosure: InsertEnclosure, mode: 'fiber' | 'copper' = 'fiber'): Promise<Enclosure> {
+    const newEnclosure: Enclosure = {
+      id: nanoid(),
+      ...enclosure,
+      trayCount: enclosure.trayCount ?? 1,
+      locationNotes: enclosure.locationNotes ?? null,
+    };
+    await getDb(mode).enclosures.add(newEnclosure);
+    return newEnclosure;
+  },
+
+  async updateEnclosure(id: string, updates: Partial<Enclosure>, mode: 'fiber' | 'copper' = 'fiber'): Promise<void> {
+    await getDb(mode).enclosures.update(id, updates);
+  },
+
+  async deleteEnclosure(id: string, mode: 'fiber' | 'copper' = 'fiber'): Promise<void> {
+    const db = getDb(mode);
+    // Delete the enclosure's splitters, cables, circuits and per-fiber records along with it
+    await db.transaction('rw', [db.enclosures, db.splitters, db.cables, db.circuits, db.spliceCompletions, db.otdrTraces, db.fiberStatuses], async () => {
+      await db.spliceCompletions.where('enclosureId').equals(id).delete();
+      await db.otdrTraces.where('enclosureId').equals(id).delete();
+      await db.fiberStatuses.where('enclosureId').equals(id).delete();
+      await db.splitters.where('enclosureId').equals(id).delete();
+      await db.circuits.where('enclosureId').equals(id).delete();
+      await db.cables.where('enclosureId').equals(id).delete();
+      await db.enclosures.delete(id);
+    });
+  },
+
+  // Returns the first enclosure, creating one if the project has none yet
+  async getOrCreateDefaultEnclosure(mode: 'fiber' | 'copper' = 'fiber'): Promise<Enclosure> {
+    const existing = await getDb(mode).enclosures.toCollection().first();
+    if (existing) return existing;
+    return await this.createEnclosure({ name: 'Enclosure 1', type: 'Dome', trayCount: 1 }, mode);
+  },
+
+  // Splitter operations
+  async getAllSplitters(mode: 'fiber' | 'copper' = 'fiber'): Promise<Splitter[]> {
+    return await getDb(mode).splitters.toArray();
+  },
+
+  async getSplitter(id: string, mode: 'fiber' | 'copper' = 'fiber'): Promise<Splitter | undefined> {
+    return await getDb(mode).splitters.get(id);
+  },
+
+  async createSplitter(splitter: InsertSplitter, mode: 'fiber' | 'copper' = 'fiber'): Promise<Splitter> {
+    const enclosureId = splitter.enclosureId || (await this.getOrCreateDefaultEnclosure(mode)).id;
+    const newSplitter: Splitter = {
+      id: nanoid(),
+      ...splitter,
+      enclosureId,
+      location: splitter.location ?? null,
+      inputCableId: splitter.inputCableId ?? null,
+      inputFiber: splitter.inputFiber ?? null,
+    };
+    await getDb(mode).splitters.add(newSplitter);
+    return newSplitter;
+  },
+
+  async updateSplitter(id: string, updates: Partial<Splitter>, mode: 'fiber' | 'copper' = 'fiber'): Promise<void> {
+    await getDb(mode).splitters.update(id, updates);
+  },
+
+  async deleteSplitter(id: string, mode: 'fiber' | 'copper' = 'fiber'): Promise<void> {
+    const db = getDb(mode);
+    // Circuits landed on this splitter's outputs go back to unspliced
+    await db.transaction('rw', db.splitters, db.circuits, async () => {
+      await db.circuits.where('splitterId').equals(id).modify({
+        isSpliced: 0,
+        splitterId: null,
+        feedFiberStart: null,
+        feedFiberEnd: null,
+      });
+      await db.splitters.delete(id);
+    });
+  },
+
   // Cable operations
   async getAllCables(mode: 'fiber' | 'copper' = 'fiber'): Promise<Cable[]> {
     return await getDb(mode).cables.toArray();
@@ -14,23 +223,114 @@ export const storage = {
   },
 
   async createCable(cable: InsertCable, mode: 'fiber' | 'copper' = 'fiber'): Promise<Cable> {
+    const { circuitIds, ...cableData } = cable;
+    const enclosureId = cableData.enclosureId || (await this.getOrCreateDefaultEnclosure(mode)).id;
     const newCable: Cable = {
       id: nanoid(),
       ribbonSize: mode === 'fiber' ? 12 : 25, // 12 fibers per ribbon for fiber, 25 pairs per binder for copper
-      ...cable
+      ...cableData,
+      enclosureId,
+      lengthMeters: cableData.lengthMeters ?? null,
+      attenuation1310: cableData.attenuation1310 ?? null,
+      attenuation1550: cableData.attenuation1550 ?? null,
+      tubeCount: cableData.tubeCount ?? null,
+      fibersPerTube: cableData.fibersPerTube ?? null,
+      ribbonsPerTube: cableData.ribbonsPerTube ?? null,
+      colorCode: cableData.colorCode ?? null,
+      superUnitSize: mode === 'copper' ? cableData.superUnitSize ?? null : null,
     };
     await getDb(mode).cables.add(newCable);
     return newCable;
   },
 
+  // Create a batch of cables with their circuits in one transaction - either all are imported or none
+  async importCables(cables: InsertCable[], mode: 'fiber' | 'copper' = 'fiber'): Promise<Cable[]> {
+    const db = getDb(mode);
+    const created: Cable[] = [];
+
+    await db.transaction('rw', db.enclosures, db.cables, db.circuits, async () => {
+      for (const cable of cables) {
+        const { circuitIds = [], ...cableData } = cable;
+        const newCable = await this.createCable(cableData, mode);
+
+        const nameTaken = (await db.cables.where('enclosureId').equals(newCable.enclosureId!).toArray())
+          .some(c => c.id !== newCable.id && c.name.trim().toLowerCase() === newCable.name.trim().toLowerCase());
+        if (nameTaken) {
+          throw new Error(`A cable named "${newCable.name}" already exists`);
+        }
+
+        // Circuits fill the cable in order, like circuits entered when creating a cable
+        let fiberStart = 1;
+        const newCircuits: Circuit[] = circuitIds.map((circuitId, position) => {
+          const { rangeStart, rangeEnd } = parseCircuitIdParts(circuitId);
+          const fiberEnd = fiberStart + (rangeEnd - rangeStart);
+          const circuit: Circuit = {
+            id: nanoid(),
+            cableId: newCable.id,
+            enclosureId: newCable.enclosureId,
+            circuitId,
+            position,
+            fiberStart,
+            fiberEnd,
+            isSpliced: 0,
+            feedCableId: null,
+            feedFiberStart: null,
+            feedFiberEnd: null,
+            splitterId: null,
+            spliceMethod: null
+          };
+          fiberStart = fiberEnd + 1;
+          return circuit;
+        });
+
+        if (fiberStart - 1 > newCable.fiberCount) {
+          throw new Error(`${newCable.name}: circuits require ${fiberStart - 1} fibers but the cable has ${newCable.fiberCount}`);
+        }
+
+        await db.circuits.bulkAdd(newCircuits);
+        created.push(newCable);
+      }
+    });
+
+    return created;
+  },
+
   async updateCable(id: string, updates: Partial<Cable>, mode: 'fiber' | 'copper' = 'fiber'): Promise<void> {
-    await getDb(mode).cables.update(id, updates);
+    const { circuitIds, ...cableUpdates } = updates as Partial<InsertCable>;
+    const db = getDb(mode);
+    await db.transaction('rw', [db.cables, db.circuits, db.spliceCompletions, db.otdrTraces, db.fiberStatuses], async () => {
+      await db.cables.update(id, cableUpdates);
+
+      // Moving a cable to another enclosure moves its circuits and per-fiber records too
+      if (cableUpdates.enclosureId) {
+        await db.circuits.where('cableId').equals(id).modify({ enclosureId: cableUpdates.enclosureId });
+        await db.spliceCompletions.where('cableId').equals(id).modify({ enclosureId: cableUpdates.enclosureId });
+        await db.otdrTraces.where('cableId').equals(id).modify({ enclosureId: cableUpdates.enclosureId });
+        await db.fiberStatuses.where('cableId').equals(id).modify({ enclosureId: cableUpdates.enclosureId });
+      }
+
+      // Fibers cut off by a smaller cable size take their per-fiber records with them
+      const fiberCount = cableUpdates.fiberCount;
+      if (fiberCount) {
+        await db.spliceCompletions.where('cableId').equals(id).filter(r => r.fiber > fiberCount).delete();
+        await db.otdrTraces.where('cableId').equals(id).filter(r => r.fiber > fiberCount).delete();
+        await db.fiberStatuses.where('cableId').equals(id).filter(r => r.fiber > fiberCount).delete();
+      }
+    });
   },
 
   async deleteCable(id: string, mode: 'fiber' | 'copper' = 'fiber'): Promise<void> {
-    // Delete associated circuits first
-    await getDb(mode).circuits.where('cableId').equals(id).delete();
-    await getDb(mode).cables.delete(id);
+    const db = getDb(mode);
+    await db.transaction('rw', [db.splitters, db.cables, db.circuits, db.spliceCompletions, db.otdrTraces, db.fiberStatuses], async () => {
+      // Splitters fed from this cable lose their input
+      await db.splitters.filter(s => s.inputCableId === id).modify({ inputCableId: null, inputFiber: null });
+      // Delete associated circuits and per-fiber records first
+      await db.spliceCompletions.where('cableId').equals(id).delete();
+      await db.otdrTraces.where('cableId').equals(id).delete();
+      await db.fiberStatuses.where('cableId').equals(id).delete();
+      await db.circuits.where('cableId').equals(id).delete();
+      await db.cables.delete(id);
+    });
   },
 
   // Circuit operations
@@ -50,13 +350,18 @@ export const storage = {
   },
 
   async createCircuit(circuit: InsertCircuit & { position: number; fiberStart: number; fiberEnd: number }, mode: 'fiber' | 'copper' = 'fiber'): Promise<Circuit> {
+    // Circuits live in the same enclosure as their cable
+    const cable = await getDb(mode).cables.get(circuit.cableId);
     const newCircuit: Circuit = {
       id: nanoid(),
       ...circuit,
+      enclosureId: cable?.enclosureId ?? null,
       isSpliced: 0,
       feedCableId: null,
       feedFiberStart: null,
-      feedFiberEnd: null
+      feedFiberEnd: null,
+      splitterId: null,
+      spliceMethod: null
     };
     await getDb(mode).circuits.add(newCircuit);
     return newCircuit;
@@ -67,14 +372,234 @@ export const storage = {
   },
 
   async bulkUpdateCircuits(updates: Array<{ id: string; changes: Partial<Circuit> }>, mode: 'fiber' | 'copper' = 'fiber'): Promise<void> {
-    // Use Promise.all for parallel updates instead of sequential
-    await Promise.all(updates.map(({ id, changes }) => getDb(mode).circuits.update(id, changes)));
+    const db = getDb(mode);
+    // Parallel updates inside one transaction, so a failed update rolls back the whole batch
+    await db.transaction('rw', db.circuits, async () => {
+      await Promise.all(updates.map(({ id, changes }) => db.circuits.update(id, changes)));
+    });
+  },
+
+  // Lay a cable's circuits out back to back (in position order unless an order is given) and
+  // move the feed fibers of distribution circuits spliced to it along with them
+  async relayoutCable(cableId: string, mode: 'fiber' | 'copper' = 'fiber', ordered?: Circuit[]): Promise<void> {
+    const db = getDb(mode);
+    await db.transaction('rw', db.cables, db.circuits, async () => {
+      const circuits = ordered ?? await db.circuits.where('cableId').equals(cableId).sortBy('position');
+      await this.bulkUpdateCircuits(planSequentialLayout(circuits), mode);
+
+      const cable = await db.cables.get(cableId);
+      if (cable?.type === 'Feed') {
+        const feedCircuits = await db.circuits.where('cableId').equals(cableId).sortBy('position');
+        await this.bulkUpdateCircuits(planFeedSpliceRemap(cableId, feedCircuits, await db.circuits.toArray()), mode);
+      }
+    });
+  },
+
+  // Change a circuit's ID and shift every circuit after it to fit the new size
+  async updateCircuitId(id: string, circuitId: string, mode: 'fiber' | 'copper' = 'fiber'): Promise<void> {
+    parseCircuitIdParts(circuitId); // Throws on a malformed ID before anything is written
+    const db = getDb(mode);
+    await db.transaction('rw', db.cables, db.circuits, async () => {
+      const circuit = await db.circuits.get(id);
+      if (!circuit) throw new Error('Circuit not found');
+
+      await db.circuits.update(id, { circuitId });
+      await this.relayoutCable(circuit.cableId, mode);
+    });
+  },
+
+  // Swap a circuit with its neighbour and recalculate the cable's fiber positions
+  async moveCircuit(id: string, direction: 'up' | 'down', mode: 'fiber' | 'copper' = 'fiber'): Promise<void> {
+    const db = getDb(mode);
+    await db.transaction('rw', db.cables, db.circuits, async () => {
+      const circuit = await db.circuits.get(id);
+      if (!circuit) throw new Error('Circuit not found');
+
+      const circuits = await db.circuits.where('cableId').equals(circuit.cableId).sortBy('position');
+      const currentIndex = circuits.findIndex(c => c.id === id);
+      if (currentIndex === -1) throw new Error('Circuit not found in cable');
+
+      const newIndex = direction === 'up' ? currentIndex - 1 : currentIndex + 1;
+      if (newIndex < 0 || newIndex >= circuits.length) {
+        throw new Error('Cannot move circuit in that direction');
+      }
+
+      [circuits[currentIndex], circuits[newIndex]] = [circuits[newIndex], circuits[currentIndex]];
+      await this.relayoutCable(circuit.cableId, mode, circuits);
+    });
+  },
+
+  // Re-lay out the given cables to fix gaps and overlaps found by the consistency check
+  async repairFiberAssignments(cableIds: string[], mode: 'fiber' | 'copper' = 'fiber'): Promise<void> {
+    const db = getDb(mode);
+    await db.transaction('rw', db.cables, db.circuits, async () => {
+      for (const cableId of cableIds) {
+        await this.relayoutCable(cableId, mode);
+      }
+    });
   },
 
   async deleteCircuit(id: string, mode: 'fiber' | 'copper' = 'fiber'): Promise<void> {
     await getDb(mode).circuits.delete(id);
   },
 
+  // Apply an auto-splice plan in one transaction - either every circuit is spliced or none are
+  async applyAutoSplice(cableId: string, assignments: AutoSpliceAssignment[], mode: 'fiber' | 'copper' = 'fiber'): Promise<number> {
+    const db = getDb(mode);
+    let splicedCount = 0;
+
+    await db.transaction('rw', db.circuits, async () => {
+      const existing = await db.circuits.where('cableId').equals(cableId).sortBy('position');
+      const byCircuit = new Map(assignments.map(a => [a.circuit.id, a.segments]));
+      const ordered: Circuit[] = [];
+
+      // Feed fibers may have been used elsewhere since the preview was computed
+      const splicedElsewhere = (await db.circuits.toArray()).filter(c => c.isSpliced === 1 && (c.feedCableId || c.splitterId));
+      for (const segment of assignments.flatMap(a => a.segments)) {
+        const clash = splicedElsewhere.find(c =>
+          (segment.splitterId ? c.splitterId === segment.splitterId : c.feedCableId === segment.feedCableId) &&
+          segment.feedFiberStart <= (c.feedFiberEnd ?? 0) &&
+          (c.feedFiberStart ?? 0) <= segment.feedFiberEnd
+        );
+        if (clash) {
+          throw new Error(`${segment.splitterId ? 'Splitter ports' : 'Feed fibers'} ${segment.feedFiberStart}-${segment.feedFiberEnd} are already used by circuit "${clash.circuitId}"`);
+        }
+      }
+
+      for (const circuit of existing) {
+        const segments = byCircuit.get(circuit.id);
+        if (!segments || segments.length === 0) {
+          ordered.push(circuit);
+          continue;
+        }
+        if (circuit.isSpliced === 1) {
+          throw new Error(`Circuit ${circuit.circuitId} was spliced since the preview - run auto-splice again`);
+        }
+
+        // The first segment reuses the original circuit, the rest become new circuits right after it
+        segments.forEach((segment, index) => {
+          ordered.push({
+            ...circuit,
+            id: index === 0 ? circuit.id : nanoid(),
+            circuitId: segment.circuitId,
+            fiberStart: segment.fiberStart,
+            fiberEnd: segment.fiberEnd,
+            isSpliced: 1,
+            feedCableId: segment.feedCableId,
+            splitterId: segment.splitterId,
+            feedFiberStart: segment.feedFiberStart,
+            feedFiberEnd: segment.feedFiberEnd,
+          });
+          splicedCount++;
+        });
+      }
+
+      await db.circuits.bulkPut(ordered.map((circuit, position) => ({ ...circuit, position })));
+    });
+
+    return splicedCount;
+  },
+
+  // Splice completion operations
+  async getAllSpliceCompletions(mode: 'fiber' | 'copper' = 'fiber'): Promise<SpliceCompletion[]> {
+    return await getDb(mode).spliceCompletions.toArray();
+  },
+
+  // Sign off fibers as spliced in the field; signing a fiber off again replaces the earlier sign-off
+  async completeSplices(completions: InsertSpliceCompletion[], mode: 'fiber' | 'copper' = 'fiber'): Promise<SpliceCompletion[]> {
+    const db = getDb(mode);
+    const completedAt = new Date().toISOString();
+    const cableEnclosures = new Map((await db.cables.toArray()).map(c => [c.id, c.enclosureId]));
+
+    const records: SpliceCompletion[] = completions.map(completion => {
+      if (!cableEnclosures.has(completion.cableId)) throw new Error('Cable not found');
+      return {
+        id: spliceCompletionId(completion.cableId, completion.fiber),
+        enclosureId: cableEnclosures.get(completion.cableId) ?? null,
+        cableId: completion.cableId,
+        fiber: completion.fiber,
+        feedKey: completion.feedKey,
+        completedBy: completion.completedBy.trim(),
+        completedAt,
+        note: completion.note?.trim() || null,
+      };
+    });
+    await db.spliceCompletions.bulkPut(records);
+    return records;
+  },
+
+  async updateSpliceCompletionNotes(ids: string[], note: string | null, mode: 'fiber' | 'copper' = 'fiber'): Promise<void> {
+    await getDb(mode).spliceCompletions.where('id').anyOf(ids).modify({ note: note?.trim() || null });
+  },
+
+  async deleteSpliceCompletions(ids: string[], mode: 'fiber' | 'copper' = 'fiber'): Promise<void> {
+    await getDb(mode).spliceCompletions.bulkDelete(ids);
+  },
+
+  // Fiber status operations
+  async getAllFiberStatuses(mode: 'fiber' | 'copper' = 'fiber'): Promise<FiberStatus[]> {
+    return await getDb(mode).fiberStatuses.toArray();
+  },
+
+  // Give several fibers of a cable the same status, or clear it with a null status
+  async setFiberStatuses({ cableId, fibers, status, note }: SetFiberStatus, mode: 'fiber' | 'copper' = 'fiber'): Promise<void> {
+    const db = getDb(mode);
+    const cable = await db.cables.get(cableId);
+    if (!cable) throw new Error('Cable not found');
+    const outside = fibers.find(fiber => fiber > cable.fiberCount);
+    if (outside !== undefined) throw new Error(`${cable.name} has only ${cable.fiberCount} fibers`);
+
+    const ids = fibers.map(fiber => fiberStatusId(cableId, fiber));
+    if (status === null) {
+      await db.fiberStatuses.bulkDelete(ids);
+      return;
+    }
+
+    const updatedAt = new Date().toISOString();
+    await db.fiberStatuses.bulkPut(fibers.map((fiber, index) => ({
+      id: ids[index],
+      enclosureId: cable.enclosureId ?? null,
+      cableId,
+      fiber,
+      status,
+      note: note?.trim() || null,
+      updatedAt,
+    })));
+  },
+
+  // OTDR trace operations
+  async getAllOtdrTraces(mode: 'fiber' | 'copper' = 'fiber'): Promise<OtdrTrace[]> {
+    return await getDb(mode).otdrTraces.orderBy('[cableId+fiber]').toArray();
+  },
+
+  async importOtdrTrace(trace: InsertOtdrTrace, mode: 'fiber' | 'copper' = 'fiber'): Promise<OtdrTrace> {
+    const db = getDb(mode);
+    const cable = await db.cables.get(trace.cableId);
+    if (!cable) throw new Error('Cable not found');
+    if (trace.fiber > cable.fiberCount) throw new Error(`${cable.name} has only ${cable.fiberCount} fibers`);
+
+    const newTrace: OtdrTrace = {
+      id: nanoid(),
+      enclosureId: cable.enclosureId ?? null,
+      cableId: trace.cableId,
+      fiber: trace.fiber,
+      fileName: trace.fileName,
+      wavelength: trace.wavelength ?? null,
+      pulseWidth: trace.pulseWidth ?? null,
+      indexOfRefraction: trace.indexOfRefraction ?? null,
+      testedAt: trace.testedAt ?? null,
+      importedAt: new Date().toISOString(),
+      events: trace.events,
+      points: trace.points,
+    };
+    await db.otdrTraces.add(newTrace);
+    return newTrace;
+  },
+
+  async deleteOtdrTrace(id: string, mode: 'fiber' | 'copper' = 'fiber'): Promise<void> {
+    await getDb(mode).otdrTraces.delete(id);
+  },
+
   // Save operations
   async getAllSaves(mode: 'fiber' | 'copper' = 'fiber'): Promise<Save[]> {
     return await getDb(mode).saves.orderBy('createdAt').reverse().toArray();
@@ -86,14 +611,19 @@ export const storage = {
 
   async createSave(name: string, mode: 'fiber' | 'copper' = 'fiber'): Promise<Save> {
     const db = getDb(mode);
+    const enclosures = await db.enclosures.toArray();
+    const splitters = await db.splitters.toArray();
     const cables = await db.cables.toArray();
     const circuits = await db.circuits.toArray();
+    const spliceCompletions = await db.spliceCompletions.toArray();
+    const otdrTraces = await db.otdrTraces.toArray();
+    const fiberStatuses = await db.fiberStatuses.toArray();
 
     const newSave: Save = {
       id: nanoid(),
       name,
       createdAt: new Date().toISOString(),
-      data: JSON.stringify({ cables, circuits })
+      data: JSON.stringify({ enclosures, splitters, cables, circuits, spliceCompletions, otdrTraces, fiberStatuses })
     };
 
     await db.saves.add(newSave);
@@ -114,23 +644,65 @@ export const storage = {
 
   async loadSave(id: string, mode: 'fiber' | 'copper' = 'fiber'): Promise<void> {
     const db = getDb(mode);
-    const save = await db.saves.get(id);
-    if (!save) throw new Error('Save not found');
+    await db.transaction('rw', [db.enclosures, db.splitters, db.cables, db.circuits, db.spliceCompletions, db.otdrTraces, db.fiberStatuses, db.saves, db.history], async () => {
+      const save = await db.saves.get(id);
+      if (!save) throw new Error('Save not found');
+
+      await this.restoreProject(JSON.parse(save.data), mode);
+    });
+  },
+
+  // Replace all project data with the given snapshot
+  async restoreProject(data: ProjectData, mode: 'fiber' | 'copper' = 'fiber'): Promise<void> {
+    const db = getDb(mode);
+    let { enclosures = [], splitters = [], cables, circuits, spliceCompletions = [], otdrTraces = [], fiberStatuses = [] } = data;
+
+    // Snapshots from before enclosures existed: put everything in a default enclosure
+    if (enclosures.length === 0 && cables.length > 0) {
+      const defaultEnclosure: Enclosure = {
+        id: nanoid(),
+        name: 'Enclosure 1',
+        type: 'Dome',
+        trayCount: 1,
+        locationNotes: null,
+      };
+      enclosures = [defaultEnclosure];
+      cables = cables.map(c => ({ ...c, enclosureId: c.enclosureId ?? defaultEnclosure.id }));
+    }
 
-    const saveData = JSON.parse(save.data);
+    // Circuits always follow their cable's enclosure
+    const cableEnclosures = new Map(cables.map(c => [c.id, c.enclosureId ?? null]));
+    circuits = circuits.map(c => ({ ...c, enclosureId: cableEnclosures.get(c.cableId) ?? null }));
+    spliceCompletions = spliceCompletions.map(c => ({ ...c, enclosureId: cableEnclosures.get(c.cableId) ?? null }));
+    otdrTraces = otdrTraces.map(t => ({ ...t, enclosureId: cableEnclosures.get(t.cableId) ?? null }));
+    fiberStatuses = fiberStatuses.map(s => ({ ...s, enclosureId: cableEnclosures.get(s.cableId) ?? null }));
 
-    // Clear existing data
-    await db.cables.clear();
-    await db.circuits.clear();
+    // Clearing and restoring happen together, so a bad snapshot leaves the current project untouched
+    await db.transaction('rw', [db.enclosures, db.splitters, db.cables, db.circuits, db.spliceCompletions, db.otdrTraces, db.fiberStatuses, db.history], async () => {
+      await this.resetAllData(mode);
 
-    // Restore cables and circuits
-    await db.cables.bulkAdd(saveData.cables);
-    await db.circuits.bulkAdd(saveData.circuits);
+      await db.enclosures.bulkAdd(enclosures);
+      await db.splitters.bulkAdd(splitters);
+      await db.cables.bulkAdd(cables);
+      await db.circuits.bulkAdd(circuits);
+      await db.spliceCompletions.bulkAdd(spliceCompletions);
+      await db.otdrTraces.bulkAdd(otdrTraces);
+      await db.fiberStatuses.bulkAdd(fiberStatuses);
+    });
   },
 
   async resetAllData(mode: 'fiber' | 'copper' = 'fiber'): Promise<void> {
     const db = getDb(mode);
-    await db.cables.clear();
-    await db.circuits.clear();
+    await db.transaction('rw', [db.enclosures, db.splitters, db.cables, db.circuits, db.spliceCompletions, db.otdrTraces, db.fiberStatuses, db.history], async () => {
+      await db.enclosures.clear();
+      await db.splitters.clear();
+      await db.cables.clear();
+      await db.circuits.clear();
+      await db.spliceCompletions.clear();
+      await db.otdrTraces.clear();
+      await db.fiberStatuses.clear();
+      // Undo steps refer to records that no longer exist
+      await db.history.clear();
+    });
   }
 };
@@ -0,0 +1,88 @@
+import "fake-indexeddb/auto";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { Cable } from "@shared/schema";
+import type { SyncPullResponse, SyncPushResponse } from "@shared/sync";
+import { getActiveProjectId, getProjectDb } from "./db";
+import { storage } from "./storage";
+import { sync } from "./sync";
+
+const cable: Cable = {
+  id: "cable-1",
+  name: "F1",
+  fiberCount: 24,
+  ribbonSize: 12,
+  tubeCount: null,
+  fibersPerTube: null,
+  ribbonsPerTube: null,
+  colorCode: null,
+  superUnitSize: null,
+  type: "Feed",
+  enclosureId: null,
+  lengthMeters: null,
+  attenuation1310: null,
+  attenuation1550: null,
+};
+
+const pushResponse: SyncPushResponse = {
+  applied: [{ table: "cables", recordId: cable.id, data: cable, revision: 1 }],
+  conflicts: [],
+  rejected: [],
+};
+const pullResponse: SyncPullResponse = { revision: 1, changes: [] };
+
+// Server stub: the push answers when the test releases it, the pull right away
+function stubServer() {
+  let releasePush!: () => void;
+  const pushAnswered = new Promise<void>(resolve => (releasePush = resolve));
+  const requests: string[] = [];
+  vi.stubGlobal("fetch", vi.fn(async (url: string, init?: RequestInit) => {
+    requests.push(`${init?.method ?? "GET"} ${url}`);
+    if (init?.method === "POST") await pushAnswered;
+    return new Response(JSON.stringify(init?.method === "POST" ? pushResponse : pullResponse));
+  }));
+  return { releasePush, requests };
+}
+
+beforeEach(async () => {
+  const items = new Map<string, string>();
+  vi.stubGlobal("localStorage", {
+    getItem: (key: string) => items.get(key) ?? null,
+    setItem: (key: string, value: string) => void items.set(key, value),
+    removeItem: (key: string) => void items.delete(key),
+  });
+  const project = await storage.createProject({ name: "Main St", jobNumber: null }, "fiber");
+  await getProjectDb("fiber", project.id).cables.put(cable);
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe("sync pushes", () => {
+  it("records the server's revision for pushed records", async () => {
+    const projectId = getActiveProjectId("fiber");
+    const { releasePush } = stubServer();
+    releasePush();
+
+    expect(await sync.syncNow("fiber")).toEqual({ pushed: 1, pulled: 0, newConflicts: 0, rejected: 0 });
+    expect(await getProjectDb("fiber", projectId).syncBase.toArray()).toEqual([
+      { table: "cables", key: cable.id, revision: 1, data: cable },
+    ]);
+  });
+
+  it("drops the answer when another project was opened while the push was in flight", async () => {
+    const projectId = getActiveProjectId("fiber");
+    const { releasePush, requests } = stubServer();
+
+    const result = sync.syncNow("fiber");
+    await vi.waitFor(() => expect(requests).toHaveLength(1));
+    const other = await storage.createProject({ name: "Elm St", jobNumber: null }, "fiber");
+    releasePush();
+
+    expect(await result).toBeNull();
+    expect(requests).toEqual([`POST /api/sync/projects/${projectId}/changes`]);
+    expect(await getProjectDb("fiber", projectId).syncBase.count()).toBe(0);
+    expect(await getProjectDb("fiber", other.id).syncBase.count()).toBe(0);
+    expect(await getProjectDb("fiber", other.id).cables.count()).toBe(0);
+  });
+});
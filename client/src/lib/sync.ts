@@ -0,0 +1,368 @@
+import { nanoid } from 'nanoid';
+import type { Project } from '@shared/schema';
+import {
+  sameRecord,
+  syncTables,
+  type SyncChange,
+  type SyncPullResponse,
+  type SyncPushRequest,
+  type SyncPushResponse,
+  type SyncTable,
+} from '@shared/sync';
+import { getActiveProjectId, getDb, getProjectDb, markExternalWrites } from './db';
+import { history } from './history';
+import { requestServer, ServerAuthError, ServerOfflineError } from './server';
+import { storage } from './storage';
+
+// The server's copy of a record as of the last sync; local records that differ from it are unsynced changes
+export interface SyncBaseRecord {
+  table: SyncTable;
+  key: string;
+  revision: number;
+  data: Record<string, any> | null;
+}
+
+// A record changed both here and on another device since the last sync. The local side is
+// whatever is in the table now; the remote side waits here until someone picks one.
+export interface SyncConflict {
+  table: SyncTable;
+  key: string;
+  remote: Record<string, any> | null;
+  remoteRevision: number;
+  detectedAt: string;
+}
+
+export interface SyncConflictDetails extends SyncConflict {
+  local: Record<string, any> | null;
+}
+
+export interface SyncState {
+  id: 'state';
+  cursor: number; // Latest server revision pulled
+  lastSyncedAt: string | null;
+}
+
+export type SyncConnection = 'never' | 'online' | 'offline' | 'signed-out' | 'error';
+
+export interface SyncStatus {
+  connection: SyncConnection;
+  error: string | null;
+  pendingChanges: number;
+  conflicts: number;
+  lastSyncedAt: string | null;
+}
+
+export interface SyncResult {
+  pushed: number;
+  pulled: number; // Remote changes written to the local tables
+  newConflicts: number;
+  rejected: number; // Local changes the user's role doesn't allow, undone
+}
+
+const clientIdKey = 'fibersplice.syncClientId';
+
+// Identifies this device to the server, so it can tell our own earlier pushes from other devices' changes
+export function getClientId(): string {
+  let clientId = localStorage.getItem(clientIdKey);
+  if (!clientId) {
+    clientId = nanoid();
+    localStorage.setItem(clientIdKey, clientId);
+  }
+  return clientId;
+}
+
+// Outcome of the last sync attempt per mode; not persisted, every session starts by syncing
+const connections: Record<'fiber' | 'copper', { connection: SyncConnection; error: string | null }> = {
+  fiber: { connection: 'never', error: null },
+  copper: { connection: 'never', error: null },
+};
+
+const runningSyncs: Partial<Record<'fiber' | 'copper', Promise<SyncResult | null>>> = {};
+
+const recordKey = (table: SyncTable, key: string) => `${table}:${key}`;
+
+// A record written since it last matched its synced copy. writes counts every write, so a check
+// that raced a newer write doesn't drop the record
+interface DirtyRecord {
+  table: SyncTable;
+  key: string;
+  writes: number;
+}
+
+type ProjectDb = ReturnType<typeof getDb>;
+
+const dirtyRecords = new WeakMap<ProjectDb, Promise<Map<string, DirtyRecord>>>();
+
+function markDirty(dirty: Map<string, DirtyRecord>, table: SyncTable, key: string) {
+  const record = dirty.get(recordKey(table, key));
+  if (record) {
+    record.writes++;
+  } else {
+    dirty.set(recordKey(table, key), { table, key, writes: 1 });
+  }
+}
+
+// Records of the project that may have unsynced changes. Every record counts the first time a
+// session asks; after that only the ones written since
+function getDirtyRecords(db: ProjectDb): Promise<Map<string, DirtyRecord>> {
+  let dirty = dirtyRecords.get(db);
+  if (!dirty) {
+    dirty = (async () => {
+      const records = new Map<string, DirtyRecord>();
+      // Listening before reading, so nothing written in between is missed
+      db.writeListeners.add(write => markDirty(records, write.table, write.key));
+      const [keys, base] = await Promise.all([
+        Promise.all(syncTables.map(table => db.table(table).toCollection().primaryKeys())),
+        db.syncBase.toArray(),
+      ]);
+      syncTables.forEach((table, i) => keys[i].forEach(key => markDirty(records, table, String(key))));
+      base.forEach(b => b.data !== null && markDirty(records, b.table, b.key));
+      return records;
+    })();
+    dirty.catch(() => dirtyRecords.delete(db));
+    dirtyRecords.set(db, dirty);
+  }
+  return dirty;
+}
+
+// Local records that differ from the last synced copy, leaving out records waiting on conflict review
+async function findLocalChanges(mode: 'fiber' | 'copper'): Promise<SyncChange[]> {
+  const db = getDb(mode);
+  const dirty = await getDirtyRecords(db);
+  const checked = Array.from(dirty.values(), record => ({ ...record }));
+
+  const [current, base, conflicts] = await db.transaction('r', [...syncTables.map(table => db.table(table)), db.syncBase, db.syncConflicts], () => Promise.all([
+    Promise.all(checked.map(record => db.table(record.table).get(record.key))),
+    db.syncBase.bulkGet(checked.map(record => [record.table, record.key] as [string, string])),
+    db.syncConflicts.toArray(),
+  ]));
+  const conflicted = new Set(conflicts.map(c => recordKey(c.table, c.key)));
+
+  const changes: SyncChange[] = [];
+  checked.forEach(({ table, key, writes }, i) => {
+    const data = current[i] ?? null;
+    const synced = base[i];
+    if (sameRecord(data, synced?.data ?? null)) {
+      if (dirty.get(recordKey(table, key))?.writes === writes) dirty.delete(recordKey(table, key));
+      return;
+    }
+    if (conflicted.has(recordKey(table, key))) return;
+    changes.push({ table, recordId: key, data, baseRevision: synced?.revision ?? 0 });
+  });
+  return changes;
+}
+
+// Returns null when another project was opened before the server answered
+async function pushChanges(mode: 'fiber' | 'copper', projectId: string, changes: SyncChange[]): Promise<{ conflicts: number; rejected: number } | null> {
+  const db = getProjectDb(mode, projectId);
+  const project = await storage.getActiveProject(mode);
+  if (project.id !== projectId) return null;
+  const push: SyncPushRequest = {
+    clientId: getClientId(),
+    project: { name: project.name, jobNumber: project.jobNumber, mode, createdAt: project.createdAt, lossSettings: project.lossSettings, colorCodes: project.colorCodes },
+    changes,
+  };
+  const { applied, conflicts, rejected } = await requestServer<SyncPushResponse>(
+    'POST', `/api/sync/projects/${encodeURIComponent(projectId)}/changes`, push,
+  );
+
+  // The answer belongs to the project that was pushed; its records go up again on its next sync,
+  // which the server accepts as this device's own changes
+  if (getActiveProjectId(mode) !== projectId) return null;
+
+  const now = new Date().toISOString();
+  await db.transaction('rw', [db.enclosures, db.splitters, db.cables, db.circuits, db.spliceCompletions, db.otdrTraces, db.fiberStatuses, db.syncBase, db.syncConflicts], async (tx) => {
+    markExternalWrites(tx);
+    for (const record of applied) {
+      await db.syncBase.put({ table: record.table, key: record.recordId, revision: record.revision, data: record.data });
+    }
+    for (const record of conflicts) {
+      await db.syncConflicts.put({
+        table: record.table,
+        key: record.recordId,
+        remote: record.data,
+        remoteRevision: record.revision,
+        detectedAt: now,
+      });
+    }
+    // Not ours to change - put the server's copy back
+    for (const record of rejected) {
+      if (record.data) {
+        await db.table(record.table).put(record.data);
+      } else {
+        await db.table(record.table).delete(record.recordId);
+      }
+      await db.syncBase.put({ table: record.table, key: record.recordId, revision: record.revision, data: record.data });
+    }
+  });
+  return { conflicts: conflicts.length, rejected: rejected.length };
+}
+
+// Write remote changes into the local tables, unless the record also changed here
+async function applyRemoteChanges(mode: 'fiber' | 'copper', pull: SyncPullResponse): Promise<{ pulled: number; newConflicts: number }> {
+  const db = getDb(mode);
+  const clientId = getClientId();
+  let pulled = 0;
+  let newConflicts = 0;
+
+  await db.transaction('rw', [db.enclosures, db.splitters, db.cables, db.circuits, db.spliceCompletions, db.otdrTraces, db.fiberStatuses, db.syncBase, db.syncConflicts, db.syncState], async (tx) => {
+    markExternalWrites(tx);
+    for (const change of pull.changes) {
+      const key: [string, string] = [change.table, change.recordId];
+      const synced = await db.syncBase.get(key);
+      if (synced && synced.revision >= change.revision) continue; // Already have it (usually our own push)
+
+      const conflict = await db.syncConflicts.get(key);
+      if (conflict) {
+        // Still unresolved - the newer server copy is the one to compare against
+        await db.syncConflicts.put({ ...conflict, remote: change.data, remoteRevision: change.revision });
+        continue;
+      }
+
+      const local = (await db.table(change.table).get(change.recordId)) ?? null;
+      const changedHere = !sameRecord(local, synced?.data ?? null);
+      if (changedHere && !sameRecord(local, change.data) && change.clientId !== clientId) {
+        await db.syncConflicts.put({
+          table: change.table,
+          key: change.recordId,
+          remote: change.data,
+          remoteRevision: change.revision,
+          detectedAt: new Date().toISOString(),
+        });
+        newConflicts++;
+        continue;
+      }
+
+      if (!changedHere) {
+        if (change.data) {
+          await db.table(change.table).put(change.data);
+        } else {
+          await db.table(change.table).delete(change.recordId);
+        }
+        pulled++;
+      }
+      await db.syncBase.put({ table: change.table, key: change.recordId, revision: change.revision, data: change.data });
+    }
+
+    await db.syncState.put({ id: 'state', cursor: pull.revision, lastSyncedAt: new Date().toISOString() });
+  });
+
+  return { pulled, newConflicts };
+}
+
+async function runSync(mode: 'fiber' | 'copper'): Promise<SyncResult | null> {
+  const projectId = getActiveProjectId(mode);
+  const db = getDb(mode);
+
+  try {
+    const changes = await findLocalChanges(mode);
+    const pushed = changes.length > 0 ? await pushChanges(mode, projectId, changes) : { conflicts: 0, rejected: 0 };
+    if (!pushed) return null;
+
+    const state = await db.syncState.get('state');
+    const pull = await requestServer<SyncPullResponse>(
+      'GET', `/api/sync/projects/${encodeURIComponent(projectId)}/changes?since=${state?.cursor ?? 0}`,
+    );
+
+    // Another project was opened meanwhile; its own sync will pick things up
+    if (getActiveProjectId(mode) !== projectId) return null;
+
+    const { pulled, newConflicts } = await applyRemoteChanges(mode, pull);
+    connections[mode] = { connection: 'online', error: null };
+    return {
+      pushed: changes.length - pushed.conflicts - pushed.rejected,
+      pulled,
+      newConflicts: newConflicts + pushed.conflicts,
+      rejected: pushed.rejected,
+    };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Sync failed';
+    const connection = error instanceof ServerOfflineError ? 'offline' : error instanceof ServerAuthError ? 'signed-out' : 'error';
+    connections[mode] = { connection, error: message };
+    return null;
+  }
+}
+
+// Two-way sync of the active project with the server: edits made offline are kept in IndexedDB, and
+// the records written since the last sync are compared with their last synced copies
+export const sync = {
+  /**
+   * Pushes local changes, then pulls everyone else's. Returns null when the server couldn't be
+   * reached (see getStatus for why) or the sync was skipped.
+   */
+  async syncNow(mode: 'fiber' | 'copper' = 'fiber'): Promise<SyncResult | null> {
+    // Remote changes landing mid-way would end up in the open undo group
+    if (history.isGrouping(mode)) return null;
+    if (typeof navigator !== 'undefined' && !navigator.onLine) {
+      connections[mode] = { connection: 'offline', error: 'No network connection' };
+      return null;
+    }
+
+    // Overlapping calls (timer, reconnect, button) share one run
+    const running = runningSyncs[mode];
+    if (running) return await running;
+
+    const run = runSync(mode);
+    runningSyncs[mode] = run;
+    try {
+      return await run;
+    } finally {
+      delete runningSyncs[mode];
+    }
+  },
+
+  async getStatus(mode: 'fiber' | 'copper' = 'fiber'): Promise<SyncStatus> {
+    const db = getDb(mode);
+    const [changes, conflicts, state] = await Promise.all([
+      findLocalChanges(mode),
+      db.syncConflicts.count(),
+      db.syncState.get('state'),
+    ]);
+    return {
+      ...connections[mode],
+      pendingChanges: changes.length,
+      conflicts,
+      lastSyncedAt: state?.lastSyncedAt ?? null,
+    };
+  },
+
+  async getConflicts(mode: 'fiber' | 'copper' = 'fiber'): Promise<SyncConflictDetails[]> {
+    const db = getDb(mode);
+    const conflicts = await db.syncConflicts.toArray();
+    return await Promise.all(conflicts.map(async conflict => ({
+      ...conflict,
+      local: (await db.table(conflict.table).get(conflict.key)) ?? null,
+    })));
+  },
+
+  // Settle a conflict: 'local' keeps this device's version (pushed on the next sync), 'remote' takes the server's
+  async resolveConflict(table: SyncTable, key: string, keep: 'local' | 'remote', mode: 'fiber' | 'copper' = 'fiber'): Promise<void> {
+    const db = getDb(mode);
+    await db.transaction('rw', [db.enclosures, db.splitters, db.cables, db.circuits, db.spliceCompletions, db.otdrTraces, db.fiberStatuses, db.syncBase, db.syncConflicts], async (tx) => {
+      markExternalWrites(tx);
+      const conflict = await db.syncConflicts.get([table, key]);
+      if (!conflict) return;
+
+      if (keep === 'remote') {
+        if (conflict.remote) {
+          await db.table(table).put(conflict.remote);
+        } else {
+          await db.table(table).delete(key);
+        }
+      }
+      // Either way the server's copy is now the one this device has seen
+      await db.syncBase.put({ table, key, revision: conflict.remoteRevision, data: conflict.remote });
+      await db.syncConflicts.delete([table, key]);
+    });
+  },
+
+  async getServerProjects(mode: 'fiber' | 'copper' = 'fiber'): Promise<Project[]> {
+    return await requestServer<Project[]>('GET', `/api/sync/projects?mode=${mode}`);
+  },
+
+  // Open a project from the server on this device and pull its records
+  async openServerProject(project: Project, mode: 'fiber' | 'copper' = 'fiber'): Promise<SyncResult | null> {
+    await storage.openProject(project, mode);
+    return await this.syncNow(mode);
+  },
+};
@@ -0,0 +1,91 @@
+import { parseCircuitIdParts, type Cable, type Circuit, type FiberStatus, type Splitter } from '@shared/schema';
+import { getFiberStatus, summarizeCableUtilization, type CableUtilization } from './fiberStatus';
+
+export interface PrefixUtilization {
+  prefix: string;
+  assigned: number; // Fibers in this prefix's circuits
+  spliced: number;
+  spare: number; // Fibers of those circuits marked spare or damaged
+  damaged: number;
+}
+
+export interface FeedConsumption {
+  feedCable: Cable;
+  byCable: Map<string, number>; // Distribution cable id -> feed fibers its circuits are spliced to
+  splitterInputs: number; // Feed fibers landing on splitter inputs
+  free: number; // Feed fibers nothing is spliced to
+}
+
+export interface ProjectUtilization {
+  cables: Array<{ cable: Cable; utilization: CableUtilization }>;
+  prefixes: PrefixUtilization[];
+  feeds: FeedConsumption[];
+}
+
+function summarizePrefixes(cables: Cable[], circuits: Circuit[], lookup: Map<string, FiberStatus>): PrefixUtilization[] {
+  const cablesById = new Map(cables.map(c => [c.id, c]));
+  const byPrefix = new Map<string, PrefixUtilization>();
+
+  for (const circuit of circuits) {
+    const cable = cablesById.get(circuit.cableId);
+    if (!cable) continue;
+    const prefix = parseCircuitIdParts(circuit.circuitId).prefix || 'Unnamed';
+    let row = byPrefix.get(prefix);
+    if (!row) {
+      row = { prefix, assigned: 0, spliced: 0, spare: 0, damaged: 0 };
+      byPrefix.set(prefix, row);
+    }
+    for (let fiber = Math.max(1, circuit.fiberStart); fiber <= Math.min(circuit.fiberEnd, cable.fiberCount); fiber++) {
+      row.assigned++;
+      if (circuit.isSpliced === 1) row.spliced++;
+      const status = getFiberStatus(lookup, cable.id, fiber)?.status;
+      if (status === 'spare') row.spare++;
+      if (status === 'damaged') row.damaged++;
+    }
+  }
+
+  return Array.from(byPrefix.values()).sort((a, b) => a.prefix.localeCompare(b.prefix));
+}
+
+function summarizeFeeds(cables: Cable[], circuits: Circuit[], splitters: Splitter[]): FeedConsumption[] {
+  return cables.filter(c => c.type === 'Feed').map(feedCable => {
+    const used = new Set<number>();
+    const byCable = new Map<string, number>();
+
+    for (const circuit of circuits) {
+      if (circuit.isSpliced !== 1 || circuit.feedCableId !== feedCable.id || circuit.feedFiberStart === null || circuit.feedFiberEnd === null) continue;
+      let count = 0;
+      for (let fiber = circuit.feedFiberStart; fiber <= Math.min(circuit.feedFiberEnd, feedCable.fiberCount); fiber++) {
+        used.add(fiber);
+        count++;
+      }
+      byCable.set(circuit.cableId, (byCable.get(circuit.cableId) ?? 0) + count);
+    }
+
+    let splitterInputs = 0;
+    for (const splitter of splitters) {
+      if (splitter.inputCableId !== feedCable.id || splitter.inputFiber === null || splitter.inputFiber > feedCable.fiberCount) continue;
+      used.add(splitter.inputFiber);
+      splitterInputs++;
+    }
+
+    return { feedCable, byCable, splitterInputs, free: Math.max(0, feedCable.fiberCount - used.size) };
+  });
+}
+
+/**
+ * Utilization of a set of cables for the dashboard: fiber counts per cable, per circuit ID prefix,
+ * and how much of each feed cable the distribution cables and splitters use up.
+ */
+export function summarizeProjectUtilization(
+  cables: Cable[],
+  circuits: Circuit[],
+  splitters: Splitter[],
+  lookup: Map<string, FiberStatus>
+): ProjectUtilization {
+  return {
+    cables: cables.map(cable => ({ cable, utilization: summarizeCableUtilization(cable, circuits, lookup) })),
+    prefixes: summarizePrefixes(cables, circuits, lookup),
+    feeds: summarizeFeeds(cables, circuits, splitters),
+  };
+}
@@ -1,6 +1,7 @@
 import { useState, useMemo } from "react";
 import { useQuery, useMutation } from "@tanstack/react-query";
-import { Cable, Circuit, InsertCable, parseCircuitIdParts } from "@shared/schema";
+import { Cable, Circuit, Enclosure, InsertCable, Project, SpliceCompletion, Splitter, describeCopperConstruction, formatPairColors, getCopperSizeError, getPairColors, getPairPosition, parseCircuitIdParts } from "@shared/schema";
+import type { SpliceRow } from "@shared/spliceRows";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
@@ -25,12 +26,30 @@ import { CableCard } from "@/components/CableCard";
 import { CableForm } from "@/components/CableForm";
 import { CableVisualization } from "@/components/CableVisualization";
 import { CircuitManagement } from "@/components/CircuitManagement";
-import { Plus, Cable as CableIcon, Workflow, Save, Upload, RotateCcw, Edit2, Check, X, Trash2, Layers, Home as HomeIcon, Phone, Sparkles } from "lucide-react";
+import { EnclosureSelector } from "@/components/EnclosureSelector";
+import { ExportMenu } from "@/components/ExportMenu";
+import { UndoRedoButtons } from "@/components/UndoRedoButtons";
+import { ProjectSwitcher } from "@/components/ProjectSwitcher";
+import { SyncStatusButton } from "@/components/SyncStatusButton";
+import { AccountMenu } from "@/components/AccountMenu";
+import { FiberAssignmentAlert } from "@/components/FiberAssignmentAlert";
+import { ProjectFileErrorsDialog, type ProjectFileErrors } from "@/components/ProjectFileErrorsDialog";
+import { ImportWizardDialog } from "@/components/ImportWizardDialog";
+import { SpliceSignOff } from "@/components/SpliceSignOff";
+import { SpliceProgressBar } from "@/components/SpliceProgressBar";
+import { SpliceRowsTable } from "@/components/SpliceRowsTable";
+import { Plus, Cable as CableIcon, Workflow, Save, Upload, RotateCcw, Edit2, Check, X, Trash2, FileUp, Layers, Home as HomeIcon, Phone, Sparkles, FileDown } from "lucide-react";
 import { Switch } from "@/components/ui/switch";
 import { Label } from "@/components/ui/label";
 import { Switch as ToggleSwitch } from "@/components/ui/switch";
 import { useToast } from "@/hooks/use-toast";
-import { queryClient, apiRequest } from "@/lib/queryClient";
+import { useAuth } from "@/hooks/use-auth";
+import { queryClient, apiRequest, invalidateModeQueries } from "@/lib/queryClient";
+import { storage } from "@/lib/storage";
+import { createProjectFile, downloadProjectFile, readProjectFile } from "@/lib/projectFile";
+import { buildCircuitListTable, buildSpliceTable, downloadSpreadsheet, type SpreadsheetFormat } from "@/lib/spreadsheetExport";
+import { copperSheetLayout, downloadSpliceSheet } from "@/lib/spliceSheet";
+import { buildCompletionLookup, getSpliceProgress, getSpliceTargets, isSpliceComplete } from "@/lib/spliceCompletion";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { Input } from "@/components/ui/input";
 import {
@@ -42,10 +61,16 @@ import {
   TableRow,
 } from "@/components/ui/table";
 
+// Copper circuits never land on splitters
+const noSplitters: Splitter[] = [];
+
 export default function CopperHome({ mode, setMode }: { mode: "fiber" | "copper"; setMode: (mode: "fiber" | "copper") => void }) {
   const { toast } = useToast();
+  const { canEditDesign } = useAuth();
+  const [selectedEnclosureId, setSelectedEnclosureId] = useState<string | null>(null);
   const [selectedCableId, setSelectedCableId] = useState<string | null>(null);
   const [cableDialogOpen, setCableDialogOpen] = useState(false);
+  const [importDialogOpen, setImportDialogOpen] = useState(false);
   const [editingCable, setEditingCable] = useState<Cable | null>(null);
   const [editingType, setEditingType] = useState(false);
   const [editingSize, setEditingSize] = useState(false);
@@ -54,21 +79,56 @@ export default function CopperHome({ mode, setMode }: { mode: "fiber" | "copper"
   const [resetDialogOpen, setResetDialogOpen] = useState(false);
   const [saveDialogOpen, setSaveDialogOpen] = useState(false);
   const [saveFileName, setSaveFileName] = useState("");
+  const [loadErrors, setLoadErrors] = useState<ProjectFileErrors | null>(null);
   const [useBinderView, setUseBinderView] = useState(true);
+  const [remainingOnly, setRemainingOnly] = useState(false); // Hide splice rows already signed off
 
   // Use mode-specific API endpoints to keep fiber and copper data separate
   const apiMode = mode === "fiber" ? "fiber" : "copper";
   const cablesEndpoint = `/api/${apiMode}/cables`;
   const circuitsEndpoint = `/api/${apiMode}/circuits`;
+  const enclosuresEndpoint = `/api/${apiMode}/enclosures`;
+
+  const { data: activeProject } = useQuery<Project>({
+    queryKey: [`/api/${apiMode}/projects/active`],
+  });
+  const { data: enclosures = [] } = useQuery<Enclosure[]>({
+    queryKey: [enclosuresEndpoint],
+  });
 
-  const { data: cables = [], isLoading: cablesLoading } = useQuery<Cable[]>({
+  const { data: projectCables = [], isLoading: cablesLoading } = useQuery<Cable[]>({
     queryKey: [cablesEndpoint],
   });
 
-  const { data: allCircuits = [], isLoading: circuitsLoading } = useQuery<Circuit[]>({
+  const { data: projectCircuits = [], isLoading: circuitsLoading } = useQuery<Circuit[]>({
     queryKey: [circuitsEndpoint],
   });
 
+  const { data: spliceCompletions = [] } = useQuery<SpliceCompletion[]>({
+    queryKey: [`/api/${apiMode}/completions`],
+  });
+  const completionLookup = useMemo(() => buildCompletionLookup(spliceCompletions), [spliceCompletions]);
+
+  // Fall back to the first enclosure when nothing (or a deleted enclosure) is selected
+  const activeEnclosureId = enclosures.some(e => e.id === selectedEnclosureId)
+    ? selectedEnclosureId
+    : enclosures[0]?.id ?? null;
+
+  // Everything below is scoped to the active enclosure
+  const cables = useMemo(() => {
+    return projectCables.filter(c => c.enclosureId === activeEnclosureId);
+  }, [projectCables, activeEnclosureId]);
+
+  const allCircuits = useMemo(() => {
+    const cableIds = new Set(cables.map(c => c.id));
+    return projectCircuits.filter(c => cableIds.has(c.cableId));
+  }, [projectCircuits, cables]);
+
+  const handleEnclosureSelect = (enclosureId: string | null) => {
+    setSelectedEnclosureId(enclosureId);
+    setSelectedCableId(null);
+  };
+
   // Sort cables: Feed first, then Distribution (maintaining insertion order within each type)
   const sortedCables = useMemo(() => {
     const feedCables = cables.filter(c => c.type === "Feed");
@@ -81,6 +141,7 @@ export default function CopperHome({ mode, setMode }: { mode: "fiber" | "copper"
       return await apiRequest("POST", cablesEndpoint, data);
     },
     onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [enclosuresEndpoint] });
       queryClient.invalidateQueries({ queryKey: [cablesEndpoint] });
       queryClient.invalidateQueries({ queryKey: [circuitsEndpoint] });
       setCableDialogOpen(false);
@@ -136,6 +197,7 @@ export default function CopperHome({ mode, setMode }: { mode: "fiber" | "copper"
     },
     onSuccess: async () => {
       // Force refetch to clear the UI
+      await queryClient.refetchQueries({ queryKey: [enclosuresEndpoint] });
       await queryClient.refetchQueries({ queryKey: [cablesEndpoint] });
       await queryClient.refetchQueries({ queryKey: [circuitsEndpoint] });
       setSelectedCableId(null);
@@ -153,36 +215,30 @@ export default function CopperHome({ mode, setMode }: { mode: "fiber" | "copper"
   };
 
   const handleSaveConfirm = async () => {
-    const projectData = {
-      mode: mode, // Store the current mode
-      cables,
-      circuits: allCircuits,
-    };
-
-    const dataStr = JSON.stringify(projectData, null, 2);
-    const dataBlob = new Blob([dataStr], { type: 'application/json' });
-
-    const url = URL.createObjectURL(dataBlob);
-    const link = document.createElement('a');
-    link.href = url;
+    if (!activeProject) return;
+    const project = createProjectFile(activeProject, {
+      enclosures,
+      splitters: [],
+      cables: projectCables,
+      circuits: projectCircuits,
+      spliceCompletions,
+      otdrTraces: [],
+      fiberStatuses: [],
+    });
 
     // Use user-provided filename or default
     const filename = saveFileName.trim()
       ? `${saveFileName.trim()}.json`
       : `copper-splice-project-${new Date().toISOString().replace(/[:.]/g, '-')}.json`;
 
-    link.download = filename;
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
-    URL.revokeObjectURL(url);
+    downloadProjectFile(project, filename);
 
     setSaveDialogOpen(false);
     setSaveFileName("");
 
     toast({
       title: "Project saved",
-      description: `${cables.length} cable(s) and ${allCircuits.length} circuit(s) saved to file`
+      description: `${enclosures.length} enclosure(s), ${projectCables.length} cable(s) and ${projectCircuits.length} circuit(s) saved to file`
     });
   };
 
@@ -195,38 +251,37 @@ export default function CopperHome({ mode, setMode }: { mode: "fiber" | "copper"
       if (!file) return;
 
       try {
-        const text = await file.text();
-        const projectData = JSON.parse(text);
-
-        if (!projectData.cables || !projectData.circuits) {
-          toast({ title: "Invalid project file format", variant: "destructive" });
+        // Older files are migrated; anything invalid is reported in full and nothing is loaded
+        const parsed = await readProjectFile(file);
+        if (!parsed.success) {
+          setLoadErrors({ fileName: file.name, errors: parsed.errors });
           return;
         }
-
-        // Detect the mode from the saved file (default to 'fiber' for backwards compatibility)
-        const savedMode = projectData.mode || 'fiber';
+        const { project: projectData, migratedFrom } = parsed;
+        const savedMode = projectData.mode;
 
         // Switch to the correct mode
         setMode(savedMode);
 
-        // Use mode-specific database and API endpoints
-        const { getDb } = await import("@/lib/db");
-        const targetDb = getDb(savedMode);
-
-        // Clear the mode-specific database first
-        await apiRequest("DELETE", `/api/${savedMode}/reset`, undefined);
-
-        // Restore cables and circuits to the correct mode's database
-        await targetDb.cables.bulkAdd(projectData.cables);
-        await targetDb.circuits.bulkAdd(projectData.circuits);
+        // The file opens as a new project, leaving the current one untouched
+        await storage.createProject({
+          name: projectData.projectName ?? file.name.replace(/\.json$/i, ''),
+          jobNumber: projectData.jobNumber,
+          createdAt: projectData.createdAt,
+          lossSettings: projectData.lossSettings ? JSON.stringify(projectData.lossSettings) : null,
+          colorCodes: projectData.colorCodes.length > 0 ? JSON.stringify(projectData.colorCodes) : null,
+        }, savedMode);
+        await storage.restoreProject(projectData, savedMode);
+        setSelectedEnclosureId(null);
+        setSelectedCableId(null);
 
         // Invalidate mode-specific queries to refresh the UI
-        queryClient.invalidateQueries({ queryKey: [`/api/${savedMode}/cables`] });
-        queryClient.invalidateQueries({ queryKey: [`/api/${savedMode}/circuits`] });
+        await invalidateModeQueries(savedMode);
 
         toast({
           title: "Project loaded successfully",
-          description: `${projectData.cables.length} cable(s) and ${projectData.circuits.length} circuit(s) restored to ${savedMode} mode`
+          description: `${projectData.cables.length} cable(s) and ${projectData.circuits.length} circuit(s) loaded as a new ${savedMode} project` +
+            (migratedFrom !== null ? ` (upgraded from file format ${migratedFrom})` : '')
         });
       } catch (error) {
         console.error("Load error:", error);
@@ -240,7 +295,7 @@ export default function CopperHome({ mode, setMode }: { mode: "fiber" | "copper"
     if (editingCable) {
       updateCableMutation.mutate({ id: editingCable.id, data });
     } else {
-      createCableMutation.mutate(data);
+      createCableMutation.mutate({ ...data, enclosureId: activeEnclosureId });
     }
   };
 
@@ -262,7 +317,89 @@ export default function CopperHome({ mode, setMode }: { mode: "fiber" | "copper"
     return cables.filter(c => c.type === "Feed");
   }, [cables]);
 
+  // Spliced circuits grouped by circuit ID prefix for the prefix splice tabs, sorted by range start
+  const splicedCircuitsByPrefix = useMemo(() => {
+    const groupedByPrefix: Record<string, Circuit[]> = {};
+    splicedCircuits.forEach(circuit => {
+      const prefix = circuit.circuitId.split(',')[0]?.trim() || 'Unknown';
+      (groupedByPrefix[prefix] ??= []).push(circuit);
+    });
+    // Range start from a circuit ID, e.g. "pon,9-16" => 9
+    const getRangeStart = (circuitId: string): number => {
+      const rangeParts = (circuitId.split(',')[1]?.trim() || '').split('-');
+      return parseInt(rangeParts[0]?.trim() || '0') || 0;
+    };
+    return Object.keys(groupedByPrefix).sort().map(prefix => ({
+      prefix,
+      circuits: [...groupedByPrefix[prefix]].sort((a, b) => getRangeStart(a.circuitId) - getRangeStart(b.circuitId)),
+    }));
+  }, [splicedCircuits]);
+
+  // Spliced circuits listed on each cable's splice tab, in table order; kept between renders so the
+  // tables only lay their rows out again when circuits change
+  const splicedCircuitsByCable = useMemo(() => {
+    const listCircuits = (cable: Cable) => {
+      if (cable.type === "Feed") {
+        return allCircuits
+          .filter(c => c.isSpliced === 1 && c.feedCableId === cable.id)
+          .sort((a, b) => (a.feedFiberStart || 0) - (b.feedFiberStart || 0));
+      }
+      return splicedCircuits.filter(c => c.cableId === cable.id).sort((a, b) => {
+        try {
+          const partsA = parseCircuitIdParts(a.circuitId);
+          const partsB = parseCircuitIdParts(b.circuitId);
+          if (partsA.prefix !== partsB.prefix) return partsA.prefix.localeCompare(partsB.prefix);
+          return partsA.rangeStart - partsB.rangeStart;
+        } catch {
+          return a.circuitId.localeCompare(b.circuitId);
+        }
+      });
+    };
+    return new Map(cables.map(cable => [cable.id, listCircuits(cable)]));
+  }, [cables, allCircuits, splicedCircuits]);
+  const getCableSplicedCircuits = (cable: Cable) => splicedCircuitsByCable.get(cable.id) ?? [];
+
+  // The circuit list on its own as CSV; the XLSX workbook adds a sheet for every non-empty splice tab
+  const handleExportCircuits = (format: SpreadsheetFormat) => {
+    const enclosureName = enclosures.find(e => e.id === activeEnclosureId)?.name ?? "copper";
+    const tables = [buildCircuitListTable(cables, allCircuits, [], "copper")];
+    if (format === "xlsx") {
+      tables.push(
+        ...splicedCircuitsByPrefix.map(({ prefix, circuits }) => buildSpliceTable(`${prefix} Splice`, circuits, cables, [], useBinderView, copperSheetLayout)),
+        ...[...distributionCables, ...feedCables]
+          .map(cable => ({ cable, circuits: getCableSplicedCircuits(cable) }))
+          .filter(({ circuits }) => circuits.length > 0)
+          .map(({ cable, circuits }) => buildSpliceTable(cable.name, circuits, cables, [], useBinderView, copperSheetLayout))
+      );
+    }
+    downloadSpreadsheet(tables, format, `${enclosureName}-circuits`);
+  };
+
+  const handleExportSpliceTable = (format: SpreadsheetFormat, title: string, fileName: string, tableCircuits: Circuit[]) => {
+    downloadSpreadsheet([buildSpliceTable(title, tableCircuits, cables, [], useBinderView, copperSheetLayout)], format, `${fileName}-splices`);
+  };
+
+  // Print-ready PDF of exactly what the splice tab shows, in the current binder/pair view
+  const handleExportSpliceSheet = (title: string, fileName: string, sheetCircuits: Circuit[], cable?: Cable) => {
+    try {
+      downloadSpliceSheet(
+        { title, enclosure: enclosures.find(e => e.id === activeEnclosureId), cable },
+        sheetCircuits,
+        cables,
+        [],
+        useBinderView,
+        fileName,
+        copperSheetLayout
+      );
+    } catch (error) {
+      console.error("Splice sheet error:", error);
+      toast({ title: "Failed to generate splice sheet", variant: "destructive" });
+    }
+  };
+
   const selectedCable = cables.find((c) => c.id === selectedCableId);
+  // The inline size edit has to keep the cable's binders and super units whole
+  const editSizeError = selectedCable ? getCopperSizeError(tempSize, selectedCable.superUnitSize) : null;
 
   // 25-pair copper cable color codes (tip/ring combinations with actual color values)
   const pairColors = [
@@ -293,9 +430,7 @@ export default function CopperHome({ mode, setMode }: { mode: "fiber" | "copper"
     { pair: 25, tip: "violet", ring: "slate", tipColor: "#9333ea", ringColor: "#64748b", textColor: "#ffffff" },
   ];
 
-  const binderSize = 25;
-  const getBinderNumber = (pair: number) => Math.ceil(pair / binderSize);
-  const getPairPositionInBinder = (pair: number) => ((pair - 1) % binderSize) + 1;
+  const getPairPositionInBinder = (pair: number) => getPairPosition(undefined, pair).pair;
   const getColorForPair = (pairNum: number) => pairColors[(pairNum - 1) % 25];
   const getColorForBinder = (binder: number) => pairColors[(binder - 1) % 25];
 
@@ -310,270 +445,162 @@ export default function CopperHome({ mode, setMode }: { mode: "fiber" | "copper"
     color: color.textColor
   });
 
-  // Helper to extract range start from circuit ID
-  const getRangeStart = (circuitId: string): number => {
-    const parts = circuitId.split(',');
-    if (parts.length < 2) return 0;
-    const rangePart = parts[1]?.trim() || '';
-    const rangeParts = rangePart.split('-');
-    return parseInt(rangeParts[0]?.trim() || '0') || 0;
-  };
-
-  // Render splice table for a list of spliced circuits
-  const renderSpliceTable = (splicedCircuitsList: Circuit[], tableIdPrefix: string) => {
-    // Calculate total splice rows based on current view mode
-    const totalSpliceRows = useBinderView
-      ? splicedCircuitsList.reduce((sum, circuit) => {
-          const pairCount = circuit.fiberEnd - circuit.fiberStart + 1;
-          return sum + (pairCount / 25);
-        }, 0)
-      : splicedCircuitsList.reduce((sum, circuit) => {
-          return sum + (circuit.fiberEnd - circuit.fiberStart + 1);
-        }, 0);
-
+  // A pair's binder badge, after its super unit's badge on cables built from super units
+  const renderBinder = (cable: Cable | undefined, pair: number) => {
+    const { superUnit, binder } = getPairPosition(cable, pair);
     return (
-      <div className="rounded-md border overflow-x-auto inline-block">
-        <Table className="text-sm w-auto">
-          <TableHeader>
-            <TableRow className="bg-muted/50">
-              <TableHead rowSpan={3} className="text-center font-semibold py-1 px-2 whitespace-nowrap align-middle">#</TableHead>
-              <TableHead colSpan={useBinderView ? 2 : 3} rowSpan={2} className="text-center font-semibold bg-green-100 dark:bg-green-950/50 py-1 px-2 align-middle">Feed</TableHead>
-              <TableHead className="text-center py-1 px-2">
-                <div className="flex items-center justify-center gap-1">
-                  <Label htmlFor={`view-toggle-${tableIdPrefix}`} className="text-xs text-muted-foreground">Pairs</Label>
-                  <Switch
-                    id={`view-toggle-${tableIdPrefix}`}
-                    checked={useBinderView}
-                    onCheckedChange={setUseBinderView}
-                    data-testid={`switch-view-mode-${tableIdPrefix}`}
-                    className="scale-75"
-                  />
-                  <Label htmlFor={`view-toggle-${tableIdPrefix}`} className="text-xs text-muted-foreground">Binders</Label>
-                </div>
-              </TableHead>
-              <TableHead colSpan={useBinderView ? 2 : 3} rowSpan={2} className="text-center font-semibold bg-blue-100 dark:bg-blue-950/50 py-1 px-2 align-middle">Distribution</TableHead>
-            </TableRow>
-            <TableRow className="bg-muted/50">
-              <TableHead className="text-center font-semibold py-1 px-2 whitespace-nowrap">Splices : {totalSpliceRows}</TableHead>
-            </TableRow>
-            <TableRow>
-              <TableHead className="text-center py-1 px-2 whitespace-nowrap">Cable</TableHead>
-              <TableHead className="text-center py-1 px-2 whitespace-nowrap">Binder</TableHead>
-              {!useBinderView && <TableHead className="text-center py-1 px-2 whitespace-nowrap">Pair</TableHead>}
-              <TableHead className="text-center py-1 px-2 whitespace-nowrap">Circuit</TableHead>
-              {!useBinderView && <TableHead className="text-center py-1 px-2 whitespace-nowrap">Pair</TableHead>}
-              <TableHead className="text-center py-1 px-2 whitespace-nowrap">Binder</TableHead>
-              <TableHead className="text-center py-1 px-2 whitespace-nowrap">Cable</TableHead>
-            </TableRow>
-          </TableHeader>
-          <TableBody>
-            {(() => {
-              let rowNumber = 0;
-              return splicedCircuitsList.flatMap((circuit, circuitIndex) => {
-                const distributionCable = cables.find((c) => c.id === circuit.cableId);
-                const feedCable = circuit.feedCableId ? cables.find((c) => c.id === circuit.feedCableId) : undefined;
-
-                // Alternate background color based on circuit index
-                const rowBgColor = circuitIndex % 2 === 0
-                  ? "bg-white dark:bg-background"
-                  : "bg-gray-200 dark:bg-muted/50";
-
-                if (!feedCable) {
-                  rowNumber++;
-                  return [(
-                    <TableRow key={circuit.id} className={rowBgColor} data-testid={`row-spliced-circuit-${circuit.id}`}>
-                      <TableCell className="text-center font-mono py-1 px-2">{rowNumber}</TableCell>
-                      <TableCell colSpan={useBinderView ? 4 : 6} className="text-center text-muted-foreground">
-                        Circuit {circuit.circuitId} in {distributionCable?.name} - No feed cable selected. Please re-check the circuit.
-                      </TableCell>
-                    </TableRow>
-                  )];
-                }
-
-                // Parse circuit ID to get the circuit numbers
-                const circuitIdParts = circuit.circuitId.split(',');
-                const circuitPrefix = circuitIdParts[0] || "";
-                const circuitRange = circuitIdParts[1] || "";
-                const rangeParts = circuitRange.split('-');
-
-                // Safety check for valid circuit ID format
-                if (rangeParts.length !== 2 || !rangeParts[0] || !rangeParts[1]) {
-                  rowNumber++;
-                  return [(
-                    <TableRow key={circuit.id} className={rowBgColor} data-testid={`row-spliced-circuit-${circuit.id}`}>
-                      <TableCell className="text-center font-mono py-1 px-2">{rowNumber}</TableCell>
-                      <TableCell colSpan={useBinderView ? 4 : 6} className="text-center text-muted-foreground">
-                        Circuit {circuit.circuitId} in {distributionCable?.name} - Invalid circuit ID format.
-                      </TableCell>
-                    </TableRow>
-                  )];
-                }
-
-                const rangeStart = parseInt(rangeParts[0].trim());
-                const rangeEnd = parseInt(rangeParts[1].trim());
-
-                // Safety check for valid numbers
-                if (isNaN(rangeStart) || isNaN(rangeEnd)) {
-                  rowNumber++;
-                  return [(
-                    <TableRow key={circuit.id} className={rowBgColor} data-testid={`row-spliced-circuit-${circuit.id}`}>
-                      <TableCell className="text-center font-mono py-1 px-2">{rowNumber}</TableCell>
-                      <TableCell colSpan={useBinderView ? 4 : 6} className="text-center text-muted-foreground">
-                        Circuit {circuit.circuitId} in {distributionCable?.name} - Invalid circuit number range.
-                      </TableCell>
-                    </TableRow>
-                  )];
-                }
-
-                if (useBinderView) {
-                  // Full binder view: show based on actual pair positions
-                  const binderRows: JSX.Element[] = [];
-
-                  const distPairStart = circuit.fiberStart;
-                  const distPairEnd = circuit.fiberEnd;
-                  const feedPairStart = circuit.feedFiberStart || circuit.fiberStart;
-                  const feedPairEnd = circuit.feedFiberEnd || circuit.fiberEnd;
-
-                  if (!distPairStart || !distPairEnd || !feedPairStart || !feedPairEnd ||
-                      isNaN(distPairStart) || isNaN(distPairEnd) || isNaN(feedPairStart) || isNaN(feedPairEnd)) {
-                    rowNumber++;
-                    return [(
-                      <TableRow key={circuit.id} className={rowBgColor} data-testid={`row-spliced-circuit-${circuit.id}`}>
-                        <TableCell className="text-center font-mono py-1 px-2">{rowNumber}</TableCell>
-                        <TableCell colSpan={4} className="text-center text-muted-foreground">
-                          Circuit {circuit.circuitId} in {distributionCable?.name} - Invalid pair positions.
-                        </TableCell>
-                      </TableRow>
-                    )];
-                  }
-
-                  let currentDistPair = distPairStart;
-                  let currentFeedPair = feedPairStart;
-
-                  while (currentDistPair <= distPairEnd) {
-                    const currentDistBinder = getBinderNumber(currentDistPair);
-                    const currentFeedBinder = getBinderNumber(currentFeedPair);
-
-                    const distBinderEnd = currentDistBinder * binderSize;
-                    const distSegmentEnd = Math.min(distBinderEnd, distPairEnd);
-                    const feedBinderEnd = currentFeedBinder * binderSize;
-                    const feedSegmentEnd = Math.min(feedBinderEnd, feedPairEnd);
-
-                    const distPairCount = distSegmentEnd - currentDistPair + 1;
-                    const feedPairCount = feedSegmentEnd - currentFeedPair + 1;
-                    const segmentPairCount = Math.min(distPairCount, feedPairCount);
-
-                    const pairOffset = currentDistPair - distPairStart;
-                    const circuitStart = rangeStart + pairOffset;
-                    const circuitEnd = circuitStart + segmentPairCount - 1;
-
-                    const distPairPosStart = getPairPositionInBinder(currentDistPair);
-                    const distPairPosEnd = getPairPositionInBinder(currentDistPair + segmentPairCount - 1);
-                    const feedPairPosStart = getPairPositionInBinder(currentFeedPair);
-                    const feedPairPosEnd = getPairPositionInBinder(currentFeedPair + segmentPairCount - 1);
-
-                    const feedBinderColor = getColorForBinder(currentFeedBinder);
-                    const distBinderColor = getColorForBinder(currentDistBinder);
-
-                    rowNumber++;
-                    binderRows.push(
-                      <TableRow key={`${circuit.id}-segment-${currentDistPair}`} className={rowBgColor} data-testid={`row-binder-${circuit.id}-${currentDistPair}`}>
-                        <TableCell className="text-center font-mono py-1 px-2">{rowNumber}</TableCell>
-                        <TableCell className="text-center font-mono py-1 px-2 whitespace-nowrap">{feedCable.name}-{feedCable.fiberCount}</TableCell>
-                        <TableCell className="text-center font-mono font-semibold py-1 px-2 whitespace-nowrap">
-                          <span className="inline-block px-2 py-0.5 rounded border-2 border-black font-mono font-semibold text-xs" style={makeGradient(feedBinderColor)}>
-                            B{currentFeedBinder}
-                          </span>
-                          :{feedPairPosStart}{feedPairPosStart !== feedPairPosEnd ? `-${feedPairPosEnd}` : ''}
-                        </TableCell>
-                        <TableCell className="text-center font-mono font-semibold py-1 px-2 whitespace-nowrap">{circuitPrefix},{circuitStart}-{circuitEnd}</TableCell>
-                        <TableCell className="text-center font-mono font-semibold py-1 px-2 whitespace-nowrap">
-                          <span className="inline-block px-2 py-0.5 rounded border-2 border-black font-mono font-semibold text-xs" style={makeGradient(distBinderColor)}>
-                            B{currentDistBinder}
-                          </span>
-                          :{distPairPosStart}{distPairPosStart !== distPairPosEnd ? `-${distPairPosEnd}` : ''}
-                        </TableCell>
-                        <TableCell className="text-center font-mono py-1 px-2 whitespace-nowrap">{distributionCable?.name}-{distributionCable?.fiberCount}</TableCell>
-                      </TableRow>
-                    );
-
-                    currentDistPair += segmentPairCount;
-                    currentFeedPair += segmentPairCount;
-                  }
+      <>
+        {superUnit !== null && (
+          <span
+            className="inline-block px-2 py-0.5 mr-0.5 rounded border-2 border-black font-mono font-semibold text-xs"
+            style={makeGradient(getColorForBinder(superUnit))}
+            title={`Super unit ${superUnit} (${formatPairColors(getPairColors(superUnit - 1))})`}
+          >
+            U{superUnit}
+          </span>
+        )}
+        <span
+          className="inline-block px-2 py-0.5 rounded border-2 border-black font-mono font-semibold text-xs"
+          style={makeGradient(getColorForBinder(binder))}
+          title={`Binder ${binder} (${formatPairColors(getPairColors(binder - 1))})`}
+        >
+          B{binder}
+        </span>
+      </>
+    );
+  };
 
-                  return binderRows;
-                } else {
-                  // Pair view: show one row per pair
-                  const pairRows: JSX.Element[] = [];
-
-                  if (!circuit.fiberStart || !circuit.fiberEnd || isNaN(circuit.fiberStart) || isNaN(circuit.fiberEnd)) {
-                    rowNumber++;
-                    return [(
-                      <TableRow key={circuit.id} className={rowBgColor} data-testid={`row-spliced-circuit-${circuit.id}`}>
-                        <TableCell className="text-center font-mono py-1 px-2">{rowNumber}</TableCell>
-                        <TableCell colSpan={6} className="text-center text-muted-foreground">
-                          Circuit {circuit.circuitId} in {distributionCable?.name} - Invalid pair positions.
-                        </TableCell>
-                      </TableRow>
-                    )];
-                  }
+  // One splice row from the shared engine: a binder-aligned segment of a circuit, or a single pair
+  const renderSpliceRow = (row: SpliceRow, rowBgColor: string) => {
+    const { circuit, distributionCable } = row;
+    if (row.kind !== "cable") {
+      return (
+        <TableRow key={circuit.id} className={rowBgColor} data-testid={`row-spliced-circuit-${circuit.id}`}>
+          <TableCell className="text-center font-mono py-1 px-2">{row.number}</TableCell>
+          <TableCell colSpan={useBinderView ? 5 : 7} className="text-center text-muted-foreground">
+            Circuit {circuit.circuitId}{distributionCable ? ` in ${distributionCable.name}` : ""} - {row.kind === "message" ? row.message : "Copper circuits can't land on splitters"}. Please re-check the circuit.
+          </TableCell>
+        </TableRow>
+      );
+    }
 
-                  for (let i = 0; i < circuit.fiberEnd - circuit.fiberStart + 1; i++) {
-                    const distPair = circuit.fiberStart + i;
-                    const feedPair = (circuit.feedFiberStart || circuit.fiberStart) + i;
-
-                    const distBinder = getBinderNumber(distPair);
-                    const distPairInBinder = getPairPositionInBinder(distPair);
-                    const feedBinder = getBinderNumber(feedPair);
-                    const feedPairInBinder = getPairPositionInBinder(feedPair);
-
-                    const circuitNumber = rangeStart + i;
-                    const feedColor = getColorForPair(feedPairInBinder);
-                    const distColor = getColorForPair(distPairInBinder);
-                    const feedBinderColor = getColorForBinder(feedBinder);
-                    const distBinderColor = getColorForBinder(distBinder);
-
-                    rowNumber++;
-                    pairRows.push(
-                      <TableRow key={`${circuit.id}-pair-${i}`} className={rowBgColor} data-testid={`row-pair-${circuit.id}-${i}`}>
-                        <TableCell className="text-center font-mono py-1 px-2">{rowNumber}</TableCell>
-                        <TableCell className="text-center font-mono py-1 px-2 whitespace-nowrap">{feedCable.name}-{feedCable.fiberCount}</TableCell>
-                        <TableCell className="text-center font-mono font-semibold py-1 px-2 whitespace-nowrap">
-                          <span className="inline-block px-2 py-0.5 rounded border-2 border-black font-mono font-semibold text-xs" style={makeGradient(feedBinderColor)}>
-                            B{feedBinder}
-                          </span>
-                        </TableCell>
-                        <TableCell className="text-center py-1 px-2">
-                          <div className="inline-block px-3 py-1 rounded border-2 border-black font-mono font-semibold" style={makeGradient(feedColor)}>
-                            {feedPairInBinder}
-                          </div>
-                        </TableCell>
-                        <TableCell className="text-center font-mono font-semibold py-1 px-2 whitespace-nowrap">{circuitPrefix},{circuitNumber}</TableCell>
-                        <TableCell className="text-center py-1 px-2">
-                          <div className="inline-block px-3 py-1 rounded border-2 border-black font-mono font-semibold" style={makeGradient(distColor)}>
-                            {distPairInBinder}
-                          </div>
-                        </TableCell>
-                        <TableCell className="text-center font-mono font-semibold py-1 px-2 whitespace-nowrap">
-                          <span className="inline-block px-2 py-0.5 rounded border-2 border-black font-mono font-semibold text-xs" style={makeGradient(distBinderColor)}>
-                            B{distBinder}
-                          </span>
-                        </TableCell>
-                        <TableCell className="text-center font-mono py-1 px-2 whitespace-nowrap">{distributionCable?.name}-{distributionCable?.fiberCount}</TableCell>
-                      </TableRow>
-                    );
-                  }
+    const { feedCable, feedStart, distStart, count, offset } = row;
+    const signOffTargets = getSpliceTargets(circuit, offset, count);
+
+    const feedCableCell = <TableCell className="text-center font-mono py-1 px-2 whitespace-nowrap">{feedCable.name}-{feedCable.fiberCount}</TableCell>;
+    const distCableCell = <TableCell className="text-center font-mono py-1 px-2 whitespace-nowrap">{distributionCable?.name}-{distributionCable?.fiberCount}</TableCell>;
+    const circuitCell = <TableCell className="text-center font-mono font-semibold py-1 px-2 whitespace-nowrap">{row.circuitLabel}</TableCell>;
+    const signOffCell = <TableCell className="py-1 px-2"><SpliceSignOff mode={apiMode} targets={signOffTargets} completions={completionLookup} testId={`sign-off-${circuit.id}-${distStart}`} /></TableCell>;
+
+    if (useBinderView) {
+      // Binder view: one row per binder-aligned segment of the circuit
+      const feedPairPosStart = getPairPositionInBinder(feedStart);
+      const feedPairPosEnd = getPairPositionInBinder(feedStart + count - 1);
+      const distPairPosStart = getPairPositionInBinder(distStart);
+      const distPairPosEnd = getPairPositionInBinder(distStart + count - 1);
+      return (
+        <TableRow key={`${circuit.id}-segment-${distStart}`} className={rowBgColor} data-testid={`row-binder-${circuit.id}-${distStart}`}>
+          <TableCell className="text-center font-mono py-1 px-2">{row.number}</TableCell>
+          {feedCableCell}
+          <TableCell className="text-center font-mono font-semibold py-1 px-2 whitespace-nowrap">
+            {renderBinder(feedCable, feedStart)}
+            :{feedPairPosStart}{feedPairPosStart !== feedPairPosEnd ? `-${feedPairPosEnd}` : ''}
+          </TableCell>
+          {circuitCell}
+          <TableCell className="text-center font-mono font-semibold py-1 px-2 whitespace-nowrap">
+            {renderBinder(distributionCable, distStart)}
+            :{distPairPosStart}{distPairPosStart !== distPairPosEnd ? `-${distPairPosEnd}` : ''}
+          </TableCell>
+          {distCableCell}
+          {signOffCell}
+        </TableRow>
+      );
+    }
 
-                  return pairRows;
-                }
-              });
-            })()}
-          </TableBody>
-        </Table>
-      </div>
+    // Pair view: one row per pair
+    const feedPairInBinder = getPairPositionInBinder(feedStart);
+    const distPairInBinder = getPairPositionInBinder(distStart);
+    return (
+      <TableRow key={`${circuit.id}-pair-${offset}`} className={rowBgColor} data-testid={`row-pair-${circuit.id}-${offset}`}>
+        <TableCell className="text-center font-mono py-1 px-2">{row.number}</TableCell>
+        {feedCableCell}
+        <TableCell className="text-center font-mono font-semibold py-1 px-2 whitespace-nowrap">
+          {renderBinder(feedCable, feedStart)}
+        </TableCell>
+        <TableCell className="text-center py-1 px-2">
+          <div className="inline-block px-3 py-1 rounded border-2 border-black font-mono font-semibold" style={makeGradient(getColorForPair(feedPairInBinder))}>
+            {feedPairInBinder}
+          </div>
+        </TableCell>
+        {circuitCell}
+        <TableCell className="text-center py-1 px-2">
+          <div className="inline-block px-3 py-1 rounded border-2 border-black font-mono font-semibold" style={makeGradient(getColorForPair(distPairInBinder))}>
+            {distPairInBinder}
+          </div>
+        </TableCell>
+        <TableCell className="text-center font-mono font-semibold py-1 px-2 whitespace-nowrap">
+          {renderBinder(distributionCable, distStart)}
+        </TableCell>
+        {distCableCell}
+        {signOffCell}
+      </TableRow>
     );
   };
 
+  // Signed-off rows kept out of the splice tables when only remaining work is shown
+  const isSpliceRowHidden = useMemo(() => remainingOnly
+    ? (row: SpliceRow) => row.kind !== "message" && isSpliceComplete(completionLookup, getSpliceTargets(row.circuit, row.offset, row.count))
+    : undefined, [remainingOnly, completionLookup]);
+
+  // Render splice table for a list of spliced circuits
+  const renderSpliceTable = (splicedCircuitsList: Circuit[], tableIdPrefix: string) => (
+    <SpliceRowsTable
+      circuits={splicedCircuitsList}
+      cables={cables}
+      splitters={noSplitters}
+      useGroupView={useBinderView}
+      grouping="copper"
+      isRowHidden={isSpliceRowHidden}
+      renderRow={renderSpliceRow}
+      testId={tableIdPrefix}
+      renderHeader={(spliceCount) => (
+        <TableHeader>
+          <TableRow className="bg-muted/50">
+            <TableHead rowSpan={3} className="text-center font-semibold py-1 px-2 whitespace-nowrap align-middle">#</TableHead>
+            <TableHead colSpan={useBinderView ? 2 : 3} rowSpan={2} className="text-center font-semibold bg-green-100 dark:bg-green-950/50 py-1 px-2 align-middle">Feed</TableHead>
+            <TableHead className="text-center py-1 px-2">
+              <div className="flex items-center justify-center gap-1">
+                <Label htmlFor={`view-toggle-${tableIdPrefix}`} className="text-xs text-muted-foreground">Pairs</Label>
+                <Switch
+                  id={`view-toggle-${tableIdPrefix}`}
+                  checked={useBinderView}
+                  onCheckedChange={setUseBinderView}
+                  data-testid={`switch-view-mode-${tableIdPrefix}`}
+                  className="scale-75"
+                />
+                <Label htmlFor={`view-toggle-${tableIdPrefix}`} className="text-xs text-muted-foreground">Binders</Label>
+              </div>
+            </TableHead>
+            <TableHead colSpan={useBinderView ? 2 : 3} rowSpan={2} className="text-center font-semibold bg-blue-100 dark:bg-blue-950/50 py-1 px-2 align-middle">Distribution</TableHead>
+            <TableHead rowSpan={3} className="text-center font-semibold py-1 px-2 whitespace-nowrap align-middle">Done</TableHead>
+          </TableRow>
+          <TableRow className="bg-muted/50">
+            <TableHead className="text-center font-semibold py-1 px-2 whitespace-nowrap">Splices : {spliceCount ?? "..."}</TableHead>
+          </TableRow>
+          <TableRow>
+            <TableHead className="text-center py-1 px-2 whitespace-nowrap">Cable</TableHead>
+            <TableHead className="text-center py-1 px-2 whitespace-nowrap">Binder</TableHead>
+            {!useBinderView && <TableHead className="text-center py-1 px-2 whitespace-nowrap">Pair</TableHead>}
+            <TableHead className="text-center py-1 px-2 whitespace-nowrap">Circuit</TableHead>
+            {!useBinderView && <TableHead className="text-center py-1 px-2 whitespace-nowrap">Pair</TableHead>}
+            <TableHead className="text-center py-1 px-2 whitespace-nowrap">Binder</TableHead>
+            <TableHead className="text-center py-1 px-2 whitespace-nowrap">Cable</TableHead>
+          </TableRow>
+        </TableHeader>
+      )}
+    />
+  );
+
   return (
     <div className="min-h-screen bg-background">
       <header className="border-b">
@@ -602,15 +629,38 @@ export default function CopperHome({ mode, setMode }: { mode: "fiber" | "copper"
               </div>
             </div>
             <div className="flex items-center gap-2">
+              <UndoRedoButtons mode={apiMode} />
+              <ProjectSwitcher
+                mode={apiMode}
+                onSwitch={() => {
+                  setSelectedEnclosureId(null);
+                  setSelectedCableId(null);
+                }}
+              />
+              <SyncStatusButton
+                mode={apiMode}
+                onSwitch={() => {
+                  setSelectedEnclosureId(null);
+                  setSelectedCableId(null);
+                }}
+              />
+              <AccountMenu />
               <Button
                 variant="outline"
                 size="sm"
                 onClick={handleLoad}
+                disabled={!canEditDesign}
                 data-testid="button-load"
               >
                 <Upload className="h-4 w-4 mr-2" />
                 Load
               </Button>
+              <ExportMenu
+                onExport={handleExportCircuits}
+                testId="button-export-circuits"
+                csvLabel="Circuit list (CSV)"
+                xlsxLabel="Circuits + splice tables (XLSX)"
+              />
               <Button
                 variant="default"
                 size="sm"
@@ -624,6 +674,7 @@ export default function CopperHome({ mode, setMode }: { mode: "fiber" | "copper"
                 variant="destructive"
                 size="sm"
                 onClick={() => setResetDialogOpen(true)}
+                disabled={!canEditDesign}
                 data-testid="button-reset"
               >
                 <RotateCcw className="h-4 w-4 mr-2" />
@@ -635,7 +686,18 @@ export default function CopperHome({ mode, setMode }: { mode: "fiber" | "copper"
       </header>
 
       <main className="container mx-auto px-6 py-6">
-        <Tabs defaultValue="input" className="w-full">
+        <FiberAssignmentAlert mode={apiMode} cables={projectCables} circuits={projectCircuits} />
+        <div className="mb-4">
+          <EnclosureSelector
+            mode={apiMode}
+            enclosures={enclosures}
+            selectedEnclosureId={activeEnclosureId}
+            onSelect={handleEnclosureSelect}
+          />
+        </div>
+
+        {/* Re-mount tabs per enclosure so a tab from another enclosure is never left selected */}
+        <Tabs key={activeEnclosureId ?? "none"} defaultValue="input" className="w-full">
           {/* Tab Navigation with Section Labels */}
           <div className="mb-6">
             <TabsList data-testid="tabs-main" className="w-full justify-start bg-transparent p-0">
@@ -770,12 +832,24 @@ export default function CopperHome({ mode, setMode }: { mode: "fiber" | "copper"
                     setEditingCable(null);
                     setCableDialogOpen(true);
                   }}
+                  disabled={!canEditDesign}
                   data-testid="button-add-cable"
                   className="border-dashed"
                 >
                   <Plus className="h-4 w-4 mr-1" />
                   Add Cable
                 </Button>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => setImportDialogOpen(true)}
+                  disabled={!canEditDesign}
+                  data-testid="button-import-cables"
+                  className="border-dashed"
+                >
+                  <FileUp className="h-4 w-4 mr-1" />
+                  Import
+                </Button>
               </div>
 
               <div>
@@ -793,6 +867,7 @@ export default function CopperHome({ mode, setMode }: { mode: "fiber" | "copper"
                             setEditingCable(selectedCable);
                             setCableDialogOpen(true);
                           }}
+                          disabled={!canEditDesign}
                           data-testid="button-edit-cable"
                         >
                           <Edit2 className="h-4 w-4 mr-1" />
@@ -805,6 +880,7 @@ export default function CopperHome({ mode, setMode }: { mode: "fiber" | "copper"
                             deleteCableMutation.mutate(selectedCable.id);
                             setSelectedCableId(null);
                           }}
+                          disabled={!canEditDesign}
                           data-testid="button-delete-cable"
                         >
                           <Trash2 className="h-4 w-4 mr-1" />
@@ -871,6 +947,7 @@ export default function CopperHome({ mode, setMode }: { mode: "fiber" | "copper"
                                     setTempType(selectedCable.type as "Feed" | "Distribution");
                                     setEditingType(true);
                                   }}
+                                  disabled={!canEditDesign}
                                   data-testid="button-edit-type"
                                 >
                                   <Edit2 className="h-3 w-3" />
@@ -896,6 +973,7 @@ export default function CopperHome({ mode, setMode }: { mode: "fiber" | "copper"
                                   variant="ghost"
                                   size="sm"
                                   className="h-6"
+                                  disabled={editSizeError !== null}
                                   onClick={() => {
                                     updateCableMutation.mutate({
                                       id: selectedCable.id,
@@ -920,10 +998,16 @@ export default function CopperHome({ mode, setMode }: { mode: "fiber" | "copper"
                                 >
                                   <X className="h-3 w-3" />
                                 </Button>
+                                {editSizeError && (
+                                  <span className="text-xs text-destructive" data-testid="text-edit-size-error">
+                                    {editSizeError}
+                                  </span>
+                                )}
                               </>
                             ) : (
                               <>
                                 <span className="ml-2 font-mono font-medium">{selectedCable.fiberCount}</span>
+                                <span className="text-muted-foreground" data-testid="text-cable-construction">({describeCopperConstruction(selectedCable)})</span>
                                 <Button
                                   variant="ghost"
                                   size="icon"
@@ -932,6 +1016,7 @@ export default function CopperHome({ mode, setMode }: { mode: "fiber" | "copper"
                                     setTempSize(selectedCable.fiberCount);
                                     setEditingSize(true);
                                   }}
+                                  disabled={!canEditDesign}
                                   data-testid="button-edit-size"
                                 >
                                   <Edit2 className="h-3 w-3" />
@@ -955,66 +1040,83 @@ export default function CopperHome({ mode, setMode }: { mode: "fiber" | "copper"
           </TabsContent>
 
           {/* Dynamic TabsContent for each unique circuit ID prefix - sorted by range */}
-          {(() => {
-            // Group all spliced circuits by their circuit ID prefix
-            const groupedByPrefix: Record<string, Circuit[]> = {};
-            splicedCircuits.forEach(circuit => {
-              const parts = circuit.circuitId.split(',');
-              const prefix = parts[0]?.trim() || 'Unknown';
-              if (!groupedByPrefix[prefix]) {
-                groupedByPrefix[prefix] = [];
-              }
-              groupedByPrefix[prefix].push(circuit);
-            });
-
-            const prefixes = Object.keys(groupedByPrefix).sort();
-
-            return prefixes.map(prefix => {
-              // Sort circuits by their range start number
-              const prefixCircuits = [...groupedByPrefix[prefix]].sort((a, b) => {
-                return getRangeStart(a.circuitId) - getRangeStart(b.circuitId);
-              });
-
-              return (
-                <TabsContent key={`prefix-${prefix}`} value={`prefix-splice-${prefix}`}>
-                  <Card>
-                    <CardHeader>
-                      <CardTitle>{prefix} Splice</CardTitle>
-                    </CardHeader>
-                    <CardContent>
-                      {prefixCircuits.length === 0 ? (
-                        <div className="text-center py-12 text-muted-foreground" data-testid={`text-no-prefix-splices-${prefix}`}>
-                          No circuits marked as spliced for {prefix}.
-                        </div>
-                      ) : (
-                        renderSpliceTable(prefixCircuits, `prefix-${prefix}`)
-                      )}
-                    </CardContent>
-                  </Card>
-                </TabsContent>
-              );
-            });
-          })()}
+          {splicedCircuitsByPrefix.map(({ prefix, circuits: prefixCircuits }) => (
+            <TabsContent key={`prefix-${prefix}`} value={`prefix-splice-${prefix}`}>
+              <Card>
+                <CardHeader className="flex flex-row items-center justify-between gap-2 space-y-0">
+                  <CardTitle>{prefix} Splice</CardTitle>
+                  <div className="flex gap-2">
+                    <ExportMenu
+                      onExport={(format) => handleExportSpliceTable(format, `${prefix} Splice`, prefix, prefixCircuits)}
+                      testId={`button-export-prefix-${prefix}`}
+                    />
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => handleExportSpliceSheet(`${prefix} Splice`, prefix, prefixCircuits)}
+                      data-testid={`button-pdf-prefix-${prefix}`}
+                    >
+                      <FileDown className="h-4 w-4 mr-1" />
+                      PDF
+                    </Button>
+                  </div>
+                </CardHeader>
+                <CardContent>
+                  {prefixCircuits.length > 0 && (
+                    <SpliceProgressBar
+                      progress={getSpliceProgress(prefixCircuits, completionLookup)}
+                      unit="pairs"
+                      remainingOnly={remainingOnly}
+                      onRemainingOnlyChange={setRemainingOnly}
+                      testId={`prefix-${prefix}`}
+                    />
+                  )}
+                  {prefixCircuits.length === 0 ? (
+                    <div className="text-center py-12 text-muted-foreground" data-testid={`text-no-prefix-splices-${prefix}`}>
+                      No circuits marked as spliced for {prefix}.
+                    </div>
+                  ) : (
+                    renderSpliceTable(prefixCircuits, `prefix-${prefix}`)
+                  )}
+                </CardContent>
+              </Card>
+            </TabsContent>
+          ))}
 
           {distributionCables.map((distCable) => {
-            const cableSplicedCircuits = splicedCircuits.filter(c => c.cableId === distCable.id).sort((a, b) => {
-              try {
-                const partsA = parseCircuitIdParts(a.circuitId);
-                const partsB = parseCircuitIdParts(b.circuitId);
-                if (partsA.prefix !== partsB.prefix) return partsA.prefix.localeCompare(partsB.prefix);
-                return partsA.rangeStart - partsB.rangeStart;
-              } catch {
-                return a.circuitId.localeCompare(b.circuitId);
-              }
-            });
+            const cableSplicedCircuits = getCableSplicedCircuits(distCable);
 
             return (
               <TabsContent key={distCable.id} value={`splice-${distCable.id}`}>
                 <Card>
-                  <CardHeader>
+                  <CardHeader className="flex flex-row items-center justify-between gap-2 space-y-0">
                     <CardTitle>Splice Mapping - {distCable.name}</CardTitle>
+                    <div className="flex gap-2">
+                      <ExportMenu
+                        onExport={(format) => handleExportSpliceTable(format, `Splice Mapping - ${distCable.name}`, distCable.name, cableSplicedCircuits)}
+                        testId={`button-export-${distCable.id}`}
+                      />
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => handleExportSpliceSheet(`Splice Mapping - ${distCable.name}`, distCable.name, cableSplicedCircuits, distCable)}
+                        data-testid={`button-pdf-${distCable.id}`}
+                      >
+                        <FileDown className="h-4 w-4 mr-1" />
+                        PDF
+                      </Button>
+                    </div>
                   </CardHeader>
                   <CardContent>
+                    {cableSplicedCircuits.length > 0 && (
+                      <SpliceProgressBar
+                        progress={getSpliceProgress(cableSplicedCircuits, completionLookup)}
+                        unit="pairs"
+                        remainingOnly={remainingOnly}
+                        onRemainingOnlyChange={setRemainingOnly}
+                        testId={`dist-${distCable.id}`}
+                      />
+                    )}
                     {circuitsLoading ? (
                       <div className="text-center py-12 text-muted-foreground">Loading circuits...</div>
                     ) : cableSplicedCircuits.length === 0 ? (
@@ -1033,20 +1135,39 @@ export default function CopperHome({ mode, setMode }: { mode: "fiber" | "copper"
           {/* Feed Cable Splice Tabs */}
           {feedCables.map((feedCable) => {
             // Get all Distribution circuits that are spliced to this Feed cable
-            const feedSplicedCircuits = allCircuits.filter(c =>
-              c.isSpliced === 1 && c.feedCableId === feedCable.id
-            ).sort((a, b) => {
-              // Sort by feedFiberStart position
-              return (a.feedFiberStart || 0) - (b.feedFiberStart || 0);
-            });
+            const feedSplicedCircuits = getCableSplicedCircuits(feedCable);
 
             return (
               <TabsContent key={`feed-${feedCable.id}`} value={`feed-splice-${feedCable.id}`}>
                 <Card>
-                  <CardHeader>
+                  <CardHeader className="flex flex-row items-center justify-between gap-2 space-y-0">
                     <CardTitle>Splice Mapping - {feedCable.name}</CardTitle>
+                    <div className="flex gap-2">
+                      <ExportMenu
+                        onExport={(format) => handleExportSpliceTable(format, `Splice Mapping - ${feedCable.name}`, feedCable.name, feedSplicedCircuits)}
+                        testId={`button-export-${feedCable.id}`}
+                      />
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => handleExportSpliceSheet(`Splice Mapping - ${feedCable.name}`, feedCable.name, feedSplicedCircuits, feedCable)}
+                        data-testid={`button-pdf-${feedCable.id}`}
+                      >
+                        <FileDown className="h-4 w-4 mr-1" />
+                        PDF
+                      </Button>
+                    </div>
                   </CardHeader>
                   <CardContent>
+                    {feedSplicedCircuits.length > 0 && (
+                      <SpliceProgressBar
+                        progress={getSpliceProgress(feedSplicedCircuits, completionLookup)}
+                        unit="pairs"
+                        remainingOnly={remainingOnly}
+                        onRemainingOnlyChange={setRemainingOnly}
+                        testId={`feed-${feedCable.id}`}
+                      />
+                    )}
                     {circuitsLoading ? (
                       <div className="text-center py-12 text-muted-foreground">Loading circuits...</div>
                     ) : feedSplicedCircuits.length === 0 ? (
@@ -1064,6 +1185,14 @@ export default function CopperHome({ mode, setMode }: { mode: "fiber" | "copper"
         </Tabs>
       </main>
 
+      <ImportWizardDialog
+        open={importDialogOpen}
+        onOpenChange={setImportDialogOpen}
+        mode={apiMode}
+        enclosureId={activeEnclosureId}
+        existingCables={cables}
+      />
+
       <Dialog open={cableDialogOpen} onOpenChange={setCableDialogOpen}>
         <DialogContent data-testid="dialog-cable-form">
           <DialogHeader>
@@ -1087,12 +1216,14 @@ export default function CopperHome({ mode, setMode }: { mode: "fiber" | "copper"
         </DialogContent>
       </Dialog>
 
+      <ProjectFileErrorsDialog report={loadErrors} onClose={() => setLoadErrors(null)} />
+
       <AlertDialog open={resetDialogOpen} onOpenChange={setResetDialogOpen}>
         <AlertDialogContent data-testid="dialog-reset-confirm">
           <AlertDialogHeader>
             <AlertDialogTitle>Reset All Data</AlertDialogTitle>
             <AlertDialogDescription>
-              This will permanently delete all cables and circuits without saving.
+              This will permanently delete all cables and circuits in the current project without saving.
               This action cannot be undone.
               Are you sure you want to continue?
             </AlertDialogDescription>
@@ -1,6 +1,28 @@
-import { useState, useMemo } from "react";
+import { useState, useMemo, useEffect } from "react";
 import { useQuery, useMutation } from "@tanstack/react-query";
-import { Cable, Circuit, InsertCable, parseCircuitIdParts } from "@shared/schema";
+import {
+  Cable,
+  Circuit,
+  Enclosure,
+  FiberMarking,
+  FiberStatus,
+  InsertCable,
+  OtdrTrace,
+  Project,
+  SpliceCompletion,
+  Splitter,
+  formatFiberGroup,
+  formatFiberMarking,
+  formatFiberRange,
+  getCableColorCode,
+  getFiberGroupMarking,
+  getFiberPosition,
+  getStrandMarking,
+  parseCircuitIdParts,
+  parseColorCodes,
+  parseLossSettings,
+} from "@shared/schema";
+import type { SpliceRow } from "@shared/spliceRows";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
@@ -25,7 +47,25 @@ import { CableCard } from "@/components/CableCard";
 import { CableForm } from "@/components/CableForm";
 import { CableVisualization } from "@/components/CableVisualization";
 import { CircuitManagement } from "@/components/CircuitManagement";
-import { Plus, Cable as CableIcon, Workflow, Save, Upload, RotateCcw, Edit2, Check, X, Trash2, Layers, Home as HomeIcon, Phone, Sparkles } from "lucide-react";
+import { EnclosureSelector } from "@/components/EnclosureSelector";
+import { ExportMenu } from "@/components/ExportMenu";
+import { UndoRedoButtons } from "@/components/UndoRedoButtons";
+import { ProjectSwitcher } from "@/components/ProjectSwitcher";
+import { SyncStatusButton } from "@/components/SyncStatusButton";
+import { CollaboratorsMenu } from "@/components/CollaboratorsMenu";
+import { AccountMenu } from "@/components/AccountMenu";
+import { PresenceAvatars } from "@/components/PresenceAvatars";
+import { FiberAssignmentAlert } from "@/components/FiberAssignmentAlert";
+import { ProjectFileErrorsDialog, type ProjectFileErrors } from "@/components/ProjectFileErrorsDialog";
+import { ImportWizardDialog } from "@/components/ImportWizardDialog";
+import { TraceDialog } from "@/components/TraceDialog";
+import { SplitterManagement } from "@/components/SplitterManagement";
+import { SpliceSignOff } from "@/components/SpliceSignOff";
+import { SpliceRowsTable } from "@/components/SpliceRowsTable";
+import { SpliceProgressBar } from "@/components/SpliceProgressBar";
+import { LossBudgetFlag } from "@/components/LossBudgetFlag";
+import { UtilizationDashboard } from "@/components/UtilizationDashboard";
+import { Plus, Cable as CableIcon, Workflow, Save, Upload, RotateCcw, Edit2, Check, X, Trash2, FileUp, Layers, Home as HomeIcon, Phone, Sparkles, Route, FileDown, BarChart3 } from "lucide-react";
 import { Switch } from "@/components/ui/switch";
 import { Label } from "@/components/ui/label";
 import { Switch as ToggleSwitch } from "@/components/ui/switch";
@@ -36,7 +76,17 @@ import {
   AccordionTrigger,
 } from "@/components/ui/accordion";
 import { useToast } from "@/hooks/use-toast";
-import { queryClient, apiRequest } from "@/lib/queryClient";
+import { useAuth } from "@/hooks/use-auth";
+import { usePresence } from "@/hooks/use-presence";
+import { queryClient, apiRequest, invalidateModeQueries } from "@/lib/queryClient";
+import { storage } from "@/lib/storage";
+import { createProjectFile, downloadProjectFile, readProjectFile } from "@/lib/projectFile";
+import { buildCircuitListTable, buildSpliceTable, downloadSpreadsheet, type SpreadsheetFormat } from "@/lib/spreadsheetExport";
+import { downloadSpliceSheet, fiberSheetLayout } from "@/lib/spliceSheet";
+import { fiberStripeStyle, fiberTracerUnderline } from "@/lib/fiberColors";
+import { buildCompletionLookup, getSpliceProgress, getSpliceTargets, isSpliceComplete } from "@/lib/spliceCompletion";
+import { buildFiberStatusLookup } from "@/lib/fiberStatus";
+import { calculateCircuitLoss, type TraceLoss } from "@/lib/lossBudget";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { Input } from "@/components/ui/input";
 import {
@@ -50,8 +100,12 @@ import {
 
 export default function Home({ mode, setMode }: { mode: "fiber" | "copper"; setMode: (mode: "fiber" | "copper") => void }) {
   const { toast } = useToast();
+  const { canEditDesign } = useAuth();
+  const [selectedEnclosureId, setSelectedEnclosureId] = useState<string | null>(null);
   const [selectedCableId, setSelectedCableId] = useState<string | null>(null);
+  const [traceTarget, setTraceTarget] = useState<{ cableId: string; fiber: number } | null>(null);
   const [cableDialogOpen, setCableDialogOpen] = useState(false);
+  const [importDialogOpen, setImportDialogOpen] = useState(false);
   const [editingCable, setEditingCable] = useState<Cable | null>(null);
   const [editingType, setEditingType] = useState(false);
   const [editingSize, setEditingSize] = useState(false);
@@ -60,21 +114,292 @@ export default function Home({ mode, setMode }: { mode: "fiber" | "copper"; setM
   const [resetDialogOpen, setResetDialogOpen] = useState(false);
   const [saveDialogOpen, setSaveDialogOpen] = useState(false);
   const [saveFileName, setSaveFileName] = useState("");
+  const [loadErrors, setLoadErrors] = useState<ProjectFileErrors | null>(null);
   const [useRibbonView, setUseRibbonView] = useState(true);
+  const [remainingOnly, setRemainingOnly] = useState(false); // Hide splice rows already signed off
 
   // Use mode-specific API endpoints to keep fiber and copper data separate
   const apiMode = mode === "fiber" ? "fiber" : "copper";
   const cablesEndpoint = `/api/${apiMode}/cables`;
   const circuitsEndpoint = `/api/${apiMode}/circuits`;
+  const enclosuresEndpoint = `/api/${apiMode}/enclosures`;
+
+  const { data: activeProject } = useQuery<Project>({
+    queryKey: [`/api/${apiMode}/projects/active`],
+  });
+  const { data: enclosures = [] } = useQuery<Enclosure[]>({
+    queryKey: [enclosuresEndpoint],
+  });
 
-  const { data: cables = [], isLoading: cablesLoading } = useQuery<Cable[]>({
+  const { data: projectSplitters = [] } = useQuery<Splitter[]>({
+    queryKey: [`/api/${apiMode}/splitters`],
+  });
+
+  const { data: projectCables = [], isLoading: cablesLoading } = useQuery<Cable[]>({
     queryKey: [cablesEndpoint],
   });
 
-  const { data: allCircuits = [], isLoading: circuitsLoading } = useQuery<Circuit[]>({
+  const { data: projectCircuits = [], isLoading: circuitsLoading } = useQuery<Circuit[]>({
     queryKey: [circuitsEndpoint],
   });
 
+  const { data: spliceCompletions = [] } = useQuery<SpliceCompletion[]>({
+    queryKey: [`/api/${apiMode}/completions`],
+  });
+  const completionLookup = useMemo(() => buildCompletionLookup(spliceCompletions), [spliceCompletions]);
+
+  const { data: otdrTraces = [] } = useQuery<OtdrTrace[]>({
+    queryKey: [`/api/${apiMode}/otdr`],
+  });
+
+  const { data: fiberStatuses = [] } = useQuery<FiberStatus[]>({
+    queryKey: [`/api/${apiMode}/fiber-statuses`],
+  });
+  const fiberStatusLookup = useMemo(() => buildFiberStatusLookup(fiberStatuses), [fiberStatuses]);
+
+  // Fall back to the first enclosure when nothing (or a deleted enclosure) is selected
+  const activeEnclosureId = enclosures.some(e => e.id === selectedEnclosureId)
+    ? selectedEnclosureId
+    : enclosures[0]?.id ?? null;
+
+  // Each enclosure opens on its Home tab
+  const [activeTab, setActiveTab] = useState("input");
+  useEffect(() => setActiveTab("input"), [activeEnclosureId]);
+
+  // Tell collaborators which cable is open: the cable's splice tab, or the cable picked on Home
+  const openCableId = activeTab.startsWith("feed-splice-")
+    ? activeTab.slice("feed-splice-".length)
+    : activeTab.startsWith("splice-")
+      ? activeTab.slice("splice-".length)
+      : activeTab === "input" ? selectedCableId : null;
+  const peers = usePresence(apiMode, { enclosureId: activeEnclosureId, cableId: openCableId, tab: activeTab });
+  const peersOnCable = (cableId: string) => peers.filter(p => p.cableId === cableId);
+
+  // Everything below is scoped to the active enclosure
+  const cables = useMemo(() => {
+    return projectCables.filter(c => c.enclosureId === activeEnclosureId);
+  }, [projectCables, activeEnclosureId]);
+
+  const allCircuits = useMemo(() => {
+    const cableIds = new Set(cables.map(c => c.id));
+    return projectCircuits.filter(c => cableIds.has(c.cableId));
+  }, [projectCircuits, cables]);
+
+  const splitters = useMemo(() => {
+    return projectSplitters.filter(s => s.enclosureId === activeEnclosureId);
+  }, [projectSplitters, activeEnclosureId]);
+
+  // End-to-end loss of each spliced circuit here, traced through the whole project
+  const lossSettings = useMemo(() => parseLossSettings(activeProject?.lossSettings), [activeProject?.lossSettings]);
+  const colorCodes = useMemo(() => parseColorCodes(activeProject?.colorCodes), [activeProject?.colorCodes]);
+  const circuitLosses = useMemo(() => {
+    const losses = new Map<string, TraceLoss | null>();
+    for (const circuit of allCircuits) {
+      if (circuit.isSpliced !== 1) continue;
+      losses.set(circuit.id, calculateCircuitLoss(circuit, projectCables, projectCircuits, enclosures, projectSplitters, lossSettings));
+    }
+    return losses;
+  }, [allCircuits, projectCables, projectCircuits, enclosures, projectSplitters, lossSettings]);
+
+  // Fiber optic color codes (12 colors, repeating pattern)
+  const fiberColors = [
+    { name: "blue", bg: "bg-blue-500", text: "text-white", colorClass: "text-blue-500" },
+    { name: "orange", bg: "bg-orange-500", text: "text-white", colorClass: "text-orange-500" },
+    { name: "green", bg: "bg-green-600", text: "text-white", colorClass: "text-green-600" },
+    { name: "brown", bg: "bg-amber-700", text: "text-white", colorClass: "text-amber-700" },
+    { name: "slate", bg: "bg-slate-500", text: "text-white", colorClass: "text-slate-500" },
+    { name: "white", bg: "bg-white", text: "text-black", colorClass: "text-slate-700" },
+    { name: "red", bg: "bg-red-600", text: "text-white", colorClass: "text-red-600" },
+    { name: "black", bg: "bg-black", text: "text-white", colorClass: "text-slate-900" },
+    { name: "yellow", bg: "bg-yellow-400", text: "text-black", colorClass: "text-yellow-500" },
+    { name: "violet", bg: "bg-purple-600", text: "text-white", colorClass: "text-purple-600" },
+    { name: "pink", bg: "bg-pink-500", text: "text-white", colorClass: "text-pink-500" },
+    { name: "aqua", bg: "bg-cyan-400", text: "text-black", colorClass: "text-cyan-500" },
+  ];
+
+  // Colors follow each cable's color code; ribbon cables take the ribbon's color, loose-tube cables the tube's
+  const getColorForMarking = (marking: FiberMarking) => ({ ...(fiberColors.find(c => c.name === marking.color) ?? fiberColors[0]), marking });
+  const getColorForStrand = (cable: Cable | undefined, fiber: number) =>
+    getColorForMarking(getStrandMarking(getFiberPosition(cable, fiber), getCableColorCode(cable, colorCodes)));
+  const getColorForGroup = (cable: Cable | undefined, fiber: number) =>
+    getColorForMarking(getFiberGroupMarking(getFiberPosition(cable, fiber), getCableColorCode(cable, colorCodes)));
+
+  const renderGroupCell = (cable: Cable | undefined, fiber: number, text: string) => {
+    const groupColor = getColorForGroup(cable, fiber);
+    return (
+      <TableCell className={`text-center font-mono font-semibold py-1 px-2 whitespace-nowrap ${groupColor.colorClass}`} style={fiberTracerUnderline(groupColor.marking)}>
+        {text}
+      </TableCell>
+    );
+  };
+
+  const renderStrandCell = (cable: Cable | undefined, fiber: number) => {
+    const strandColor = getColorForStrand(cable, fiber);
+    return (
+      <TableCell className="text-center py-1 px-2">
+        <div className={`inline-block px-1.5 py-0.5 rounded border border-black ${strandColor.bg} ${strandColor.text} font-mono font-semibold text-xs`} style={fiberStripeStyle(strandColor.marking)} title={formatFiberMarking(strandColor.marking)}>
+          {getFiberPosition(cable, fiber).strand}
+        </div>
+      </TableCell>
+    );
+  };
+
+  // One splice row from the shared engine. Ribbon view rows are segments of a circuit, strand view
+  // rows single fibers; circuits on splitter output ports show the splitter in place of a feed cable
+  const renderSpliceRow = (row: SpliceRow, rowBgColor: string, rowTestIdPrefix: string) => {
+    const { circuit, distributionCable } = row;
+    const numberCell = <TableCell className="text-center font-mono py-1 px-2">{row.number}</TableCell>;
+
+    if (row.kind === "message") {
+      return (
+        <TableRow key={circuit.id} className={rowBgColor} data-testid={`row-${rowTestIdPrefix}spliced-circuit-${circuit.id}`}>
+          {numberCell}
+          <TableCell colSpan={useRibbonView ? 5 : 7} className="text-center text-muted-foreground">
+            Circuit {circuit.circuitId}{distributionCable ? ` in ${distributionCable.name}` : ""} - {row.message}.
+          </TableCell>
+        </TableRow>
+      );
+    }
+
+    const { distStart, count, offset } = row;
+    const distEnd = distStart + count - 1;
+    const signOffTargets = getSpliceTargets(circuit, offset, count);
+    const distCableCell = <TableCell className="text-center font-mono py-1 px-2 whitespace-nowrap">{distributionCable?.name}-{distributionCable?.fiberCount}</TableCell>;
+    const signOffCell = <TableCell className="py-1 px-2"><SpliceSignOff mode={apiMode} targets={signOffTargets} completions={completionLookup} testId={`sign-off-${circuit.id}-${distStart}`} /></TableCell>;
+    const lossFlag = (testId: string) => <LossBudgetFlag loss={circuitLosses.get(circuit.id)} budgetDb={lossSettings.budgetDb} testId={testId} />;
+    const traceCell = (flagTestId: string, testId?: string) => (
+      <TableCell
+        className="text-center font-mono font-semibold py-1 px-2 whitespace-nowrap cursor-pointer hover:underline"
+        onClick={() => setTraceTarget({ cableId: circuit.cableId, fiber: distStart })}
+        title="Trace fiber path"
+        data-testid={testId}
+      >
+        {row.circuitLabel}
+        {lossFlag(flagTestId)}
+      </TableCell>
+    );
+
+    if (row.kind === "splitter") {
+      const splitterCell = <TableCell className="text-center font-mono py-1 px-2 whitespace-nowrap">{row.splitter.name} ({row.splitter.ratio})</TableCell>;
+      if (useRibbonView) {
+        return (
+          <TableRow key={circuit.id} className={rowBgColor} data-testid={`row-splitter-circuit-${circuit.id}`}>
+            {numberCell}
+            {splitterCell}
+            <TableCell className="text-center font-mono font-semibold py-1 px-2 whitespace-nowrap">
+              P{row.portStart}{row.portStart !== row.portEnd ? `-${row.portEnd}` : ''}
+            </TableCell>
+            {traceCell(circuit.id)}
+            {renderGroupCell(distributionCable, distStart, formatFiberRange(distributionCable, distStart, distEnd))}
+            {distCableCell}
+            {signOffCell}
+          </TableRow>
+        );
+      }
+      return (
+        <TableRow key={`${circuit.id}-port-${offset}`} className={rowBgColor} data-testid={`row-splitter-fiber-${circuit.id}-${offset}`}>
+          {numberCell}
+          {splitterCell}
+          <TableCell className="text-center font-mono text-muted-foreground py-1 px-2">Port</TableCell>
+          <TableCell className="text-center font-mono font-semibold py-1 px-2">{row.portStart}</TableCell>
+          {traceCell(`${circuit.id}-${offset}`)}
+          {renderStrandCell(distributionCable, distStart)}
+          {renderGroupCell(distributionCable, distStart, formatFiberGroup(getFiberPosition(distributionCable, distStart)))}
+          {distCableCell}
+          {signOffCell}
+        </TableRow>
+      );
+    }
+
+    const { feedCable, feedStart } = row;
+    const feedCableCell = <TableCell className="text-center font-mono py-1 px-2 whitespace-nowrap">{feedCable.name}-{feedCable.fiberCount}</TableCell>;
+    if (useRibbonView) {
+      return (
+        <TableRow key={`${circuit.id}-segment-${distStart}`} className={rowBgColor} data-testid={`row-${rowTestIdPrefix}ribbon-${circuit.id}-${distStart}`}>
+          {numberCell}
+          {feedCableCell}
+          {renderGroupCell(feedCable, feedStart, formatFiberRange(feedCable, feedStart, feedStart + count - 1))}
+          <TableCell className="text-center font-mono font-semibold py-1 px-2 whitespace-nowrap">{row.circuitLabel}{lossFlag(`${circuit.id}-${distStart}`)}</TableCell>
+          {renderGroupCell(distributionCable, distStart, formatFiberRange(distributionCable, distStart, distEnd))}
+          {distCableCell}
+          {signOffCell}
+        </TableRow>
+      );
+    }
+    return (
+      <TableRow key={`${circuit.id}-fiber-${offset}`} className={rowBgColor} data-testid={`row-${rowTestIdPrefix}fiber-${circuit.id}-${offset}`}>
+        {numberCell}
+        {feedCableCell}
+        {renderGroupCell(feedCable, feedStart, formatFiberGroup(getFiberPosition(feedCable, feedStart)))}
+        {renderStrandCell(feedCable, feedStart)}
+        {traceCell(`${circuit.id}-${offset}`, `cell-trace-${circuit.id}-${offset}`)}
+        {renderStrandCell(distributionCable, distStart)}
+        {renderGroupCell(distributionCable, distStart, formatFiberGroup(getFiberPosition(distributionCable, distStart)))}
+        {distCableCell}
+        {signOffCell}
+      </TableRow>
+    );
+  };
+
+  // Signed-off rows kept out of the splice tables when only remaining work is shown
+  const isSpliceRowHidden = useMemo(() => remainingOnly
+    ? (row: SpliceRow) => row.kind !== "message" && isSpliceComplete(completionLookup, getSpliceTargets(row.circuit, row.offset, row.count))
+    : undefined, [remainingOnly, completionLookup]);
+
+  // Splice table of a tab; the row count comes from the same rows as the table, exports and PDF.
+  // Signed-off rows keep their numbers when only remaining work is shown
+  const renderSpliceTable = (tableCircuits: Circuit[], toggleId: string, rowTestIdPrefix = "") => (
+    <SpliceRowsTable
+      circuits={tableCircuits}
+      cables={cables}
+      splitters={splitters}
+      useGroupView={useRibbonView}
+      isRowHidden={isSpliceRowHidden}
+      renderRow={(row, rowBgColor) => renderSpliceRow(row, rowBgColor, rowTestIdPrefix)}
+      testId={toggleId}
+      renderHeader={(spliceCount) => (
+        <TableHeader>
+          <TableRow className="bg-muted/50">
+            <TableHead rowSpan={3} className="text-center font-semibold py-1 px-2 whitespace-nowrap align-middle">#</TableHead>
+            <TableHead colSpan={useRibbonView ? 2 : 3} rowSpan={2} className="text-center font-semibold bg-green-100 dark:bg-green-950/50 py-1 px-2 align-middle">Feed</TableHead>
+            <TableHead className="text-center py-1 px-2">
+              <div className="flex items-center justify-center gap-1">
+                <Label htmlFor={`view-toggle-${toggleId}`} className="text-xs text-muted-foreground">Strands</Label>
+                <Switch
+                  id={`view-toggle-${toggleId}`}
+                  checked={useRibbonView}
+                  onCheckedChange={setUseRibbonView}
+                  data-testid={`switch-view-mode-${toggleId}`}
+                  className="scale-75"
+                />
+                <Label htmlFor={`view-toggle-${toggleId}`} className="text-xs text-muted-foreground">Ribbons</Label>
+              </div>
+            </TableHead>
+            <TableHead colSpan={useRibbonView ? 2 : 3} rowSpan={2} className="text-center font-semibold bg-blue-100 dark:bg-blue-950/50 py-1 px-2 align-middle">Distribution</TableHead>
+            <TableHead rowSpan={3} className="text-center font-semibold py-1 px-2 whitespace-nowrap align-middle">Done</TableHead>
+          </TableRow>
+          <TableRow className="bg-muted/50">
+            <TableHead className="text-center font-semibold py-1 px-2 whitespace-nowrap">Splices : {spliceCount ?? "..."}</TableHead>
+          </TableRow>
+          <TableRow>
+            <TableHead className="text-center py-1 px-2 whitespace-nowrap">Cable</TableHead>
+            <TableHead className="text-center py-1 px-2 whitespace-nowrap">Ribbon/Tube</TableHead>
+            {!useRibbonView && <TableHead className="text-center py-1 px-2 whitespace-nowrap">Strand</TableHead>}
+            <TableHead className="text-center py-1 px-2 whitespace-nowrap">Circuit</TableHead>
+            {!useRibbonView && <TableHead className="text-center py-1 px-2 whitespace-nowrap">Strand</TableHead>}
+            <TableHead className="text-center py-1 px-2 whitespace-nowrap">Ribbon/Tube</TableHead>
+            <TableHead className="text-center py-1 px-2 whitespace-nowrap">Cable</TableHead>
+          </TableRow>
+        </TableHeader>
+      )}
+    />
+  );
+
+  const handleEnclosureSelect = (enclosureId: string | null) => {
+    setSelectedEnclosureId(enclosureId);
+    setSelectedCableId(null);
+  };
+
   // Sort cables: Feed first, then Distribution (maintaining insertion order within each type)
   const sortedCables = useMemo(() => {
     const feedCables = cables.filter(c => c.type === "Feed");
@@ -87,6 +412,7 @@ export default function Home({ mode, setMode }: { mode: "fiber" | "copper"; setM
       return await apiRequest("POST", cablesEndpoint, data);
     },
     onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [enclosuresEndpoint] });
       queryClient.invalidateQueries({ queryKey: [cablesEndpoint] });
       queryClient.invalidateQueries({ queryKey: [circuitsEndpoint] });
       setCableDialogOpen(false);
@@ -122,6 +448,7 @@ export default function Home({ mode, setMode }: { mode: "fiber" | "copper"; setM
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: [cablesEndpoint] });
       queryClient.invalidateQueries({ queryKey: [circuitsEndpoint] });
+      queryClient.invalidateQueries({ queryKey: [`/api/${apiMode}/splitters`] });
       toast({ title: "Cable deleted successfully" });
     },
     onError: (error: any) => {
@@ -142,6 +469,8 @@ export default function Home({ mode, setMode }: { mode: "fiber" | "copper"; setM
     },
     onSuccess: async () => {
       // Force refetch to clear the UI
+      await queryClient.refetchQueries({ queryKey: [enclosuresEndpoint] });
+      await queryClient.refetchQueries({ queryKey: [`/api/${apiMode}/splitters`] });
       await queryClient.refetchQueries({ queryKey: [cablesEndpoint] });
       await queryClient.refetchQueries({ queryKey: [circuitsEndpoint] });
       setSelectedCableId(null);
@@ -159,39 +488,52 @@ export default function Home({ mode, setMode }: { mode: "fiber" | "copper"; setM
   };
 
   const handleSaveConfirm = async () => {
-    const projectData = {
-      mode: mode, // Store the current mode
-      cables,
-      circuits: allCircuits,
-    };
+    if (!activeProject) return;
+    const project = createProjectFile(activeProject, {
+      enclosures,
+      splitters: projectSplitters,
+      cables: projectCables,
+      circuits: projectCircuits,
+      spliceCompletions,
+      otdrTraces,
+      fiberStatuses,
+    });
 
-    const dataStr = JSON.stringify(projectData, null, 2);
-    const dataBlob = new Blob([dataStr], { type: 'application/json' });
-    
-    const url = URL.createObjectURL(dataBlob);
-    const link = document.createElement('a');
-    link.href = url;
-    
     // Use user-provided filename or default
-    const filename = saveFileName.trim() 
+    const filename = saveFileName.trim()
       ? `${saveFileName.trim()}.json`
       : `fiber-splice-project-${new Date().toISOString().replace(/[:.]/g, '-')}.json`;
-    
-    link.download = filename;
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
-    URL.revokeObjectURL(url);
-    
+
+    downloadProjectFile(project, filename);
+
     setSaveDialogOpen(false);
     setSaveFileName("");
     
     toast({ 
       title: "Project saved", 
-      description: `${cables.length} cable(s) and ${allCircuits.length} circuit(s) saved to file` 
+      description: `${enclosures.length} enclosure(s), ${projectCables.length} cable(s) and ${projectCircuits.length} circuit(s) saved to file` 
     });
   };
 
+  // Print-ready PDF of exactly what the splice tab shows, in the current ribbon/strand view
+  const handleExportSpliceSheet = (title: string, fileName: string, sheetCircuits: Circuit[], cable?: Cable) => {
+    try {
+      downloadSpliceSheet(
+        { title, enclosure: enclosures.find(e => e.id === activeEnclosureId), cable },
+        sheetCircuits,
+        cables,
+        splitters,
+        useRibbonView,
+        fileName,
+        fiberSheetLayout,
+        colorCodes
+      );
+    } catch (error) {
+      console.error("Splice sheet error:", error);
+      toast({ title: "Failed to generate splice sheet", variant: "destructive" });
+    }
+  };
+
   const handleLoad = () => {
     const input = document.createElement('input');
     input.type = 'file';
@@ -201,38 +543,37 @@ export default function Home({ mode, setMode }: { mode: "fiber" | "copper"; setM
       if (!file) return;
 
       try {
-        const text = await file.text();
-        const projectData = JSON.parse(text);
-
-        if (!projectData.cables || !projectData.circuits) {
-          toast({ title: "Invalid project file format", variant: "destructive" });
+        // Older files are migrated; anything invalid is reported in full and nothing is loaded
+        const parsed = await readProjectFile(file);
+        if (!parsed.success) {
+          setLoadErrors({ fileName: file.name, errors: parsed.errors });
           return;
         }
-
-        // Detect the mode from the saved file (default to 'fiber' for backwards compatibility)
-        const savedMode = projectData.mode || 'fiber';
+        const { project: projectData, migratedFrom } = parsed;
+        const savedMode = projectData.mode;
 
         // Switch to the correct mode
         setMode(savedMode);
 
-        // Use mode-specific database and API endpoints
-        const { getDb } = await import("@/lib/db");
-        const targetDb = getDb(savedMode);
-
-        // Clear the mode-specific database first
-        await apiRequest("DELETE", `/api/${savedMode}/reset`, undefined);
-
-        // Restore cables and circuits to the correct mode's database
-        await targetDb.cables.bulkAdd(projectData.cables);
-        await targetDb.circuits.bulkAdd(projectData.circuits);
+        // The file opens as a new project, leaving the current one untouched
+        await storage.createProject({
+          name: projectData.projectName ?? file.name.replace(/\.json$/i, ''),
+          jobNumber: projectData.jobNumber,
+          createdAt: projectData.createdAt,
+          lossSettings: projectData.lossSettings ? JSON.stringify(projectData.lossSettings) : null,
+          colorCodes: projectData.colorCodes.length > 0 ? JSON.stringify(projectData.colorCodes) : null,
+        }, savedMode);
+        await storage.restoreProject(projectData, savedMode);
+        setSelectedEnclosureId(null);
+        setSelectedCableId(null);
 
         // Invalidate mode-specific queries to refresh the UI
-        queryClient.invalidateQueries({ queryKey: [`/api/${savedMode}/cables`] });
-        queryClient.invalidateQueries({ queryKey: [`/api/${savedMode}/circuits`] });
+        await invalidateModeQueries(savedMode);
 
         toast({
           title: "Project loaded successfully",
-          description: `${projectData.cables.length} cable(s) and ${projectData.circuits.length} circuit(s) restored to ${savedMode} mode`
+          description: `${projectData.cables.length} cable(s) and ${projectData.circuits.length} circuit(s) loaded as a new ${savedMode} project` +
+            (migratedFrom !== null ? ` (upgraded from file format ${migratedFrom})` : '')
         });
       } catch (error) {
         console.error("Load error:", error);
@@ -246,7 +587,7 @@ export default function Home({ mode, setMode }: { mode: "fiber" | "copper"; setM
     if (editingCable) {
       updateCableMutation.mutate({ id: editingCable.id, data });
     } else {
-      createCableMutation.mutate(data);
+      createCableMutation.mutate({ ...data, enclosureId: activeEnclosureId });
     }
   };
 
@@ -268,6 +609,68 @@ export default function Home({ mode, setMode }: { mode: "fiber" | "copper"; setM
     return cables.filter(c => c.type === "Feed");
   }, [cables]);
 
+  // Spliced circuits grouped by circuit ID prefix for the prefix splice tabs, sorted by range start
+  const splicedCircuitsByPrefix = useMemo(() => {
+    const groupedByPrefix: Record<string, Circuit[]> = {};
+    splicedCircuits.forEach(circuit => {
+      const prefix = circuit.circuitId.split(',')[0]?.trim() || 'Unknown';
+      (groupedByPrefix[prefix] ??= []).push(circuit);
+    });
+    // Range start from a circuit ID, e.g. "pon,9-16" => 9
+    const getRangeStart = (circuitId: string): number => {
+      const rangeParts = (circuitId.split(',')[1]?.trim() || '').split('-');
+      return parseInt(rangeParts[0]?.trim() || '0') || 0;
+    };
+    return Object.keys(groupedByPrefix).sort().map(prefix => ({
+      prefix,
+      circuits: [...groupedByPrefix[prefix]].sort((a, b) => getRangeStart(a.circuitId) - getRangeStart(b.circuitId)),
+    }));
+  }, [splicedCircuits]);
+
+  // Spliced circuits listed on each cable's splice tab, in table order; kept between renders so the
+  // tables only lay their rows out again when circuits change
+  const splicedCircuitsByCable = useMemo(() => {
+    const listCircuits = (cable: Cable) => {
+      if (cable.type === "Feed") {
+        return allCircuits
+          .filter(c => c.isSpliced === 1 && c.feedCableId === cable.id)
+          .sort((a, b) => (a.feedFiberStart || 0) - (b.feedFiberStart || 0));
+      }
+      return splicedCircuits.filter(c => c.cableId === cable.id).sort((a, b) => {
+        try {
+          const partsA = parseCircuitIdParts(a.circuitId);
+          const partsB = parseCircuitIdParts(b.circuitId);
+          if (partsA.prefix !== partsB.prefix) return partsA.prefix.localeCompare(partsB.prefix);
+          return partsA.rangeStart - partsB.rangeStart;
+        } catch {
+          return a.circuitId.localeCompare(b.circuitId);
+        }
+      });
+    };
+    return new Map(cables.map(cable => [cable.id, listCircuits(cable)]));
+  }, [cables, allCircuits, splicedCircuits]);
+  const getCableSplicedCircuits = (cable: Cable) => splicedCircuitsByCable.get(cable.id) ?? [];
+
+  // The circuit list on its own as CSV; the XLSX workbook adds a sheet for every non-empty splice tab
+  const handleExportCircuits = (format: SpreadsheetFormat) => {
+    const enclosureName = enclosures.find(e => e.id === activeEnclosureId)?.name ?? "fiber";
+    const tables = [buildCircuitListTable(cables, allCircuits, splitters, "fiber")];
+    if (format === "xlsx") {
+      tables.push(
+        ...splicedCircuitsByPrefix.map(({ prefix, circuits }) => buildSpliceTable(`${prefix} Splice`, circuits, cables, splitters, useRibbonView, fiberSheetLayout, colorCodes)),
+        ...[...distributionCables, ...feedCables]
+          .map(cable => ({ cable, circuits: getCableSplicedCircuits(cable) }))
+          .filter(({ circuits }) => circuits.length > 0)
+          .map(({ cable, circuits }) => buildSpliceTable(cable.name, circuits, cables, splitters, useRibbonView, fiberSheetLayout, colorCodes))
+      );
+    }
+    downloadSpreadsheet(tables, format, `${enclosureName}-circuits`);
+  };
+
+  const handleExportSpliceTable = (format: SpreadsheetFormat, title: string, fileName: string, tableCircuits: Circuit[]) => {
+    downloadSpreadsheet([buildSpliceTable(title, tableCircuits, cables, splitters, useRibbonView, fiberSheetLayout, colorCodes)], format, `${fileName}-splices`);
+  };
+
   const selectedCable = cables.find((c) => c.id === selectedCableId);
 
   return (
@@ -298,15 +701,39 @@ export default function Home({ mode, setMode }: { mode: "fiber" | "copper"; setM
               </div>
             </div>
             <div className="flex items-center gap-2">
+              <UndoRedoButtons mode={apiMode} />
+              <ProjectSwitcher
+                mode={apiMode}
+                onSwitch={() => {
+                  setSelectedEnclosureId(null);
+                  setSelectedCableId(null);
+                }}
+              />
+              <SyncStatusButton
+                mode={apiMode}
+                onSwitch={() => {
+                  setSelectedEnclosureId(null);
+                  setSelectedCableId(null);
+                }}
+              />
+              <CollaboratorsMenu peers={peers} cables={projectCables} />
+              <AccountMenu />
               <Button
                 variant="outline"
                 size="sm"
                 onClick={handleLoad}
+                disabled={!canEditDesign}
                 data-testid="button-load"
               >
                 <Upload className="h-4 w-4 mr-2" />
                 Load
               </Button>
+              <ExportMenu
+                onExport={handleExportCircuits}
+                testId="button-export-circuits"
+                csvLabel="Circuit list (CSV)"
+                xlsxLabel="Circuits + splice tables (XLSX)"
+              />
               <Button
                 variant="default"
                 size="sm"
@@ -320,6 +747,7 @@ export default function Home({ mode, setMode }: { mode: "fiber" | "copper"; setM
                 variant="destructive"
                 size="sm"
                 onClick={() => setResetDialogOpen(true)}
+                disabled={!canEditDesign}
                 data-testid="button-reset"
               >
                 <RotateCcw className="h-4 w-4 mr-2" />
@@ -331,17 +759,34 @@ export default function Home({ mode, setMode }: { mode: "fiber" | "copper"; setM
       </header>
 
       <main className="container mx-auto px-6 py-6">
-        <Tabs defaultValue="input" className="w-full">
+        <FiberAssignmentAlert mode={apiMode} cables={projectCables} circuits={projectCircuits} />
+        <div className="mb-4">
+          <EnclosureSelector
+            mode={apiMode}
+            enclosures={enclosures}
+            selectedEnclosureId={activeEnclosureId}
+            onSelect={handleEnclosureSelect}
+          />
+        </div>
+
+        {/* Re-mount tabs per enclosure so a tab from another enclosure is never left selected */}
+        <Tabs key={activeEnclosureId ?? "none"} value={activeTab} onValueChange={setActiveTab} className="w-full">
           {/* Tab Navigation with Section Labels */}
           <div className="mb-6">
             <TabsList data-testid="tabs-main" className="w-full justify-start bg-transparent p-0">
               {/* Home Section - No Header */}
               <div className="inline-flex flex-col">
                 <div className="h-6 mb-2"></div>
-                <TabsTrigger value="input" data-testid="tab-input-data">
-                  <HomeIcon className="h-4 w-4 mr-2" />
-                  Home
-                </TabsTrigger>
+                <div className="inline-flex">
+                  <TabsTrigger value="input" data-testid="tab-input-data">
+                    <HomeIcon className="h-4 w-4 mr-2" />
+                    Home
+                  </TabsTrigger>
+                  <TabsTrigger value="dashboard" data-testid="tab-dashboard">
+                    <BarChart3 className="h-4 w-4 mr-2" />
+                    Dashboard
+                  </TabsTrigger>
+                </div>
               </div>
 
               {/* ID Splice Section with Header */}
@@ -400,6 +845,7 @@ export default function Home({ mode, setMode }: { mode: "fiber" | "copper"; setM
                         >
                           <CableIcon className="h-4 w-4 mr-2" />
                           {distCable.name}
+                          <PresenceAvatars peers={peersOnCable(distCable.id)} label="has this cable open" className="ml-2" />
                         </TabsTrigger>
                       ))}
                       {feedCables.map((feedCable) => (
@@ -410,6 +856,7 @@ export default function Home({ mode, setMode }: { mode: "fiber" | "copper"; setM
                         >
                           <CableIcon className="h-4 w-4 mr-2" />
                           {feedCable.name}
+                          <PresenceAvatars peers={peersOnCable(feedCable.id)} label="has this cable open" className="ml-2" />
                         </TabsTrigger>
                       ))}
                     </div>
@@ -455,6 +902,7 @@ export default function Home({ mode, setMode }: { mode: "fiber" | "copper"; setM
                         <span className={`ml-1 text-xs px-1.5 py-0.5 rounded ${isValid ? 'bg-green-500/20 text-green-600 dark:text-green-400' : 'bg-red-500/20 text-red-600 dark:text-red-400'}`}>
                           {isValid ? 'Pass' : 'Fail'}
                         </span>
+                        <PresenceAvatars peers={peersOnCable(cable.id)} label="has this cable open" />
                       </Button>
                     );
                   })
@@ -466,12 +914,24 @@ export default function Home({ mode, setMode }: { mode: "fiber" | "copper"; setM
                     setEditingCable(null);
                     setCableDialogOpen(true);
                   }}
+                  disabled={!canEditDesign}
                   data-testid="button-add-cable"
                   className="border-dashed"
                 >
                   <Plus className="h-4 w-4 mr-1" />
                   Add Cable
                 </Button>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => setImportDialogOpen(true)}
+                  disabled={!canEditDesign}
+                  data-testid="button-import-cables"
+                  className="border-dashed"
+                >
+                  <FileUp className="h-4 w-4 mr-1" />
+                  Import
+                </Button>
               </div>
 
               <div>
@@ -489,6 +949,7 @@ export default function Home({ mode, setMode }: { mode: "fiber" | "copper"; setM
                             setEditingCable(selectedCable);
                             setCableDialogOpen(true);
                           }}
+                          disabled={!canEditDesign}
                           data-testid="button-edit-cable"
                         >
                           <Edit2 className="h-4 w-4 mr-1" />
@@ -501,6 +962,7 @@ export default function Home({ mode, setMode }: { mode: "fiber" | "copper"; setM
                             deleteCableMutation.mutate(selectedCable.id);
                             setSelectedCableId(null);
                           }}
+                          disabled={!canEditDesign}
                           data-testid="button-delete-cable"
                         >
                           <Trash2 className="h-4 w-4 mr-1" />
@@ -567,6 +1029,7 @@ export default function Home({ mode, setMode }: { mode: "fiber" | "copper"; setM
                                     setTempType(selectedCable.type as "Feed" | "Distribution");
                                     setEditingType(true);
                                   }}
+                                  disabled={!canEditDesign}
                                   data-testid="button-edit-type"
                                 >
                                   <Edit2 className="h-3 w-3" />
@@ -628,6 +1091,7 @@ export default function Home({ mode, setMode }: { mode: "fiber" | "copper"; setM
                                     setTempSize(selectedCable.fiberCount);
                                     setEditingSize(true);
                                   }}
+                                  disabled={!canEditDesign}
                                   data-testid="button-edit-size"
                                 >
                                   <Edit2 className="h-3 w-3" />
@@ -637,6 +1101,13 @@ export default function Home({ mode, setMode }: { mode: "fiber" | "copper"; setM
                           </div>
                         </div>
 
+                        <CableVisualization
+                          mode={mode}
+                          cable={selectedCable}
+                          circuits={projectCircuits}
+                          statuses={fiberStatusLookup}
+                        />
+
                         <CircuitManagement cable={selectedCable} mode={mode} />
                       </div>
                     ) : (
@@ -646,405 +1117,119 @@ export default function Home({ mode, setMode }: { mode: "fiber" | "copper"; setM
                     )}
                   </CardContent>
                 </Card>
+
+                {/* PON splitters in this enclosure */}
+                <div className="mt-6">
+                  <SplitterManagement
+                    enclosureId={activeEnclosureId}
+                    splitters={splitters}
+                    cables={cables}
+                    circuits={allCircuits}
+                  />
+                </div>
               </div>
             </div>
           </TabsContent>
 
+          <TabsContent value="dashboard">
+            <UtilizationDashboard
+              mode={mode}
+              enclosures={enclosures}
+              cables={projectCables}
+              circuits={projectCircuits}
+              splitters={projectSplitters}
+              statuses={fiberStatusLookup}
+              activeEnclosureId={activeEnclosureId}
+            />
+          </TabsContent>
+
           {/* Dynamic TabsContent for each unique circuit ID prefix - sorted by range */}
-          {(() => {
-            // Group all spliced circuits by their circuit ID prefix
-            const groupedByPrefix: Record<string, Circuit[]> = {};
-            splicedCircuits.forEach(circuit => {
-              const parts = circuit.circuitId.split(',');
-              const prefix = parts[0]?.trim() || 'Unknown';
-              if (!groupedByPrefix[prefix]) {
-                groupedByPrefix[prefix] = [];
-              }
-              groupedByPrefix[prefix].push(circuit);
-            });
-            
-            const prefixes = Object.keys(groupedByPrefix).sort();
-            
-            // Fiber optic color codes (12 colors, repeating pattern)
-            const fiberColors = [
-              { name: "blue", bg: "bg-blue-500", text: "text-white", colorClass: "text-blue-500" },
-              { name: "orange", bg: "bg-orange-500", text: "text-white", colorClass: "text-orange-500" },
-              { name: "green", bg: "bg-green-600", text: "text-white", colorClass: "text-green-600" },
-              { name: "brown", bg: "bg-amber-700", text: "text-white", colorClass: "text-amber-700" },
-              { name: "slate", bg: "bg-slate-500", text: "text-white", colorClass: "text-slate-500" },
-              { name: "white", bg: "bg-white", text: "text-black", colorClass: "text-slate-700" },
-              { name: "red", bg: "bg-red-600", text: "text-white", colorClass: "text-red-600" },
-              { name: "black", bg: "bg-black", text: "text-white", colorClass: "text-slate-900" },
-              { name: "yellow", bg: "bg-yellow-400", text: "text-black", colorClass: "text-yellow-500" },
-              { name: "violet", bg: "bg-purple-600", text: "text-white", colorClass: "text-purple-600" },
-              { name: "pink", bg: "bg-pink-500", text: "text-white", colorClass: "text-pink-500" },
-              { name: "aqua", bg: "bg-cyan-400", text: "text-black", colorClass: "text-cyan-500" },
-            ];
-            
-            const ribbonSize = 12;
-            const getRibbonNumber = (fiber: number) => Math.ceil(fiber / ribbonSize);
-            const getFiberPositionInRibbon = (fiber: number) => ((fiber - 1) % ribbonSize) + 1;
-            const getColorForStrand = (strand: number) => fiberColors[(strand - 1) % 12];
-            const getColorForRibbon = (ribbon: number) => fiberColors[(ribbon - 1) % 12];
-            
-            // Helper to extract range start from circuit ID
-            const getRangeStart = (circuitId: string): number => {
-              const parts = circuitId.split(',');
-              if (parts.length < 2) return 0;
-              const rangePart = parts[1]?.trim() || '';
-              const rangeParts = rangePart.split('-');
-              return parseInt(rangeParts[0]?.trim() || '0') || 0;
-            };
-            
-            return prefixes.map(prefix => {
-              // Sort circuits by their range start number
-              const prefixCircuits = [...groupedByPrefix[prefix]].sort((a, b) => {
-                return getRangeStart(a.circuitId) - getRangeStart(b.circuitId);
-              });
-
-              // Calculate total rows by actually counting them
-              let totalSpliceRows = 0;
-              console.log(`[SPLICE COUNT] Prefix: ${prefix}, Circuits:`, prefixCircuits.length);
-              prefixCircuits.forEach((circuit, idx) => {
-                const feedFiberStart = circuit.feedFiberStart || circuit.fiberStart;
-                const feedFiberEnd = circuit.feedFiberEnd || circuit.fiberEnd;
-                console.log(`[SPLICE COUNT] Circuit ${idx} (${circuit.circuitId}): feedFiberStart=${feedFiberStart}, feedFiberEnd=${feedFiberEnd}`);
-
-                if (!feedFiberStart || !feedFiberEnd) {
-                  totalSpliceRows++;
-                  return;
-                }
-
-                if (useRibbonView) {
-                  const distFiberStart = circuit.fiberStart;
-                  const distFiberEnd = circuit.fiberEnd;
-
-                  let currentDistFiber = distFiberStart;
-                  let currentFeedFiber = feedFiberStart;
-                  let rowsForThisCircuit = 0;
-
-                  while (currentDistFiber <= distFiberEnd) {
-                    const currentDistRibbon = getRibbonNumber(currentDistFiber);
-                    const currentFeedRibbon = getRibbonNumber(currentFeedFiber);
-
-                    const distRibbonEnd = currentDistRibbon * ribbonSize;
-                    const distSegmentEnd = Math.min(distRibbonEnd, distFiberEnd);
-                    const feedRibbonEnd = currentFeedRibbon * ribbonSize;
-                    const feedSegmentEnd = Math.min(feedRibbonEnd, feedFiberEnd);
-
-                    const distFiberCount = distSegmentEnd - currentDistFiber + 1;
-                    const feedFiberCount = feedSegmentEnd - currentFeedFiber + 1;
-                    const segmentFiberCount = Math.min(distFiberCount, feedFiberCount);
-
-                    rowsForThisCircuit++;
-                    totalSpliceRows++;
-
-                    currentDistFiber += segmentFiberCount;
-                    currentFeedFiber += segmentFiberCount;
-                  }
-                  console.log(`[SPLICE COUNT] Circuit ${idx} generated ${rowsForThisCircuit} rows`);
-                } else {
-                  totalSpliceRows += (feedFiberEnd - feedFiberStart + 1);
-                }
-              });
-              console.log(`[SPLICE COUNT] Total rows for prefix ${prefix}: ${totalSpliceRows}`);
-
-              return (
-                <TabsContent key={`prefix-${prefix}`} value={`prefix-splice-${prefix}`}>
-                  <Card>
-                    <CardHeader>
-                      <CardTitle>{prefix} Splice</CardTitle>
-                    </CardHeader>
-                    <CardContent>
-                      {prefixCircuits.length === 0 ? (
-                        <div className="text-center py-12 text-muted-foreground" data-testid={`text-no-prefix-splices-${prefix}`}>
-                          No circuits marked as spliced for {prefix}.
-                        </div>
-                      ) : (
-                        <div className="rounded-md border overflow-x-auto inline-block">
-                          <Table className="text-sm w-auto">
-                            <TableHeader>
-                              <TableRow className="bg-muted/50">
-                                <TableHead rowSpan={3} className="text-center font-semibold py-1 px-2 whitespace-nowrap align-middle">#</TableHead>
-                                <TableHead colSpan={useRibbonView ? 2 : 3} rowSpan={2} className="text-center font-semibold bg-green-100 dark:bg-green-950/50 py-1 px-2 align-middle">Feed</TableHead>
-                                <TableHead className="text-center py-1 px-2">
-                                  <div className="flex items-center justify-center gap-1">
-                                    <Label htmlFor={`view-toggle-prefix-${prefix}`} className="text-xs text-muted-foreground">Strands</Label>
-                                    <Switch
-                                      id={`view-toggle-prefix-${prefix}`}
-                                      checked={useRibbonView}
-                                      onCheckedChange={setUseRibbonView}
-                                      data-testid={`switch-view-mode-prefix-${prefix}`}
-                                      className="scale-75"
-                                    />
-                                    <Label htmlFor={`view-toggle-prefix-${prefix}`} className="text-xs text-muted-foreground">Ribbons</Label>
-                                  </div>
-                                </TableHead>
-                                <TableHead colSpan={useRibbonView ? 2 : 3} rowSpan={2} className="text-center font-semibold bg-blue-100 dark:bg-blue-950/50 py-1 px-2 align-middle">Distribution</TableHead>
-                              </TableRow>
-                              <TableRow className="bg-muted/50">
-                                <TableHead className="text-center font-semibold py-1 px-2 whitespace-nowrap">Splices : {totalSpliceRows}</TableHead>
-                              </TableRow>
-                              <TableRow>
-                                <TableHead className="text-center py-1 px-2 whitespace-nowrap">Cable</TableHead>
-                                <TableHead className="text-center py-1 px-2 whitespace-nowrap">Ribbon</TableHead>
-                                {!useRibbonView && <TableHead className="text-center py-1 px-2 whitespace-nowrap">Strand</TableHead>}
-                                <TableHead className="text-center py-1 px-2 whitespace-nowrap">Circuit</TableHead>
-                                {!useRibbonView && <TableHead className="text-center py-1 px-2 whitespace-nowrap">Strand</TableHead>}
-                                <TableHead className="text-center py-1 px-2 whitespace-nowrap">Ribbon</TableHead>
-                                <TableHead className="text-center py-1 px-2 whitespace-nowrap">Cable</TableHead>
-                              </TableRow>
-                            </TableHeader>
-                            <TableBody>
-                              {(() => {
-                                let rowNumber = 0;
-                                return prefixCircuits.flatMap((circuit, circuitIndex) => {
-                                  const distributionCable = cables.find((c) => c.id === circuit.cableId);
-                                  const feedCable = circuit.feedCableId ? cables.find((c) => c.id === circuit.feedCableId) : undefined;
-                                  
-                                  const rowBgColor = circuitIndex % 2 === 0 
-                                    ? "bg-white dark:bg-background" 
-                                    : "bg-gray-200 dark:bg-muted/50";
-                                  
-                                  if (!feedCable) {
-                                    rowNumber++;
-                                    return [(
-                                      <TableRow key={circuit.id} className={rowBgColor}>
-                                        <TableCell className="text-center font-mono py-1 px-2">{rowNumber}</TableCell>
-                                        <TableCell colSpan={useRibbonView ? 4 : 6} className="text-center text-muted-foreground">
-                                          Circuit {circuit.circuitId} - No feed cable selected.
-                                        </TableCell>
-                                      </TableRow>
-                                    )];
-                                  }
-                                  
-                                  const circuitIdParts = circuit.circuitId.split(',');
-                                  const circuitPrefix = circuitIdParts[0] || "";
-                                  const circuitRange = circuitIdParts[1] || "";
-                                  const rangeParts = circuitRange.split('-');
-                                  
-                                  if (rangeParts.length !== 2 || !rangeParts[0] || !rangeParts[1]) {
-                                    rowNumber++;
-                                    return [(
-                                      <TableRow key={circuit.id} className={rowBgColor}>
-                                        <TableCell className="text-center font-mono py-1 px-2">{rowNumber}</TableCell>
-                                        <TableCell colSpan={useRibbonView ? 4 : 6} className="text-center text-muted-foreground">
-                                          Circuit {circuit.circuitId} - Invalid format.
-                                        </TableCell>
-                                      </TableRow>
-                                  )];
-                                }
-                                
-                                  const rangeStart = parseInt(rangeParts[0].trim());
-                                  const rangeEnd = parseInt(rangeParts[1].trim());
-                                  
-                                  if (isNaN(rangeStart) || isNaN(rangeEnd)) {
-                                    rowNumber++;
-                                    return [(
-                                      <TableRow key={circuit.id} className={rowBgColor}>
-                                        <TableCell className="text-center font-mono py-1 px-2">{rowNumber}</TableCell>
-                                        <TableCell colSpan={useRibbonView ? 4 : 6} className="text-center text-muted-foreground">
-                                          Circuit {circuit.circuitId} - Invalid range.
-                                        </TableCell>
-                                      </TableRow>
-                                    )];
-                                  }
-                                  
-                                  if (useRibbonView) {
-                                    const ribbonRows = [];
-                                    const distFiberStart = circuit.fiberStart;
-                                    const distFiberEnd = circuit.fiberEnd;
-                                    const feedFiberStart = circuit.feedFiberStart || circuit.fiberStart;
-                                    const feedFiberEnd = circuit.feedFiberEnd || circuit.fiberEnd;
-                                    
-                                    if (!distFiberStart || !distFiberEnd || !feedFiberStart || !feedFiberEnd) {
-                                      rowNumber++;
-                                      return [(
-                                        <TableRow key={circuit.id} className={rowBgColor}>
-                                          <TableCell className="text-center font-mono py-1 px-2">{rowNumber}</TableCell>
-                                          <TableCell colSpan={4} className="text-center text-muted-foreground">
-                                            Circuit {circuit.circuitId} - Invalid fiber positions.
-                                          </TableCell>
-                                        </TableRow>
-                                      )];
-                                    }
-                                    
-                                    let currentDistFiber = distFiberStart;
-                                    let currentFeedFiber = feedFiberStart;
-                                    
-                                    while (currentDistFiber <= distFiberEnd) {
-                                      const currentDistRibbon = getRibbonNumber(currentDistFiber);
-                                      const currentFeedRibbon = getRibbonNumber(currentFeedFiber);
-                                      
-                                      const distRibbonEnd = currentDistRibbon * ribbonSize;
-                                      const distSegmentEnd = Math.min(distRibbonEnd, distFiberEnd);
-                                      const feedRibbonEnd = currentFeedRibbon * ribbonSize;
-                                      const feedSegmentEnd = Math.min(feedRibbonEnd, feedFiberEnd);
-                                      
-                                      const distFiberCount = distSegmentEnd - currentDistFiber + 1;
-                                      const feedFiberCount = feedSegmentEnd - currentFeedFiber + 1;
-                                      const segmentFiberCount = Math.min(distFiberCount, feedFiberCount);
-                                      
-                                      const fiberOffset = currentDistFiber - distFiberStart;
-                                      const circuitStart = rangeStart + fiberOffset;
-                                      const circuitEnd = circuitStart + segmentFiberCount - 1;
-                                      
-                                      const distStrandStart = getFiberPositionInRibbon(currentDistFiber);
-                                      const distStrandEnd = getFiberPositionInRibbon(currentDistFiber + segmentFiberCount - 1);
-                                      const feedStrandStart = getFiberPositionInRibbon(currentFeedFiber);
-                                      const feedStrandEnd = getFiberPositionInRibbon(currentFeedFiber + segmentFiberCount - 1);
-                                      
-                                      const feedRibbonColor = getColorForRibbon(currentFeedRibbon);
-                                      const distRibbonColor = getColorForRibbon(currentDistRibbon);
-                                      
-                                      rowNumber++;
-                                      ribbonRows.push(
-                                        <TableRow key={`${circuit.id}-segment-${currentDistFiber}`} className={rowBgColor}>
-                                          <TableCell className="text-center font-mono py-1 px-2">{rowNumber}</TableCell>
-                                          <TableCell className="text-center font-mono py-1 px-2 whitespace-nowrap">{feedCable.name}-{feedCable.fiberCount}</TableCell>
-                                          <TableCell className={`text-center font-mono font-semibold py-1 px-2 whitespace-nowrap ${feedRibbonColor.colorClass}`}>
-                                            R{currentFeedRibbon}:{feedStrandStart}{feedStrandStart !== feedStrandEnd ? `-${feedStrandEnd}` : ''}
-                                          </TableCell>
-                                          <TableCell className="text-center font-mono font-semibold py-1 px-2 whitespace-nowrap">{circuitPrefix},{circuitStart}-{circuitEnd}</TableCell>
-                                          <TableCell className={`text-center font-mono font-semibold py-1 px-2 whitespace-nowrap ${distRibbonColor.colorClass}`}>
-                                            R{currentDistRibbon}:{distStrandStart}{distStrandStart !== distStrandEnd ? `-${distStrandEnd}` : ''}
-                                          </TableCell>
-                                          <TableCell className="text-center font-mono py-1 px-2 whitespace-nowrap">{distributionCable?.name}-{distributionCable?.fiberCount}</TableCell>
-                                        </TableRow>
-                                      );
-                                      
-                                      currentDistFiber += segmentFiberCount;
-                                      currentFeedFiber += segmentFiberCount;
-                                    }
-                                    
-                                    return ribbonRows;
-                                  } else {
-                                    const fiberRows = [];
-                                    
-                                    if (!circuit.fiberStart || !circuit.fiberEnd) {
-                                      rowNumber++;
-                                      return [(
-                                        <TableRow key={circuit.id} className={rowBgColor}>
-                                          <TableCell className="text-center font-mono py-1 px-2">{rowNumber}</TableCell>
-                                          <TableCell colSpan={6} className="text-center text-muted-foreground">
-                                            Circuit {circuit.circuitId} - Invalid fiber positions.
-                                          </TableCell>
-                                        </TableRow>
-                                      )];
-                                    }
-                                    
-                                    for (let i = 0; i < circuit.fiberEnd - circuit.fiberStart + 1; i++) {
-                                      const distFiber = circuit.fiberStart + i;
-                                      const feedFiber = (circuit.feedFiberStart || circuit.fiberStart) + i;
-                                      
-                                      const distRibbon = getRibbonNumber(distFiber);
-                                      const distStrand = getFiberPositionInRibbon(distFiber);
-                                      const feedRibbon = getRibbonNumber(feedFiber);
-                                      const feedStrand = getFiberPositionInRibbon(feedFiber);
-                                      
-                                      const circuitNumber = rangeStart + i;
-                                      const feedColor = getColorForStrand(feedStrand);
-                                      const distColor = getColorForStrand(distStrand);
-                                      const feedRibbonColor = getColorForRibbon(feedRibbon);
-                                      const distRibbonColor = getColorForRibbon(distRibbon);
-                                      
-                                      rowNumber++;
-                                      fiberRows.push(
-                                        <TableRow key={`${circuit.id}-fiber-${i}`} className={rowBgColor}>
-                                          <TableCell className="text-center font-mono py-1 px-2">{rowNumber}</TableCell>
-                                          <TableCell className="text-center font-mono py-1 px-2 whitespace-nowrap">{feedCable.name}-{feedCable.fiberCount}</TableCell>
-                                          <TableCell className={`text-center font-mono font-semibold py-1 px-2 whitespace-nowrap ${feedRibbonColor.colorClass}`}>R{feedRibbon}</TableCell>
-                                          <TableCell className="text-center py-1 px-2">
-                                            <div className={`inline-block px-1.5 py-0.5 rounded border border-black ${feedColor.bg} ${feedColor.text} font-mono font-semibold text-xs`}>
-                                              {feedStrand}
-                                            </div>
-                                          </TableCell>
-                                          <TableCell className="text-center font-mono font-semibold py-1 px-2 whitespace-nowrap">{circuitPrefix},{circuitNumber}</TableCell>
-                                          <TableCell className="text-center py-1 px-2">
-                                            <div className={`inline-block px-1.5 py-0.5 rounded border border-black ${distColor.bg} ${distColor.text} font-mono font-semibold text-xs`}>
-                                              {distStrand}
-                                            </div>
-                                          </TableCell>
-                                          <TableCell className={`text-center font-mono font-semibold py-1 px-2 whitespace-nowrap ${distRibbonColor.colorClass}`}>R{distRibbon}</TableCell>
-                                          <TableCell className="text-center font-mono py-1 px-2 whitespace-nowrap">{distributionCable?.name}-{distributionCable?.fiberCount}</TableCell>
-                                        </TableRow>
-                                      );
-                                    }
-                                    
-                                    return fiberRows;
-                                  }
-                                });
-                              })()}
-                            </TableBody>
-                          </Table>
-                        </div>
-                      )}
-                    </CardContent>
-                  </Card>
-                </TabsContent>
-              );
-            });
-          })()}
+          {splicedCircuitsByPrefix.map(({ prefix, circuits: prefixCircuits }) => (
+              <TabsContent key={`prefix-${prefix}`} value={`prefix-splice-${prefix}`}>
+                <Card>
+                  <CardHeader className="flex flex-row items-center justify-between gap-2 space-y-0">
+                    <CardTitle>{prefix} Splice</CardTitle>
+                    <div className="flex gap-2">
+                      <ExportMenu
+                        onExport={(format) => handleExportSpliceTable(format, `${prefix} Splice`, prefix, prefixCircuits)}
+                        testId={`button-export-prefix-${prefix}`}
+                      />
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => handleExportSpliceSheet(`${prefix} Splice`, prefix, prefixCircuits)}
+                        data-testid={`button-pdf-prefix-${prefix}`}
+                      >
+                        <FileDown className="h-4 w-4 mr-1" />
+                        PDF
+                      </Button>
+                    </div>
+                  </CardHeader>
+                  <CardContent>
+                    {prefixCircuits.length > 0 && (
+                      <SpliceProgressBar
+                        progress={getSpliceProgress(prefixCircuits, completionLookup)}
+                        unit="fibers"
+                        remainingOnly={remainingOnly}
+                        onRemainingOnlyChange={setRemainingOnly}
+                        testId={`prefix-${prefix}`}
+                      />
+                    )}
+                    {prefixCircuits.length === 0 ? (
+                      <div className="text-center py-12 text-muted-foreground" data-testid={`text-no-prefix-splices-${prefix}`}>
+                        No circuits marked as spliced for {prefix}.
+                      </div>
+                    ) : (
+                      renderSpliceTable(prefixCircuits, `prefix-${prefix}`, "prefix-")
+                    )}
+                  </CardContent>
+                </Card>
+              </TabsContent>
+          ))}
 
           {distributionCables.map((distCable) => {
-            const cableSplicedCircuits = splicedCircuits.filter(c => c.cableId === distCable.id).sort((a, b) => {
-              try {
-                const partsA = parseCircuitIdParts(a.circuitId);
-                const partsB = parseCircuitIdParts(b.circuitId);
-                if (partsA.prefix !== partsB.prefix) return partsA.prefix.localeCompare(partsB.prefix);
-                return partsA.rangeStart - partsB.rangeStart;
-              } catch {
-                return a.circuitId.localeCompare(b.circuitId);
-              }
-            });
-            
-            // Calculate total rows by matching the rendering logic exactly
-            let totalSpliceRows = 0;
-            cableSplicedCircuits.forEach((circuit) => {
-              const distFiberStart = circuit.fiberStart;
-              const distFiberEnd = circuit.fiberEnd;
-              const feedFiberStart = circuit.feedFiberStart || circuit.fiberStart;
-              const feedFiberEnd = circuit.feedFiberEnd || circuit.fiberEnd;
-
-              if (!distFiberStart || !distFiberEnd || !feedFiberStart || !feedFiberEnd) {
-                totalSpliceRows++;
-                return;
-              }
-
-              if (useRibbonView) {
-                let currentDistFiber = distFiberStart;
-                let currentFeedFiber = feedFiberStart;
-
-                while (currentDistFiber <= distFiberEnd) {
-                  const currentDistRibbon = Math.ceil(currentDistFiber / 12);
-                  const currentFeedRibbon = Math.ceil(currentFeedFiber / 12);
-
-                  const distRibbonEnd = currentDistRibbon * 12;
-                  const distSegmentEnd = Math.min(distRibbonEnd, distFiberEnd);
-                  const feedRibbonEnd = currentFeedRibbon * 12;
-                  const feedSegmentEnd = Math.min(feedRibbonEnd, feedFiberEnd);
-
-                  const distFiberCount = distSegmentEnd - currentDistFiber + 1;
-                  const feedFiberCount = feedSegmentEnd - currentFeedFiber + 1;
-                  const segmentFiberCount = Math.min(distFiberCount, feedFiberCount);
-
-                  totalSpliceRows++;
-
-                  currentDistFiber += segmentFiberCount;
-                  currentFeedFiber += segmentFiberCount;
-                }
-              } else {
-                totalSpliceRows += (feedFiberEnd - feedFiberStart + 1);
-              }
-            });
-            
+            const cableSplicedCircuits = getCableSplicedCircuits(distCable);
+
             return (
               <TabsContent key={distCable.id} value={`splice-${distCable.id}`}>
                 <Card>
-                  <CardHeader>
+                  <CardHeader className="flex flex-row items-center justify-between gap-2 space-y-0">
                     <CardTitle>Splice Mapping - {distCable.name}</CardTitle>
+                    <div className="flex gap-2">
+                      <ExportMenu
+                        onExport={(format) => handleExportSpliceTable(format, `Splice Mapping - ${distCable.name}`, distCable.name, cableSplicedCircuits)}
+                        testId={`button-export-${distCable.id}`}
+                      />
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => handleExportSpliceSheet(`Splice Mapping - ${distCable.name}`, distCable.name, cableSplicedCircuits, distCable)}
+                        data-testid={`button-pdf-${distCable.id}`}
+                      >
+                        <FileDown className="h-4 w-4 mr-1" />
+                        PDF
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => setTraceTarget({ cableId: distCable.id, fiber: 1 })}
+                        data-testid={`button-trace-${distCable.id}`}
+                      >
+                        <Route className="h-4 w-4 mr-1" />
+                        Trace
+                      </Button>
+                    </div>
                   </CardHeader>
                   <CardContent>
+                    {cableSplicedCircuits.length > 0 && (
+                      <SpliceProgressBar
+                        progress={getSpliceProgress(cableSplicedCircuits, completionLookup)}
+                        unit="fibers"
+                        remainingOnly={remainingOnly}
+                        onRemainingOnlyChange={setRemainingOnly}
+                        testId={distCable.id}
+                      />
+                    )}
                     {circuitsLoading ? (
                       <div className="text-center py-12 text-muted-foreground">Loading circuits...</div>
                     ) : cableSplicedCircuits.length === 0 ? (
@@ -1052,253 +1237,7 @@ export default function Home({ mode, setMode }: { mode: "fiber" | "copper"; setM
                         No circuits marked as spliced yet for {distCable.name}. Check circuits in the Home tab.
                       </div>
                     ) : (
-                      <div className="rounded-md border overflow-x-auto inline-block">
-                        <Table className="text-sm w-auto">
-                          <TableHeader>
-                            <TableRow className="bg-muted/50">
-                              <TableHead rowSpan={3} className="text-center font-semibold py-1 px-2 whitespace-nowrap align-middle">#</TableHead>
-                              <TableHead colSpan={useRibbonView ? 2 : 3} rowSpan={2} className="text-center font-semibold bg-green-100 dark:bg-green-950/50 py-1 px-2 align-middle">Feed</TableHead>
-                              <TableHead className="text-center py-1 px-2">
-                                <div className="flex items-center justify-center gap-1">
-                                  <Label htmlFor={`view-toggle-${distCable.id}`} className="text-xs text-muted-foreground">Strands</Label>
-                                  <Switch
-                                    id={`view-toggle-${distCable.id}`}
-                                    checked={useRibbonView}
-                                    onCheckedChange={setUseRibbonView}
-                                    data-testid={`switch-view-mode-${distCable.id}`}
-                                    className="scale-75"
-                                  />
-                                  <Label htmlFor={`view-toggle-${distCable.id}`} className="text-xs text-muted-foreground">Ribbons</Label>
-                                </div>
-                              </TableHead>
-                              <TableHead colSpan={useRibbonView ? 2 : 3} rowSpan={2} className="text-center font-semibold bg-blue-100 dark:bg-blue-950/50 py-1 px-2 align-middle">Distribution</TableHead>
-                            </TableRow>
-                            <TableRow className="bg-muted/50">
-                              <TableHead className="text-center font-semibold py-1 px-2 whitespace-nowrap">Splices : {totalSpliceRows}</TableHead>
-                            </TableRow>
-                            <TableRow>
-                              <TableHead className="text-center py-1 px-2 whitespace-nowrap">Cable</TableHead>
-                              <TableHead className="text-center py-1 px-2 whitespace-nowrap">Ribbon</TableHead>
-                              {!useRibbonView && <TableHead className="text-center py-1 px-2 whitespace-nowrap">Strand</TableHead>}
-                              <TableHead className="text-center py-1 px-2 whitespace-nowrap">Circuit</TableHead>
-                              {!useRibbonView && <TableHead className="text-center py-1 px-2 whitespace-nowrap">Strand</TableHead>}
-                              <TableHead className="text-center py-1 px-2 whitespace-nowrap">Ribbon</TableHead>
-                              <TableHead className="text-center py-1 px-2 whitespace-nowrap">Cable</TableHead>
-                            </TableRow>
-                          </TableHeader>
-                          <TableBody>
-                            {(() => {
-                              let rowNumber = 0;
-                              return cableSplicedCircuits.flatMap((circuit, circuitIndex) => {
-                                const distributionCable = cables.find((c) => c.id === circuit.cableId);
-                                const feedCable = circuit.feedCableId ? cables.find((c) => c.id === circuit.feedCableId) : undefined;
-                                
-                                // Alternate background color based on circuit index
-                                const rowBgColor = circuitIndex % 2 === 0 
-                                  ? "bg-white dark:bg-background" 
-                                  : "bg-gray-200 dark:bg-muted/50";
-                                
-                                if (!feedCable) {
-                                  rowNumber++;
-                                  return [(
-                                    <TableRow key={circuit.id} className={rowBgColor} data-testid={`row-spliced-circuit-${circuit.id}`}>
-                                      <TableCell className="text-center font-mono py-1 px-2">{rowNumber}</TableCell>
-                                      <TableCell colSpan={useRibbonView ? 4 : 6} className="text-center text-muted-foreground">
-                                        Circuit {circuit.circuitId} in {distributionCable?.name} - No feed cable selected. Please re-check the circuit.
-                                      </TableCell>
-                                    </TableRow>
-                                  )];
-                                }
-                              
-                              // Fiber optic color codes (12 colors, repeating pattern)
-                              const fiberColors = [
-                                { name: "blue", bg: "bg-blue-500", text: "text-white", colorClass: "text-blue-500" },
-                                { name: "orange", bg: "bg-orange-500", text: "text-white", colorClass: "text-orange-500" },
-                                { name: "green", bg: "bg-green-600", text: "text-white", colorClass: "text-green-600" },
-                                { name: "brown", bg: "bg-amber-700", text: "text-white", colorClass: "text-amber-700" },
-                                { name: "slate", bg: "bg-slate-500", text: "text-white", colorClass: "text-slate-500" },
-                                { name: "white", bg: "bg-white", text: "text-black", colorClass: "text-slate-700" },
-                                { name: "red", bg: "bg-red-600", text: "text-white", colorClass: "text-red-600" },
-                                { name: "black", bg: "bg-black", text: "text-white", colorClass: "text-slate-900" },
-                                { name: "yellow", bg: "bg-yellow-400", text: "text-black", colorClass: "text-yellow-500" },
-                                { name: "violet", bg: "bg-purple-600", text: "text-white", colorClass: "text-purple-600" },
-                                { name: "pink", bg: "bg-pink-500", text: "text-white", colorClass: "text-pink-500" },
-                                { name: "aqua", bg: "bg-cyan-400", text: "text-black", colorClass: "text-cyan-500" },
-                              ];
-                              
-                              const ribbonSize = 12;
-                              const getRibbonNumber = (fiber: number) => Math.ceil(fiber / ribbonSize);
-                              const getFiberPositionInRibbon = (fiber: number) => ((fiber - 1) % ribbonSize) + 1;
-                              const getColorForStrand = (strand: number) => fiberColors[(strand - 1) % 12];
-                              const getColorForRibbon = (ribbon: number) => fiberColors[(ribbon - 1) % 12];
-                              
-                              // Parse circuit ID to get the circuit numbers
-                              const circuitIdParts = circuit.circuitId.split(',');
-                              const circuitPrefix = circuitIdParts[0] || "";
-                              const circuitRange = circuitIdParts[1] || "";
-                              const rangeParts = circuitRange.split('-');
-                              
-                              // Safety check for valid circuit ID format
-                                if (rangeParts.length !== 2 || !rangeParts[0] || !rangeParts[1]) {
-                                  rowNumber++;
-                                  return [(
-                                    <TableRow key={circuit.id} className={rowBgColor} data-testid={`row-spliced-circuit-${circuit.id}`}>
-                                      <TableCell className="text-center font-mono py-1 px-2">{rowNumber}</TableCell>
-                                      <TableCell colSpan={useRibbonView ? 4 : 6} className="text-center text-muted-foreground">
-                                        Circuit {circuit.circuitId} in {distributionCable?.name} - Invalid circuit ID format.
-                                      </TableCell>
-                                    </TableRow>
-                                  )];
-                                }
-                                
-                                const rangeStart = parseInt(rangeParts[0].trim());
-                                const rangeEnd = parseInt(rangeParts[1].trim());
-                                
-                                // Safety check for valid numbers
-                                if (isNaN(rangeStart) || isNaN(rangeEnd)) {
-                                  rowNumber++;
-                                  return [(
-                                    <TableRow key={circuit.id} className={rowBgColor} data-testid={`row-spliced-circuit-${circuit.id}`}>
-                                      <TableCell className="text-center font-mono py-1 px-2">{rowNumber}</TableCell>
-                                      <TableCell colSpan={useRibbonView ? 4 : 6} className="text-center text-muted-foreground">
-                                        Circuit {circuit.circuitId} in {distributionCable?.name} - Invalid circuit number range.
-                                      </TableCell>
-                                    </TableRow>
-                                  )];
-                                }
-                                
-                                if (useRibbonView) {
-                                  // Full ribbon view
-                                  const ribbonRows = [];
-                                  
-                                  const distFiberStart = circuit.fiberStart;
-                                  const distFiberEnd = circuit.fiberEnd;
-                                  const feedFiberStart = circuit.feedFiberStart || circuit.fiberStart;
-                                  const feedFiberEnd = circuit.feedFiberEnd || circuit.fiberEnd;
-                                  
-                                  if (!distFiberStart || !distFiberEnd || !feedFiberStart || !feedFiberEnd ||
-                                      isNaN(distFiberStart) || isNaN(distFiberEnd) || isNaN(feedFiberStart) || isNaN(feedFiberEnd)) {
-                                    rowNumber++;
-                                    return [(
-                                      <TableRow key={circuit.id} className={rowBgColor} data-testid={`row-spliced-circuit-${circuit.id}`}>
-                                        <TableCell className="text-center font-mono py-1 px-2">{rowNumber}</TableCell>
-                                        <TableCell colSpan={4} className="text-center text-muted-foreground">
-                                          Circuit {circuit.circuitId} in {distributionCable?.name} - Invalid fiber positions.
-                                        </TableCell>
-                                      </TableRow>
-                                    )];
-                                  }
-                                  
-                                  let currentDistFiber = distFiberStart;
-                                  let currentFeedFiber = feedFiberStart;
-                                  
-                                  while (currentDistFiber <= distFiberEnd) {
-                                    const currentDistRibbon = getRibbonNumber(currentDistFiber);
-                                    const currentFeedRibbon = getRibbonNumber(currentFeedFiber);
-                                    
-                                    const distRibbonEnd = currentDistRibbon * ribbonSize;
-                                    const distSegmentEnd = Math.min(distRibbonEnd, distFiberEnd);
-                                    const feedRibbonEnd = currentFeedRibbon * ribbonSize;
-                                    const feedSegmentEnd = Math.min(feedRibbonEnd, feedFiberEnd);
-                                    
-                                    const distFiberCount = distSegmentEnd - currentDistFiber + 1;
-                                    const feedFiberCount = feedSegmentEnd - currentFeedFiber + 1;
-                                    const segmentFiberCount = Math.min(distFiberCount, feedFiberCount);
-                                    
-                                    const fiberOffset = currentDistFiber - distFiberStart;
-                                    const circuitStart = rangeStart + fiberOffset;
-                                    const circuitEnd = circuitStart + segmentFiberCount - 1;
-                                    
-                                    const distStrandStart = getFiberPositionInRibbon(currentDistFiber);
-                                    const distStrandEnd = getFiberPositionInRibbon(currentDistFiber + segmentFiberCount - 1);
-                                    const feedStrandStart = getFiberPositionInRibbon(currentFeedFiber);
-                                    const feedStrandEnd = getFiberPositionInRibbon(currentFeedFiber + segmentFiberCount - 1);
-                                    
-                                    const feedRibbonColor = getColorForRibbon(currentFeedRibbon);
-                                    const distRibbonColor = getColorForRibbon(currentDistRibbon);
-                                    
-                                    rowNumber++;
-                                    ribbonRows.push(
-                                      <TableRow key={`${circuit.id}-segment-${currentDistFiber}`} className={rowBgColor} data-testid={`row-ribbon-${circuit.id}-${currentDistFiber}`}>
-                                        <TableCell className="text-center font-mono py-1 px-2">{rowNumber}</TableCell>
-                                        <TableCell className="text-center font-mono py-1 px-2 whitespace-nowrap">{feedCable.name}-{feedCable.fiberCount}</TableCell>
-                                        <TableCell className={`text-center font-mono font-semibold py-1 px-2 whitespace-nowrap ${feedRibbonColor.colorClass}`}>
-                                          R{currentFeedRibbon}:{feedStrandStart}{feedStrandStart !== feedStrandEnd ? `-${feedStrandEnd}` : ''}
-                                        </TableCell>
-                                        <TableCell className="text-center font-mono font-semibold py-1 px-2 whitespace-nowrap">{circuitPrefix},{circuitStart}-{circuitEnd}</TableCell>
-                                        <TableCell className={`text-center font-mono font-semibold py-1 px-2 whitespace-nowrap ${distRibbonColor.colorClass}`}>
-                                          R{currentDistRibbon}:{distStrandStart}{distStrandStart !== distStrandEnd ? `-${distStrandEnd}` : ''}
-                                        </TableCell>
-                                        <TableCell className="text-center font-mono py-1 px-2 whitespace-nowrap">{distributionCable?.name}-{distributionCable?.fiberCount}</TableCell>
-                                      </TableRow>
-                                    );
-                                    
-                                    currentDistFiber += segmentFiberCount;
-                                    currentFeedFiber += segmentFiberCount;
-                                  }
-                                  
-                                  return ribbonRows;
-                                } else {
-                                  // Fiber view
-                                  const fiberRows = [];
-                                  
-                                  if (!circuit.fiberStart || !circuit.fiberEnd || isNaN(circuit.fiberStart) || isNaN(circuit.fiberEnd)) {
-                                    rowNumber++;
-                                    return [(
-                                      <TableRow key={circuit.id} className={rowBgColor} data-testid={`row-spliced-circuit-${circuit.id}`}>
-                                        <TableCell className="text-center font-mono py-1 px-2">{rowNumber}</TableCell>
-                                        <TableCell colSpan={6} className="text-center text-muted-foreground">
-                                          Circuit {circuit.circuitId} in {distributionCable?.name} - Invalid fiber positions.
-                                        </TableCell>
-                                      </TableRow>
-                                    )];
-                                  }
-                                  
-                                  for (let i = 0; i < circuit.fiberEnd - circuit.fiberStart + 1; i++) {
-                                    const distFiber = circuit.fiberStart + i;
-                                    const feedFiber = (circuit.feedFiberStart || circuit.fiberStart) + i;
-                                    
-                                    const distRibbon = getRibbonNumber(distFiber);
-                                    const distStrand = getFiberPositionInRibbon(distFiber);
-                                    const feedRibbon = getRibbonNumber(feedFiber);
-                                    const feedStrand = getFiberPositionInRibbon(feedFiber);
-                                    
-                                    const circuitNumber = rangeStart + i;
-                                    const feedColor = getColorForStrand(feedStrand);
-                                    const distColor = getColorForStrand(distStrand);
-                                    const feedRibbonColor = getColorForRibbon(feedRibbon);
-                                    const distRibbonColor = getColorForRibbon(distRibbon);
-                                    
-                                    rowNumber++;
-                                    fiberRows.push(
-                                      <TableRow key={`${circuit.id}-fiber-${i}`} className={rowBgColor} data-testid={`row-fiber-${circuit.id}-${i}`}>
-                                        <TableCell className="text-center font-mono py-1 px-2">{rowNumber}</TableCell>
-                                        <TableCell className="text-center font-mono py-1 px-2 whitespace-nowrap">{feedCable.name}-{feedCable.fiberCount}</TableCell>
-                                        <TableCell className={`text-center font-mono font-semibold py-1 px-2 whitespace-nowrap ${feedRibbonColor.colorClass}`}>R{feedRibbon}</TableCell>
-                                        <TableCell className="text-center py-1 px-2">
-                                          <div className={`inline-block px-1.5 py-0.5 rounded border border-black ${feedColor.bg} ${feedColor.text} font-mono font-semibold text-xs`}>
-                                            {feedStrand}
-                                          </div>
-                                        </TableCell>
-                                        <TableCell className="text-center font-mono font-semibold py-1 px-2 whitespace-nowrap">{circuitPrefix},{circuitNumber}</TableCell>
-                                        <TableCell className="text-center py-1 px-2">
-                                          <div className={`inline-block px-1.5 py-0.5 rounded border border-black ${distColor.bg} ${distColor.text} font-mono font-semibold text-xs`}>
-                                            {distStrand}
-                                          </div>
-                                        </TableCell>
-                                        <TableCell className={`text-center font-mono font-semibold py-1 px-2 whitespace-nowrap ${distRibbonColor.colorClass}`}>R{distRibbon}</TableCell>
-                                        <TableCell className="text-center font-mono py-1 px-2 whitespace-nowrap">{distributionCable?.name}-{distributionCable?.fiberCount}</TableCell>
-                                      </TableRow>
-                                    );
-                                  }
-                                  
-                                  return fiberRows;
-                                }
-                              });
-                            })()}
-                          </TableBody>
-                        </Table>
-                      </div>
+                      renderSpliceTable(cableSplicedCircuits, distCable.id)
                     )}
                   </CardContent>
                 </Card>
@@ -1309,60 +1248,48 @@ export default function Home({ mode, setMode }: { mode: "fiber" | "copper"; setM
           {/* Feed Cable Splice Tabs */}
           {feedCables.map((feedCable) => {
             // Get all Distribution circuits that are spliced to this Feed cable
-            const feedSplicedCircuits = allCircuits.filter(c => 
-              c.isSpliced === 1 && c.feedCableId === feedCable.id
-            ).sort((a, b) => {
-              // Sort by feedFiberStart position
-              return (a.feedFiberStart || 0) - (b.feedFiberStart || 0);
-            });
-            
-            // Calculate total rows by matching the rendering logic exactly
-            let totalSpliceRows = 0;
-            feedSplicedCircuits.forEach((circuit) => {
-              const distFiberStart = circuit.fiberStart;
-              const distFiberEnd = circuit.fiberEnd;
-              const feedFiberStart = circuit.feedFiberStart || circuit.fiberStart;
-              const feedFiberEnd = circuit.feedFiberEnd || circuit.fiberEnd;
-
-              if (!distFiberStart || !distFiberEnd || !feedFiberStart || !feedFiberEnd) {
-                totalSpliceRows++;
-                return;
-              }
-
-              if (useRibbonView) {
-                let currentDistFiber = distFiberStart;
-                let currentFeedFiber = feedFiberStart;
-
-                while (currentDistFiber <= distFiberEnd) {
-                  const currentDistRibbon = Math.ceil(currentDistFiber / 12);
-                  const currentFeedRibbon = Math.ceil(currentFeedFiber / 12);
-
-                  const distRibbonEnd = currentDistRibbon * 12;
-                  const distSegmentEnd = Math.min(distRibbonEnd, distFiberEnd);
-                  const feedRibbonEnd = currentFeedRibbon * 12;
-                  const feedSegmentEnd = Math.min(feedRibbonEnd, feedFiberEnd);
-
-                  const distFiberCount = distSegmentEnd - currentDistFiber + 1;
-                  const feedFiberCount = feedSegmentEnd - currentFeedFiber + 1;
-                  const segmentFiberCount = Math.min(distFiberCount, feedFiberCount);
-
-                  totalSpliceRows++;
-
-                  currentDistFiber += segmentFiberCount;
-                  currentFeedFiber += segmentFiberCount;
-                }
-              } else {
-                totalSpliceRows += (feedFiberEnd - feedFiberStart + 1);
-              }
-            });
-            
+            const feedSplicedCircuits = getCableSplicedCircuits(feedCable);
+
             return (
               <TabsContent key={`feed-${feedCable.id}`} value={`feed-splice-${feedCable.id}`}>
                 <Card>
-                  <CardHeader>
+                  <CardHeader className="flex flex-row items-center justify-between gap-2 space-y-0">
                     <CardTitle>Splice Mapping - {feedCable.name}</CardTitle>
+                    <div className="flex gap-2">
+                      <ExportMenu
+                        onExport={(format) => handleExportSpliceTable(format, `Splice Mapping - ${feedCable.name}`, feedCable.name, feedSplicedCircuits)}
+                        testId={`button-export-${feedCable.id}`}
+                      />
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => handleExportSpliceSheet(`Splice Mapping - ${feedCable.name}`, feedCable.name, feedSplicedCircuits, feedCable)}
+                        data-testid={`button-pdf-${feedCable.id}`}
+                      >
+                        <FileDown className="h-4 w-4 mr-1" />
+                        PDF
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => setTraceTarget({ cableId: feedCable.id, fiber: 1 })}
+                        data-testid={`button-trace-${feedCable.id}`}
+                      >
+                        <Route className="h-4 w-4 mr-1" />
+                        Trace
+                      </Button>
+                    </div>
                   </CardHeader>
                   <CardContent>
+                    {feedSplicedCircuits.length > 0 && (
+                      <SpliceProgressBar
+                        progress={getSpliceProgress(feedSplicedCircuits, completionLookup)}
+                        unit="fibers"
+                        remainingOnly={remainingOnly}
+                        onRemainingOnlyChange={setRemainingOnly}
+                        testId={feedCable.id}
+                      />
+                    )}
                     {circuitsLoading ? (
                       <div className="text-center py-12 text-muted-foreground">Loading circuits...</div>
                     ) : feedSplicedCircuits.length === 0 ? (
@@ -1370,243 +1297,7 @@ export default function Home({ mode, setMode }: { mode: "fiber" | "copper"; setM
                         No Distribution circuits spliced to {feedCable.name} yet. Check circuits in Distribution cables.
                       </div>
                     ) : (
-                      <div className="rounded-md border overflow-x-auto inline-block">
-                        <Table className="text-sm w-auto">
-                          <TableHeader>
-                            <TableRow className="bg-muted/50">
-                              <TableHead rowSpan={3} className="text-center font-semibold py-1 px-2 whitespace-nowrap align-middle">#</TableHead>
-                              <TableHead colSpan={useRibbonView ? 2 : 3} rowSpan={2} className="text-center font-semibold bg-green-100 dark:bg-green-950/50 py-1 px-2 align-middle">Feed</TableHead>
-                              <TableHead className="text-center py-1 px-2">
-                                <div className="flex items-center justify-center gap-1">
-                                  <Label htmlFor={`view-toggle-feed-${feedCable.id}`} className="text-xs text-muted-foreground">Strands</Label>
-                                  <Switch
-                                    id={`view-toggle-feed-${feedCable.id}`}
-                                    checked={useRibbonView}
-                                    onCheckedChange={setUseRibbonView}
-                                    data-testid={`switch-view-mode-feed-${feedCable.id}`}
-                                    className="scale-75"
-                                  />
-                                  <Label htmlFor={`view-toggle-feed-${feedCable.id}`} className="text-xs text-muted-foreground">Ribbons</Label>
-                                </div>
-                              </TableHead>
-                              <TableHead colSpan={useRibbonView ? 2 : 3} rowSpan={2} className="text-center font-semibold bg-blue-100 dark:bg-blue-950/50 py-1 px-2 align-middle">Distribution</TableHead>
-                            </TableRow>
-                            <TableRow className="bg-muted/50">
-                              <TableHead className="text-center font-semibold py-1 px-2 whitespace-nowrap">Splices : {totalSpliceRows}</TableHead>
-                            </TableRow>
-                            <TableRow>
-                              <TableHead className="text-center py-1 px-2 whitespace-nowrap">Cable</TableHead>
-                              <TableHead className="text-center py-1 px-2 whitespace-nowrap">Ribbon</TableHead>
-                              {!useRibbonView && <TableHead className="text-center py-1 px-2 whitespace-nowrap">Strand</TableHead>}
-                              <TableHead className="text-center py-1 px-2 whitespace-nowrap">Circuit</TableHead>
-                              {!useRibbonView && <TableHead className="text-center py-1 px-2 whitespace-nowrap">Strand</TableHead>}
-                              <TableHead className="text-center py-1 px-2 whitespace-nowrap">Ribbon</TableHead>
-                              <TableHead className="text-center py-1 px-2 whitespace-nowrap">Cable</TableHead>
-                            </TableRow>
-                          </TableHeader>
-                          <TableBody>
-                            {(() => {
-                              let rowNumber = 0;
-                              return feedSplicedCircuits.flatMap((circuit, circuitIndex) => {
-                                const distributionCable = cables.find((c) => c.id === circuit.cableId);
-                                
-                                // Alternate background color based on circuit index
-                                const rowBgColor = circuitIndex % 2 === 0 
-                                  ? "bg-white dark:bg-background" 
-                                  : "bg-gray-200 dark:bg-muted/50";
-                                
-                                // Fiber optic color codes (12 colors, repeating pattern)
-                                const fiberColors = [
-                                  { name: "blue", bg: "bg-blue-500", text: "text-white", colorClass: "text-blue-500" },
-                                  { name: "orange", bg: "bg-orange-500", text: "text-white", colorClass: "text-orange-500" },
-                                  { name: "green", bg: "bg-green-600", text: "text-white", colorClass: "text-green-600" },
-                                  { name: "brown", bg: "bg-amber-700", text: "text-white", colorClass: "text-amber-700" },
-                                  { name: "slate", bg: "bg-slate-500", text: "text-white", colorClass: "text-slate-500" },
-                                  { name: "white", bg: "bg-white", text: "text-black", colorClass: "text-slate-700" },
-                                  { name: "red", bg: "bg-red-600", text: "text-white", colorClass: "text-red-600" },
-                                  { name: "black", bg: "bg-black", text: "text-white", colorClass: "text-slate-900" },
-                                  { name: "yellow", bg: "bg-yellow-400", text: "text-black", colorClass: "text-yellow-500" },
-                                  { name: "violet", bg: "bg-purple-600", text: "text-white", colorClass: "text-purple-600" },
-                                  { name: "pink", bg: "bg-pink-500", text: "text-white", colorClass: "text-pink-500" },
-                                  { name: "aqua", bg: "bg-cyan-400", text: "text-black", colorClass: "text-cyan-500" },
-                                ];
-                                
-                                const ribbonSize = 12;
-                                const getRibbonNumber = (fiber: number) => Math.ceil(fiber / ribbonSize);
-                                const getFiberPositionInRibbon = (fiber: number) => ((fiber - 1) % ribbonSize) + 1;
-                                const getColorForStrand = (strand: number) => fiberColors[(strand - 1) % 12];
-                                const getColorForRibbon = (ribbon: number) => fiberColors[(ribbon - 1) % 12];
-                                
-                                // Parse circuit ID to get the circuit numbers
-                                const circuitIdParts = circuit.circuitId.split(',');
-                                const circuitPrefix = circuitIdParts[0] || "";
-                                const circuitRange = circuitIdParts[1] || "";
-                                const rangeParts = circuitRange.split('-');
-                                
-                                // Safety check for valid circuit ID format
-                                if (rangeParts.length !== 2 || !rangeParts[0] || !rangeParts[1]) {
-                                  rowNumber++;
-                                  return [(
-                                    <TableRow key={circuit.id} className={rowBgColor} data-testid={`row-feed-spliced-circuit-${circuit.id}`}>
-                                      <TableCell className="text-center font-mono py-1 px-2">{rowNumber}</TableCell>
-                                      <TableCell colSpan={useRibbonView ? 4 : 6} className="text-center text-muted-foreground">
-                                        Circuit {circuit.circuitId} in {distributionCable?.name} - Invalid circuit ID format.
-                                      </TableCell>
-                                    </TableRow>
-                                  )];
-                                }
-                                
-                                const rangeStart = parseInt(rangeParts[0].trim());
-                                const rangeEnd = parseInt(rangeParts[1].trim());
-                                
-                                // Safety check for valid numbers
-                                if (isNaN(rangeStart) || isNaN(rangeEnd)) {
-                                  rowNumber++;
-                                  return [(
-                                    <TableRow key={circuit.id} className={rowBgColor} data-testid={`row-feed-spliced-circuit-${circuit.id}`}>
-                                      <TableCell className="text-center font-mono py-1 px-2">{rowNumber}</TableCell>
-                                      <TableCell colSpan={useRibbonView ? 4 : 6} className="text-center text-muted-foreground">
-                                        Circuit {circuit.circuitId} in {distributionCable?.name} - Invalid circuit number range.
-                                      </TableCell>
-                                    </TableRow>
-                                  )];
-                                }
-                                
-                                if (useRibbonView) {
-                                  // Full ribbon view
-                                  const ribbonRows = [];
-                                  
-                                  const distFiberStart = circuit.fiberStart;
-                                  const distFiberEnd = circuit.fiberEnd;
-                                  const feedFiberStart = circuit.feedFiberStart || circuit.fiberStart;
-                                  const feedFiberEnd = circuit.feedFiberEnd || circuit.fiberEnd;
-                                  
-                                  // Safety check for valid fiber positions
-                                  if (!distFiberStart || !distFiberEnd || !feedFiberStart || !feedFiberEnd ||
-                                      isNaN(distFiberStart) || isNaN(distFiberEnd) || isNaN(feedFiberStart) || isNaN(feedFiberEnd)) {
-                                    rowNumber++;
-                                    return [(
-                                      <TableRow key={circuit.id} className={rowBgColor} data-testid={`row-feed-spliced-circuit-${circuit.id}`}>
-                                        <TableCell className="text-center font-mono py-1 px-2">{rowNumber}</TableCell>
-                                        <TableCell colSpan={4} className="text-center text-muted-foreground">
-                                          Circuit {circuit.circuitId} in {distributionCable?.name} - Invalid fiber positions.
-                                        </TableCell>
-                                      </TableRow>
-                                    )];
-                                  }
-                                  
-                                  // Process each group of fibers that share the same ribbon pair
-                                  let currentDistFiber = distFiberStart;
-                                  let currentFeedFiber = feedFiberStart;
-                                  
-                                  while (currentDistFiber <= distFiberEnd) {
-                                    const currentDistRibbon = getRibbonNumber(currentDistFiber);
-                                    const currentFeedRibbon = getRibbonNumber(currentFeedFiber);
-                                    
-                                    const distRibbonEnd = currentDistRibbon * ribbonSize;
-                                    const distSegmentEnd = Math.min(distRibbonEnd, distFiberEnd);
-                                    
-                                    const feedRibbonEnd = currentFeedRibbon * ribbonSize;
-                                    const feedSegmentEnd = Math.min(feedRibbonEnd, feedFiberEnd);
-                                    
-                                    const distFiberCount = distSegmentEnd - currentDistFiber + 1;
-                                    const feedFiberCount = feedSegmentEnd - currentFeedFiber + 1;
-                                    const segmentFiberCount = Math.min(distFiberCount, feedFiberCount);
-                                    
-                                    const fiberOffset = currentDistFiber - distFiberStart;
-                                    const circuitStart = rangeStart + fiberOffset;
-                                    const circuitEnd = circuitStart + segmentFiberCount - 1;
-                                    
-                                    const distStrandStart = getFiberPositionInRibbon(currentDistFiber);
-                                    const distStrandEnd = getFiberPositionInRibbon(currentDistFiber + segmentFiberCount - 1);
-                                    const feedStrandStart = getFiberPositionInRibbon(currentFeedFiber);
-                                    const feedStrandEnd = getFiberPositionInRibbon(currentFeedFiber + segmentFiberCount - 1);
-                                    
-                                    const feedRibbonColor = getColorForRibbon(currentFeedRibbon);
-                                    const distRibbonColor = getColorForRibbon(currentDistRibbon);
-                                    
-                                    rowNumber++;
-                                    ribbonRows.push(
-                                      <TableRow key={`${circuit.id}-feed-segment-${currentDistFiber}`} className={rowBgColor} data-testid={`row-feed-ribbon-${circuit.id}-${currentDistFiber}`}>
-                                        <TableCell className="text-center font-mono py-1 px-2">{rowNumber}</TableCell>
-                                        <TableCell className="text-center font-mono py-1 px-2 whitespace-nowrap">{feedCable.name}-{feedCable.fiberCount}</TableCell>
-                                        <TableCell className={`text-center font-mono font-semibold py-1 px-2 whitespace-nowrap ${feedRibbonColor.colorClass}`}>
-                                          R{currentFeedRibbon}:{feedStrandStart}{feedStrandStart !== feedStrandEnd ? `-${feedStrandEnd}` : ''}
-                                        </TableCell>
-                                        <TableCell className="text-center font-mono font-semibold py-1 px-2 whitespace-nowrap">{circuitPrefix},{circuitStart}-{circuitEnd}</TableCell>
-                                        <TableCell className={`text-center font-mono font-semibold py-1 px-2 whitespace-nowrap ${distRibbonColor.colorClass}`}>
-                                          R{currentDistRibbon}:{distStrandStart}{distStrandStart !== distStrandEnd ? `-${distStrandEnd}` : ''}
-                                        </TableCell>
-                                        <TableCell className="text-center font-mono py-1 px-2 whitespace-nowrap">{distributionCable?.name}-{distributionCable?.fiberCount}</TableCell>
-                                      </TableRow>
-                                    );
-                                    
-                                    currentDistFiber += segmentFiberCount;
-                                    currentFeedFiber += segmentFiberCount;
-                                  }
-                                  
-                                  return ribbonRows;
-                                } else {
-                                  // Fiber view: show one row per fiber
-                                  const fiberRows = [];
-                                  
-                                  if (!circuit.fiberStart || !circuit.fiberEnd || isNaN(circuit.fiberStart) || isNaN(circuit.fiberEnd)) {
-                                    rowNumber++;
-                                    return [(
-                                      <TableRow key={circuit.id} className={rowBgColor} data-testid={`row-feed-spliced-circuit-${circuit.id}`}>
-                                        <TableCell className="text-center font-mono py-1 px-2">{rowNumber}</TableCell>
-                                        <TableCell colSpan={6} className="text-center text-muted-foreground">
-                                          Circuit {circuit.circuitId} in {distributionCable?.name} - Invalid fiber positions.
-                                        </TableCell>
-                                      </TableRow>
-                                    )];
-                                  }
-                                  
-                                  for (let i = 0; i < circuit.fiberEnd - circuit.fiberStart + 1; i++) {
-                                    const distFiber = circuit.fiberStart + i;
-                                    const feedFiber = (circuit.feedFiberStart || circuit.fiberStart) + i;
-                                    
-                                    const distRibbon = getRibbonNumber(distFiber);
-                                    const distStrand = getFiberPositionInRibbon(distFiber);
-                                    const feedRibbon = getRibbonNumber(feedFiber);
-                                    const feedStrand = getFiberPositionInRibbon(feedFiber);
-                                    
-                                    const circuitNumber = rangeStart + i;
-                                    const feedColor = getColorForStrand(feedStrand);
-                                    const distColor = getColorForStrand(distStrand);
-                                    const feedRibbonColor = getColorForRibbon(feedRibbon);
-                                    const distRibbonColor = getColorForRibbon(distRibbon);
-                                    
-                                    rowNumber++;
-                                    fiberRows.push(
-                                      <TableRow key={`${circuit.id}-feed-fiber-${i}`} className={rowBgColor} data-testid={`row-feed-fiber-${circuit.id}-${i}`}>
-                                        <TableCell className="text-center font-mono py-1 px-2">{rowNumber}</TableCell>
-                                        <TableCell className="text-center font-mono py-1 px-2 whitespace-nowrap">{feedCable.name}-{feedCable.fiberCount}</TableCell>
-                                        <TableCell className={`text-center font-mono font-semibold py-1 px-2 whitespace-nowrap ${feedRibbonColor.colorClass}`}>R{feedRibbon}</TableCell>
-                                        <TableCell className="text-center py-1 px-2">
-                                          <div className={`inline-block px-1.5 py-0.5 rounded border border-black ${feedColor.bg} ${feedColor.text} font-mono font-semibold text-xs`}>
-                                            {feedStrand}
-                                          </div>
-                                        </TableCell>
-                                        <TableCell className="text-center font-mono font-semibold py-1 px-2 whitespace-nowrap">{circuitPrefix},{circuitNumber}</TableCell>
-                                        <TableCell className="text-center py-1 px-2">
-                                          <div className={`inline-block px-1.5 py-0.5 rounded border border-black ${distColor.bg} ${distColor.text} font-mono font-semibold text-xs`}>
-                                            {distStrand}
-                                          </div>
-                                        </TableCell>
-                                        <TableCell className={`text-center font-mono font-semibold py-1 px-2 whitespace-nowrap ${distRibbonColor.colorClass}`}>R{distRibbon}</TableCell>
-                                        <TableCell className="text-center font-mono py-1 px-2 whitespace-nowrap">{distributionCable?.name}-{distributionCable?.fiberCount}</TableCell>
-                                      </TableRow>
-                                    );
-                                  }
-                                  
-                                  return fiberRows;
-                                }
-                              });
-                            })()}
-                          </TableBody>
-                        </Table>
-                      </div>
+                      renderSpliceTable(feedSplicedCircuits, `feed-${feedCable.id}`, "feed-")
                     )}
                   </CardContent>
                 </Card>
@@ -1616,6 +1307,14 @@ export default function Home({ mode, setMode }: { mode: "fiber" | "copper"; setM
         </Tabs>
       </main>
 
+      <ImportWizardDialog
+        open={importDialogOpen}
+        onOpenChange={setImportDialogOpen}
+        mode={apiMode}
+        enclosureId={activeEnclosureId}
+        existingCables={cables}
+      />
+
       <Dialog open={cableDialogOpen} onOpenChange={setCableDialogOpen}>
         <DialogContent data-testid="dialog-cable-form">
           <DialogHeader>
@@ -1639,12 +1338,25 @@ export default function Home({ mode, setMode }: { mode: "fiber" | "copper"; setM
         </DialogContent>
       </Dialog>
 
+      <TraceDialog
+        open={traceTarget !== null}
+        onOpenChange={(open) => !open && setTraceTarget(null)}
+        cables={projectCables}
+        circuits={projectCircuits}
+        enclosures={enclosures}
+        splitters={projectSplitters}
+        initialCableId={traceTarget?.cableId}
+        initialFiber={traceTarget?.fiber}
+      />
+
+      <ProjectFileErrorsDialog report={loadErrors} onClose={() => setLoadErrors(null)} />
+
       <AlertDialog open={resetDialogOpen} onOpenChange={setResetDialogOpen}>
         <AlertDialogContent data-testid="dialog-reset-confirm">
           <AlertDialogHeader>
             <AlertDialogTitle>Reset All Data</AlertDialogTitle>
             <AlertDialogDescription>
-              This will permanently delete all cables and circuits without saving. 
+              This will permanently delete all cables and circuits in the current project without saving. 
               This action cannot be undone.
               Are you sure you want to continue?
             </AlertDialogDescription>
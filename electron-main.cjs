@@ -40,7 +40,8 @@ function startServer() {
   serverProcess = spawn('node', [serverPath], {
     stdio: 'inherit',
     shell: true,
-    env: { ...process.env, NODE_ENV: 'production' }
+    // Keep the database with the user's app data - the install directory may be read-only
+    env: { ...process.env, NODE_ENV: 'production', FIBERSPLICE_DATA_DIR: path.join(app.getPath('userData'), 'data') }
   });
 
   serverProcess.on('error', (err) => {
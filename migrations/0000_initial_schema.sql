@@ -0,0 +1,84 @@
+CREATE TABLE "cables" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"name" text NOT NULL,
+	"fiber_count" integer NOT NULL,
+	"ribbon_size" integer DEFAULT 12 NOT NULL,
+	"type" text NOT NULL,
+	"enclosure_id" varchar
+);
+--> statement-breakpoint
+CREATE TABLE "circuits" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"cable_id" varchar NOT NULL,
+	"enclosure_id" varchar,
+	"circuit_id" text NOT NULL,
+	"position" integer NOT NULL,
+	"fiber_start" integer NOT NULL,
+	"fiber_end" integer NOT NULL,
+	"is_spliced" integer DEFAULT 0 NOT NULL,
+	"feed_cable_id" varchar,
+	"feed_fiber_start" integer,
+	"feed_fiber_end" integer,
+	"splitter_id" varchar
+);
+--> statement-breakpoint
+CREATE TABLE "enclosures" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"name" text NOT NULL,
+	"type" text NOT NULL,
+	"tray_count" integer DEFAULT 1 NOT NULL,
+	"location_notes" text
+);
+--> statement-breakpoint
+CREATE TABLE "logs" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"timestamp" text NOT NULL,
+	"level" text NOT NULL,
+	"category" text NOT NULL,
+	"message" text NOT NULL,
+	"data" text
+);
+--> statement-breakpoint
+CREATE TABLE "projects" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"name" text NOT NULL,
+	"job_number" text,
+	"mode" text NOT NULL,
+	"created_at" text NOT NULL,
+	"modified_at" text NOT NULL,
+	"archived" integer DEFAULT 0 NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "saves" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"name" text NOT NULL,
+	"created_at" text DEFAULT CURRENT_TIMESTAMP NOT NULL,
+	"data" text NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "splices" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"source_cable_id" varchar NOT NULL,
+	"destination_cable_id" varchar NOT NULL,
+	"source_ribbon" integer NOT NULL,
+	"source_start_fiber" integer NOT NULL,
+	"source_end_fiber" integer NOT NULL,
+	"destination_ribbon" integer NOT NULL,
+	"destination_start_fiber" integer NOT NULL,
+	"destination_end_fiber" integer NOT NULL,
+	"pon_start" integer,
+	"pon_end" integer,
+	"is_completed" integer DEFAULT 0 NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "splitters" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"enclosure_id" varchar,
+	"name" text NOT NULL,
+	"ratio" text NOT NULL,
+	"location" text,
+	"input_cable_id" varchar,
+	"input_fiber" integer,
+	"port_prefix" text DEFAULT 'pon' NOT NULL,
+	"port_start" integer DEFAULT 1 NOT NULL
+);
@@ -0,0 +1,12 @@
+CREATE TABLE "sync_changes" (
+	"revision" serial PRIMARY KEY NOT NULL,
+	"project_id" varchar NOT NULL,
+	"table_name" text NOT NULL,
+	"record_id" varchar NOT NULL,
+	"data" text,
+	"client_id" text NOT NULL,
+	"created_at" text NOT NULL
+);
+--> statement-breakpoint
+CREATE INDEX "sync_changes_project_idx" ON "sync_changes" USING btree ("project_id","revision");--> statement-breakpoint
+CREATE INDEX "sync_changes_record_idx" ON "sync_changes" USING btree ("project_id","table_name","record_id");
\ No newline at end of file
@@ -0,0 +1,9 @@
+CREATE TABLE "users" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"username" text NOT NULL,
+	"display_name" text NOT NULL,
+	"password_hash" text NOT NULL,
+	"role" text NOT NULL,
+	"created_at" text NOT NULL,
+	CONSTRAINT "users_username_unique" UNIQUE("username")
+);
@@ -0,0 +1,10 @@
+CREATE TABLE "splice_completions" (
+	"id" varchar PRIMARY KEY NOT NULL,
+	"enclosure_id" varchar,
+	"cable_id" varchar NOT NULL,
+	"fiber" integer NOT NULL,
+	"feed_key" text NOT NULL,
+	"completed_by" text NOT NULL,
+	"completed_at" text NOT NULL,
+	"note" text
+);
@@ -0,0 +1,5 @@
+ALTER TABLE "cables" ADD COLUMN "length_meters" real;--> statement-breakpoint
+ALTER TABLE "cables" ADD COLUMN "attenuation_1310" real;--> statement-breakpoint
+ALTER TABLE "cables" ADD COLUMN "attenuation_1550" real;--> statement-breakpoint
+ALTER TABLE "circuits" ADD COLUMN "splice_method" text;--> statement-breakpoint
+ALTER TABLE "projects" ADD COLUMN "loss_settings" text;
\ No newline at end of file
@@ -0,0 +1,14 @@
+CREATE TABLE "otdr_traces" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"enclosure_id" varchar,
+	"cable_id" varchar NOT NULL,
+	"fiber" integer NOT NULL,
+	"file_name" text NOT NULL,
+	"wavelength" integer,
+	"pulse_width" integer,
+	"index_of_refraction" real,
+	"tested_at" text,
+	"imported_at" text NOT NULL,
+	"events" text NOT NULL,
+	"points" text NOT NULL
+);
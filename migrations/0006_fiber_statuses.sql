@@ -0,0 +1,9 @@
+CREATE TABLE "fiber_statuses" (
+	"id" varchar PRIMARY KEY NOT NULL,
+	"enclosure_id" varchar,
+	"cable_id" varchar NOT NULL,
+	"fiber" integer NOT NULL,
+	"status" text NOT NULL,
+	"note" text,
+	"updated_at" text NOT NULL
+);
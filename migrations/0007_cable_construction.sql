@@ -0,0 +1,3 @@
+ALTER TABLE "cables" ADD COLUMN "tube_count" integer;--> statement-breakpoint
+ALTER TABLE "cables" ADD COLUMN "fibers_per_tube" integer;--> statement-breakpoint
+ALTER TABLE "cables" ADD COLUMN "ribbons_per_tube" integer;
\ No newline at end of file
@@ -0,0 +1,2 @@
+ALTER TABLE "cables" ADD COLUMN "color_code" text;--> statement-breakpoint
+ALTER TABLE "projects" ADD COLUMN "color_codes" text;
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE "cables" ADD COLUMN "super_unit_size" integer;
\ No newline at end of file
@@ -0,0 +1 @@
+DROP TABLE "logs" CASCADE;
\ No newline at end of file
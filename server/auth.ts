@@ -0,0 +1,229 @@
+import type { Express, NextFunction, Request, RequestHandler, Response } from "express";
+import session from "express-session";
+import createMemoryStore from "memorystore";
+import passport from "passport";
+import { Strategy as LocalStrategy } from "passport-local";
+import { randomBytes, scrypt, timingSafeEqual } from "crypto";
+import { promisify } from "util";
+import { z } from "zod";
+import type { User } from "@shared/schema";
+import { createUserSchema, loginSchema, updateUserSchema, type AuthStatus, type SessionUser, type UserRole } from "@shared/auth";
+import { storage } from "./storage";
+import { log } from "./vite";
+
+declare global {
+  namespace Express {
+    interface User extends SessionUser {}
+  }
+}
+
+const scryptAsync = promisify(scrypt);
+
+// Sessions are kept in memory, so everyone signs in again after a server restart
+const SESSION_MAX_AGE_MS = 30 * 24 * 60 * 60 * 1000;
+
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16).toString("hex");
+  const hash = (await scryptAsync(password, salt, 64)) as Buffer;
+  return `${hash.toString("hex")}.${salt}`;
+}
+
+async function verifyPassword(password: string, stored: string): Promise<boolean> {
+  const [hashHex, salt] = stored.split(".");
+  if (!hashHex || !salt) return false;
+  const hash = Buffer.from(hashHex, "hex");
+  const supplied = (await scryptAsync(password, salt, 64)) as Buffer;
+  return hash.length === supplied.length && timingSafeEqual(hash, supplied);
+}
+
+function toSessionUser(user: User): SessionUser {
+  return { id: user.id, username: user.username, displayName: user.displayName, role: user.role as UserRole };
+}
+
+// Rejects requests from anyone not signed in
+export function requireAuth(req: Request, res: Response, next: NextFunction) {
+  if (!req.isAuthenticated()) {
+    return res.status(401).json({ error: "Sign in to continue" });
+  }
+  next();
+}
+
+// Rejects requests from users whose role isn't one of `roles`
+export function requireRole(...roles: UserRole[]): RequestHandler {
+  return (req, res, next) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ error: "Sign in to continue" });
+    }
+    if (!roles.includes(req.user.role)) {
+      return res.status(403).json({ error: "Your role doesn't allow this change" });
+    }
+    next();
+  };
+}
+
+/**
+ * Adds sessions, passport's username/password login and the account routes. Returns the session
+ * middleware so the collaboration socket can recognize signed-in users too.
+ */
+export function setupAuth(app: Express): RequestHandler {
+  const MemoryStore = createMemoryStore(session);
+  if (!process.env.SESSION_SECRET) {
+    log("SESSION_SECRET is not set; using a random secret for this run");
+  }
+
+  const sessionParser = session({
+    secret: process.env.SESSION_SECRET || randomBytes(32).toString("hex"),
+    resave: false,
+    saveUninitialized: false,
+    store: new MemoryStore({ checkPeriod: 24 * 60 * 60 * 1000 }),
+    cookie: { maxAge: SESSION_MAX_AGE_MS, sameSite: "lax", httpOnly: true },
+  });
+
+  app.use(sessionParser);
+  app.use(passport.initialize());
+  app.use(passport.session());
+
+  passport.use(new LocalStrategy(async (username, password, done) => {
+    try {
+      const user = await storage.getUserByUsername(username);
+      if (!user || !(await verifyPassword(password, user.passwordHash))) {
+        return done(null, false);
+      }
+      done(null, toSessionUser(user));
+    } catch (error) {
+      done(error);
+    }
+  }));
+
+  passport.serializeUser((user, done) => done(null, user.id));
+  passport.deserializeUser(async (id: string, done) => {
+    try {
+      const user = await storage.getUser(id);
+      // Deleted accounts are simply signed out
+      done(null, user ? toSessionUser(user) : false);
+    } catch (error) {
+      done(error);
+    }
+  });
+
+  app.get("/api/auth/status", async (req, res) => {
+    try {
+      const status: AuthStatus = {
+        user: req.isAuthenticated() ? req.user : null,
+        setupRequired: (await storage.countUsers()) === 0,
+      };
+      res.json(status);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch sign-in status" });
+    }
+  });
+
+  app.post("/api/auth/login", (req, res, next) => {
+    const parsed = loginSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: "Username and password are required" });
+    }
+    passport.authenticate("local", (error: unknown, user: SessionUser | false) => {
+      if (error) return next(error);
+      if (!user) {
+        return res.status(401).json({ error: "Wrong username or password" });
+      }
+      req.login(user, (loginError) => {
+        if (loginError) return next(loginError);
+        res.json(user);
+      });
+    })(req, res, next);
+  });
+
+  app.post("/api/auth/logout", (req, res, next) => {
+    req.logout((error) => {
+      if (error) return next(error);
+      res.status(204).send();
+    });
+  });
+
+  // The first account on a new server; it is always a designer so someone can add the rest
+  app.post("/api/auth/setup", async (req, res, next) => {
+    try {
+      if ((await storage.countUsers()) > 0) {
+        return res.status(403).json({ error: "This server already has accounts. Ask a designer to add you." });
+      }
+      const { password, ...details } = createUserSchema.parse({ ...req.body, role: "designer" });
+      const user = await storage.createUser({ ...details, passwordHash: await hashPassword(password) });
+      req.login(toSessionUser(user), (error) => {
+        if (error) return next(error);
+        res.status(201).json(toSessionUser(user));
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid account details", details: error.errors });
+      }
+      res.status(500).json({ error: "Failed to create account" });
+    }
+  });
+
+  // Account management, for designers
+  app.get("/api/users", requireRole("designer"), async (_req, res) => {
+    try {
+      const users = await storage.getAllUsers();
+      res.json(users.map(toSessionUser));
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch users" });
+    }
+  });
+
+  app.post("/api/users", requireRole("designer"), async (req, res) => {
+    try {
+      const { password, ...details } = createUserSchema.parse(req.body);
+      if (await storage.getUserByUsername(details.username)) {
+        return res.status(400).json({ error: `Username "${details.username}" is already taken` });
+      }
+      const user = await storage.createUser({ ...details, passwordHash: await hashPassword(password) });
+      res.status(201).json(toSessionUser(user));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid account details", details: error.errors });
+      }
+      res.status(500).json({ error: "Failed to create user" });
+    }
+  });
+
+  app.patch("/api/users/:id", requireRole("designer"), async (req, res) => {
+    try {
+      const { password, ...updates } = updateUserSchema.parse(req.body);
+      if (req.params.id === req.user!.id && updates.role && updates.role !== "designer") {
+        return res.status(400).json({ error: "You can't take away your own designer role" });
+      }
+      const user = await storage.updateUser(req.params.id, {
+        ...updates,
+        ...(password ? { passwordHash: await hashPassword(password) } : {}),
+      });
+      if (!user) {
+        return res.status(404).json({ error: "User not found" });
+      }
+      res.json(toSessionUser(user));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid account details", details: error.errors });
+      }
+      res.status(500).json({ error: "Failed to update user" });
+    }
+  });
+
+  app.delete("/api/users/:id", requireRole("designer"), async (req, res) => {
+    try {
+      if (req.params.id === req.user!.id) {
+        return res.status(400).json({ error: "You can't delete your own account" });
+      }
+      const deleted = await storage.deleteUser(req.params.id);
+      if (!deleted) {
+        return res.status(404).json({ error: "User not found" });
+      }
+      res.status(204).send();
+    } catch (error) {
+      res.status(500).json({ error: "Failed to delete user" });
+    }
+  });
+
+  return sessionParser;
+}
@@ -0,0 +1,157 @@
+import type { IncomingMessage, Server } from "http";
+import type { Request, RequestHandler, Response } from "express";
+import type { Duplex } from "stream";
+import { WebSocket, WebSocketServer } from "ws";
+import {
+  COLLAB_PATH,
+  collabClientMessageSchema,
+  type CollabPeer,
+  type CollabPresence,
+  type CollabServerMessage,
+} from "@shared/collab";
+import { storage } from "./storage";
+import { log } from "./vite";
+
+interface Connection {
+  socket: WebSocket;
+  projectId: string | null;
+  clientId: string;
+  name: string;
+  presence: CollabPresence;
+  alive: boolean;
+}
+
+// Connections per project
+const rooms = new Map<string, Set<Connection>>();
+
+// Dead connections (closed laptops, dropped Wi-Fi) are noticed within this long
+const HEARTBEAT_INTERVAL_MS = 30_000;
+
+function send(connection: Connection, message: CollabServerMessage) {
+  if (connection.socket.readyState === WebSocket.OPEN) {
+    connection.socket.send(JSON.stringify(message));
+  }
+}
+
+function broadcastPeers(projectId: string) {
+  const room = rooms.get(projectId);
+  if (!room) return;
+  const peers: CollabPeer[] = Array.from(room).map(c => ({ clientId: c.clientId, name: c.name, ...c.presence }));
+  room.forEach(connection => send(connection, { type: "peers", peers }));
+}
+
+function leaveRoom(connection: Connection) {
+  const projectId = connection.projectId;
+  if (!projectId) return;
+  const room = rooms.get(projectId);
+  room?.delete(connection);
+  if (room?.size === 0) rooms.delete(projectId);
+  connection.projectId = null;
+  broadcastPeers(projectId);
+}
+
+// The account behind an upgrade request's session cookie, if it is signed in
+function authenticate(request: IncomingMessage, sessionParser: RequestHandler): Promise<string | null> {
+  return new Promise((resolve) => {
+    const req = request as Request;
+    sessionParser(req, {} as Response, async () => {
+      const userId = (req.session as any)?.passport?.user;
+      const user = userId ? await storage.getUser(userId).catch(() => undefined) : undefined;
+      resolve(user ? user.displayName : null);
+    });
+  });
+}
+
+function handleMessage(connection: Connection, raw: string) {
+  let parsed;
+  try {
+    parsed = collabClientMessageSchema.safeParse(JSON.parse(raw));
+  } catch {
+    return;
+  }
+  if (!parsed.success) return;
+  const message = parsed.data;
+
+  if (message.type === "join") {
+    if (connection.projectId !== message.projectId) {
+      leaveRoom(connection);
+      // A new project starts out on its Home tab
+      connection.presence = { enclosureId: null, cableId: null, tab: null };
+    }
+    connection.projectId = message.projectId;
+    connection.clientId = message.clientId;
+
+    let room = rooms.get(message.projectId);
+    if (!room) {
+      room = new Set();
+      rooms.set(message.projectId, room);
+    }
+    room.add(connection);
+    broadcastPeers(message.projectId);
+  } else if (message.type === "presence" && connection.projectId) {
+    connection.presence = message.presence;
+    broadcastPeers(connection.projectId);
+  }
+}
+
+/**
+ * Accepts collaboration WebSockets from signed-in users on the HTTP server. Other upgrade requests
+ * (like Vite's hot reload socket in development) are left for their own handlers.
+ */
+export function setupCollaboration(server: Server, sessionParser: RequestHandler) {
+  const wss = new WebSocketServer({ noServer: true });
+
+  server.on("upgrade", async (request: IncomingMessage, socket: Duplex, head: Buffer) => {
+    const { pathname } = new URL(request.url ?? "/", "http://localhost");
+    if (pathname !== COLLAB_PATH) return;
+
+    const name = await authenticate(request, sessionParser);
+    if (!name) {
+      socket.write("HTTP/1.1 401 Unauthorized\r\n\r\n");
+      socket.destroy();
+      return;
+    }
+    wss.handleUpgrade(request, socket, head, (ws) => wss.emit("connection", ws, name));
+  });
+
+  wss.on("connection", (socket: WebSocket, name: string) => {
+    const connection: Connection = {
+      socket,
+      projectId: null,
+      clientId: "",
+      name, // Collaborators see the account's display name
+      presence: { enclosureId: null, cableId: null, tab: null },
+      alive: true,
+    };
+
+    socket.on("pong", () => {
+      connection.alive = true;
+    });
+    socket.on("message", (data) => handleMessage(connection, data.toString()));
+    socket.on("close", () => leaveRoom(connection));
+    socket.on("error", () => socket.terminate());
+  });
+
+  const heartbeat = setInterval(() => {
+    rooms.forEach(room => room.forEach(connection => {
+      if (!connection.alive) {
+        connection.socket.terminate();
+        return;
+      }
+      connection.alive = false;
+      connection.socket.ping();
+    }));
+  }, HEARTBEAT_INTERVAL_MS);
+  wss.on("close", () => clearInterval(heartbeat));
+
+  log(`Collaboration socket listening on ${COLLAB_PATH}`);
+}
+
+// Tell everyone else in the project that new changes are on the server
+export function notifyProjectChanged(projectId: string, clientId: string, revision: number) {
+  rooms.get(projectId)?.forEach(connection => {
+    if (connection.clientId !== clientId) {
+      send(connection, { type: "changed", revision, clientId });
+    }
+  });
+}
@@ -1,15 +1,27 @@
-import { Pool, neonConfig } from '@neondatabase/serverless';
-import { drizzle } from 'drizzle-orm/neon-serverless';
-import ws from "ws";
+import fs from "fs";
+import path from "path";
+import { PGlite } from "@electric-sql/pglite";
+import { drizzle } from "drizzle-orm/pglite";
+import { migrate } from "drizzle-orm/pglite/migrator";
 import * as schema from "@shared/schema";
 
-neonConfig.webSocketConstructor = ws;
+// Embedded Postgres (PGlite), so the server runs without a hosted database. The data directory
+// can be moved with FIBERSPLICE_DATA_DIR ("memory://" keeps everything in memory).
+export const dataDir = process.env.FIBERSPLICE_DATA_DIR || path.resolve(process.cwd(), "data", "fibersplice");
 
-if (!process.env.DATABASE_URL) {
-  throw new Error(
-    "DATABASE_URL must be set. Did you forget to provision a database?",
-  );
+if (!dataDir.startsWith("memory://")) {
+  fs.mkdirSync(dataDir, { recursive: true });
 }
 
-export const pool = new Pool({ connectionString: process.env.DATABASE_URL });
-export const db = drizzle({ client: pool, schema });
+export const client = new PGlite(dataDir);
+export const db = drizzle({ client, schema });
+
+// Migrations are generated from shared/schema.ts with `npm run db:generate`
+const migrationsFolder = path.resolve(import.meta.dirname, "..", "migrations");
+
+/**
+ * Creates or upgrades the tables to match shared/schema.ts. Run once at startup, before any request is served.
+ */
+export async function migrateDatabase(): Promise<void> {
+  await migrate(db, { migrationsFolder });
+}
@@ -1,12 +1,19 @@
-// Minimal server for PWA - Frontend only (no backend API)
+// Serves the PWA, the REST API (backed by the embedded database in ./db) and the collaboration socket
 import express from "express";
 import { setupVite, serveStatic, log } from "./vite";
-import { createServer } from "http";
+import { migrateDatabase } from "./db";
+import { registerRoutes } from "./routes";
+import { setupCollaboration } from "./collab";
+import { setupAuth } from "./auth";
 
 const app = express();
+app.use(express.json({ limit: "10mb" }));
 
 (async () => {
-  const server = createServer(app);
+  await migrateDatabase();
+  const sessionParser = setupAuth(app);
+  const server = await registerRoutes(app);
+  setupCollaboration(server, sessionParser);
 
   // Setup Vite dev server in development, static file serving in production
   if (app.get("env") === "development") {
@@ -18,6 +25,6 @@ const app = express();
   // Serve on port 5000 (Replit requirement)
   const port = parseInt(process.env.PORT || '5000', 10);
   server.listen(port, '0.0.0.0', () => {
-    log(`PWA dev server running on port ${port}`);
+    log(`Server running on port ${port}`);
   });
 })();
@@ -1,10 +1,17 @@
 import type { Express } from "express";
 import { createServer, type Server } from "http";
 import { storage } from "./storage";
+import { notifyProjectChanged } from "./collab";
+import { requireAuth, requireRole } from "./auth";
 import { insertCableSchema, insertCircuitSchema, insertSpliceSchema, parseCircuitId, circuitIdsOverlap, type Circuit } from "@shared/schema";
+import { syncPushSchema } from "@shared/sync";
+import { canChangeRecord, canEditDesign, completionFields } from "@shared/auth";
 import { z } from "zod";
 
 export async function registerRoutes(app: Express): Promise<Server> {
+  // Every route below needs a signed-in user; reads are open to all roles, changes are checked per route
+  app.use("/api", requireAuth);
+
   app.get("/api/cables", async (_req, res) => {
     try {
       const cables = await storage.getAllCables();
@@ -26,7 +33,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/cables", async (req, res) => {
+  app.post("/api/cables", requireRole("designer"), async (req, res) => {
     try {
       const validatedData = insertCableSchema.parse(req.body);
       
@@ -119,7 +126,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.put("/api/cables/:id", async (req, res) => {
+  app.put("/api/cables/:id", requireRole("designer"), async (req, res) => {
     try {
       const validatedData = insertCableSchema.parse(req.body);
       
@@ -145,7 +152,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.delete("/api/cables/:id", async (req, res) => {
+  app.delete("/api/cables/:id", requireRole("designer"), async (req, res) => {
     try {
       const deleted = await storage.deleteCable(req.params.id);
       if (!deleted) {
@@ -187,7 +194,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/circuits", async (req, res) => {
+  app.post("/api/circuits", requireRole("designer"), async (req, res) => {
     try {
       const validatedData = insertCircuitSchema.parse(req.body);
       
@@ -244,7 +251,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.put("/api/circuits/:id", async (req, res) => {
+  app.put("/api/circuits/:id", requireRole("designer"), async (req, res) => {
     try {
       const partialData = insertCircuitSchema.partial().parse(req.body);
       const circuit = await storage.updateCircuit(req.params.id, partialData);
@@ -260,7 +267,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.patch("/api/circuits/:id/toggle-spliced", async (req, res) => {
+  app.patch("/api/circuits/:id/toggle-spliced", requireRole("designer"), async (req, res) => {
     try {
       const { feedCableId, feedFiberStart, feedFiberEnd } = req.body;
       
@@ -317,7 +324,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.patch("/api/circuits/:id/update-circuit-id", async (req, res) => {
+  app.patch("/api/circuits/:id/update-circuit-id", requireRole("designer"), async (req, res) => {
     try {
       const circuit = await storage.getCircuit(req.params.id);
       if (!circuit) {
@@ -384,7 +391,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.patch("/api/circuits/:id/move", async (req, res) => {
+  app.patch("/api/circuits/:id/move", requireRole("designer"), async (req, res) => {
     try {
       const circuit = await storage.getCircuit(req.params.id);
       if (!circuit) {
@@ -447,7 +454,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.delete("/api/circuits/:id", async (req, res) => {
+  app.delete("/api/circuits/:id", requireRole("designer"), async (req, res) => {
     try {
       // Get the circuit being deleted to know its cable
       const circuit = await storage.getCircuit(req.params.id);
@@ -518,7 +525,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/splices", async (req, res) => {
+  app.post("/api/splices", requireRole("designer"), async (req, res) => {
     try {
       const sourceCable = await storage.getCable(req.body.sourceCableId);
       const destCable = await storage.getCable(req.body.destinationCableId);
@@ -570,8 +577,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.put("/api/splices/:id", async (req, res) => {
+  app.put("/api/splices/:id", requireRole("designer", "technician"), async (req, res) => {
     try {
+      // Technicians can only mark splices complete
+      if (!canEditDesign(req.user!.role) && Object.keys(req.body).some(key => !completionFields.splices.includes(key))) {
+        return res.status(403).json({ error: "Technicians can only mark splices complete" });
+      }
+
       const existingSplice = await storage.getSplice(req.params.id);
       if (!existingSplice) {
         return res.status(404).json({ error: "Splice not found" });
@@ -632,7 +644,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.delete("/api/splices/:id", async (req, res) => {
+  app.delete("/api/splices/:id", requireRole("designer"), async (req, res) => {
     try {
       const deleted = await storage.deleteSplice(req.params.id);
       if (!deleted) {
@@ -654,7 +666,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/saves", async (req, res) => {
+  app.post("/api/saves", requireRole("designer"), async (req, res) => {
     try {
       // Get current cables and circuits
       const cables = await storage.getAllCables();
@@ -685,7 +697,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/saves/:id/load", async (req, res) => {
+  app.post("/api/saves/:id/load", requireRole("designer"), async (req, res) => {
     try {
       const saveData = await storage.loadSave(req.params.id);
       if (!saveData) {
@@ -742,7 +754,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.delete("/api/reset", async (_req, res) => {
+  app.delete("/api/reset", requireRole("designer"), async (_req, res) => {
     try {
       await storage.resetAllData();
       res.status(200).json({ message: "All data has been reset successfully" });
@@ -751,6 +763,56 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Sync routes - devices push their local changes and pull everyone else's, per project
+  app.get("/api/sync/projects", async (req, res) => {
+    try {
+      const mode = req.query.mode === "copper" ? "copper" : "fiber";
+      const projects = await storage.getSyncProjects(mode);
+      res.json(projects);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch sync projects" });
+    }
+  });
+
+  app.get("/api/sync/projects/:projectId/changes", async (req, res) => {
+    try {
+      const since = parseInt(String(req.query.since ?? "0"), 10);
+      if (isNaN(since) || since < 0) {
+        return res.status(400).json({ error: "since must be a revision number" });
+      }
+      const changes = await storage.getSyncChanges(req.params.projectId, since);
+      res.json(changes);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch changes" });
+    }
+  });
+
+  app.post("/api/sync/projects/:projectId/changes", async (req, res) => {
+    try {
+      const push = syncPushSchema.parse(req.body);
+      // Changes beyond the user's role are handed back for the device to undo, and only
+      // designers name or set up the project
+      const role = req.user!.role;
+      const result = await storage.pushSyncChanges(
+        req.params.projectId,
+        push,
+        (change, current) => canChangeRecord(role, change.table, current, change.data),
+        canEditDesign(role),
+      );
+      if (result.applied.length > 0) {
+        // Collaborators pull straight away instead of waiting for their next sync
+        const revision = Math.max(...result.applied.map(record => record.revision));
+        notifyProjectChanged(req.params.projectId, push.clientId, revision);
+      }
+      res.json(result);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid sync data", details: error.errors });
+      }
+      res.status(500).json({ error: "Failed to store changes" });
+    }
+  });
+
   const httpServer = createServer(app);
   return httpServer;
 }
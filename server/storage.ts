@@ -0,0 +1,405 @@
+import { and, asc, count, desc, eq, gt, gte, lte, max, ne, or } from "drizzle-orm";
+import {
+  cables,
+  circuits,
+  enclosures,
+  projects,
+  saves,
+  splices,
+  splitters,
+  syncChanges,
+  users,
+  type Cable,
+  type Circuit,
+  type InsertCable,
+  type InsertCircuit,
+  type InsertSave,
+  type InsertSplice,
+  type Project,
+  type Save,
+  type Splice,
+  type SyncChangeRow,
+  type User,
+} from "@shared/schema";
+import { sameRecord, type SyncChange, type SyncPullResponse, type SyncPushRequest, type SyncPushResponse, type SyncRecord, type SyncTable } from "@shared/sync";
+import { db } from "./db";
+
+// Contents of a save, as stored in its data column
+export interface SaveData {
+  cables: Cable[];
+  circuits: Circuit[];
+}
+
+export interface IStorage {
+  // Cable operations
+  getAllCables(): Promise<Cable[]>;
+  getCable(id: string): Promise<Cable | undefined>;
+  createCable(cable: InsertCable): Promise<Cable>;
+  updateCable(id: string, updates: Partial<InsertCable>): Promise<Cable | undefined>;
+  deleteCable(id: string): Promise<boolean>;
+
+  // Circuit operations
+  getAllCircuits(): Promise<Circuit[]>;
+  getCircuitsByCableId(cableId: string): Promise<Circuit[]>;
+  getCircuit(id: string): Promise<Circuit | undefined>;
+  createCircuit(circuit: InsertCircuit & { position: number; fiberStart: number; fiberEnd: number }): Promise<Circuit>;
+  updateCircuit(id: string, updates: Partial<Circuit>): Promise<Circuit | undefined>;
+  toggleCircuitSpliced(id: string, feedCableId?: string, feedFiberStart?: number, feedFiberEnd?: number): Promise<Circuit | undefined>;
+  deleteCircuit(id: string): Promise<boolean>;
+
+  // Splice operations
+  getAllSplices(): Promise<Splice[]>;
+  getSplice(id: string): Promise<Splice | undefined>;
+  createSplice(splice: InsertSplice): Promise<Splice>;
+  updateSplice(id: string, updates: Partial<InsertSplice>): Promise<Splice | undefined>;
+  deleteSplice(id: string): Promise<boolean>;
+  checkSpliceConflict(cableId: string, startFiber: number, endFiber: number, excludeSpliceId?: string): Promise<boolean>;
+
+  // Save operations
+  getAllSaves(): Promise<Save[]>;
+  createSave(save: InsertSave): Promise<Save>;
+  loadSave(id: string): Promise<SaveData | undefined>;
+
+  resetAllData(): Promise<void>;
+
+  // Sync operations (per project, for devices syncing their local stores)
+  getSyncProjects(mode: "fiber" | "copper"): Promise<Project[]>;
+  getSyncChanges(projectId: string, since: number): Promise<SyncPullResponse>;
+  pushSyncChanges(projectId: string, push: SyncPushRequest, canChange?: SyncChangeFilter, canEditProject?: boolean): Promise<SyncPushResponse>;
+
+  // User operations
+  getUser(id: string): Promise<User | undefined>;
+  getUserByUsername(username: string): Promise<User | undefined>;
+  getAllUsers(): Promise<User[]>;
+  countUsers(): Promise<number>;
+  createUser(user: Omit<User, "id" | "createdAt">): Promise<User>;
+  updateUser(id: string, updates: Partial<Omit<User, "id" | "createdAt">>): Promise<User | undefined>;
+  deleteUser(id: string): Promise<boolean>;
+}
+
+// Decides whether a pushed change may replace the server's copy of the record (null if it has none)
+export type SyncChangeFilter = (change: SyncChange, current: Record<string, any> | null) => boolean;
+
+function toSyncRecord(row: SyncChangeRow): SyncRecord {
+  return {
+    table: row.tableName as SyncTable,
+    recordId: row.recordId,
+    data: row.data === null ? null : JSON.parse(row.data),
+    revision: row.revision,
+    clientId: row.clientId,
+  };
+}
+
+// Storage backed by the embedded database in ./db
+export class DatabaseStorage implements IStorage {
+  // Cable operations
+  async getAllCables(): Promise<Cable[]> {
+    return await db.select().from(cables);
+  }
+
+  async getCable(id: string): Promise<Cable | undefined> {
+    const [cable] = await db.select().from(cables).where(eq(cables.id, id));
+    return cable;
+  }
+
+  async createCable(cable: InsertCable): Promise<Cable> {
+    const { circuitIds, ...cableData } = cable;
+    const [newCable] = await db.insert(cables).values(cableData).returning();
+    return newCable;
+  }
+
+  async updateCable(id: string, updates: Partial<InsertCable>): Promise<Cable | undefined> {
+    const { circuitIds, ...cableUpdates } = updates;
+    return await db.transaction(async (tx) => {
+      const [cable] = await tx.update(cables).set(cableUpdates).where(eq(cables.id, id)).returning();
+
+      // Moving a cable to another enclosure moves its circuits too
+      if (cable && cableUpdates.enclosureId) {
+        await tx.update(circuits).set({ enclosureId: cableUpdates.enclosureId }).where(eq(circuits.cableId, id));
+      }
+      return cable;
+    });
+  }
+
+  async deleteCable(id: string): Promise<boolean> {
+    return await db.transaction(async (tx) => {
+      // Splitters fed from this cable lose their input
+      await tx.update(splitters).set({ inputCableId: null, inputFiber: null }).where(eq(splitters.inputCableId, id));
+      await tx.delete(circuits).where(eq(circuits.cableId, id));
+      const deleted = await tx.delete(cables).where(eq(cables.id, id)).returning({ id: cables.id });
+      return deleted.length > 0;
+    });
+  }
+
+  // Circuit operations
+  async getAllCircuits(): Promise<Circuit[]> {
+    return await db.select().from(circuits);
+  }
+
+  async getCircuitsByCableId(cableId: string): Promise<Circuit[]> {
+    return await db.select().from(circuits).where(eq(circuits.cableId, cableId)).orderBy(asc(circuits.position));
+  }
+
+  async getCircuit(id: string): Promise<Circuit | undefined> {
+    const [circuit] = await db.select().from(circuits).where(eq(circuits.id, id));
+    return circuit;
+  }
+
+  async createCircuit(circuit: InsertCircuit & { position: number; fiberStart: number; fiberEnd: number }): Promise<Circuit> {
+    // Circuits live in the same enclosure as their cable
+    const cable = await this.getCable(circuit.cableId);
+    const [newCircuit] = await db.insert(circuits).values({
+      ...circuit,
+      enclosureId: cable?.enclosureId ?? null,
+    }).returning();
+    return newCircuit;
+  }
+
+  async updateCircuit(id: string, updates: Partial<Circuit>): Promise<Circuit | undefined> {
+    const { id: _id, ...circuitUpdates } = updates;
+    const [circuit] = await db.update(circuits).set(circuitUpdates).where(eq(circuits.id, id)).returning();
+    return circuit;
+  }
+
+  // Splices a circuit to the given feed fibers, or clears the splice if it is already spliced
+  async toggleCircuitSpliced(id: string, feedCableId?: string, feedFiberStart?: number, feedFiberEnd?: number): Promise<Circuit | undefined> {
+    const circuit = await this.getCircuit(id);
+    if (!circuit) return undefined;
+
+    if (circuit.isSpliced === 1) {
+      return await this.updateCircuit(id, {
+        isSpliced: 0,
+        feedCableId: null,
+        feedFiberStart: null,
+        feedFiberEnd: null,
+        splitterId: null,
+      });
+    }
+    return await this.updateCircuit(id, {
+      isSpliced: 1,
+      feedCableId: feedCableId ?? null,
+      feedFiberStart: feedFiberStart ?? null,
+      feedFiberEnd: feedFiberEnd ?? null,
+    });
+  }
+
+  async deleteCircuit(id: string): Promise<boolean> {
+    const deleted = await db.delete(circuits).where(eq(circuits.id, id)).returning({ id: circuits.id });
+    return deleted.length > 0;
+  }
+
+  // Splice operations
+  async getAllSplices(): Promise<Splice[]> {
+    return await db.select().from(splices);
+  }
+
+  async getSplice(id: string): Promise<Splice | undefined> {
+    const [splice] = await db.select().from(splices).where(eq(splices.id, id));
+    return splice;
+  }
+
+  async createSplice(splice: InsertSplice): Promise<Splice> {
+    const [newSplice] = await db.insert(splices).values(splice).returning();
+    return newSplice;
+  }
+
+  async updateSplice(id: string, updates: Partial<InsertSplice>): Promise<Splice | undefined> {
+    const [splice] = await db.update(splices).set(updates).where(eq(splices.id, id)).returning();
+    return splice;
+  }
+
+  async deleteSplice(id: string): Promise<boolean> {
+    const deleted = await db.delete(splices).where(eq(splices.id, id)).returning({ id: splices.id });
+    return deleted.length > 0;
+  }
+
+  // True when another splice already uses any of the fibers on either end of the cable
+  async checkSpliceConflict(cableId: string, startFiber: number, endFiber: number, excludeSpliceId?: string): Promise<boolean> {
+    const overlapping = or(
+      and(
+        eq(splices.sourceCableId, cableId),
+        lte(splices.sourceStartFiber, endFiber),
+        gte(splices.sourceEndFiber, startFiber),
+      ),
+      and(
+        eq(splices.destinationCableId, cableId),
+        lte(splices.destinationStartFiber, endFiber),
+        gte(splices.destinationEndFiber, startFiber),
+      ),
+    );
+    const [conflict] = await db
+      .select({ id: splices.id })
+      .from(splices)
+      .where(excludeSpliceId ? and(overlapping, ne(splices.id, excludeSpliceId)) : overlapping)
+      .limit(1);
+    return conflict !== undefined;
+  }
+
+  // Save operations
+  async getAllSaves(): Promise<Save[]> {
+    return await db.select().from(saves).orderBy(desc(saves.createdAt));
+  }
+
+  async createSave(save: InsertSave): Promise<Save> {
+    const [newSave] = await db.insert(saves).values({ ...save, createdAt: new Date().toISOString() }).returning();
+    return newSave;
+  }
+
+  async loadSave(id: string): Promise<SaveData | undefined> {
+    const [save] = await db.select().from(saves).where(eq(saves.id, id));
+    if (!save) return undefined;
+    return JSON.parse(save.data) as SaveData;
+  }
+
+  // Clears the design data; saves are kept so a reset can be undone by loading one
+  async resetAllData(): Promise<void> {
+    await db.transaction(async (tx) => {
+      await tx.delete(splices);
+      await tx.delete(circuits);
+      await tx.delete(cables);
+      await tx.delete(splitters);
+      await tx.delete(enclosures);
+    });
+  }
+
+  // Sync operations
+  async getSyncProjects(mode: "fiber" | "copper"): Promise<Project[]> {
+    return await db.select().from(projects).where(eq(projects.mode, mode)).orderBy(desc(projects.modifiedAt));
+  }
+
+  async getSyncChanges(projectId: string, since: number): Promise<SyncPullResponse> {
+    const rows = await db
+      .select()
+      .from(syncChanges)
+      .where(and(eq(syncChanges.projectId, projectId), gt(syncChanges.revision, since)))
+      .orderBy(asc(syncChanges.revision));
+
+    // Only the newest change to each record matters
+    const latest = new Map<string, SyncChangeRow>();
+    for (const row of rows) {
+      latest.set(`${row.tableName}:${row.recordId}`, row);
+    }
+
+    const [{ revision }] = await db
+      .select({ revision: max(syncChanges.revision) })
+      .from(syncChanges)
+      .where(eq(syncChanges.projectId, projectId));
+
+    return {
+      revision: revision ?? since,
+      changes: Array.from(latest.values()).map(toSyncRecord),
+    };
+  }
+
+  // Stores each change unless another device changed the record after the pusher last saw it,
+  // in which case the server's copy is returned as a conflict and nothing is stored for that record
+  // Changes canChange refuses are returned as rejected, with the server's copy to restore.
+  // The project's name and settings are only created or updated when canEditProject is set
+  async pushSyncChanges(projectId: string, push: SyncPushRequest, canChange: SyncChangeFilter = () => true, canEditProject = true): Promise<SyncPushResponse> {
+    const now = new Date().toISOString();
+    return await db.transaction(async (tx) => {
+      const applied: SyncRecord[] = [];
+      const conflicts: SyncRecord[] = [];
+      const rejected: SyncRecord[] = [];
+
+      const storeChange = async (change: SyncChange) => {
+        const [row] = await tx.insert(syncChanges).values({
+          projectId,
+          tableName: change.table,
+          recordId: change.recordId,
+          data: change.data === null ? null : JSON.stringify(change.data),
+          clientId: push.clientId,
+          createdAt: now,
+        }).returning();
+        applied.push(toSyncRecord(row));
+      };
+
+      for (const change of push.changes) {
+        const [latestRow] = await tx
+          .select()
+          .from(syncChanges)
+          .where(and(
+            eq(syncChanges.projectId, projectId),
+            eq(syncChanges.tableName, change.table),
+            eq(syncChanges.recordId, change.recordId),
+          ))
+          .orderBy(desc(syncChanges.revision))
+          .limit(1);
+
+        const current = latestRow ? toSyncRecord(latestRow) : null;
+        if (!canChange(change, current?.data ?? null)) {
+          rejected.push(current ?? { table: change.table, recordId: change.recordId, data: null, revision: 0, clientId: push.clientId });
+          continue;
+        }
+
+        if (!current || current.revision <= change.baseRevision || current.clientId === push.clientId) {
+          await storeChange(change);
+          continue;
+        }
+
+        if (sameRecord(current.data, change.data)) {
+          // Both devices made the same change - nothing to resolve
+          applied.push(current);
+        } else {
+          conflicts.push(current);
+        }
+      }
+
+      if (applied.length > 0 && canEditProject) {
+        await tx.insert(projects).values({ id: projectId, ...push.project, modifiedAt: now, archived: 0 }).onConflictDoUpdate({
+          target: projects.id,
+          set: {
+            name: push.project.name,
+            jobNumber: push.project.jobNumber,
+            ...(push.project.lossSettings !== undefined ? { lossSettings: push.project.lossSettings } : {}),
+            ...(push.project.colorCodes !== undefined ? { colorCodes: push.project.colorCodes } : {}),
+            modifiedAt: now,
+          },
+        });
+      }
+
+      return { applied, conflicts, rejected };
+    });
+  }
+
+  // User operations
+  async getUser(id: string): Promise<User | undefined> {
+    const [user] = await db.select().from(users).where(eq(users.id, id));
+    return user;
+  }
+
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    const [user] = await db.select().from(users).where(eq(users.username, username.toLowerCase()));
+    return user;
+  }
+
+  async getAllUsers(): Promise<User[]> {
+    return await db.select().from(users).orderBy(asc(users.username));
+  }
+
+  async countUsers(): Promise<number> {
+    const [{ value }] = await db.select({ value: count() }).from(users);
+    return value;
+  }
+
+  async createUser(user: Omit<User, "id" | "createdAt">): Promise<User> {
+    const [newUser] = await db.insert(users).values({
+      ...user,
+      username: user.username.toLowerCase(), // Usernames are case-insensitive
+      createdAt: new Date().toISOString(),
+    }).returning();
+    return newUser;
+  }
+
+  async updateUser(id: string, updates: Partial<Omit<User, "id" | "createdAt">>): Promise<User | undefined> {
+    const [user] = await db.update(users).set(updates).where(eq(users.id, id)).returning();
+    return user;
+  }
+
+  async deleteUser(id: string): Promise<boolean> {
+    const deleted = await db.delete(users).where(eq(users.id, id)).returning({ id: users.id });
+    return deleted.length > 0;
+  }
+}
+
+export const storage = new DatabaseStorage();
@@ -0,0 +1,124 @@
+import { beforeAll, describe, expect, it } from "vitest";
+import { canChangeRecord, canEditDesign, type UserRole } from "@shared/auth";
+import type { SyncChange, SyncPushRequest } from "@shared/sync";
+import { migrateDatabase } from "./db";
+import { storage } from "./storage";
+
+const cable = {
+  id: "cable-1",
+  name: "Feed 1",
+  fiberCount: 24,
+  ribbonSize: 12,
+  tubeCount: null,
+  fibersPerTube: null,
+  ribbonsPerTube: null,
+  colorCode: null,
+  superUnitSize: null,
+  type: "Feed",
+  enclosureId: null,
+  lengthMeters: null,
+  attenuation1310: null,
+  attenuation1550: null,
+};
+
+const circuit = {
+  id: "circuit-1",
+  cableId: "cable-1",
+  circuitId: "a,1-12",
+  position: 0,
+  fiberStart: 1,
+  fiberEnd: 12,
+  isSpliced: 0,
+  feedCableId: null,
+  feedFiberStart: null,
+  feedFiberEnd: null,
+  enclosureId: null,
+  splitterId: null,
+  spliceMethod: null,
+};
+
+const completion = {
+  id: "completion-1",
+  cableId: "cable-1",
+  fiber: 1,
+  enclosureId: null,
+  feedKey: "cable:cable-0:1",
+  completedBy: "Sam",
+  completedAt: "2026-01-01T00:00:00.000Z",
+  note: null,
+};
+
+// The project details every push carries
+function pushOf(clientId: string, changes: SyncChange[], name = "Main St"): SyncPushRequest {
+  return {
+    clientId,
+    project: { name, jobNumber: null, mode: "fiber", createdAt: "2026-01-01T00:00:00.000Z" },
+    changes,
+  };
+}
+
+// Pushes the way the sync route does for a signed-in user of the given role
+function pushAs(role: UserRole, projectId: string, push: SyncPushRequest) {
+  return storage.pushSyncChanges(
+    projectId,
+    push,
+    (change, current) => canChangeRecord(role, change.table, current, change.data),
+    canEditDesign(role),
+  );
+}
+
+beforeAll(async () => {
+  await migrateDatabase();
+});
+
+describe("technician sync pushes", () => {
+  it("rejects new cables and circuits", async () => {
+    const result = await pushAs("technician", "project-new", pushOf("tech", [
+      { table: "cables", recordId: cable.id, data: cable, baseRevision: 0 },
+      { table: "circuits", recordId: circuit.id, data: circuit, baseRevision: 0 },
+    ]));
+
+    expect(result.applied).toEqual([]);
+    expect(result.rejected.map(record => [record.table, record.data])).toEqual([["cables", null], ["circuits", null]]);
+    expect((await storage.getSyncChanges("project-new", 0)).changes).toEqual([]);
+  });
+
+  it("rejects edits and deletes of a designer's cables and circuits", async () => {
+    const designed = await pushAs("designer", "project-edit", pushOf("designer", [
+      { table: "cables", recordId: cable.id, data: cable, baseRevision: 0 },
+      { table: "circuits", recordId: circuit.id, data: circuit, baseRevision: 0 },
+    ]));
+    const revisions = new Map(designed.applied.map(record => [record.table, record.revision]));
+
+    const result = await pushAs("technician", "project-edit", pushOf("tech", [
+      { table: "cables", recordId: cable.id, data: { ...cable, name: "Feed 2" }, baseRevision: revisions.get("cables")! },
+      { table: "circuits", recordId: circuit.id, data: null, baseRevision: revisions.get("circuits")! },
+    ]));
+
+    expect(result.applied).toEqual([]);
+    expect(result.rejected.map(record => record.data)).toEqual([cable, circuit]);
+    const { changes } = await storage.getSyncChanges("project-edit", 0);
+    expect(changes.map(record => record.data)).toEqual([cable, circuit]);
+  });
+
+  it("stores splice sign-offs", async () => {
+    const result = await pushAs("technician", "project-signoff", pushOf("tech", [
+      { table: "spliceCompletions", recordId: completion.id, data: completion, baseRevision: 0 },
+    ]));
+
+    expect(result.rejected).toEqual([]);
+    expect(result.applied.map(record => record.data)).toEqual([completion]);
+  });
+
+  it("leaves the project's details alone", async () => {
+    await pushAs("designer", "project-details", pushOf("designer", [
+      { table: "cables", recordId: cable.id, data: cable, baseRevision: 0 },
+    ], "Main St"));
+    await pushAs("technician", "project-details", pushOf("tech", [
+      { table: "spliceCompletions", recordId: completion.id, data: completion, baseRevision: 0 },
+    ], "Renamed"));
+
+    const projects = await storage.getSyncProjects("fiber");
+    expect(projects.find(project => project.id === "project-details")?.name).toBe("Main St");
+  });
+});
@@ -0,0 +1,73 @@
+import { z } from "zod";
+
+// Designers lay out cables and circuits, technicians sign off splices in the field, viewers only look
+export const userRoles = ["designer", "technician", "viewer"] as const;
+export type UserRole = typeof userRoles[number];
+
+export const roleLabels: Record<UserRole, string> = {
+  designer: "Designer",
+  technician: "Technician",
+  viewer: "Viewer",
+};
+
+export const loginSchema = z.object({
+  username: z.string().trim().min(1, "Username is required"),
+  password: z.string().min(1, "Password is required"),
+});
+
+export const createUserSchema = z.object({
+  username: z.string().trim().min(1, "Username is required").max(40),
+  displayName: z.string().trim().min(1, "Name is required").max(40),
+  password: z.string().min(8, "Password must be at least 8 characters"),
+  role: z.enum(userRoles),
+});
+
+export const updateUserSchema = createUserSchema.omit({ username: true }).partial();
+
+export type LoginRequest = z.infer<typeof loginSchema>;
+export type CreateUserRequest = z.infer<typeof createUserSchema>;
+export type UpdateUserRequest = z.infer<typeof updateUserSchema>;
+
+// A user as the API returns it - never with the password hash
+export interface SessionUser {
+  id: string;
+  username: string;
+  displayName: string;
+  role: UserRole;
+}
+
+export interface AuthStatus {
+  user: SessionUser | null;
+  setupRequired: boolean; // No accounts yet; the first one becomes a designer
+}
+
+// Fields a technician may change on records they can't otherwise edit
+export const completionFields: Record<string, string[]> = {
+  splices: ["isCompleted"],
+};
+
+// Tables of field records technicians create, change and remove themselves. OTDR traces and fiber
+// statuses stay with designers, who decide what a fiber is used for
+export const completionTables = ["spliceCompletions"];
+
+export function canEditDesign(role: UserRole): boolean {
+  return role === "designer";
+}
+
+export function canMarkComplete(role: UserRole): boolean {
+  return role === "designer" || role === "technician";
+}
+
+// Whether a role may turn record `before` into `after` (either null for a create or delete)
+export function canChangeRecord(role: UserRole, table: string, before: Record<string, any> | null, after: Record<string, any> | null): boolean {
+  if (canEditDesign(role)) return true;
+  if (!canMarkComplete(role)) return false;
+  if (completionTables.includes(table)) return true;
+  if (before === null || after === null) return false;
+
+  const allowed = completionFields[table] ?? [];
+  const keys = new Set([...Object.keys(before), ...Object.keys(after)]);
+  return Array.from(keys).every(key =>
+    allowed.includes(key) || JSON.stringify(before[key] ?? null) === JSON.stringify(after[key] ?? null)
+  );
+}
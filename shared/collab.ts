@@ -0,0 +1,55 @@
+import { z } from "zod";
+
+// WebSocket endpoint for live collaboration, served next to the REST API
+export const COLLAB_PATH = "/ws/collab";
+
+// What a person is looking at in the project
+export const collabPresenceSchema = z.object({
+  enclosureId: z.string().nullable(),
+  cableId: z.string().nullable(), // Cable whose tab (or Home card) is open
+  tab: z.string().nullable(),
+});
+
+export const collabClientMessageSchema = z.discriminatedUnion("type", [
+  // Sent on connect and when switching projects; others see the signed-in account's name
+  z.object({
+    type: z.literal("join"),
+    projectId: z.string().min(1),
+    clientId: z.string().min(1),
+  }),
+  z.object({
+    type: z.literal("presence"),
+    presence: collabPresenceSchema,
+  }),
+]);
+
+export type CollabPresence = z.infer<typeof collabPresenceSchema>;
+export type CollabClientMessage = z.infer<typeof collabClientMessageSchema>;
+
+export interface CollabPeer extends CollabPresence {
+  clientId: string;
+  name: string;
+}
+
+export type CollabServerMessage =
+  // Everyone currently in the project, sent whenever someone joins, leaves or moves
+  | { type: "peers"; peers: CollabPeer[] }
+  // Someone pushed changes to the project; pull them
+  | { type: "changed"; revision: number; clientId: string };
+
+// Fixed color per device, so a person keeps the same color on every screen
+const peerColors = ["#2563eb", "#16a34a", "#d97706", "#dc2626", "#7c3aed", "#0891b2", "#db2777", "#65a30d"];
+
+export function getPeerColor(clientId: string): string {
+  let hash = 0;
+  for (let i = 0; i < clientId.length; i++) {
+    hash = (hash * 31 + clientId.charCodeAt(i)) | 0;
+  }
+  return peerColors[Math.abs(hash) % peerColors.length];
+}
+
+// "Jo Smith" -> "JS"
+export function getPeerInitials(name: string): string {
+  const words = name.trim().split(/\s+/).filter(Boolean);
+  return (words.length > 1 ? words[0][0] + words[words.length - 1][0] : name.slice(0, 2)).toUpperCase();
+}
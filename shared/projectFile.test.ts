@@ -0,0 +1,192 @@
+import { describe, expect, it } from "vitest";
+import { defaultLossSettings, type Cable, type Circuit } from "./schema";
+import {
+  PROJECT_FILE_FORMAT,
+  PROJECT_FILE_VERSION,
+  findProjectReferenceErrors,
+  parseProjectFile,
+  projectFileSchema,
+  type ProjectFile,
+} from "./projectFile";
+
+// Cable and circuit fields as the original unversioned export wrote them
+const v1Cables = [
+  { id: "f1", name: "F1", fiberCount: 24, type: "Feed" },
+  { id: "d1", name: "D1", fiberCount: 12, ribbonSize: 6, type: "Distribution" },
+];
+const v1Circuits = [
+  { id: "c1", cableId: "d1", circuitId: "pon,1-8", position: 0, fiberStart: 1, fiberEnd: 8, isSpliced: 1, feedCableId: "f1", feedFiberStart: 1, feedFiberEnd: 8 },
+  { id: "c2", cableId: "d1", circuitId: "pon,9-12", position: 1, fiberStart: 9, fiberEnd: 12 },
+];
+
+function makeCable(id: string, fiberCount: number): Cable {
+  return {
+    id,
+    name: id.toUpperCase(),
+    fiberCount,
+    ribbonSize: 12,
+    tubeCount: null,
+    fibersPerTube: null,
+    ribbonsPerTube: null,
+    colorCode: null,
+    superUnitSize: null,
+    type: "Distribution",
+    enclosureId: "e1",
+    lengthMeters: null,
+    attenuation1310: null,
+    attenuation1550: null,
+  };
+}
+
+function makeCircuit(id: string, cableId: string, splice: Partial<Circuit> = {}): Circuit {
+  return {
+    id,
+    cableId,
+    enclosureId: "e1",
+    circuitId: "pon,1-4",
+    position: 0,
+    fiberStart: 1,
+    fiberEnd: 4,
+    isSpliced: 0,
+    feedCableId: null,
+    feedFiberStart: null,
+    feedFiberEnd: null,
+    splitterId: null,
+    spliceMethod: null,
+    ...splice,
+  };
+}
+
+function makeProject(records: Partial<ProjectFile> = {}): ProjectFile {
+  return {
+    format: PROJECT_FILE_FORMAT,
+    formatVersion: PROJECT_FILE_VERSION,
+    appVersion: "1.0.0",
+    projectName: "Main St",
+    jobNumber: null,
+    lossSettings: null,
+    colorCodes: [],
+    mode: "fiber",
+    createdAt: "2026-10-01T00:00:00.000Z",
+    modifiedAt: "2026-10-19T00:00:00.000Z",
+    enclosures: [{ id: "e1", name: "E1", type: "Dome", trayCount: 1, locationNotes: null }],
+    splitters: [],
+    cables: [makeCable("f1", 24), makeCable("d1", 12)],
+    circuits: [],
+    spliceCompletions: [],
+    otdrTraces: [],
+    fiberStatuses: [],
+    ...records,
+  };
+}
+
+function expectProject(raw: unknown) {
+  const result = parseProjectFile(raw);
+  if (!result.success) throw new Error(`Expected the file to load: ${result.errors.join("; ")}`);
+  expect(projectFileSchema.safeParse(result.project).success).toBe(true);
+  return result;
+}
+
+describe("parseProjectFile migrations", () => {
+  it("loads an original unversioned export into one implicit enclosure", () => {
+    const { project, migratedFrom } = expectProject({ mode: "copper", cables: v1Cables, circuits: v1Circuits });
+
+    expect(migratedFrom).toBe(1);
+    expect(project).toMatchObject({ format: PROJECT_FILE_FORMAT, formatVersion: PROJECT_FILE_VERSION, mode: "copper", projectName: null });
+    expect(project.enclosures).toEqual([{ id: expect.any(String), name: "Enclosure 1", type: "Dome", trayCount: 1, locationNotes: null }]);
+
+    const enclosureId = project.enclosures[0].id;
+    expect(project.cables.map(c => [c.id, c.enclosureId, c.ribbonSize])).toEqual([["f1", enclosureId, 12], ["d1", enclosureId, 6]]);
+    expect(project.cables[0]).toMatchObject({ tubeCount: null, colorCode: null, superUnitSize: null, lengthMeters: null });
+    expect(project.circuits.map(c => [c.id, c.enclosureId, c.isSpliced, c.feedCableId, c.spliceMethod])).toEqual([
+      ["c1", enclosureId, 1, "f1", null],
+      ["c2", enclosureId, 0, null, null],
+    ]);
+    expect(project).toMatchObject({ splitters: [], spliceCompletions: [], otdrTraces: [], fiberStatuses: [], colorCodes: [], lossSettings: null });
+  });
+
+  it("loads a version 5 file, keeping its loss settings and adding the newer fields", () => {
+    // No loose-tube, color code or super unit fields yet
+    const v5Cable = {
+      id: "f1",
+      name: "F1",
+      fiberCount: 24,
+      ribbonSize: 12,
+      type: "Distribution",
+      enclosureId: "e1",
+      lengthMeters: 1200,
+      attenuation1310: 0.4,
+      attenuation1550: 0.3,
+    };
+    const lossSettings = { ...defaultLossSettings, budgetDb: 25 };
+
+    const { project, migratedFrom } = expectProject({
+      ...makeProject({ cables: [v5Cable as Cable] }),
+      formatVersion: 5,
+      lossSettings,
+      colorCodes: undefined,
+      otdrTraces: undefined,
+      fiberStatuses: undefined,
+    });
+
+    expect(migratedFrom).toBe(5);
+    expect(project.lossSettings).toEqual(lossSettings);
+    expect(project.cables).toEqual([{ ...makeCable("f1", 24), lengthMeters: 1200, attenuation1310: 0.4, attenuation1550: 0.3 }]);
+    expect(project).toMatchObject({ colorCodes: [], otdrTraces: [], fiberStatuses: [] });
+  });
+
+  it("loads a current file as it is", () => {
+    const file = makeProject({ circuits: [makeCircuit("c1", "d1", { isSpliced: 1, feedCableId: "f1", feedFiberStart: 5, feedFiberEnd: 8 })] });
+    expect(parseProjectFile(file)).toEqual({ success: true, project: file, migratedFrom: null });
+  });
+});
+
+describe("parseProjectFile errors", () => {
+  it("rejects files from a newer app version", () => {
+    expect(parseProjectFile(makeProject({ formatVersion: PROJECT_FILE_VERSION + 1 } as never))).toEqual({
+      success: false,
+      errors: [`The file uses format version ${PROJECT_FILE_VERSION + 1}, but this app only reads up to version ${PROJECT_FILE_VERSION}. Update the app to open it.`],
+    });
+  });
+
+  it("rejects other JSON and invalid versions", () => {
+    expect(parseProjectFile({ format: "other-app", cables: [] })).toEqual({ success: false, errors: ['Unknown file format "other-app"'] });
+    expect(parseProjectFile([makeProject()])).toEqual({ success: false, errors: ["The file does not contain a project object"] });
+    expect(parseProjectFile(null)).toEqual({ success: false, errors: ["The file does not contain a project object"] });
+    expect(parseProjectFile({ ...makeProject(), formatVersion: 2.5 })).toEqual({ success: false, errors: ["Invalid format version 2.5"] });
+  });
+
+  it("reports every invalid field with its path", () => {
+    const file = makeProject({ cables: [{ ...makeCable("f1", 0), type: "Trunk" }] });
+    const result = parseProjectFile(file);
+
+    expect(result.success).toBe(false);
+    expect(!result.success && result.errors).toEqual([
+      expect.stringMatching(/^cables\[0\]\.fiberCount: Fiber count must be at least 1$/),
+      expect.stringMatching(/^cables\[0\]\.type: /),
+    ]);
+  });
+
+  it("reports records that point at missing records or fibers", () => {
+    const file = makeProject({
+      circuits: [
+        makeCircuit("c1", "gone"),
+        makeCircuit("c2", "d1", { isSpliced: 1, feedCableId: "f9", feedFiberStart: 1, feedFiberEnd: 4 }),
+        makeCircuit("c3", "d1", { isSpliced: 1, splitterId: "s9", feedFiberStart: 1, feedFiberEnd: 4 }),
+        makeCircuit("c3", "d1", { isSpliced: 1, feedCableId: "f1", feedFiberStart: 21, feedFiberEnd: 30 }),
+      ],
+      fiberStatuses: [{ id: "d1:13", enclosureId: "e1", cableId: "d1", fiber: 13, status: "dark", note: null, updatedAt: "2026-10-19T00:00:00.000Z" }],
+    });
+
+    const errors = [
+      'circuits[3]: duplicate id "c3"',
+      'circuits[0] ("pon,1-4"): cable "gone" does not exist',
+      'circuits[1] ("pon,1-4"): spliced to feed cable "f9", which does not exist',
+      'circuits[2] ("pon,1-4"): spliced to splitter "s9", which does not exist',
+      "circuits[3] (\"pon,1-4\"): feed fibers 21-30 are beyond F1's 24 fibers",
+      "fiberStatuses[0]: fiber 13 is beyond D1's 12 fibers",
+    ];
+    expect(findProjectReferenceErrors(file)).toEqual(errors);
+    expect(parseProjectFile(file)).toEqual({ success: false, errors });
+  });
+});
@@ -0,0 +1,334 @@
+import { z } from "zod";
+import { nanoid } from "nanoid";
+import {
+  type Cable,
+  type Circuit,
+  type Enclosure,
+  type FiberStatus,
+  type OtdrTrace,
+  type SpliceCompletion,
+  type Splitter,
+  builtInColorCodes,
+  cableSchema,
+  circuitSchema,
+  colorCodeSchema,
+  enclosureSchema,
+  fiberStatusSchema,
+  getCopperSizeError,
+  getSplitterOutputCount,
+  lossSettingsSchema,
+  otdrTraceSchema,
+  spliceCompletionSchema,
+  splitterSchema,
+} from "./schema";
+
+// Identifies our JSON files, so other JSON picked by mistake gets a clear error
+export const PROJECT_FILE_FORMAT = "fibersplice-project";
+
+// Bump this and add a migration below whenever the file layout changes
+export const PROJECT_FILE_VERSION = 10;
+
+// Splices are stored on the distribution circuits (feedCableId or splitterId plus the feed fiber
+// range), so the circuits list carries every splice in the project
+export const projectFileSchema = z.object({
+  format: z.literal(PROJECT_FILE_FORMAT),
+  formatVersion: z.literal(PROJECT_FILE_VERSION),
+  appVersion: z.string(),
+  projectName: z.string().nullable(),
+  jobNumber: z.string().nullable(),
+  lossSettings: lossSettingsSchema.nullable(), // Null when the project uses the default loss settings
+  colorCodes: z.array(colorCodeSchema), // The project's custom color codes; built-in standards aren't saved
+  mode: z.enum(["fiber", "copper"]),
+  createdAt: z.string().datetime(),
+  modifiedAt: z.string().datetime(),
+  enclosures: z.array(enclosureSchema),
+  splitters: z.array(splitterSchema),
+  cables: z.array(cableSchema),
+  circuits: z.array(circuitSchema),
+  spliceCompletions: z.array(spliceCompletionSchema),
+  otdrTraces: z.array(otdrTraceSchema),
+  fiberStatuses: z.array(fiberStatusSchema),
+});
+
+// Validated records are narrower than the stored ones (enums, 0/1 flags), so files use the stored types
+export type ProjectFile = Omit<z.infer<typeof projectFileSchema>, "enclosures" | "splitters" | "cables" | "circuits" | "spliceCompletions" | "otdrTraces" | "fiberStatuses"> & {
+  enclosures: Enclosure[];
+  splitters: Splitter[];
+  cables: Cable[];
+  circuits: Circuit[];
+  spliceCompletions: SpliceCompletion[];
+  otdrTraces: OtdrTrace[];
+  fiberStatuses: FiberStatus[];
+};
+
+export type ProjectFileResult =
+  | { success: true; project: ProjectFile; migratedFrom: number | null }
+  | { success: false; errors: string[] };
+
+// Each migration upgrades a file from the version it is keyed by to the next one
+const migrations: Record<number, (file: any) => any> = {
+  // Version 1 is the original unversioned export: { mode?, cables, circuits }, with enclosures and
+  // splitters added later. Fill in everything newer versions require.
+  1: (file) => {
+    const now = new Date().toISOString();
+    // Fields that aren't arrays are passed through untouched so validation can report them
+    const cables: any[] | null = Array.isArray(file.cables) ? file.cables : null;
+    let enclosures = file.enclosures ?? [];
+
+    // Files from before enclosures existed were a single implicit splice point
+    let defaultEnclosureId: string | null = null;
+    if (Array.isArray(enclosures) && enclosures.length === 0 && cables && cables.length > 0) {
+      defaultEnclosureId = nanoid();
+      enclosures = [{ id: defaultEnclosureId, name: "Enclosure 1", type: "Dome", trayCount: 1, locationNotes: null }];
+    }
+
+    const migratedCables = cables?.map(c => ({ ribbonSize: 12, ...c, enclosureId: c?.enclosureId ?? defaultEnclosureId }));
+    // Circuits always follow their cable's enclosure
+    const cableEnclosures = new Map((migratedCables ?? []).map(c => [c?.id, c.enclosureId]));
+
+    return {
+      format: PROJECT_FILE_FORMAT,
+      formatVersion: 2,
+      appVersion: "unknown",
+      mode: file.mode === "copper" ? "copper" : "fiber",
+      createdAt: now,
+      modifiedAt: now,
+      enclosures: Array.isArray(enclosures) ? enclosures.map((e: any) => ({ locationNotes: null, ...e })) : enclosures,
+      splitters: file.splitters ?? [],
+      cables: migratedCables ?? file.cables,
+      circuits: Array.isArray(file.circuits)
+        ? file.circuits.map((c: any) => ({
+            isSpliced: 0,
+            feedCableId: null,
+            feedFiberStart: null,
+            feedFiberEnd: null,
+            splitterId: null,
+            ...c,
+            enclosureId: cableEnclosures.get(c?.cableId) ?? c?.enclosureId ?? null,
+          }))
+        : file.circuits,
+    };
+  },
+  // Version 3 names the project the file was saved from
+  2: (file) => ({ ...file, formatVersion: 3, projectName: null, jobNumber: null }),
+  // Version 4 adds field sign-offs of spliced fibers
+  3: (file) => ({ ...file, formatVersion: 4, spliceCompletions: [] }),
+  // Version 5 adds loss budgets: cable lengths and attenuation, splice methods and the project's settings
+  4: (file) => ({
+    ...file,
+    formatVersion: 5,
+    lossSettings: null,
+    cables: Array.isArray(file.cables)
+      ? file.cables.map((c: any) => ({ lengthMeters: null, attenuation1310: null, attenuation1550: null, ...c }))
+      : file.cables,
+    circuits: Array.isArray(file.circuits)
+      ? file.circuits.map((c: any) => ({ spliceMethod: null, ...c }))
+      : file.circuits,
+  }),
+  // Version 6 adds imported OTDR traces
+  5: (file) => ({ ...file, formatVersion: 6, otdrTraces: [] }),
+  // Version 7 adds fiber statuses
+  6: (file) => ({ ...file, formatVersion: 7, fiberStatuses: [] }),
+  // Version 8 adds loose-tube construction to cables; older cables are all ribbon cables
+  7: (file) => ({
+    ...file,
+    formatVersion: 8,
+    cables: Array.isArray(file.cables)
+      ? file.cables.map((c: any) => ({ tubeCount: null, fibersPerTube: null, ribbonsPerTube: null, ...c }))
+      : file.cables,
+  }),
+  // Version 9 adds color-code standards; older cables all follow TIA-598
+  8: (file) => ({
+    ...file,
+    formatVersion: 9,
+    colorCodes: [],
+    cables: Array.isArray(file.cables) ? file.cables.map((c: any) => ({ colorCode: null, ...c })) : file.cables,
+  }),
+  // Version 10 adds super units to copper cables; older copper cables are plain 25-pair binder cables
+  9: (file) => ({
+    ...file,
+    formatVersion: 10,
+    cables: Array.isArray(file.cables) ? file.cables.map((c: any) => ({ superUnitSize: null, ...c })) : file.cables,
+  }),
+};
+
+// Zod paths as they'd be written in code, e.g. circuits[3].fiberEnd
+function formatPath(path: (string | number)[]): string {
+  return path.reduce<string>((text, part) => (
+    typeof part === "number" ? `${text}[${part}]` : text ? `${text}.${part}` : part
+  ), "") || "file";
+}
+
+/**
+ * Cross-record checks zod can't express: unique IDs, and every cable, circuit, splitter, splice,
+ * sign-off, OTDR trace and fiber status pointing at records (and fibers) that exist in the same file,
+ * loose-tube cables whose tubes actually hold their fibers, cables using color codes that exist, and
+ * copper super unit cables whose pair counts fit their units.
+ */
+export function findProjectReferenceErrors(project: ProjectFile): string[] {
+  const errors: string[] = [];
+
+  const checkUnique = (name: string, records: { id: string }[]) => {
+    const seen = new Set<string>();
+    records.forEach((record, index) => {
+      if (seen.has(record.id)) errors.push(`${name}[${index}]: duplicate id "${record.id}"`);
+      seen.add(record.id);
+    });
+  };
+  checkUnique("enclosures", project.enclosures);
+  checkUnique("splitters", project.splitters);
+  checkUnique("cables", project.cables);
+  checkUnique("circuits", project.circuits);
+  checkUnique("spliceCompletions", project.spliceCompletions);
+  checkUnique("otdrTraces", project.otdrTraces);
+  checkUnique("fiberStatuses", project.fiberStatuses);
+  checkUnique("colorCodes", project.colorCodes);
+
+  project.colorCodes.forEach((code, index) => {
+    if (builtInColorCodes.some(c => c.id === code.id)) {
+      errors.push(`colorCodes[${index}] ("${code.name}"): id "${code.id}" belongs to a built-in color code`);
+    }
+  });
+
+  const enclosureIds = new Set(project.enclosures.map(e => e.id));
+  const cablesById = new Map(project.cables.map(c => [c.id, c]));
+  const splittersById = new Map(project.splitters.map(s => [s.id, s]));
+  const colorCodeIds = new Set([...builtInColorCodes, ...project.colorCodes].map(c => c.id));
+
+  project.cables.forEach((cable, index) => {
+    if (cable.enclosureId && !enclosureIds.has(cable.enclosureId)) {
+      errors.push(`cables[${index}] ("${cable.name}"): enclosure "${cable.enclosureId}" does not exist`);
+    }
+    if ((cable.tubeCount === null) !== (cable.fibersPerTube === null)) {
+      errors.push(`cables[${index}] ("${cable.name}"): loose-tube cables need both a tube count and fibers per tube`);
+    } else if (cable.tubeCount !== null && cable.fibersPerTube !== null && cable.tubeCount * cable.fibersPerTube < cable.fiberCount) {
+      errors.push(`cables[${index}] ("${cable.name}"): ${cable.tubeCount} tubes of ${cable.fibersPerTube} don't hold ${cable.fiberCount} fibers`);
+    }
+    if (cable.ribbonsPerTube !== null && (cable.fibersPerTube === null || cable.fibersPerTube % cable.ribbonsPerTube !== 0)) {
+      errors.push(`cables[${index}] ("${cable.name}"): ${cable.ribbonsPerTube} ribbons per tube don't split the tube's fibers evenly`);
+    }
+    if (cable.colorCode && !colorCodeIds.has(cable.colorCode)) {
+      errors.push(`cables[${index}] ("${cable.name}"): color code "${cable.colorCode}" does not exist`);
+    }
+    if (cable.superUnitSize !== null) {
+      const sizeError = project.mode === "copper"
+        ? getCopperSizeError(cable.fiberCount, cable.superUnitSize)
+        : "only copper cables have super units";
+      if (sizeError) errors.push(`cables[${index}] ("${cable.name}"): ${sizeError}`);
+    }
+  });
+
+  project.splitters.forEach((splitter, index) => {
+    const where = `splitters[${index}] ("${splitter.name}")`;
+    if (splitter.enclosureId && !enclosureIds.has(splitter.enclosureId)) {
+      errors.push(`${where}: enclosure "${splitter.enclosureId}" does not exist`);
+    }
+    if (splitter.inputCableId) {
+      const inputCable = cablesById.get(splitter.inputCableId);
+      if (!inputCable) {
+        errors.push(`${where}: input cable "${splitter.inputCableId}" does not exist`);
+      } else if (splitter.inputFiber && splitter.inputFiber > inputCable.fiberCount) {
+        errors.push(`${where}: input fiber ${splitter.inputFiber} is beyond ${inputCable.name}'s ${inputCable.fiberCount} fibers`);
+      }
+    }
+  });
+
+  project.circuits.forEach((circuit, index) => {
+    const where = `circuits[${index}] ("${circuit.circuitId}")`;
+    const cable = cablesById.get(circuit.cableId);
+    if (!cable) {
+      errors.push(`${where}: cable "${circuit.cableId}" does not exist`);
+    } else if (circuit.fiberStart > circuit.fiberEnd || circuit.fiberEnd > cable.fiberCount) {
+      errors.push(`${where}: fibers ${circuit.fiberStart}-${circuit.fiberEnd} don't fit ${cable.name}'s ${cable.fiberCount} fibers`);
+    }
+
+    if (circuit.isSpliced !== 1) return;
+    if (circuit.feedFiberStart === null || circuit.feedFiberEnd === null || circuit.feedFiberStart > circuit.feedFiberEnd) {
+      errors.push(`${where}: spliced without a valid feed fiber range`);
+      return;
+    }
+    if (circuit.splitterId) {
+      const splitter = splittersById.get(circuit.splitterId);
+      if (!splitter) {
+        errors.push(`${where}: spliced to splitter "${circuit.splitterId}", which does not exist`);
+      } else if (circuit.feedFiberEnd > getSplitterOutputCount(splitter.ratio)) {
+        errors.push(`${where}: splitter ports ${circuit.feedFiberStart}-${circuit.feedFiberEnd} are beyond ${splitter.name}'s ${splitter.ratio} outputs`);
+      }
+    } else if (circuit.feedCableId) {
+      const feedCable = cablesById.get(circuit.feedCableId);
+      if (!feedCable) {
+        errors.push(`${where}: spliced to feed cable "${circuit.feedCableId}", which does not exist`);
+      } else if (circuit.feedFiberEnd > feedCable.fiberCount) {
+        errors.push(`${where}: feed fibers ${circuit.feedFiberStart}-${circuit.feedFiberEnd} are beyond ${feedCable.name}'s ${feedCable.fiberCount} fibers`);
+      }
+    }
+  });
+
+  // Sign-offs, OTDR traces and statuses each belong to one fiber of a cable
+  const checkFiberRecords = (name: string, records: { cableId: string; fiber: number }[]) => {
+    records.forEach((record, index) => {
+      const where = `${name}[${index}]`;
+      const cable = cablesById.get(record.cableId);
+      if (!cable) {
+        errors.push(`${where}: cable "${record.cableId}" does not exist`);
+      } else if (record.fiber > cable.fiberCount) {
+        errors.push(`${where}: fiber ${record.fiber} is beyond ${cable.name}'s ${cable.fiberCount} fibers`);
+      }
+    });
+  };
+  checkFiberRecords("spliceCompletions", project.spliceCompletions);
+  checkFiberRecords("otdrTraces", project.otdrTraces);
+  checkFiberRecords("fiberStatuses", project.fiberStatuses);
+
+  return errors;
+}
+
+/**
+ * Migrates a parsed project file to the current format and validates it, returning every problem
+ * found (with the path of the offending field) instead of stopping at the first.
+ */
+export function parseProjectFile(raw: unknown): ProjectFileResult {
+  if (typeof raw !== "object" || raw === null || Array.isArray(raw)) {
+    return { success: false, errors: ["The file does not contain a project object"] };
+  }
+
+  let file: any = raw;
+  if (file.format !== undefined && file.format !== PROJECT_FILE_FORMAT) {
+    return { success: false, errors: [`Unknown file format "${file.format}"`] };
+  }
+
+  // Files without a format version are the original export
+  const version = typeof file.formatVersion === "number" ? file.formatVersion : 1;
+  if (version > PROJECT_FILE_VERSION) {
+    return {
+      success: false,
+      errors: [`The file uses format version ${version}, but this app only reads up to version ${PROJECT_FILE_VERSION}. Update the app to open it.`],
+    };
+  }
+  if (version < 1 || !Number.isInteger(version)) {
+    return { success: false, errors: [`Invalid format version ${file.formatVersion}`] };
+  }
+
+  for (let v = version; v < PROJECT_FILE_VERSION; v++) {
+    file = migrations[v](file);
+  }
+
+  const parsed = projectFileSchema.safeParse(file);
+  if (!parsed.success) {
+    return {
+      success: false,
+      errors: parsed.error.issues.map(issue => `${formatPath(issue.path)}: ${issue.message}`),
+    };
+  }
+
+  const referenceErrors = findProjectReferenceErrors(parsed.data);
+  if (referenceErrors.length > 0) {
+    return { success: false, errors: referenceErrors };
+  }
+
+  return {
+    success: true,
+    project: parsed.data,
+    migratedFrom: version < PROJECT_FILE_VERSION ? version : null,
+  };
+}
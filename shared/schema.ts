@@ -1,6 +1,6 @@
 import { sql } from "drizzle-orm";
-import { pgTable, text, varchar, integer } from "drizzle-orm/pg-core";
-import { createInsertSchema } from "drizzle-zod";
+import { pgTable, text, varchar, integer, real, serial, index } from "drizzle-orm/pg-core";
+import { createInsertSchema, createSelectSchema } from "drizzle-zod";
 import { z } from "zod";
 
 // Fiber color type matching standard fiber optic color codes
@@ -25,13 +25,51 @@ export type FiberColor = typeof fiberColors[number];
 export const cableTypes = ["Feed", "Distribution"] as const;
 export type CableType = typeof cableTypes[number];
 
+// Enclosure types (closure styles a splice point can be housed in)
+export const enclosureTypes = ["Dome", "Inline", "Pedestal", "FDH"] as const;
+export type EnclosureType = typeof enclosureTypes[number];
+
+// PON splitter ratios (inputs x outputs)
+export const splitterRatios = ["1x4", "1x8", "1x16", "1x32", "2x4", "2x8", "2x16", "2x32"] as const;
+export type SplitterRatio = typeof splitterRatios[number];
+
+// How two fibers are joined; splices without a method are fusion splices
+export const spliceMethods = ["fusion", "mechanical"] as const;
+export type SpliceMethod = typeof spliceMethods[number];
+
+// What a fiber is used for, tracked apart from circuit assignment; dark fibers are unused and free to assign
+export const fiberStatusValues = ["live", "reserved", "dark", "spare", "damaged"] as const;
+export type FiberStatusValue = typeof fiberStatusValues[number];
+
+// Key events an OTDR reports along a fiber; "end" is where the fiber (or the trace) stops
+export const otdrEventTypes = ["non-reflective", "reflective", "end"] as const;
+export type OtdrEventType = typeof otdrEventTypes[number];
+
+// Enclosure table - a splice point along the route that owns its own cables and circuits
+export const enclosures = pgTable("enclosures", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  name: text("name").notNull(),
+  type: text("type").notNull(),
+  trayCount: integer("tray_count").notNull().default(1),
+  locationNotes: text("location_notes"), // Free-form address, pole number, GPS, etc.
+});
+
 // Cable table
 export const cables = pgTable("cables", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   name: text("name").notNull(),
   fiberCount: integer("fiber_count").notNull(),
-  ribbonSize: integer("ribbon_size").notNull().default(12), // Always 12, not exposed in UI
+  ribbonSize: integer("ribbon_size").notNull().default(12), // Fibers per ribbon (pairs per binder for copper); not exposed in UI
+  tubeCount: integer("tube_count"), // Buffer tubes of a loose-tube cable; null for ribbon cables
+  fibersPerTube: integer("fibers_per_tube"),
+  ribbonsPerTube: integer("ribbons_per_tube"), // Ribbons inside each tube; null when the tube holds loose fibers
+  colorCode: text("color_code"), // Built-in or project color code id (see getCableColorCode), null for TIA-598
+  superUnitSize: integer("super_unit_size"), // Pairs per super unit of a large copper cable; null for plain 25-pair binders
   type: text("type").notNull(),
+  enclosureId: varchar("enclosure_id"), // Enclosure this cable is spliced in
+  lengthMeters: real("length_meters"), // Sheath length, for loss budgets
+  attenuation1310: real("attenuation_1310"), // dB/km at 1310 nm, null for the project default
+  attenuation1550: real("attenuation_1550"), // dB/km at 1550 nm, null for the project default
 });
 
 // Circuits table - represents circuit IDs and fiber assignments within a cable
@@ -39,6 +77,7 @@ export const cables = pgTable("cables", {
 export const circuits = pgTable("circuits", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   cableId: varchar("cable_id").notNull(),
+  enclosureId: varchar("enclosure_id"), // Same as the owning cable's enclosure
   circuitId: text("circuit_id").notNull(),
   position: integer("position").notNull(), // Order in the cable (0-indexed)
   fiberStart: integer("fiber_start").notNull(), // Auto-calculated
@@ -47,6 +86,22 @@ export const circuits = pgTable("circuits", {
   feedCableId: varchar("feed_cable_id"), // For Distribution cables: which Feed cable this maps to
   feedFiberStart: integer("feed_fiber_start"), // Which fiber in feed cable (start)
   feedFiberEnd: integer("feed_fiber_end"), // Which fiber in feed cable (end)
+  splitterId: varchar("splitter_id"), // Set instead of feedCableId when spliced to splitter outputs (feed fibers are then port numbers)
+  spliceMethod: text("splice_method"), // 'fusion' or 'mechanical', null = fusion
+});
+
+// Splitter table - a PON splitter in an enclosure, fed by one feed fiber
+// Output ports are addressed by circuit ID: with portPrefix "pon" and portStart 1, "pon,1-8" lands on ports 1-8
+export const splitters = pgTable("splitters", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  enclosureId: varchar("enclosure_id"), // Enclosure this splitter is mounted in
+  name: text("name").notNull(),
+  ratio: text("ratio").notNull(),
+  location: text("location"), // Tray/slot or other placement notes
+  inputCableId: varchar("input_cable_id"), // Feed cable landing on the splitter input
+  inputFiber: integer("input_fiber"), // Fiber in that cable
+  portPrefix: text("port_prefix").notNull().default("pon"),
+  portStart: integer("port_start").notNull().default(1), // Circuit number carried by output port 1
 });
 
 // Splice table - represents a connection between fibers of two cables
@@ -65,6 +120,62 @@ export const splices = pgTable("splices", {
   isCompleted: integer("is_completed").notNull().default(0),
 });
 
+// Splice completions table - field sign-off of one spliced distribution fiber (or copper pair).
+// The id is `${cableId}:${fiber}`, so two devices signing off the same fiber change one record.
+// A sign-off only counts while feedKey still matches the circuit's splice; re-splicing needs a new one.
+export const spliceCompletions = pgTable("splice_completions", {
+  id: varchar("id").primaryKey(),
+  enclosureId: varchar("enclosure_id"), // Same as the distribution cable's enclosure
+  cableId: varchar("cable_id").notNull(), // Distribution cable
+  fiber: integer("fiber").notNull(), // Fiber (or pair) on that cable
+  feedKey: text("feed_key").notNull(), // What it was spliced to: "cable:<id>:<fiber>" or "splitter:<id>:<port>"
+  completedBy: text("completed_by").notNull(), // Technician's name
+  completedAt: text("completed_at").notNull(),
+  note: text("note"),
+});
+
+// Fiber statuses table - the status of one fiber (or copper pair); fibers without a record have none set.
+// The id is `${cableId}:${fiber}` like sign-offs, so two devices setting the same fiber change one record.
+export const fiberStatuses = pgTable("fiber_statuses", {
+  id: varchar("id").primaryKey(),
+  enclosureId: varchar("enclosure_id"), // Same as the cable's enclosure
+  cableId: varchar("cable_id").notNull(),
+  fiber: integer("fiber").notNull(),
+  status: text("status").notNull(), // One of fiberStatusValues
+  note: text("note"), // e.g. where a damaged fiber is broken
+  updatedAt: text("updated_at").notNull(),
+});
+
+// OTDR traces table - a .sor measurement imported for one fiber: the key events the OTDR found and a
+// thinned-out copy of the trace to plot. The .sor file itself isn't kept.
+export const otdrTraces = pgTable("otdr_traces", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  enclosureId: varchar("enclosure_id"), // Same as the cable's enclosure
+  cableId: varchar("cable_id").notNull(),
+  fiber: integer("fiber").notNull(),
+  fileName: text("file_name").notNull(),
+  wavelength: integer("wavelength"), // nm
+  pulseWidth: integer("pulse_width"), // ns
+  indexOfRefraction: real("index_of_refraction"),
+  testedAt: text("tested_at"), // When the OTDR took the trace, if the file says
+  importedAt: text("imported_at").notNull(),
+  events: text("events").notNull(), // JSON OtdrEvent[]
+  points: text("points").notNull(), // JSON OtdrPoint[]
+});
+
+// Projects table - the catalog of jobs; each project keeps its enclosures, cables and circuits separately
+export const projects = pgTable("projects", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  name: text("name").notNull(),
+  jobNumber: text("job_number"),
+  mode: text("mode").notNull(), // 'fiber' or 'copper'
+  createdAt: text("created_at").notNull(),
+  modifiedAt: text("modified_at").notNull(),
+  archived: integer("archived").notNull().default(0), // 1 = hidden from the project switcher
+  lossSettings: text("loss_settings"), // JSON LossSettings, null for the defaults
+  colorCodes: text("color_codes"), // JSON ColorCode[] of the project's custom color codes, null for none
+});
+
 // Saves table - stores project snapshots with date/time stamped names
 export const saves = pgTable("saves", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -73,23 +184,84 @@ export const saves = pgTable("saves", {
   data: text("data").notNull(), // JSON string containing cables and circuits
 });
 
-// Logs table - debug logging for troubleshooting
-export const logs = pgTable("logs", {
+// Sync log - every record change clients have pushed to the server, per project.
+// The newest row for a record is the server's copy of it; revision orders all changes.
+export const syncChanges = pgTable("sync_changes", {
+  revision: serial("revision").primaryKey(),
+  projectId: varchar("project_id").notNull(),
+  tableName: text("table_name").notNull(), // One of syncTables in shared/sync.ts
+  recordId: varchar("record_id").notNull(),
+  data: text("data"), // JSON record, null when the record was deleted
+  clientId: text("client_id").notNull(), // Device that pushed the change
+  createdAt: text("created_at").notNull(),
+}, (table) => [
+  index("sync_changes_project_idx").on(table.projectId, table.revision),
+  index("sync_changes_record_idx").on(table.projectId, table.tableName, table.recordId),
+]);
+
+// Users table - accounts for signing in to the server; role is 'designer', 'technician' or 'viewer'
+export const users = pgTable("users", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
-  timestamp: text("timestamp").notNull(),
-  level: text("level").notNull(), // 'info', 'warning', 'error'
-  category: text("category").notNull(), // 'cable', 'circuit', 'ocr', 'file', 'system'
-  message: text("message").notNull(),
-  data: text("data"), // Optional JSON data for context
+  username: text("username").notNull().unique(),
+  displayName: text("display_name").notNull(), // Shown to collaborators
+  passwordHash: text("password_hash").notNull(), // scrypt hash and salt, "hash.salt"
+  role: text("role").notNull(),
+  createdAt: text("created_at").notNull(),
 });
 
 // Insert schemas
+export const insertEnclosureSchema = createInsertSchema(enclosures).omit({
+  id: true,
+}).extend({
+  name: z.string().trim().min(1, "Enclosure name is required"),
+  type: z.enum(enclosureTypes),
+  trayCount: z.number().int().min(1, "Tray count must be at least 1"),
+});
+export const insertSplitterSchema = createInsertSchema(splitters).omit({
+  id: true,
+}).extend({
+  name: z.string().trim().min(1, "Splitter name is required"),
+  ratio: z.enum(splitterRatios),
+  portPrefix: z.string().trim().min(1, "Port prefix is required"),
+  portStart: z.number().int().min(1, "Port start must be at least 1"),
+  inputFiber: z.number().int().min(1, "Input fiber must be at least 1").nullable().optional(),
+});
 export const insertCableSchema = createInsertSchema(cables).omit({ 
   id: true,
   ribbonSize: true, // Always default to 12
 }).extend({
   type: z.enum(cableTypes),
+  lengthMeters: z.number().min(0, "Length can't be negative").nullable().optional(),
+  attenuation1310: z.number().min(0, "Attenuation can't be negative").nullable().optional(),
+  attenuation1550: z.number().min(0, "Attenuation can't be negative").nullable().optional(),
+  tubeCount: z.number().int().min(1, "Tube count must be at least 1").nullable().optional(),
+  fibersPerTube: z.number().int().min(1, "Fibers per tube must be at least 1").nullable().optional(),
+  ribbonsPerTube: z.number().int().min(1, "Ribbons per tube must be at least 1").nullable().optional(),
+  superUnitSize: z.number().int().min(1).nullable().optional(), // 100 or 600, checked by insertCopperCableSchema
   circuitIds: z.array(z.string()).optional(), // Circuit IDs to create with cable
+}).refine(
+  (data) => (data.tubeCount == null) === (data.fibersPerTube == null),
+  {
+    message: "Loose-tube cables need both a tube count and fibers per tube",
+    path: ["fibersPerTube"],
+  }
+).refine(
+  (data) => data.tubeCount == null || data.fibersPerTube == null || data.tubeCount * data.fibersPerTube >= data.fiberCount,
+  {
+    message: "The tubes don't hold every fiber of the cable",
+    path: ["tubeCount"],
+  }
+).refine(
+  (data) => data.ribbonsPerTube == null || (data.fibersPerTube != null && data.fibersPerTube % data.ribbonsPerTube === 0),
+  {
+    message: "Each tube's fibers must split evenly into its ribbons",
+    path: ["ribbonsPerTube"],
+  }
+);
+// Copper cables also have to fill whole binders, and need super units past 600 pairs
+export const insertCopperCableSchema = insertCableSchema.superRefine((data, ctx) => {
+  const error = getCopperSizeError(data.fiberCount, data.superUnitSize ?? null);
+  if (error) ctx.addIssue({ code: z.ZodIssueCode.custom, message: error, path: ["fiberCount"] });
 });
 export const insertCircuitSchema = createInsertSchema(circuits).omit({ 
   id: true,
@@ -98,6 +270,9 @@ export const insertCircuitSchema = createInsertSchema(circuits).omit({
   fiberEnd: true, // Auto-calculated
   isSpliced: true, // Defaults to 0
   feedCableId: true, // Set when toggling splice status
+  enclosureId: true, // Inherited from the cable
+  splitterId: true, // Set when toggling splice status
+  spliceMethod: true, // Set on the spliced circuit
 });
 export const insertSpliceSchema = createInsertSchema(splices).omit({ id: true }).refine(
   (data) => data.sourceStartFiber <= data.sourceEndFiber,
@@ -122,26 +297,267 @@ export const insertSpliceSchema = createInsertSchema(splices).omit({ id: true })
     path: ["destinationEndFiber"],
   }
 );
+export const insertSpliceCompletionSchema = createInsertSchema(spliceCompletions).omit({
+  id: true,
+  enclosureId: true, // Inherited from the cable
+  completedAt: true,
+}).extend({
+  fiber: z.number().int().min(1, "Fiber must be at least 1"),
+  completedBy: z.string().trim().min(1, "Technician name is required"),
+  note: z.string().trim().max(500).nullable().optional(),
+});
+export const setFiberStatusSchema = z.object({
+  cableId: z.string(),
+  fibers: z.array(z.number().int().min(1, "Fiber must be at least 1")).min(1),
+  status: z.enum(fiberStatusValues).nullable(), // null clears the status
+  note: z.string().trim().max(500).nullable().optional(),
+});
+export const insertOtdrTraceSchema = createInsertSchema(otdrTraces).omit({
+  id: true,
+  enclosureId: true, // Inherited from the cable
+  importedAt: true,
+}).extend({
+  fiber: z.number().int().min(1, "Fiber must be at least 1"),
+  fileName: z.string().trim().min(1),
+});
+export const insertProjectSchema = createInsertSchema(projects).pick({
+  name: true,
+  jobNumber: true,
+}).extend({
+  name: z.string().trim().min(1, "Project name is required"),
+  jobNumber: z.string().trim().nullable().optional(),
+});
 export const insertSaveSchema = createInsertSchema(saves).omit({ 
   id: true, 
   createdAt: true 
 });
-export const insertLogSchema = createInsertSchema(logs).omit({ 
+// Debug log entries for troubleshooting; they stay in each device's own database, never on the server
+export const logSchema = z.object({
+  id: z.string(),
+  timestamp: z.string(),
+  level: z.string(), // 'info', 'warning', 'error'
+  category: z.string(), // 'cable', 'circuit', 'ocr', 'file', 'system'
+  message: z.string(),
+  data: z.string().nullable(), // Optional JSON data for context
+});
+export const insertLogSchema = logSchema.omit({
   id: true,
   timestamp: true
 });
 
+// Full record schemas (used to validate project files)
+export const enclosureSchema = createSelectSchema(enclosures).extend({
+  type: z.enum(enclosureTypes),
+  trayCount: z.number().int().min(1, "Tray count must be at least 1"),
+});
+export const splitterSchema = createSelectSchema(splitters).extend({
+  ratio: z.enum(splitterRatios),
+  inputFiber: z.number().int().min(1, "Input fiber must be at least 1").nullable(),
+  portStart: z.number().int().min(1, "Port start must be at least 1"),
+});
+export const cableSchema = createSelectSchema(cables).extend({
+  type: z.enum(cableTypes),
+  fiberCount: z.number().int().min(1, "Fiber count must be at least 1"),
+  ribbonSize: z.number().int().min(1),
+  tubeCount: z.number().int().min(1).nullable(),
+  fibersPerTube: z.number().int().min(1).nullable(),
+  ribbonsPerTube: z.number().int().min(1).nullable(),
+  superUnitSize: z.number().int().min(1).nullable(),
+  lengthMeters: z.number().min(0).nullable(),
+  attenuation1310: z.number().min(0).nullable(),
+  attenuation1550: z.number().min(0).nullable(),
+});
+export const circuitSchema = createSelectSchema(circuits).extend({
+  position: z.number().int().min(0),
+  fiberStart: z.number().int().min(1, "Fiber start must be at least 1"),
+  fiberEnd: z.number().int().min(1, "Fiber end must be at least 1"),
+  isSpliced: z.union([z.literal(0), z.literal(1)]),
+  feedFiberStart: z.number().int().min(1).nullable(),
+  feedFiberEnd: z.number().int().min(1).nullable(),
+  spliceMethod: z.enum(spliceMethods).nullable(),
+});
+export const spliceCompletionSchema = createSelectSchema(spliceCompletions).extend({
+  fiber: z.number().int().min(1, "Fiber must be at least 1"),
+});
+export const fiberStatusSchema = createSelectSchema(fiberStatuses).extend({
+  fiber: z.number().int().min(1, "Fiber must be at least 1"),
+  status: z.enum(fiberStatusValues),
+});
+
+// One key event from an OTDR trace, distances from the OTDR's launch point
+export const otdrEventSchema = z.object({
+  number: z.number().int(),
+  type: z.enum(otdrEventTypes),
+  distanceMeters: z.number(),
+  spliceLoss: z.number(), // dB, negative for a gainer
+  reflectance: z.number().nullable(), // dB, null for non-reflective events
+  attenuation: z.number(), // dB/km of the fiber leading up to the event
+  comment: z.string(),
+});
+// A plotted point of the trace: [distance in meters, relative level in dB]
+export const otdrPointSchema = z.tuple([z.number(), z.number()]);
+
+// A text column holding JSON that must match the given schema
+function jsonText(schema: z.ZodTypeAny) {
+  return z.string().refine(text => {
+    try {
+      return schema.safeParse(JSON.parse(text)).success;
+    } catch {
+      return false;
+    }
+  }, "Invalid JSON for this field");
+}
+
+export const otdrTraceSchema = createSelectSchema(otdrTraces).extend({
+  fiber: z.number().int().min(1, "Fiber must be at least 1"),
+  events: jsonText(z.array(otdrEventSchema)),
+  points: jsonText(z.array(otdrPointSchema)),
+});
+
+// Optical loss assumptions for a project's loss budgets, stored as JSON on the project
+export const lossSettingsSchema = z.object({
+  budgetDb: z.number().min(0), // Highest end-to-end loss a circuit may have at either wavelength
+  attenuation1310: z.number().min(0), // dB/km for cables without their own
+  attenuation1550: z.number().min(0),
+  fusionSpliceLoss: z.number().min(0), // dB per splice
+  mechanicalSpliceLoss: z.number().min(0),
+  connectorLoss: z.number().min(0), // dB per connector
+  connectorCount: z.number().int().min(0), // Connectors on every path, e.g. at the OLT and the ONT
+  splitterLosses: z.object(Object.fromEntries(splitterRatios.map(r => [r, z.number().min(0)])) as Record<SplitterRatio, z.ZodNumber>),
+});
+
+// A fiber color code: the order colors go in for the fibers of a ribbon or tube and for the tubes
+// themselves. Positions past the end of the sequence repeat it with a tracer stripe, then a double stripe
+export const colorCodeSchema = z.object({
+  id: z.string().min(1),
+  name: z.string().trim().min(1, "Color code name is required"),
+  colors: z.array(z.enum(fiberColors)).min(2, "Pick at least two colors").refine(
+    (colors) => new Set(colors).size === colors.length,
+    "Each color can only be used once"
+  ),
+  stripe: z.enum(fiberColors), // Tracer color for the repeats
+});
+
 // Types
+export type InsertEnclosure = z.infer<typeof insertEnclosureSchema>;
+export type Enclosure = typeof enclosures.$inferSelect;
+export type InsertSplitter = z.infer<typeof insertSplitterSchema>;
+export type Splitter = typeof splitters.$inferSelect;
 export type InsertCable = z.infer<typeof insertCableSchema>;
 export type Cable = typeof cables.$inferSelect;
 export type InsertCircuit = z.infer<typeof insertCircuitSchema>;
 export type Circuit = typeof circuits.$inferSelect;
 export type InsertSplice = z.infer<typeof insertSpliceSchema>;
 export type Splice = typeof splices.$inferSelect;
+export type InsertSpliceCompletion = z.infer<typeof insertSpliceCompletionSchema>;
+export type SpliceCompletion = typeof spliceCompletions.$inferSelect;
+export type SetFiberStatus = z.infer<typeof setFiberStatusSchema>;
+export type FiberStatus = typeof fiberStatuses.$inferSelect;
+export type InsertOtdrTrace = z.infer<typeof insertOtdrTraceSchema>;
+export type OtdrTrace = typeof otdrTraces.$inferSelect;
+export type OtdrEvent = z.infer<typeof otdrEventSchema>;
+export type OtdrPoint = z.infer<typeof otdrPointSchema>;
+export type InsertProject = z.infer<typeof insertProjectSchema>;
+export type Project = typeof projects.$inferSelect;
 export type InsertSave = z.infer<typeof insertSaveSchema>;
 export type Save = typeof saves.$inferSelect;
+export type SyncChangeRow = typeof syncChanges.$inferSelect;
+export type User = typeof users.$inferSelect;
 export type InsertLog = z.infer<typeof insertLogSchema>;
-export type Log = typeof logs.$inferSelect;
+export type Log = z.infer<typeof logSchema>;
+export type LossSettings = z.infer<typeof lossSettingsSchema>;
+export type ColorCode = z.infer<typeof colorCodeSchema>;
+
+// Typical single-mode values and a GPON class B+ budget
+export const defaultLossSettings: LossSettings = {
+  budgetDb: 28,
+  attenuation1310: 0.35,
+  attenuation1550: 0.25,
+  fusionSpliceLoss: 0.1,
+  mechanicalSpliceLoss: 0.3,
+  connectorLoss: 0.5,
+  connectorCount: 2,
+  splitterLosses: {
+    "1x4": 7.3,
+    "1x8": 10.5,
+    "1x16": 13.7,
+    "1x32": 17.1,
+    "2x4": 7.6,
+    "2x8": 11.0,
+    "2x16": 14.2,
+    "2x32": 17.5,
+  },
+};
+
+// A project's loss settings, falling back to the defaults for anything missing or invalid
+export function parseLossSettings(json: string | null | undefined): LossSettings {
+  if (!json) return defaultLossSettings;
+  try {
+    const parsed = lossSettingsSchema.safeParse({ ...defaultLossSettings, ...JSON.parse(json) });
+    return parsed.success ? parsed.data : defaultLossSettings;
+  } catch {
+    return defaultLossSettings;
+  }
+}
+
+// Standards every project can use; ids are what cables store in colorCode
+export const builtInColorCodes: ColorCode[] = [
+  { id: "tia-598", name: "TIA-598", colors: [...fiberColors], stripe: "black" },
+  {
+    id: "iec-60304",
+    name: "IEC 60304",
+    colors: ["red", "green", "blue", "yellow", "white", "slate", "brown", "violet", "aqua", "black", "orange", "pink"],
+    stripe: "black",
+  },
+];
+
+export const defaultColorCode = builtInColorCodes[0];
+
+// A project's custom color codes, leaving out any that are invalid or reuse a built-in id
+export function parseColorCodes(json: string | null | undefined): ColorCode[] {
+  if (!json) return [];
+  try {
+    const parsed = z.array(z.unknown()).safeParse(JSON.parse(json));
+    if (!parsed.success) return [];
+    return parsed.data.flatMap(item => {
+      const code = colorCodeSchema.safeParse(item);
+      return code.success && !builtInColorCodes.some(c => c.id === code.data.id) ? [code.data] : [];
+    });
+  } catch {
+    return [];
+  }
+}
+
+// The color code a cable's fibers follow; cables without one, or whose custom code was deleted, use TIA-598
+export function getCableColorCode(cable: Pick<Cable, "colorCode"> | null | undefined, customCodes: ColorCode[] = []): ColorCode {
+  const id = cable?.colorCode;
+  if (!id) return defaultColorCode;
+  return builtInColorCodes.find(c => c.id === id) ?? customCodes.find(c => c.id === id) ?? defaultColorCode;
+}
+
+// How one fiber or tube is marked: its base color, plus a tracer once the color sequence repeats
+export interface FiberMarking {
+  color: FiberColor;
+  stripe: FiberColor | null;
+  stripeCount: number; // 1 for a stripe, 2 for a double stripe, ...
+}
+
+// Marking of the fiber or tube at a 0-indexed position under a color code. TIA-598 fibers 13-24 are
+// the 12 colors again with a black stripe, except black itself, which gets a yellow one
+export function getFiberMarking(code: ColorCode, index: number): FiberMarking {
+  const color = code.colors[index % code.colors.length];
+  const stripeCount = Math.floor(index / code.colors.length);
+  if (stripeCount === 0) return { color, stripe: null, stripeCount };
+  const stripe = color !== code.stripe ? code.stripe : code.stripe === "yellow" ? "black" : "yellow";
+  return { color, stripe, stripeCount };
+}
+
+// e.g. "blue", "blue with black stripe", "black with yellow double stripe"
+export function formatFiberMarking(marking: FiberMarking): string {
+  if (!marking.stripe) return marking.color;
+  const stripes = marking.stripeCount === 1 ? "stripe" : marking.stripeCount === 2 ? "double stripe" : `${marking.stripeCount} stripes`;
+  return `${marking.color} with ${marking.stripe} ${stripes}`;
+}
 
 // Helper function to get fiber color by index (0-11 for standard 12-fiber ribbon)
 export function getFiberColor(fiberIndex: number): FiberColor {
@@ -158,6 +574,190 @@ export function getFiberPositionInRibbon(fiberNumber: number, ribbonSize: number
   return ((fiberNumber - 1) % ribbonSize);
 }
 
+// The parts of a cable that say how its fibers are bundled: ribbons, loose fibers in buffer tubes,
+// or ribbons inside tubes. Cables that can't be found count as plain 12-fiber ribbon cables
+export type CableConstruction = Pick<Cable, "ribbonSize" | "tubeCount" | "fibersPerTube" | "ribbonsPerTube">;
+
+// Where a fiber sits in its cable; tube and ribbon are 1-indexed and null when the cable has none
+export interface FiberPosition {
+  tube: number | null;
+  ribbon: number | null; // Counted within the tube for ribbons inside tubes
+  strand: number; // 1-indexed position in its ribbon, or in its tube for loose fibers
+}
+
+export function isLooseTube(cable: CableConstruction | null | undefined): boolean {
+  return !!cable?.fibersPerTube;
+}
+
+// Fibers in the smallest bundle a splice row can cover without crossing into another one
+export function getFiberGroupSize(cable: CableConstruction | null | undefined): number {
+  if (!cable) return 12;
+  if (!cable.fibersPerTube) return cable.ribbonSize;
+  return cable.ribbonsPerTube ? cable.fibersPerTube / cable.ribbonsPerTube : cable.fibersPerTube;
+}
+
+// Last fiber of the ribbon or tube the given fiber is in
+export function getFiberGroupEnd(cable: CableConstruction | null | undefined, fiberNumber: number): number {
+  const groupSize = getFiberGroupSize(cable);
+  return Math.ceil(fiberNumber / groupSize) * groupSize;
+}
+
+export function getFiberPosition(cable: CableConstruction | null | undefined, fiberNumber: number): FiberPosition {
+  const groupSize = getFiberGroupSize(cable);
+  const strand = ((fiberNumber - 1) % groupSize) + 1;
+  if (!cable?.fibersPerTube) {
+    return { tube: null, ribbon: Math.ceil(fiberNumber / groupSize), strand };
+  }
+  const tube = Math.ceil(fiberNumber / cable.fibersPerTube);
+  const ribbon = cable.ribbonsPerTube ? Math.ceil((((fiberNumber - 1) % cable.fibersPerTube) + 1) / groupSize) : null;
+  return { tube, ribbon, strand };
+}
+
+// Short label of a fiber's bundle: "R2" for a ribbon, "T3" for a tube, "T3R1" for a ribbon in a tube
+export function formatFiberGroup(position: FiberPosition): string {
+  const tube = position.tube !== null ? `T${position.tube}` : "";
+  const ribbon = position.ribbon !== null ? `R${position.ribbon}` : "";
+  return tube + ribbon;
+}
+
+// "R2:5-8" for fibers in one ribbon or tube ("R2:5" for a single fiber), "R1:11-R2:2" across two
+export function formatFiberRange(cable: CableConstruction | null | undefined, fiberStart: number, fiberEnd: number): string {
+  const start = getFiberPosition(cable, fiberStart);
+  const end = getFiberPosition(cable, fiberEnd);
+  const startGroup = formatFiberGroup(start);
+  const endGroup = formatFiberGroup(end);
+  if (startGroup !== endGroup) return `${startGroup}:${start.strand}-${endGroup}:${end.strand}`;
+  return `${startGroup}:${start.strand}${start.strand !== end.strand ? `-${end.strand}` : ""}`;
+}
+
+// e.g. "12-fiber ribbons", "6 tubes of 12 fibers", "4 tubes of 2 x 12-fiber ribbons"
+export function describeCableConstruction(cable: CableConstruction): string {
+  if (!cable.fibersPerTube) return `${cable.ribbonSize}-fiber ribbons`;
+  const tubes = `${cable.tubeCount} tube${cable.tubeCount === 1 ? "" : "s"}`;
+  if (!cable.ribbonsPerTube) return `${tubes} of ${cable.fibersPerTube} fibers`;
+  return `${tubes} of ${cable.ribbonsPerTube} x ${cable.fibersPerTube / cable.ribbonsPerTube}-fiber ribbons`;
+}
+
+// Marking of a fiber's bundle: the tube's for loose-tube cables, otherwise the ribbon's
+export function getFiberGroupMarking(position: FiberPosition, code: ColorCode = defaultColorCode): FiberMarking {
+  return getFiberMarking(code, (position.tube ?? position.ribbon ?? 1) - 1);
+}
+
+// Marking of the fiber itself within its ribbon or tube
+export function getStrandMarking(position: FiberPosition, code: ColorCode = defaultColorCode): FiberMarking {
+  return getFiberMarking(code, position.strand - 1);
+}
+
+// Copper cables are built from 25-pair binder groups; above 600 pairs the binders are gathered into
+// super units so their colors don't repeat. Super units are marked with binder tapes too
+export const copperBinderSize = 25;
+export const copperSuperUnitSizes = [100, 600] as const;
+const maxPlainBinderPairs = 600;
+const superUnitBlock = 100; // Super unit cables come in whole 100-pair blocks, the last unit may be short
+
+// Tip and ring insulation of a 25-pair binder group; the nth binder tape and super unit use the nth pair's colors
+export const copperTipColors: FiberColor[] = ["white", "red", "black", "yellow", "violet"];
+export const copperRingColors: FiberColor[] = ["blue", "orange", "green", "brown", "slate"];
+
+export interface PairColors {
+  tip: FiberColor;
+  ring: FiberColor;
+}
+
+// Where a pair sits in its cable; superUnit is null on cables without super units
+export interface PairPosition {
+  superUnit: number | null;
+  binder: number; // Counted within the super unit
+  pair: number; // 1-indexed position in its binder
+}
+
+// Colors of the pair, binder tape or super unit tape at the given 0-based position, repeating every 25
+export function getPairColors(index: number): PairColors {
+  const position = ((index % 25) + 25) % 25;
+  return {
+    tip: copperTipColors[Math.floor(position / copperRingColors.length)],
+    ring: copperRingColors[position % copperRingColors.length],
+  };
+}
+
+// e.g. "white-blue"
+export function formatPairColors(colors: PairColors): string {
+  return `${colors.tip}-${colors.ring}`;
+}
+
+export function getPairPosition(cable: Pick<Cable, "superUnitSize"> | null | undefined, pairNumber: number): PairPosition {
+  const pair = ((pairNumber - 1) % copperBinderSize) + 1;
+  const binder = Math.ceil(pairNumber / copperBinderSize);
+  if (!cable?.superUnitSize) return { superUnit: null, binder, pair };
+  const bindersPerUnit = cable.superUnitSize / copperBinderSize;
+  return {
+    superUnit: Math.ceil(binder / bindersPerUnit),
+    binder: ((binder - 1) % bindersPerUnit) + 1,
+    pair,
+  };
+}
+
+// Short label of a pair's binder: "B7" on plain cables, "U2B3" for binder 3 of super unit 2
+export function formatPairGroup(position: PairPosition): string {
+  return `${position.superUnit !== null ? `U${position.superUnit}` : ""}B${position.binder}`;
+}
+
+// "U1B4:20-25" for pairs in one binder, "U1B4:24-U2B1:3" across two
+export function formatPairRange(cable: Pick<Cable, "superUnitSize"> | null | undefined, pairStart: number, pairEnd: number): string {
+  const start = getPairPosition(cable, pairStart);
+  const end = getPairPosition(cable, pairEnd);
+  const startGroup = formatPairGroup(start);
+  const endGroup = formatPairGroup(end);
+  if (startGroup !== endGroup) return `${startGroup}:${start.pair}-${endGroup}:${end.pair}`;
+  return `${startGroup}:${start.pair}${start.pair !== end.pair ? `-${end.pair}` : ""}`;
+}
+
+// e.g. "25-pair binders", "3 x 100-pair super units", "1 x 600 + 300-pair super units"
+export function describeCopperConstruction(cable: Pick<Cable, "fiberCount" | "superUnitSize">): string {
+  if (!cable.superUnitSize) return `${copperBinderSize}-pair binders`;
+  const fullUnits = Math.floor(cable.fiberCount / cable.superUnitSize);
+  const remainder = cable.fiberCount % cable.superUnitSize;
+  if (remainder === 0) return `${fullUnits} x ${cable.superUnitSize}-pair super units`;
+  return fullUnits > 0
+    ? `${fullUnits} x ${cable.superUnitSize} + ${remainder}-pair super units`
+    : `${remainder}-pair super unit`;
+}
+
+// Why a copper cable's pair count doesn't fit its binders and super units, or null when it does
+export function getCopperSizeError(pairCount: number, superUnitSize: number | null): string | null {
+  if (pairCount > copperBinderSize && pairCount % copperBinderSize !== 0) {
+    return `Cables over ${copperBinderSize} pairs come in whole ${copperBinderSize}-pair binders`;
+  }
+  if (superUnitSize === null) {
+    return pairCount > maxPlainBinderPairs
+      ? `Cables over ${maxPlainBinderPairs} pairs need super units, or their binder colors repeat`
+      : null;
+  }
+  if (!(copperSuperUnitSizes as readonly number[]).includes(superUnitSize)) {
+    return `Super units hold ${copperSuperUnitSizes.join(" or ")} pairs`;
+  }
+  if (pairCount % superUnitBlock !== 0) {
+    return `Super unit cables come in whole ${superUnitBlock}-pair blocks`;
+  }
+  if (Math.ceil(pairCount / superUnitSize) > 25) {
+    return `More than 25 super units of ${superUnitSize} pairs repeat their colors; use larger super units`;
+  }
+  return null;
+}
+
+// Helper to get the number of output ports for a splitter ratio (e.g. "1x32" => 32)
+export function getSplitterOutputCount(ratio: string): number {
+  return parseInt(ratio.split('x')[1], 10) || 0;
+}
+
+// Helper to get the circuit number range served by a splitter's output ports
+export function getSplitterPortRange(splitter: Pick<Splitter, "ratio" | "portStart">): { rangeStart: number; rangeEnd: number } {
+  return {
+    rangeStart: splitter.portStart,
+    rangeEnd: splitter.portStart + getSplitterOutputCount(splitter.ratio) - 1,
+  };
+}
+
 // Helper to parse circuit ID and extract fiber count
 // Examples: "lg,33-36" = 4 fibers, "b,1-2" = 2 fibers, "ks,219-228" = 10 fibers
 export function parseCircuitId(circuitId: string): number {
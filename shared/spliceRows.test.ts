@@ -0,0 +1,248 @@
+import { describe, expect, it } from "vitest";
+import type { Cable, Circuit, Splitter } from "./schema";
+import { buildSpliceRows, type SpliceRow } from "./spliceRows";
+
+function makeCable(id: string, type: "Feed" | "Distribution", fiberCount: number, construction: Partial<Cable> = {}): Cable {
+  return {
+    id,
+    name: id,
+    fiberCount,
+    ribbonSize: 12,
+    tubeCount: null,
+    fibersPerTube: null,
+    ribbonsPerTube: null,
+    colorCode: null,
+    superUnitSize: null,
+    type,
+    enclosureId: null,
+    lengthMeters: null,
+    attenuation1310: null,
+    attenuation1550: null,
+    ...construction,
+  };
+}
+
+// A distribution circuit spliced to feed fibers (or splitter ports) feedStart-feedEnd
+function makeCircuit(id: string, circuitId: string, fiberStart: number, fiberEnd: number, feed: Partial<Circuit> = {}): Circuit {
+  return {
+    id,
+    cableId: "dist",
+    enclosureId: null,
+    circuitId,
+    position: 0,
+    fiberStart,
+    fiberEnd,
+    isSpliced: 1,
+    feedCableId: "feed",
+    feedFiberStart: null,
+    feedFiberEnd: null,
+    splitterId: null,
+    spliceMethod: null,
+    ...feed,
+  };
+}
+
+const splitter: Splitter = {
+  id: "splitter",
+  enclosureId: null,
+  name: "S1",
+  ratio: "1x8",
+  location: null,
+  inputCableId: "feed",
+  inputFiber: 1,
+  portPrefix: "pon",
+  portStart: 1,
+};
+
+// The parts of each row that say what gets spliced to what
+function summarize(rows: SpliceRow[]) {
+  return rows.map(row => {
+    if (row.kind === "message") return { number: row.number, message: row.message };
+    if (row.kind === "splitter") return { number: row.number, ports: [row.portStart, row.portEnd], distStart: row.distStart, count: row.count, label: row.circuitLabel };
+    return { number: row.number, feedStart: row.feedStart, distStart: row.distStart, count: row.count, offset: row.offset, label: row.circuitLabel };
+  });
+}
+
+describe("buildSpliceRows", () => {
+  const feed = makeCable("feed", "Feed", 48);
+  const dist = makeCable("dist", "Distribution", 48);
+
+  describe("group view", () => {
+    it("keeps a circuit inside one ribbon as one row", () => {
+      const circuit = makeCircuit("c1", "pon,1-8", 1, 8, { feedFiberStart: 13, feedFiberEnd: 20 });
+      expect(summarize(buildSpliceRows([circuit], [feed, dist], [], true))).toEqual([
+        { number: 1, feedStart: 13, distStart: 1, count: 8, offset: 0, label: "pon,1-8" },
+      ]);
+    });
+
+    it("splits where the distribution fibers cross into the next ribbon", () => {
+      const circuit = makeCircuit("c1", "pon,1-8", 9, 16, { feedFiberStart: 1, feedFiberEnd: 8 });
+      expect(summarize(buildSpliceRows([circuit], [feed, dist], [], true))).toEqual([
+        { number: 1, feedStart: 1, distStart: 9, count: 4, offset: 0, label: "pon,1-4" },
+        { number: 2, feedStart: 5, distStart: 13, count: 4, offset: 4, label: "pon,5-8" },
+      ]);
+    });
+
+    it("splits where the feed fibers cross into the next ribbon", () => {
+      const circuit = makeCircuit("c1", "pon,1-8", 1, 8, { feedFiberStart: 7, feedFiberEnd: 14 });
+      expect(summarize(buildSpliceRows([circuit], [feed, dist], [], true))).toEqual([
+        { number: 1, feedStart: 7, distStart: 1, count: 6, offset: 0, label: "pon,1-6" },
+        { number: 2, feedStart: 13, distStart: 7, count: 2, offset: 6, label: "pon,7-8" },
+      ]);
+    });
+
+    it("splits at both sides' boundaries when they don't line up", () => {
+      const circuit = makeCircuit("c1", "pon,1-16", 5, 20, { feedFiberStart: 9, feedFiberEnd: 24 });
+      expect(summarize(buildSpliceRows([circuit], [feed, dist], [], true))).toEqual([
+        { number: 1, feedStart: 9, distStart: 5, count: 4, offset: 0, label: "pon,1-4" },
+        { number: 2, feedStart: 13, distStart: 9, count: 4, offset: 4, label: "pon,5-8" },
+        { number: 3, feedStart: 17, distStart: 13, count: 8, offset: 8, label: "pon,9-16" },
+      ]);
+    });
+
+    it("splits on the buffer tubes of loose-tube cables", () => {
+      const looseFeed = makeCable("feed", "Feed", 24, { tubeCount: 4, fibersPerTube: 6 });
+      const circuit = makeCircuit("c1", "pon,1-12", 1, 12);
+      expect(summarize(buildSpliceRows([circuit], [looseFeed, dist], [], true))).toEqual([
+        { number: 1, feedStart: 1, distStart: 1, count: 6, offset: 0, label: "pon,1-6" },
+        { number: 2, feedStart: 7, distStart: 7, count: 6, offset: 6, label: "pon,7-12" },
+      ]);
+    });
+
+    it("splits on the ribbons inside the tubes of ribbon-in-tube cables", () => {
+      const ribbonTubeDist = makeCable("dist", "Distribution", 48, { tubeCount: 2, fibersPerTube: 24, ribbonsPerTube: 4 });
+      const circuit = makeCircuit("c1", "pon,1-12", 1, 12);
+      expect(summarize(buildSpliceRows([circuit], [feed, ribbonTubeDist], [], true))).toEqual([
+        { number: 1, feedStart: 1, distStart: 1, count: 6, offset: 0, label: "pon,1-6" },
+        { number: 2, feedStart: 7, distStart: 7, count: 6, offset: 6, label: "pon,7-12" },
+      ]);
+    });
+
+    it("numbers rows across circuits", () => {
+      const circuits = [
+        makeCircuit("c1", "pon,1-8", 9, 16),
+        makeCircuit("c2", "pon,9-12", 17, 20),
+      ];
+      const rows = buildSpliceRows(circuits, [feed, dist], [], true);
+      expect(rows.map(row => [row.number, row.circuit.id])).toEqual([[1, "c1"], [2, "c1"], [3, "c2"]]);
+    });
+  });
+
+  describe("strand view", () => {
+    it("has one row per fiber", () => {
+      const circuit = makeCircuit("c1", "pon,5-8", 11, 14, { feedFiberStart: 21, feedFiberEnd: 24 });
+      expect(summarize(buildSpliceRows([circuit], [feed, dist], [], false))).toEqual([
+        { number: 1, feedStart: 21, distStart: 11, count: 1, offset: 0, label: "pon,5" },
+        { number: 2, feedStart: 22, distStart: 12, count: 1, offset: 1, label: "pon,6" },
+        { number: 3, feedStart: 23, distStart: 13, count: 1, offset: 2, label: "pon,7" },
+        { number: 4, feedStart: 24, distStart: 14, count: 1, offset: 3, label: "pon,8" },
+      ]);
+    });
+
+    it("covers the same fibers as group view", () => {
+      const circuit = makeCircuit("c1", "pon,1-16", 5, 20, { feedFiberStart: 9, feedFiberEnd: 24 });
+      const fibers = (rows: SpliceRow[]) => rows.flatMap(row =>
+        row.kind === "cable" ? Array.from({ length: row.count }, (_, i) => [row.feedStart + i, row.distStart + i]) : []
+      );
+      expect(fibers(buildSpliceRows([circuit], [feed, dist], [], false)))
+        .toEqual(fibers(buildSpliceRows([circuit], [feed, dist], [], true)));
+    });
+  });
+
+  describe("splitter rows", () => {
+    const circuit = makeCircuit("c1", "pon,1-4", 1, 4, { feedCableId: null, splitterId: "splitter", feedFiberStart: 3, feedFiberEnd: 6 });
+
+    it("has one row per circuit in group view", () => {
+      expect(summarize(buildSpliceRows([circuit], [feed, dist], [splitter], true))).toEqual([
+        { number: 1, ports: [3, 6], distStart: 1, count: 4, label: "pon,1-4" },
+      ]);
+    });
+
+    it("has one row per port in strand view", () => {
+      expect(summarize(buildSpliceRows([circuit], [feed, dist], [splitter], false))).toEqual([
+        { number: 1, ports: [3, 3], distStart: 1, count: 1, label: "pon,1" },
+        { number: 2, ports: [4, 4], distStart: 2, count: 1, label: "pon,2" },
+        { number: 3, ports: [5, 5], distStart: 3, count: 1, label: "pon,3" },
+        { number: 4, ports: [6, 6], distStart: 4, count: 1, label: "pon,4" },
+      ]);
+    });
+
+    it("doesn't split across distribution ribbons", () => {
+      const crossing = { ...circuit, fiberStart: 11, fiberEnd: 14 };
+      expect(summarize(buildSpliceRows([crossing], [feed, dist], [splitter], true))).toEqual([
+        { number: 1, ports: [3, 6], distStart: 11, count: 4, label: "pon,1-4" },
+      ]);
+    });
+  });
+
+  describe("copper grouping", () => {
+    const copperFeed = makeCable("feed", "Feed", 100, { ribbonSize: 25 });
+    const copperDist = makeCable("dist", "Distribution", 100, { ribbonSize: 25 });
+
+    it("splits on 25-pair binders", () => {
+      const circuit = makeCircuit("c1", "cp,1-10", 21, 30, { feedFiberStart: 21, feedFiberEnd: 30 });
+      expect(summarize(buildSpliceRows([circuit], [copperFeed, copperDist], [], true, "copper"))).toEqual([
+        { number: 1, feedStart: 21, distStart: 21, count: 5, offset: 0, label: "cp,1-5" },
+        { number: 2, feedStart: 26, distStart: 26, count: 5, offset: 5, label: "cp,6-10" },
+      ]);
+    });
+
+    it("ignores the fiber ribbon size", () => {
+      // 12-fiber ribbons would split this at 12 and 24
+      const circuit = makeCircuit("c1", "cp,1-25", 1, 25);
+      const cables = [makeCable("feed", "Feed", 100), makeCable("dist", "Distribution", 100)];
+      expect(summarize(buildSpliceRows([circuit], cables, [], true, "copper"))).toEqual([
+        { number: 1, feedStart: 1, distStart: 1, count: 25, offset: 0, label: "cp,1-25" },
+      ]);
+    });
+
+    it("splits super unit cables on their binders only", () => {
+      const superUnitFeed = makeCable("feed", "Feed", 1200, { ribbonSize: 25, superUnitSize: 100 });
+      const superUnitDist = makeCable("dist", "Distribution", 1200, { ribbonSize: 25, superUnitSize: 100 });
+      const circuit = makeCircuit("c1", "cp,1-60", 71, 130, { feedFiberStart: 71, feedFiberEnd: 130 });
+      expect(summarize(buildSpliceRows([circuit], [superUnitFeed, superUnitDist], [], true, "copper"))).toEqual([
+        { number: 1, feedStart: 71, distStart: 71, count: 5, offset: 0, label: "cp,1-5" },
+        { number: 2, feedStart: 76, distStart: 76, count: 25, offset: 5, label: "cp,6-30" },
+        { number: 3, feedStart: 101, distStart: 101, count: 25, offset: 30, label: "cp,31-55" },
+        { number: 4, feedStart: 126, distStart: 126, count: 5, offset: 55, label: "cp,56-60" },
+      ]);
+    });
+  });
+
+  describe("message rows", () => {
+    it("has no rows for a cable without circuits", () => {
+      expect(buildSpliceRows([], [feed, dist], [], true)).toEqual([]);
+    });
+
+    it("flags circuits that aren't spliced to anything", () => {
+      const unspliced = makeCircuit("c1", "pon,1-8", 1, 8, { feedCableId: null, isSpliced: 0 });
+      expect(summarize(buildSpliceRows([unspliced], [feed, dist], [], true))).toEqual([
+        { number: 1, message: "No feed cable selected" },
+      ]);
+      // One message per circuit in strand view too
+      expect(summarize(buildSpliceRows([unspliced], [feed, dist], [], false))).toEqual([
+        { number: 1, message: "No feed cable selected" },
+      ]);
+    });
+
+    it("flags circuits whose feed cable is gone", () => {
+      const orphaned = makeCircuit("c1", "pon,1-8", 1, 8, { feedCableId: "deleted" });
+      expect(summarize(buildSpliceRows([orphaned], [feed, dist], [], true))).toEqual([
+        { number: 1, message: "No feed cable selected" },
+      ]);
+    });
+
+    it("flags circuits without fiber positions or a parsable ID", () => {
+      const circuits = [
+        makeCircuit("c1", "pon,1-8", 0, 0),
+        makeCircuit("c2", "pon 9 to 12", 9, 12),
+        makeCircuit("c3", "pon,13-14", 13, 14),
+      ];
+      expect(summarize(buildSpliceRows(circuits, [feed, dist], [], true))).toEqual([
+        { number: 1, message: "Invalid fiber positions" },
+        { number: 2, message: "Invalid circuit ID format" },
+        { number: 3, feedStart: 13, distStart: 13, count: 2, offset: 0, label: "pon,13-14" },
+      ]);
+    });
+  });
+});
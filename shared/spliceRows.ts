@@ -0,0 +1,190 @@
+import {
+  type Cable,
+  type Circuit,
+  type Splitter,
+  copperBinderSize,
+  getFiberGroupEnd,
+  parseCircuitIdParts,
+} from "./schema";
+
+// What a splice row can cover: fiber cables split on their own ribbons or tubes, copper cables on
+// 25-pair binders (super units are whole binders, so they never need a split of their own)
+export type SpliceGrouping = "fiber" | "copper";
+
+interface SpliceRowBase {
+  number: number; // 1-indexed across the whole table, counting every row
+  circuit: Circuit;
+}
+
+// Feed fibers spliced straight to distribution fibers: one ribbon/binder segment, or a single strand/pair
+export interface CableSpliceRow extends SpliceRowBase {
+  kind: "cable";
+  feedCable: Cable;
+  distributionCable: Cable | undefined;
+  feedStart: number;
+  distStart: number;
+  count: number; // Fibers in the row, 1 in strand (pair) view
+  offset: number; // First fiber's position in the circuit, for sign-off targets
+  circuitLabel: string; // "pon,13-24" for a segment, "pon,13" for a strand
+}
+
+// Distribution fibers landed on splitter output ports: the whole circuit, or a single port
+export interface SplitterSpliceRow extends SpliceRowBase {
+  kind: "splitter";
+  splitter: Splitter;
+  distributionCable: Cable | undefined;
+  portStart: number;
+  portEnd: number;
+  distStart: number;
+  count: number;
+  offset: number;
+  circuitLabel: string;
+}
+
+// Circuits that can't be laid out, e.g. without a feed cable
+export interface MessageSpliceRow extends SpliceRowBase {
+  kind: "message";
+  distributionCable: Cable | undefined;
+  message: string; // e.g. "No feed cable selected"
+}
+
+export type SpliceRow = CableSpliceRow | SplitterSpliceRow | MessageSpliceRow;
+
+function groupEnd(grouping: SpliceGrouping, cable: Cable | undefined, fiber: number): number {
+  return grouping === "copper"
+    ? Math.ceil(fiber / copperBinderSize) * copperBinderSize
+    : getFiberGroupEnd(cable, fiber);
+}
+
+/**
+ * Lays spliced circuits out as splice rows, the one place the splice tabs, spreadsheet export and
+ * PDF sheets get their rows from. Group (ribbon/binder) view splits each circuit wherever the feed
+ * or distribution side crosses into another ribbon, tube or binder; unit (strand/pair) view has
+ * one row per fiber. Circuits on splitters get one row per circuit or per port.
+ */
+export function buildSpliceRows(
+  circuits: Circuit[],
+  cables: Cable[],
+  splitters: Splitter[],
+  useGroupView: boolean,
+  grouping: SpliceGrouping = "fiber"
+): SpliceRow[] {
+  const cablesById = new Map(cables.map(c => [c.id, c]));
+  const splittersById = new Map(splitters.map(s => [s.id, s]));
+  const rows: SpliceRow[] = [];
+
+  for (const circuit of circuits) {
+    const distributionCable = cablesById.get(circuit.cableId);
+    const splitter = circuit.splitterId ? splittersById.get(circuit.splitterId) : undefined;
+    const feedCable = circuit.feedCableId ? cablesById.get(circuit.feedCableId) : undefined;
+    const message = (text: string) => rows.push({ kind: "message", number: rows.length + 1, circuit, distributionCable, message: text });
+
+    let parsed: { prefix: string; rangeStart: number } | null = null;
+    try {
+      parsed = parseCircuitIdParts(circuit.circuitId);
+    } catch {
+      // Splitter rows can still show the raw circuit ID
+    }
+
+    if (!circuit.fiberStart || !circuit.fiberEnd) {
+      message("Invalid fiber positions");
+      continue;
+    }
+
+    if (splitter) {
+      const portStart = circuit.feedFiberStart ?? 1;
+      const portEnd = circuit.feedFiberEnd ?? portStart;
+      if (useGroupView) {
+        rows.push({
+          kind: "splitter",
+          number: rows.length + 1,
+          circuit,
+          splitter,
+          distributionCable,
+          portStart,
+          portEnd,
+          distStart: circuit.fiberStart,
+          count: circuit.fiberEnd - circuit.fiberStart + 1,
+          offset: 0,
+          circuitLabel: circuit.circuitId,
+        });
+      } else {
+        for (let i = 0; i <= circuit.fiberEnd - circuit.fiberStart; i++) {
+          rows.push({
+            kind: "splitter",
+            number: rows.length + 1,
+            circuit,
+            splitter,
+            distributionCable,
+            portStart: portStart + i,
+            portEnd: portStart + i,
+            distStart: circuit.fiberStart + i,
+            count: 1,
+            offset: i,
+            circuitLabel: parsed ? `${parsed.prefix},${parsed.rangeStart + i}` : circuit.circuitId,
+          });
+        }
+      }
+      continue;
+    }
+
+    if (!feedCable) {
+      message("No feed cable selected");
+      continue;
+    }
+    if (!parsed) {
+      message("Invalid circuit ID format");
+      continue;
+    }
+    const { prefix, rangeStart } = parsed;
+    const feedFiberStart = circuit.feedFiberStart || circuit.fiberStart;
+    const feedFiberEnd = circuit.feedFiberEnd || circuit.fiberEnd;
+
+    if (!useGroupView) {
+      for (let i = 0; i <= circuit.fiberEnd - circuit.fiberStart; i++) {
+        rows.push({
+          kind: "cable",
+          number: rows.length + 1,
+          circuit,
+          feedCable,
+          distributionCable,
+          feedStart: feedFiberStart + i,
+          distStart: circuit.fiberStart + i,
+          count: 1,
+          offset: i,
+          circuitLabel: `${prefix},${rangeStart + i}`,
+        });
+      }
+      continue;
+    }
+
+    // Split wherever either side crosses a ribbon/tube/binder boundary
+    let currentDistFiber = circuit.fiberStart;
+    let currentFeedFiber = feedFiberStart;
+    while (currentDistFiber <= circuit.fiberEnd) {
+      const distSegmentEnd = Math.min(groupEnd(grouping, distributionCable, currentDistFiber), circuit.fiberEnd);
+      const feedSegmentEnd = Math.min(groupEnd(grouping, feedCable, currentFeedFiber), feedFiberEnd);
+      // A feed range shorter than the circuit still covers every distribution fiber, one at a time
+      const count = Math.max(1, Math.min(distSegmentEnd - currentDistFiber + 1, feedSegmentEnd - currentFeedFiber + 1));
+      const offset = currentDistFiber - circuit.fiberStart;
+
+      rows.push({
+        kind: "cable",
+        number: rows.length + 1,
+        circuit,
+        feedCable,
+        distributionCable,
+        feedStart: currentFeedFiber,
+        distStart: currentDistFiber,
+        count,
+        offset,
+        circuitLabel: `${prefix},${rangeStart + offset}-${rangeStart + offset + count - 1}`,
+      });
+
+      currentDistFiber += count;
+      currentFeedFiber += count;
+    }
+  }
+
+  return rows;
+}
@@ -0,0 +1,101 @@
+import { z } from "zod";
+import {
+  cableSchema,
+  circuitSchema,
+  enclosureSchema,
+  fiberStatusSchema,
+  otdrTraceSchema,
+  spliceCompletionSchema,
+  splitterSchema,
+} from "./schema";
+
+// Tables kept in sync between devices; saves, logs and undo history stay on each device
+export const syncTables = ["enclosures", "splitters", "cables", "circuits", "spliceCompletions", "otdrTraces", "fiberStatuses"] as const;
+export type SyncTable = typeof syncTables[number];
+
+// The whole record a change writes, checked against its table's schema
+const recordSchemas = {
+  enclosures: enclosureSchema,
+  splitters: splitterSchema,
+  cables: cableSchema,
+  circuits: circuitSchema,
+  spliceCompletions: spliceCompletionSchema,
+  otdrTraces: otdrTraceSchema,
+  fiberStatuses: fiberStatusSchema,
+} satisfies Record<SyncTable, z.AnyZodObject>;
+
+function tableChangeSchema<T extends SyncTable>(table: T) {
+  return z.object({
+    table: z.literal(table),
+    recordId: z.string().min(1),
+    data: recordSchemas[table].nullable(), // null deletes the record
+    baseRevision: z.number().int().min(0),
+  });
+}
+
+// A local change pushed to the server. baseRevision is the server revision the device last saw
+// for the record (0 if never), so the server can tell when someone else changed it in between.
+export const syncChangeSchema = z.discriminatedUnion("table", [
+  tableChangeSchema("enclosures"),
+  tableChangeSchema("splitters"),
+  tableChangeSchema("cables"),
+  tableChangeSchema("circuits"),
+  tableChangeSchema("spliceCompletions"),
+  tableChangeSchema("otdrTraces"),
+  tableChangeSchema("fiberStatuses"),
+]).refine(
+  (change) => change.data === null || change.data.id === change.recordId,
+  { message: "The record's id doesn't match the change's recordId", path: ["data", "id"] }
+);
+
+export const syncPushSchema = z.object({
+  clientId: z.string().min(1),
+  // Project details, so the server's project list stays current
+  project: z.object({
+    name: z.string().min(1),
+    jobNumber: z.string().nullable(),
+    mode: z.enum(["fiber", "copper"]),
+    createdAt: z.string(),
+    lossSettings: z.string().nullable().optional(), // Left unchanged on the server when missing
+    colorCodes: z.string().nullable().optional(),
+  }),
+  changes: z.array(syncChangeSchema),
+});
+
+// Loose enough for the client to build from whatever is in its tables; the server parses pushes with syncChangeSchema
+export interface SyncChange {
+  table: SyncTable;
+  recordId: string;
+  data: Record<string, any> | null;
+  baseRevision: number;
+}
+export type SyncPushRequest = Omit<z.infer<typeof syncPushSchema>, "changes"> & { changes: SyncChange[] };
+
+// The server's copy of a record as of a revision
+export interface SyncRecord {
+  table: SyncTable;
+  recordId: string;
+  data: Record<string, any> | null;
+  revision: number;
+  clientId: string;
+}
+
+export interface SyncPushResponse {
+  applied: SyncRecord[]; // Accepted changes, with the revision they were stored as
+  conflicts: SyncRecord[]; // Changes made elsewhere first: the server's newer copy of each record
+  rejected: SyncRecord[]; // Changes the user's role doesn't allow: the server's copy to restore (null data, revision 0 if none)
+}
+
+export interface SyncPullResponse {
+  revision: number; // Latest revision in the project; pass it as `since` next time
+  changes: SyncRecord[]; // Newest copy of every record changed after `since`
+}
+
+// Records compare equal regardless of key order, and undefined fields count as missing (as in JSON)
+export function sameRecord(a: Record<string, any> | null, b: Record<string, any> | null): boolean {
+  if (a === null || b === null) return a === b;
+  const definedKeys = (record: Record<string, any>) => Object.keys(record).filter(key => record[key] !== undefined);
+  const keys = definedKeys(a);
+  if (keys.length !== definedKeys(b).length) return false;
+  return keys.every(key => JSON.stringify(a[key]) === JSON.stringify(b[key]));
+}
@@ -0,0 +1,17 @@
+import { defineConfig } from "vitest/config";
+import path from "path";
+
+export default defineConfig({
+  resolve: {
+    alias: {
+      "@": path.resolve(import.meta.dirname, "client", "src"),
+      "@shared": path.resolve(import.meta.dirname, "shared"),
+    },
+  },
+  test: {
+    include: ["{client,server,shared}/**/*.test.ts"],
+    environment: "node",
+    // The server's embedded database stays in memory and starts empty for each test file
+    env: { FIBERSPLICE_DATA_DIR: "memory://" },
+  },
+});